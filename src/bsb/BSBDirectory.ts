@@ -0,0 +1,266 @@
+/**
+ * BSB directory.
+ *
+ * Every Australian account is addressed by a BSB (Bank-State-Branch,
+ * NNN-NNN) and an account number. AusPayNet publishes the BSB file as CSV,
+ * one branch per line:
+ *
+ *   "BSB","Mnemonic","Name","Address","Suburb","State","Postcode","Flags"
+ *   "062-000","CBA","Sydney","Cnr Pitt & King Sts","Sydney","NSW","2000","PEH"
+ *
+ * Flags list the payment streams the branch accepts (P = paper,
+ * E = electronic/BECS, H = high value/RTGS). A branch with no streams is
+ * closed: it stays in the file so old payments can still be traced, but
+ * new payments to it must be refused.
+ *
+ * The directory is loaded from a local copy of the file; nothing is looked
+ * up over the network.
+ *
+ * Usage:
+ * ```typescript
+ * const directory = loadBSBDirectory('/data/BSBDirectory.csv');
+ * directory.lookup('062-000')?.institution;            // 'CBA'
+ * directory.validate('062-000', '12345678', 'E');      // { valid: true, entry }
+ * ```
+ */
+
+import fs from 'fs';
+
+/**
+ * Payment streams a branch can accept
+ */
+export type BSBPaymentStream = 'P' | 'E' | 'H';
+
+export interface BSBEntry {
+  /** NNN-NNN */
+  bsb: string;
+  /** Institution mnemonic, e.g. CBA */
+  institution: string;
+  branchName: string;
+  address: string;
+  suburb: string;
+  state: string;
+  postcode: string;
+  streams: BSBPaymentStream[];
+  /** No payment streams: the branch no longer accepts payments */
+  closed: boolean;
+}
+
+/**
+ * Why a BSB and account number were refused
+ */
+export enum BSBValidationFailure {
+  INVALID_BSB_FORMAT = 'INVALID_BSB_FORMAT',
+  UNKNOWN_BSB = 'UNKNOWN_BSB',
+  CLOSED_BSB = 'CLOSED_BSB',
+  STREAM_NOT_SUPPORTED = 'STREAM_NOT_SUPPORTED',
+  INVALID_ACCOUNT_NUMBER = 'INVALID_ACCOUNT_NUMBER',
+}
+
+export type BSBValidationResult =
+  | { valid: true; entry: BSBEntry }
+  | { valid: false; failure: BSBValidationFailure; message: string; entry?: BSBEntry };
+
+/**
+ * Raised when a BSB file cannot be read or parsed
+ */
+export class BSBDirectoryError extends Error {
+  constructor(message: string) {
+    super(`BSB_DIRECTORY_ERROR: ${message}`);
+    this.name = 'BSBDirectoryError';
+  }
+}
+
+const BSB_PATTERN = /^(\d{3})-?(\d{3})$/;
+const ACCOUNT_NUMBER_PATTERN = /^\d{1,9}$/;
+const STREAMS: readonly BSBPaymentStream[] = ['P', 'E', 'H'];
+
+/**
+ * Normalise a BSB to NNN-NNN
+ *
+ * @returns undefined if the BSB is not six digits (with optional hyphen)
+ */
+export function normalizeBSB(bsb: string): string | undefined {
+  const match = BSB_PATTERN.exec(bsb.trim());
+  return match ? `${match[1]}-${match[2]}` : undefined;
+}
+
+export class BSBDirectory {
+  private readonly entries: Map<string, BSBEntry>;
+
+  /**
+   * @param entries - Branches; a later entry for the same BSB replaces an earlier one
+   */
+  constructor(entries: BSBEntry[]) {
+    this.entries = new Map(entries.map((entry) => [entry.bsb, entry]));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Branch metadata for a BSB, open or closed
+   *
+   * @param bsb - NNN-NNN or NNNNNN
+   */
+  lookup(bsb: string): BSBEntry | undefined {
+    const normalized = normalizeBSB(bsb);
+    return normalized ? this.entries.get(normalized) : undefined;
+  }
+
+  /**
+   * Check a destination can receive a new payment.
+   *
+   * @param bsb - NNN-NNN or NNNNNN
+   * @param accountNumber - 1 to 9 digits, not all zeros
+   * @param stream - Stream the payment travels on (BECS = E, RTGS = H)
+   */
+  validate(bsb: string, accountNumber: string, stream?: BSBPaymentStream): BSBValidationResult {
+    const normalized = normalizeBSB(bsb);
+    if (!normalized) {
+      return {
+        valid: false,
+        failure: BSBValidationFailure.INVALID_BSB_FORMAT,
+        message: `BSB ${bsb} is not in NNN-NNN format`,
+      };
+    }
+
+    const entry = this.entries.get(normalized);
+    if (!entry) {
+      return {
+        valid: false,
+        failure: BSBValidationFailure.UNKNOWN_BSB,
+        message: `BSB ${normalized} is not in the BSB directory`,
+      };
+    }
+
+    if (entry.closed) {
+      return {
+        valid: false,
+        failure: BSBValidationFailure.CLOSED_BSB,
+        message: `BSB ${normalized} (${entry.institution} ${entry.branchName}) is closed`,
+        entry,
+      };
+    }
+
+    if (stream && !entry.streams.includes(stream)) {
+      return {
+        valid: false,
+        failure: BSBValidationFailure.STREAM_NOT_SUPPORTED,
+        message: `BSB ${normalized} does not accept ${stream} stream payments (accepts ${entry.streams.join('')})`,
+        entry,
+      };
+    }
+
+    if (!ACCOUNT_NUMBER_PATTERN.test(accountNumber) || /^0+$/.test(accountNumber)) {
+      return {
+        valid: false,
+        failure: BSBValidationFailure.INVALID_ACCOUNT_NUMBER,
+        message: `Account number ${accountNumber} must be 1 to 9 digits and not all zeros`,
+        entry,
+      };
+    }
+
+    return { valid: true, entry };
+  }
+}
+
+/**
+ * Parse the AusPayNet BSB file format.
+ *
+ * Blank lines and a leading header row are skipped.
+ *
+ * @param content - CSV text
+ * @throws BSBDirectoryError on a malformed line or BSB
+ */
+export function parseBSBDirectory(content: string): BSBDirectory {
+  const entries: BSBEntry[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+
+    const fields = parseCSVLine(line, index + 1);
+    if (index === 0 && /^bsb$/i.test(fields[0])) {
+      return;
+    }
+    if (fields.length !== 8) {
+      throw new BSBDirectoryError(`line ${index + 1}: expected 8 fields, got ${fields.length}`);
+    }
+
+    const [rawBsb, institution, branchName, address, suburb, state, postcode, flags] = fields;
+    const bsb = normalizeBSB(rawBsb);
+    if (!bsb) {
+      throw new BSBDirectoryError(`line ${index + 1}: invalid BSB ${rawBsb}`);
+    }
+
+    const streams = STREAMS.filter((stream) => flags.toUpperCase().includes(stream));
+    entries.push({
+      bsb,
+      institution,
+      branchName,
+      address,
+      suburb,
+      state,
+      postcode,
+      streams,
+      closed: streams.length === 0,
+    });
+  });
+
+  return new BSBDirectory(entries);
+}
+
+/**
+ * Load a BSB directory from a local copy of the BSB file.
+ *
+ * @param file - Path to the CSV file
+ * @throws BSBDirectoryError if the file cannot be read or parsed
+ */
+export function loadBSBDirectory(file: string): BSBDirectory {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    throw new BSBDirectoryError(`cannot load ${file}: ${(error as Error).message}`);
+  }
+  return parseBSBDirectory(content);
+}
+
+/**
+ * Split a CSV line, honouring double-quoted fields and "" escapes
+ */
+function parseCSVLine(line: string, lineNumber: number): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new BSBDirectoryError(`line ${lineNumber}: unterminated quoted field`);
+  }
+  fields.push(field.trim());
+  return fields;
+}
@@ -0,0 +1,7 @@
+/**
+ * BSB Directory - Public API
+ *
+ * Offline BSB file loading, branch metadata and destination validation.
+ */
+
+export * from './BSBDirectory';
@@ -0,0 +1,50 @@
+/**
+ * Australian business calendar.
+ *
+ * National and state public holidays are loaded from
+ * calendars/au_public_holidays.json (observed dates, Sydney time zone).
+ * Extend the file, and its coverage range, each year.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  BusinessCalendar,
+  BusinessCalendarOptions,
+  CalendarError,
+  HolidayCalendarData,
+} from './BusinessCalendar';
+
+/**
+ * Bundled Australian public holiday data
+ */
+export const AU_PUBLIC_HOLIDAYS_FILE = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../calendars/au_public_holidays.json',
+);
+
+/**
+ * Load an Australian business calendar.
+ *
+ * @param options - Observed states, cut-offs and session hours
+ * @param file - Holiday data file (default AU_PUBLIC_HOLIDAYS_FILE)
+ * @throws CalendarError if the file cannot be read or is malformed
+ */
+export function loadAustralianCalendar(
+  options: BusinessCalendarOptions = {},
+  file: string = AU_PUBLIC_HOLIDAYS_FILE,
+): BusinessCalendar {
+  let data: HolidayCalendarData;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new CalendarError(`cannot load ${file}: ${(error as Error).message}`);
+  }
+
+  if (!data.timeZone || !data.coverage || !Array.isArray(data.holidays)) {
+    throw new CalendarError(`${file} must define timeZone, coverage and holidays`);
+  }
+
+  return new BusinessCalendar(data, options);
+}
@@ -0,0 +1,326 @@
+/**
+ * Business-day and cut-off calendar.
+ *
+ * BECS and RTGS only move money on business days, and only before their
+ * cut-offs (local time in the calendar's time zone). A BusinessCalendar
+ * answers:
+ * - Is a date a business day? (weekends and observed public holidays are not)
+ * - What is the next business day, or the date N business days later?
+ * - Is an instant before a rail's cut-off, and which date does it stamp?
+ * - Which RITS session (if any) is open at an instant?
+ *
+ * Dates are YYYY-MM-DD strings, as on BECS events. Holidays come from a
+ * data file (see AustralianCalendar); dates outside the file's coverage
+ * throw CalendarError rather than silently counting as business days.
+ *
+ * NPP and Cards run 24/7: they have no cut-off and stamp the local date.
+ *
+ * Usage:
+ * ```typescript
+ * const calendar = loadAustralianCalendar({ states: ['NSW'] });
+ * calendar.nextBusinessDay('2024-12-24');           // '2024-12-27'
+ * calendar.isBeforeCutoff('BECS', new Date());
+ * calendar.processingDate('BECS', new Date());      // today or next business day
+ * calendar.rtgsSessionAt(new Date())?.session;      // 'DAILY_SETTLEMENT'
+ * ```
+ */
+
+import { Rail } from '../rails/Rail';
+
+export type AustralianState = 'NSW' | 'VIC' | 'QLD' | 'SA' | 'WA' | 'TAS' | 'ACT' | 'NT';
+
+export interface PublicHoliday {
+  /** YYYY-MM-DD (the observed date) */
+  date: string;
+  name: string;
+  /** States observing the holiday; absent = national */
+  states?: AustralianState[];
+}
+
+export interface HolidayCalendarData {
+  jurisdiction: string;
+  /** IANA time zone cut-offs and sessions are expressed in */
+  timeZone: string;
+  /** First and last date the holiday list is complete for */
+  coverage: { from: string; to: string };
+  holidays: PublicHoliday[];
+}
+
+/**
+ * RITS settlement sessions
+ */
+export enum RITSSession {
+  MORNING_SETTLEMENT = 'MORNING_SETTLEMENT',
+  DAILY_SETTLEMENT = 'DAILY_SETTLEMENT',
+  SETTLEMENT_CLOSE = 'SETTLEMENT_CLOSE',
+  EVENING_SETTLEMENT = 'EVENING_SETTLEMENT',
+}
+
+export interface RTGSSessionHours {
+  session: RITSSession;
+  /** Local opening time, HH:MM */
+  opens: string;
+  /** Local closing time, HH:MM (exclusive) */
+  closes: string;
+  /** Whether customer payments can be sent in this session */
+  customerPayments: boolean;
+}
+
+/**
+ * A session on a specific business day
+ */
+export interface RTGSSessionWindow {
+  session: RITSSession;
+  opensAt: Date;
+  closesAt: Date;
+  customerPayments: boolean;
+}
+
+/**
+ * Rails with a daily cut-off
+ */
+export type CutoffRail = Extract<Rail, 'BECS' | 'RTGS'>;
+
+/**
+ * Default RITS session hours (Sydney time)
+ *
+ * Customer payments settle in the daily session only.
+ */
+export const DEFAULT_RTGS_SESSIONS: RTGSSessionHours[] = [
+  { session: RITSSession.MORNING_SETTLEMENT, opens: '07:30', closes: '08:45', customerPayments: false },
+  { session: RITSSession.DAILY_SETTLEMENT, opens: '09:15', closes: '16:30', customerPayments: true },
+  { session: RITSSession.SETTLEMENT_CLOSE, opens: '16:30', closes: '17:15', customerPayments: false },
+  { session: RITSSession.EVENING_SETTLEMENT, opens: '17:15', closes: '20:30', customerPayments: false },
+];
+
+/**
+ * Default same-day cut-offs (local time, HH:MM)
+ *
+ * These can be customized per institution
+ */
+export const DEFAULT_CUTOFFS: Readonly<Record<CutoffRail, string>> = {
+  BECS: '16:00',
+  RTGS: '16:30',
+};
+
+export interface BusinessCalendarOptions {
+  /** State holidays to observe on top of national ones (default none) */
+  states?: AustralianState[];
+  /** Same-day cut-offs (default DEFAULT_CUTOFFS) */
+  cutoffs?: Partial<Record<CutoffRail, string>>;
+  /** RITS session hours (default DEFAULT_RTGS_SESSIONS) */
+  rtgsSessions?: RTGSSessionHours[];
+}
+
+/**
+ * Raised for dates the calendar cannot answer for
+ */
+export class CalendarError extends Error {
+  constructor(message: string) {
+    super(`CALENDAR_ERROR: ${message}`);
+    this.name = 'CalendarError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+export class BusinessCalendar {
+  readonly timeZone: string;
+  /** First and last dates (YYYY-MM-DD) the holiday data covers */
+  readonly coverage: { from: string; to: string };
+  private readonly holidays: Map<string, PublicHoliday>;
+  private readonly cutoffs: Record<CutoffRail, string>;
+  private readonly sessions: RTGSSessionHours[];
+  private readonly formatter: Intl.DateTimeFormat;
+
+  /**
+   * @param data - Holiday list, time zone and coverage
+   * @param options - Observed states, cut-offs and session hours
+   * @throws CalendarError if the data or options are malformed
+   */
+  constructor(data: HolidayCalendarData, options: BusinessCalendarOptions = {}) {
+    this.timeZone = data.timeZone;
+    this.coverage = data.coverage;
+    this.cutoffs = { ...DEFAULT_CUTOFFS, ...options.cutoffs };
+    this.sessions = options.rtgsSessions ?? DEFAULT_RTGS_SESSIONS;
+    this.formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: data.timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+
+    if (!DATE_PATTERN.test(data.coverage.from) || !DATE_PATTERN.test(data.coverage.to)) {
+      throw new CalendarError(`invalid coverage ${data.coverage.from}..${data.coverage.to}`);
+    }
+    for (const time of [
+      ...Object.values(this.cutoffs),
+      ...this.sessions.flatMap((hours) => [hours.opens, hours.closes]),
+    ]) {
+      if (!TIME_PATTERN.test(time)) {
+        throw new CalendarError(`invalid time ${time}, expected HH:MM`);
+      }
+    }
+
+    const states = new Set(options.states ?? []);
+    this.holidays = new Map();
+    for (const holiday of data.holidays) {
+      if (!DATE_PATTERN.test(holiday.date)) {
+        throw new CalendarError(`invalid holiday date ${holiday.date} (${holiday.name})`);
+      }
+      if (!holiday.states || holiday.states.some((state) => states.has(state))) {
+        this.holidays.set(holiday.date, holiday);
+      }
+    }
+  }
+
+  /**
+   * Observed public holiday on a date, if any
+   *
+   * @param date - YYYY-MM-DD
+   */
+  holidayOn(date: string): PublicHoliday | undefined {
+    this.assertCovered(date);
+    return this.holidays.get(date);
+  }
+
+  /**
+   * @param date - YYYY-MM-DD
+   * @returns false on weekends and observed public holidays
+   */
+  isBusinessDay(date: string): boolean {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return day !== 0 && day !== 6 && this.holidayOn(date) === undefined;
+  }
+
+  /**
+   * First business day strictly after a date
+   *
+   * @param date - YYYY-MM-DD
+   */
+  nextBusinessDay(date: string): string {
+    return this.addBusinessDays(date, 1);
+  }
+
+  /**
+   * Date N business days after a date (the date itself need not be one)
+   *
+   * @param date - YYYY-MM-DD
+   * @param days - Business days to add (0 returns the date unchanged)
+   */
+  addBusinessDays(date: string, days: number): string {
+    if (!Number.isInteger(days) || days < 0) {
+      throw new CalendarError(`business days must be a non-negative integer, got ${days}`);
+    }
+
+    let current = date;
+    for (let remaining = days; remaining > 0; ) {
+      current = addDays(current, 1);
+      if (this.isBusinessDay(current)) {
+        remaining--;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Local calendar date of an instant
+   */
+  localDate(instant: Date): string {
+    return this.localParts(instant).date;
+  }
+
+  /**
+   * Whether an instant is on a business day and before the rail's cut-off
+   *
+   * Always true for 24/7 rails (NPP, Cards).
+   */
+  isBeforeCutoff(rail: Rail, instant: Date): boolean {
+    if (rail !== 'BECS' && rail !== 'RTGS') {
+      return true;
+    }
+
+    const { date, time } = this.localParts(instant);
+    return this.isBusinessDay(date) && time < this.cutoffs[rail];
+  }
+
+  /**
+   * Date an instruction received at an instant is processed on: the local
+   * date if it is a business day before cut-off, else the next business day
+   */
+  processingDate(rail: Rail, instant: Date): string {
+    const date = this.localDate(instant);
+    if (rail !== 'BECS' && rail !== 'RTGS') {
+      return date;
+    }
+    return this.isBeforeCutoff(rail, instant) ? date : this.nextBusinessDay(date);
+  }
+
+  /**
+   * RITS sessions on a date (none on non-business days)
+   *
+   * @param date - YYYY-MM-DD
+   */
+  rtgsSessions(date: string): RTGSSessionWindow[] {
+    if (!this.isBusinessDay(date)) {
+      return [];
+    }
+
+    return this.sessions.map((hours) => ({
+      session: hours.session,
+      opensAt: this.instantAt(date, hours.opens),
+      closesAt: this.instantAt(date, hours.closes),
+      customerPayments: hours.customerPayments,
+    }));
+  }
+
+  /**
+   * RITS session open at an instant, if any
+   */
+  rtgsSessionAt(instant: Date): RTGSSessionWindow | undefined {
+    return this.rtgsSessions(this.localDate(instant)).find(
+      (window) => instant >= window.opensAt && instant < window.closesAt,
+    );
+  }
+
+  private assertCovered(date: string): void {
+    if (!DATE_PATTERN.test(date)) {
+      throw new CalendarError(`invalid date ${date}, expected YYYY-MM-DD`);
+    }
+    if (date < this.coverage.from || date > this.coverage.to) {
+      throw new CalendarError(
+        `${date} is outside holiday data coverage ${this.coverage.from}..${this.coverage.to}`,
+      );
+    }
+  }
+
+  private localParts(instant: Date): { date: string; time: string; offsetMs: number } {
+    const parts = Object.fromEntries(
+      this.formatter.formatToParts(instant).map((part) => [part.type, part.value]),
+    );
+    const date = `${parts.year}-${parts.month}-${parts.day}`;
+    const time = `${parts.hour}:${parts.minute}`;
+    const wall = Date.parse(`${date}T${time}:${parts.second}Z`);
+    return { date, time, offsetMs: wall - Math.floor(instant.getTime() / 1000) * 1000 };
+  }
+
+  /**
+   * Instant of a local wall-clock time on a date
+   */
+  private instantAt(date: string, time: string): Date {
+    const wall = Date.parse(`${date}T${time}:00Z`);
+    const guess = wall - this.localParts(new Date(wall)).offsetMs;
+    return new Date(wall - this.localParts(new Date(guess)).offsetMs);
+  }
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
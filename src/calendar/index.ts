@@ -0,0 +1,8 @@
+/**
+ * Business Calendar - Public API
+ *
+ * Business days, public holidays, cut-offs and RITS session windows.
+ */
+
+export * from './BusinessCalendar';
+export * from './AustralianCalendar';
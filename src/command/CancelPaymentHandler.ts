@@ -0,0 +1,145 @@
+/**
+ * CancelPayment command handler.
+ * 
+ * Cancels a payment that has not yet left the building:
+ * - NPP: ops override CANCEL (CREATED/AUTHORISED/SENT → FAILED)
+ * - BECS: PaymentFailed CANCELLED while AUTHORISED or BATCHED
+ * - RTGS: PaymentFailed CANCELLED before the payment is sent (incl. while
+ *   awaiting approval or queued)
+ * - Cards: not supported (void/reversal is a scheme flow)
+ */
+
+import { PaymentCommandHandler, LoadedPayment } from './PaymentCommandHandler';
+import { CancelPaymentCommand } from './PaymentCommands';
+import { validateCommand } from './validateCommand';
+import { COMMAND_OPERATOR_ID } from './RetryPaymentHandler';
+import { RailEventRecord } from '../rails/Rail';
+import { NPPPaymentState } from '../domain/npp/NPPPaymentState';
+import { BECSFailureReason, BECSPaymentState } from '../domain/becs/BECSPaymentState';
+import { canCancelBECSPayment } from '../domain/becs/BECSPayment';
+import { RTGSFailureReason, RTGSPaymentState } from '../domain/rtgs/RTGSPaymentState';
+import { StateTransitionError } from '../domain/shared/PaymentErrors';
+
+export class CancelPaymentHandler extends PaymentCommandHandler<CancelPaymentCommand> {
+  protected validate(command: CancelPaymentCommand): void {
+    validateCommand('CancelPaymentCommand', command);
+  }
+
+  protected async execute(command: CancelPaymentCommand): Promise<string> {
+    const loaded = await this.loadPayment(command.payment_id);
+    const occurredAt = this.now();
+    const record = this.cancellation(loaded, command, occurredAt);
+
+    return this.commit(command, loaded.version, [record], {
+      event_type: 'PaymentFailed',
+      occurred_at: occurredAt,
+      payload: {
+        payment_id: command.payment_id,
+        failure_code: 'CANCELLED',
+        failure_reason: command.reason,
+      },
+    });
+  }
+
+  /**
+   * Build the rail's cancellation event and run the rail's invariants on it.
+   */
+  private cancellation(
+    loaded: LoadedPayment,
+    command: CancelPaymentCommand,
+    occurredAt: Date,
+  ): RailEventRecord {
+    const paymentIntentId = command.payment_id;
+
+    switch (loaded.rail) {
+      case 'NPP': {
+        const { state } = loaded.payment;
+        if (
+          state !== NPPPaymentState.CREATED &&
+          state !== NPPPaymentState.AUTHORISED &&
+          state !== NPPPaymentState.SENT
+        ) {
+          throw new StateTransitionError(
+            'NPP',
+            state,
+            NPPPaymentState.FAILED,
+            `Invalid state transition: cannot cancel NPP payment ${paymentIntentId} in state ${state}`,
+          );
+        }
+        const record: RailEventRecord = {
+          rail: 'NPP',
+          event: {
+            type: 'OpsOverrideApplied',
+            paymentIntentId,
+            occurredAt,
+            operatorId: COMMAND_OPERATOR_ID,
+            action: 'CANCEL',
+            reason: command.reason,
+            fromState: state,
+            toState: NPPPaymentState.FAILED,
+            policyGate: 'command:CancelPayment',
+          },
+        };
+        this.rails.apply('NPP', loaded.payment, record.event);
+        return record;
+      }
+
+      case 'BECS': {
+        if (!canCancelBECSPayment(loaded.payment)) {
+          throw new StateTransitionError(
+            'BECS',
+            loaded.payment.state,
+            BECSPaymentState.FAILED,
+            `Invalid state transition: cannot cancel BECS payment ${paymentIntentId} in state ${loaded.payment.state}`,
+          );
+        }
+        const record: RailEventRecord = {
+          rail: 'BECS',
+          event: {
+            type: 'PaymentFailed',
+            paymentIntentId,
+            occurredAt,
+            batchId: loaded.payment.batchId,
+            reason: BECSFailureReason.CANCELLED,
+            fundsReleased: loaded.payment.amount,
+          },
+        };
+        this.rails.apply('BECS', loaded.payment, record.event);
+        return record;
+      }
+
+      case 'RTGS': {
+        const { state } = loaded.payment;
+        if (
+          state !== RTGSPaymentState.CREATED &&
+          state !== RTGSPaymentState.PENDING_APPROVAL &&
+          state !== RTGSPaymentState.APPROVED &&
+          state !== RTGSPaymentState.QUEUED
+        ) {
+          throw new StateTransitionError(
+            'RTGS',
+            state,
+            RTGSPaymentState.FAILED,
+            `Invalid state transition: cannot cancel RTGS payment ${paymentIntentId} in state ${state}`,
+          );
+        }
+        const record: RailEventRecord = {
+          rail: 'RTGS',
+          event: {
+            type: 'PaymentFailed',
+            paymentIntentId,
+            occurredAt,
+            reason: RTGSFailureReason.CANCELLED,
+            failureMessage: command.reason,
+            fundsReleased: loaded.payment.fundsEarmarked,
+          },
+        };
+        this.rails.apply('RTGS', loaded.payment, record.event);
+        return record;
+      }
+
+      case 'CARDS':
+        throw new Error('CancelPayment is not supported on CARDS');
+    }
+  }
+}
@@ -5,10 +5,18 @@
  * - Idempotency check before processing
  * - CommandRejected emission on rejection
  * - Consistent error handling
+ * 
+ * Rejections are classified by error type, never by message text:
+ * - CommandValidationError -> INVALID_SCHEMA
+ * - InsufficientFundsError -> INSUFFICIENT_FUNDS (required / available)
+ * - StateTransitionError -> INVALID_STATE_TRANSITION (from / to state)
+ * - InvariantError -> BUSINESS_RULE_VIOLATION naming the invariant
+ * - anything else -> BUSINESS_RULE_VIOLATION
  */
 
 import {
   getCommandIdempotencyStore,
+  fingerprintCommand,
   CommandIdempotencyStore,
 } from './CommandIdempotencyStore';
 import {
@@ -16,6 +24,13 @@ import {
   CommandRejectedEmitter,
   RejectionReason,
 } from './CommandRejectedEmitter';
+import { CommandValidationError } from './validateCommand';
+import {
+  InsufficientFundsError,
+  InvariantError,
+  StateTransitionError,
+} from '../domain/shared/PaymentErrors';
+import { toMajorUnits } from '../emit/envelope';
 
 export interface Command {
   command_id: string;
@@ -27,17 +42,27 @@ export interface Command {
 export interface CommandResult {
   success: boolean;
   event_id?: string;
+  /** true when event_id is the result of an earlier, identical command */
+  duplicate?: boolean;
   rejection_event_id?: string;
   reason?: string;
 }
 
+export interface CommandHandlerDependencies {
+  idempotencyStore?: CommandIdempotencyStore;
+  rejectedEmitter?: CommandRejectedEmitter;
+}
+
 export abstract class CommandHandler<T extends Command> {
   protected idempotencyStore: CommandIdempotencyStore;
   protected rejectedEmitter: CommandRejectedEmitter;
 
-  constructor() {
-    this.idempotencyStore = getCommandIdempotencyStore();
-    this.rejectedEmitter = getCommandRejectedEmitter();
+  /**
+   * @param deps - Optional dependencies (global singletons when omitted)
+   */
+  constructor(deps: CommandHandlerDependencies = {}) {
+    this.idempotencyStore = deps.idempotencyStore ?? getCommandIdempotencyStore();
+    this.rejectedEmitter = deps.rejectedEmitter ?? getCommandRejectedEmitter();
   }
 
   /**
@@ -47,21 +72,33 @@ export abstract class CommandHandler<T extends Command> {
    * @returns Command result
    */
   async handle(command: T): Promise<CommandResult> {
-    const { command_id, command_type, correlation_id } = command;
+    const { command_id, command_type, correlation_id, payment_id } = command;
+    const fingerprint = fingerprintCommand(command);
 
     // Step 1: Idempotency check
-    if (this.idempotencyStore.isProcessed(command_id)) {
-      // Emit CommandRejected for duplicate command
-      const rejection_event_id = await this.rejectedEmitter.emitDuplicateCommand(
-        command_id,
-        command_type,
-        correlation_id,
-      );
-
+    const record = await this.idempotencyStore.getRecord(command_id);
+    if (record) {
+      // Same command_id, different request: never treat as a duplicate
+      if (record.fingerprint !== undefined && record.fingerprint !== fingerprint) {
+        const rejection_event_id = await this.rejectedEmitter.emitCommandIdConflict(
+          command_id,
+          command_type,
+          correlation_id,
+          payment_id,
+        );
+
+        return {
+          success: false,
+          rejection_event_id,
+          reason: 'Command ID conflict',
+        };
+      }
+
+      // Genuine duplicate: return the original outcome
       return {
-        success: false,
-        rejection_event_id,
-        reason: 'Duplicate command',
+        success: true,
+        event_id: record.result_event_id,
+        duplicate: true,
       };
     }
 
@@ -73,7 +110,7 @@ export abstract class CommandHandler<T extends Command> {
       const event_id = await this.execute(command);
 
       // Step 4: Mark as processed
-      this.idempotencyStore.markProcessed(command_id, command_type, event_id);
+      await this.idempotencyStore.markProcessed(command_id, command_type, event_id, fingerprint);
 
       return {
         success: true,
@@ -113,34 +150,45 @@ export abstract class CommandHandler<T extends Command> {
     command: T,
     error: Error,
   ): Promise<CommandResult> {
-    const { command_id, command_type, correlation_id } = command;
+    const { command_id, command_type, correlation_id, payment_id } = command;
 
-    // Determine rejection reason
+    // Determine rejection reason from the error type
     let rejection_event_id: string;
 
-    if (error.message.includes('validation')) {
+    if (error instanceof CommandValidationError) {
       rejection_event_id = await this.rejectedEmitter.emitInvalidSchema(
         command_id,
         command_type,
         error.message,
         correlation_id,
+        payment_id,
       );
-    } else if (error.message.includes('insufficient funds')) {
-      // Extract amounts from error message (simplified)
+    } else if (error instanceof InsufficientFundsError) {
       rejection_event_id = await this.rejectedEmitter.emitInsufficientFunds(
         command_id,
         command_type,
-        0, // TODO: Extract from error
-        0, // TODO: Extract from error
+        toMajorUnits(error.required),
+        toMajorUnits(error.available),
         correlation_id,
+        payment_id,
       );
-    } else if (error.message.includes('state transition')) {
+    } else if (error instanceof StateTransitionError) {
       rejection_event_id = await this.rejectedEmitter.emitInvalidStateTransition(
         command_id,
         command_type,
-        'unknown', // TODO: Extract from error
-        'unknown', // TODO: Extract from error
+        error.from,
+        error.to ?? command_type,
+        correlation_id,
+        payment_id,
+      );
+    } else if (error instanceof InvariantError) {
+      rejection_event_id = await this.rejectedEmitter.emitInvariantViolation(
+        command_id,
+        command_type,
+        error.invariant,
+        error.detail,
         correlation_id,
+        payment_id,
       );
     } else {
       // Generic business rule violation
@@ -149,6 +197,7 @@ export abstract class CommandHandler<T extends Command> {
         command_type,
         error.message,
         correlation_id,
+        payment_id,
       );
     }
 
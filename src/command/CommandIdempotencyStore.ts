@@ -1,83 +1,219 @@
 /**
  * Command idempotency store for turing-payments-rails.
- * 
+ *
  * Ensures commands are processed exactly once.
- * 
+ *
  * Philosophy:
  * - Every command MUST have a unique command_id
- * - Duplicate command_id = CommandRejected event
  * - Idempotency check happens BEFORE any business logic
  * - Command_id is immutable (never reused)
+ * - A duplicate (same command_id, same request fingerprint) returns the
+ *   original result_event_id
+ * - A reused command_id with a different payload is a conflict and is
+ *   rejected with CommandRejected
+ *
+ * Records are kept for a retention period (TTL) and then forgotten, so
+ * the store does not grow without bound. Backends:
+ * - InMemoryCommandIdempotencyStore (process-local, tests and tooling)
+ * - FileCommandIdempotencyStore (one file per command, O_EXCL create)
+ * - SqliteCommandIdempotencyStore (node:sqlite, survives restarts)
  */
 
+import { canonicalHash } from '../domain/shared/CanonicalHash';
+
+/**
+ * Default retention for processed commands (7 days)
+ */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 export interface CommandRecord {
   command_id: string;
   command_type: string;
   processed_at: Date;
   result_event_id?: string;
+  /** Request fingerprint (see fingerprintCommand) */
+  fingerprint?: string;
+  /** When the record may be forgotten (null = retained forever) */
+  expires_at: Date | null;
 }
 
-export class CommandIdempotencyStore {
-  private processedCommands: Map<string, CommandRecord> = new Map();
+export interface CommandIdempotencyStoreOptions {
+  /** Retention per record in ms (default 7 days, Infinity = forever) */
+  ttlMs?: number;
+  /** Clock (defaults to the system clock) */
+  now?: () => Date;
+}
 
+/**
+ * Pluggable idempotency store backend.
+ *
+ * Expired records behave as if they were never written.
+ */
+export interface CommandIdempotencyStore {
   /**
    * Check if command has already been processed.
-   * 
+   *
    * @param command_id - Command ID to check
-   * @returns true if already processed, false otherwise
+   * @returns true if a live record exists
    */
-  isProcessed(command_id: string): boolean {
-    return this.processedCommands.has(command_id);
-  }
+  isProcessed(command_id: string): Promise<boolean>;
 
   /**
    * Get command record.
-   * 
+   *
    * @param command_id - Command ID
-   * @returns Command record or undefined
+   * @returns Live command record or undefined
    */
-  getRecord(command_id: string): CommandRecord | undefined {
-    return this.processedCommands.get(command_id);
-  }
+  getRecord(command_id: string): Promise<CommandRecord | undefined>;
 
   /**
    * Mark command as processed.
-   * 
+   *
    * @param command_id - Command ID
    * @param command_type - Command type
    * @param result_event_id - Optional result event ID
-   * @throws Error if command already processed
+   * @param fingerprint - Optional request fingerprint
+   * @throws CommandAlreadyProcessedError if a live record exists
    */
   markProcessed(
     command_id: string,
     command_type: string,
     result_event_id?: string,
-  ): void {
-    if (this.isProcessed(command_id)) {
-      throw new Error(`Command ${command_id} already processed`);
+    fingerprint?: string,
+  ): Promise<void>;
+
+  /**
+   * Delete expired records.
+   *
+   * @returns Number of records deleted
+   */
+  purgeExpired(): Promise<number>;
+
+  /**
+   * Get count of live processed commands.
+   *
+   * @returns Number of processed commands
+   */
+  count(): Promise<number>;
+
+  /**
+   * Clear all processed commands (for testing).
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Raised when a command_id is recorded twice.
+ */
+export class CommandAlreadyProcessedError extends Error {
+  constructor(public readonly command_id: string) {
+    super(`Command ${command_id} already processed`);
+    this.name = 'CommandAlreadyProcessedError';
+  }
+}
+
+/**
+ * Fingerprint a command request.
+ *
+ * Versioned canonical hash of the command body. The correlation ID is
+ * transport metadata (an HTTP header) and is left out, so a client retry
+ * with a fresh correlation ID is still the same request.
+ *
+ * @param command - Command as received
+ * @returns Fingerprint
+ */
+export function fingerprintCommand(command: { correlation_id?: string; [key: string]: unknown }): string {
+  const { correlation_id: _correlation_id, ...body } = command;
+  return canonicalHash(body);
+}
+
+/**
+ * Compute a record's expiry.
+ *
+ * @param processed_at - When the command was processed
+ * @param ttlMs - Retention in ms (Infinity = forever)
+ * @returns Expiry, or null when retained forever
+ */
+export function expiresAt(processed_at: Date, ttlMs: number): Date | null {
+  return Number.isFinite(ttlMs) ? new Date(processed_at.getTime() + ttlMs) : null;
+}
+
+/**
+ * Check whether a record has expired.
+ *
+ * @param record - Command record
+ * @param now - Current time
+ * @returns true if the record may be forgotten
+ */
+export function isExpired(record: CommandRecord, now: Date): boolean {
+  return record.expires_at !== null && record.expires_at.getTime() <= now.getTime();
+}
+
+export class InMemoryCommandIdempotencyStore implements CommandIdempotencyStore {
+  private processedCommands: Map<string, CommandRecord> = new Map();
+  private readonly ttlMs: number;
+  private readonly now: () => Date;
+
+  /**
+   * @param options - Retention and clock
+   */
+  constructor(options: CommandIdempotencyStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async isProcessed(command_id: string): Promise<boolean> {
+    return (await this.getRecord(command_id)) !== undefined;
+  }
+
+  async getRecord(command_id: string): Promise<CommandRecord | undefined> {
+    const record = this.processedCommands.get(command_id);
+    if (record && isExpired(record, this.now())) {
+      this.processedCommands.delete(command_id);
+      return undefined;
     }
+    return record;
+  }
 
+  async markProcessed(
+    command_id: string,
+    command_type: string,
+    result_event_id?: string,
+    fingerprint?: string,
+  ): Promise<void> {
+    if (await this.isProcessed(command_id)) {
+      throw new CommandAlreadyProcessedError(command_id);
+    }
+
+    const processed_at = this.now();
     this.processedCommands.set(command_id, {
       command_id,
       command_type,
-      processed_at: new Date(),
+      processed_at,
       result_event_id,
+      fingerprint,
+      expires_at: expiresAt(processed_at, this.ttlMs),
     });
   }
 
-  /**
-   * Get count of processed commands.
-   * 
-   * @returns Number of processed commands
-   */
-  count(): number {
+  async purgeExpired(): Promise<number> {
+    const now = this.now();
+    let purged = 0;
+    for (const [command_id, record] of this.processedCommands) {
+      if (isExpired(record, now)) {
+        this.processedCommands.delete(command_id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async count(): Promise<number> {
+    await this.purgeExpired();
     return this.processedCommands.size;
   }
 
-  /**
-   * Clear all processed commands (for testing).
-   */
-  clear(): void {
+  async clear(): Promise<void> {
     this.processedCommands.clear();
   }
 }
@@ -87,12 +223,21 @@ let globalStore: CommandIdempotencyStore | null = null;
 
 /**
  * Get global command idempotency store.
- * 
- * @returns Global store instance
+ *
+ * @returns Global store instance (in-memory unless replaced)
  */
 export function getCommandIdempotencyStore(): CommandIdempotencyStore {
   if (!globalStore) {
-    globalStore = new CommandIdempotencyStore();
+    globalStore = new InMemoryCommandIdempotencyStore();
   }
   return globalStore;
 }
+
+/**
+ * Replace the global command idempotency store (e.g. with a durable backend).
+ *
+ * @param store - Store used by handlers constructed without one
+ */
+export function setCommandIdempotencyStore(store: CommandIdempotencyStore): void {
+  globalStore = store;
+}
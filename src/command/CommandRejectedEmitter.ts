@@ -8,13 +8,17 @@
  * - CommandRejected is audit-only (no ledger mutation)
  * - Rejection reasons are machine-readable (reason_code)
  * - Rejection messages are human-readable (reason_message)
+ * - The payload carries no structured detail: amounts, states and
+ *   invariant IDs of a typed error appear only in reason_message
  */
 
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
 import { validateEvent } from '../emit/validateEvent';
+import { EventPublisher } from '../emit/emit_event';
 
 export enum RejectionReason {
   DUPLICATE_COMMAND = 'DUPLICATE_COMMAND',
+  COMMAND_ID_CONFLICT = 'COMMAND_ID_CONFLICT',
   INVALID_SCHEMA = 'INVALID_SCHEMA',
   BUSINESS_RULE_VIOLATION = 'BUSINESS_RULE_VIOLATION',
   INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
@@ -23,6 +27,21 @@ export enum RejectionReason {
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
 }
 
+/**
+ * Mapping from internal rejection reasons to the reason_code enum
+ * of schemas/command_rejected.v1.json.
+ */
+export const REJECTION_REASON_CODES: Record<RejectionReason, string> = {
+  [RejectionReason.DUPLICATE_COMMAND]: 'DUPLICATE_COMMAND',
+  [RejectionReason.COMMAND_ID_CONFLICT]: 'DUPLICATE_COMMAND',
+  [RejectionReason.INVALID_SCHEMA]: 'INVALID_SCHEMA',
+  [RejectionReason.BUSINESS_RULE_VIOLATION]: 'INVARIANT_VIOLATION',
+  [RejectionReason.INSUFFICIENT_FUNDS]: 'POLICY_DENIED',
+  [RejectionReason.INVALID_STATE_TRANSITION]: 'LIFECYCLE_MISMATCH',
+  [RejectionReason.AUTHORIZATION_FAILED]: 'POLICY_DENIED',
+  [RejectionReason.RATE_LIMIT_EXCEEDED]: 'POLICY_DENIED',
+};
+
 export interface CommandRejectedPayload {
   command_id: string;
   command_type: string;
@@ -30,10 +49,15 @@ export interface CommandRejectedPayload {
   reason_message: string;
   rejected_at: string;
   correlation_id?: string;
-  metadata?: Record<string, any>;
+  entity_id?: string;
 }
 
 export class CommandRejectedEmitter {
+  /**
+   * @param publisher - Optional event publisher (logs the event when omitted)
+   */
+  constructor(private readonly publisher?: EventPublisher) {}
+
   /**
    * Emit CommandRejected event.
    * 
@@ -41,30 +65,37 @@ export class CommandRejectedEmitter {
    * @returns Event ID
    */
   async emit(payload: CommandRejectedPayload): Promise<string> {
-    const event_id = uuidv4();
-    const occurred_at = new Date().toISOString();
+    const event_id = randomUUID();
 
     const event = {
       event_id,
-      event_type: 'command_rejected.v1',
-      occurred_at,
-      schema_version: 'v1',
+      event_type: 'CommandRejected',
+      event_version: 1,
+      occurred_at: payload.rejected_at,
+      producer: 'turing-payments-rails',
       correlation_id: payload.correlation_id || event_id,
+      causation_id: payload.command_id,
+      entity_type: 'PAYMENT',
+      // No entity yet (e.g. schema failure): key the envelope on the command
+      entity_id: payload.entity_id ?? payload.command_id,
       payload: {
         command_id: payload.command_id,
-        command_type: payload.command_type,
-        reason_code: payload.reason_code,
+        entity_type: 'PAYMENT',
+        entity_id: payload.entity_id ?? null,
+        reason_code: REJECTION_REASON_CODES[payload.reason_code],
         reason_message: payload.reason_message,
-        rejected_at: payload.rejected_at,
-        metadata: payload.metadata || {},
       },
     };
 
     // Validate event before emission
     validateEvent(event);
 
-    // Emit event (placeholder - actual implementation would publish to event bus)
-    console.log('[CommandRejected]', JSON.stringify(event, null, 2));
+    if (this.publisher) {
+      await this.publisher.publish(event);
+    } else {
+      // No publisher wired (e.g. local tooling) - log for audit
+      console.log('[CommandRejected]', JSON.stringify(event, null, 2));
+    }
 
     return event_id;
   }
@@ -75,12 +106,14 @@ export class CommandRejectedEmitter {
    * @param command_id - Command ID
    * @param command_type - Command type
    * @param correlation_id - Optional correlation ID
+   * @param entity_id - Optional payment ID the command targeted
    * @returns Event ID
    */
   async emitDuplicateCommand(
     command_id: string,
     command_type: string,
     correlation_id?: string,
+    entity_id?: string,
   ): Promise<string> {
     return this.emit({
       command_id,
@@ -89,6 +122,33 @@ export class CommandRejectedEmitter {
       reason_message: `Command ${command_id} has already been processed`,
       rejected_at: new Date().toISOString(),
       correlation_id,
+      entity_id,
+    });
+  }
+
+  /**
+   * Emit CommandRejected for a command_id reused with a different payload.
+   * 
+   * @param command_id - Command ID
+   * @param command_type - Command type
+   * @param correlation_id - Optional correlation ID
+   * @param entity_id - Optional payment ID the command targeted
+   * @returns Event ID
+   */
+  async emitCommandIdConflict(
+    command_id: string,
+    command_type: string,
+    correlation_id?: string,
+    entity_id?: string,
+  ): Promise<string> {
+    return this.emit({
+      command_id,
+      command_type,
+      reason_code: RejectionReason.COMMAND_ID_CONFLICT,
+      reason_message: `Command ${command_id} was already processed with a different payload`,
+      rejected_at: new Date().toISOString(),
+      correlation_id,
+      entity_id,
     });
   }
 
@@ -99,6 +159,7 @@ export class CommandRejectedEmitter {
    * @param command_type - Command type
    * @param validation_error - Validation error message
    * @param correlation_id - Optional correlation ID
+   * @param entity_id - Optional payment ID the command targeted
    * @returns Event ID
    */
   async emitInvalidSchema(
@@ -106,6 +167,7 @@ export class CommandRejectedEmitter {
     command_type: string,
     validation_error: string,
     correlation_id?: string,
+    entity_id?: string,
   ): Promise<string> {
     return this.emit({
       command_id,
@@ -114,7 +176,7 @@ export class CommandRejectedEmitter {
       reason_message: `Command validation failed: ${validation_error}`,
       rejected_at: new Date().toISOString(),
       correlation_id,
-      metadata: { validation_error },
+      entity_id,
     });
   }
 
@@ -125,6 +187,7 @@ export class CommandRejectedEmitter {
    * @param command_type - Command type
    * @param rule_violation - Business rule violation message
    * @param correlation_id - Optional correlation ID
+   * @param entity_id - Optional payment ID the command targeted
    * @returns Event ID
    */
   async emitBusinessRuleViolation(
@@ -132,6 +195,7 @@ export class CommandRejectedEmitter {
     command_type: string,
     rule_violation: string,
     correlation_id?: string,
+    entity_id?: string,
   ): Promise<string> {
     return this.emit({
       command_id,
@@ -140,7 +204,37 @@ export class CommandRejectedEmitter {
       reason_message: `Business rule violation: ${rule_violation}`,
       rejected_at: new Date().toISOString(),
       correlation_id,
-      metadata: { rule_violation },
+      entity_id,
+    });
+  }
+
+  /**
+   * Emit CommandRejected for a named domain invariant violation.
+   *
+   * @param command_id - Command ID
+   * @param command_type - Command type
+   * @param invariant - Invariant ID (docs/INVARIANTS_FROZEN.md)
+   * @param violation - Violation message
+   * @param correlation_id - Optional correlation ID
+   * @param entity_id - Optional payment ID the command targeted
+   * @returns Event ID
+   */
+  async emitInvariantViolation(
+    command_id: string,
+    command_type: string,
+    invariant: string,
+    violation: string,
+    correlation_id?: string,
+    entity_id?: string,
+  ): Promise<string> {
+    return this.emit({
+      command_id,
+      command_type,
+      reason_code: RejectionReason.BUSINESS_RULE_VIOLATION,
+      reason_message: `Invariant ${invariant} violated: ${violation}`,
+      rejected_at: new Date().toISOString(),
+      correlation_id,
+      entity_id,
     });
   }
 
@@ -152,6 +246,7 @@ export class CommandRejectedEmitter {
    * @param required_amount - Required amount
    * @param available_amount - Available amount
    * @param correlation_id - Optional correlation ID
+   * @param entity_id - Optional payment ID the command targeted
    * @returns Event ID
    */
   async emitInsufficientFunds(
@@ -160,6 +255,7 @@ export class CommandRejectedEmitter {
     required_amount: number,
     available_amount: number,
     correlation_id?: string,
+    entity_id?: string,
   ): Promise<string> {
     return this.emit({
       command_id,
@@ -168,7 +264,7 @@ export class CommandRejectedEmitter {
       reason_message: `Insufficient funds: required ${required_amount}, available ${available_amount}`,
       rejected_at: new Date().toISOString(),
       correlation_id,
-      metadata: { required_amount, available_amount },
+      entity_id,
     });
   }
 
@@ -180,6 +276,7 @@ export class CommandRejectedEmitter {
    * @param current_state - Current state
    * @param attempted_transition - Attempted transition
    * @param correlation_id - Optional correlation ID
+   * @param entity_id - Optional payment ID the command targeted
    * @returns Event ID
    */
   async emitInvalidStateTransition(
@@ -188,6 +285,7 @@ export class CommandRejectedEmitter {
     current_state: string,
     attempted_transition: string,
     correlation_id?: string,
+    entity_id?: string,
   ): Promise<string> {
     return this.emit({
       command_id,
@@ -196,7 +294,7 @@ export class CommandRejectedEmitter {
       reason_message: `Invalid state transition: ${current_state} -> ${attempted_transition}`,
       rejected_at: new Date().toISOString(),
       correlation_id,
-      metadata: { current_state, attempted_transition },
+      entity_id,
     });
   }
 }
@@ -0,0 +1,129 @@
+/**
+ * File-backed command idempotency store.
+ *
+ * One JSON file per command_id under a base directory, encoded with
+ * eventCodec. Records are created with O_EXCL, so two processes sharing
+ * the directory cannot both record the same command_id.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { encodeEvent, decodeEvent } from '../store/eventCodec';
+import {
+  CommandAlreadyProcessedError,
+  CommandIdempotencyStore,
+  CommandIdempotencyStoreOptions,
+  CommandRecord,
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+  expiresAt,
+  isExpired,
+} from './CommandIdempotencyStore';
+
+export interface FileCommandIdempotencyStoreOptions extends CommandIdempotencyStoreOptions {
+  /** Directory holding one `.json` file per command */
+  directory: string;
+}
+
+export class FileCommandIdempotencyStore implements CommandIdempotencyStore {
+  private readonly directory: string;
+  private readonly ttlMs: number;
+  private readonly now: () => Date;
+
+  /**
+   * @param options - Directory, retention and clock
+   */
+  constructor(options: FileCommandIdempotencyStoreOptions) {
+    this.directory = options.directory;
+    this.ttlMs = options.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS;
+    this.now = options.now ?? (() => new Date());
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  async isProcessed(command_id: string): Promise<boolean> {
+    return (await this.getRecord(command_id)) !== undefined;
+  }
+
+  async getRecord(command_id: string): Promise<CommandRecord | undefined> {
+    const record = this.readRecord(this.recordPath(command_id));
+    if (record && isExpired(record, this.now())) {
+      fs.rmSync(this.recordPath(command_id), { force: true });
+      return undefined;
+    }
+    return record;
+  }
+
+  async markProcessed(
+    command_id: string,
+    command_type: string,
+    result_event_id?: string,
+    fingerprint?: string,
+  ): Promise<void> {
+    // Forget an expired record so its command_id can be recorded again
+    await this.getRecord(command_id);
+
+    const processed_at = this.now();
+    const record: CommandRecord = {
+      command_id,
+      command_type,
+      processed_at,
+      result_event_id,
+      fingerprint,
+      expires_at: expiresAt(processed_at, this.ttlMs),
+    };
+
+    try {
+      fs.writeFileSync(this.recordPath(command_id), encodeEvent(record), { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new CommandAlreadyProcessedError(command_id);
+      }
+      throw error;
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = this.now();
+    let purged = 0;
+    for (const file of this.recordFiles()) {
+      const record = this.readRecord(file);
+      if (record && isExpired(record, now)) {
+        fs.rmSync(file, { force: true });
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async count(): Promise<number> {
+    await this.purgeExpired();
+    return this.recordFiles().length;
+  }
+
+  async clear(): Promise<void> {
+    for (const file of this.recordFiles()) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+
+  private readRecord(file: string): CommandRecord | undefined {
+    try {
+      return decodeEvent<CommandRecord>(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private recordFiles(): string[] {
+    return fs
+      .readdirSync(this.directory)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => path.join(this.directory, name));
+  }
+
+  private recordPath(command_id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(command_id)}.json`);
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * InitiatePayment command handler.
+ * 
+ * Creates a new payment stream on the requested rail:
+ * 1. Validate against InitiatePaymentCommand (openapi.yaml)
+ * 2. Map the command to the rail's PaymentIntentCreated event
+ * 3. Run the rail's creation invariants (and, for BECS and RTGS, check
+ *    the destination against the BSB directory).
+ *    NPP PayID destinations are normalised here and resolved later, when
+ *    the customer confirms the payee (PayeeConfirmed)
+ * 4. Append to a new stream (fails if payment_id already exists)
+ *    and emit PaymentInitiated
+ */
+
+import { PaymentCommandHandler, PaymentCommandHandlerDependencies } from './PaymentCommandHandler';
+import { InitiatePaymentCommand, PaymentDestinationType } from './PaymentCommands';
+import { CommandValidationError, validateCommand } from './validateCommand';
+import { NO_STREAM } from '../store/EventStore';
+import { Rail, RailEventRecord, RailIntentEvent } from '../rails/Rail';
+import { RTGSApprovalRole } from '../domain/rtgs/RTGSPaymentState';
+import { assertRTGSDestinationValid } from '../domain/rtgs/RTGSInvariants';
+import { assertBECSDestinationValid } from '../domain/becs/BECSInvariants';
+import { BSBDirectory } from '../bsb/BSBDirectory';
+import { parsePayID } from '../payid/PayIDResolver';
+import { toMinorUnits } from '../emit/envelope';
+
+/**
+ * Destination types each rail can pay to
+ */
+const RAIL_DESTINATION_TYPES: Record<Rail, PaymentDestinationType[]> = {
+  NPP: ['ACCOUNT', 'PAYID'],
+  BECS: ['ACCOUNT'],
+  RTGS: ['ACCOUNT'],
+  CARDS: ['CARD'],
+};
+
+/**
+ * BSB + account number destination, e.g. "062-000 12345678"
+ */
+const BSB_ACCOUNT_PATTERN = /^(\d{3})-?(\d{3})[ -](\d{5,9})$/;
+
+export class InitiatePaymentHandler extends PaymentCommandHandler<InitiatePaymentCommand> {
+  private bsbDirectory: BSBDirectory;
+
+  /**
+   * @param deps - Payment handler dependencies, including the BSB directory
+   */
+  constructor(deps: PaymentCommandHandlerDependencies) {
+    super(deps);
+    this.bsbDirectory = deps.bsbDirectory;
+  }
+
+  protected validate(command: InitiatePaymentCommand): void {
+    validateCommand('InitiatePaymentCommand', command);
+
+    const { rail, destination } = command;
+    if (!RAIL_DESTINATION_TYPES[rail].includes(destination.type)) {
+      throw new CommandValidationError(
+        'InitiatePaymentCommand',
+        [],
+        `destination type ${destination.type} is not supported on ${rail}`,
+      );
+    }
+
+    if (destination.type === 'PAYID' && !parsePayID(destination.value)) {
+      throw new CommandValidationError(
+        'InitiatePaymentCommand',
+        [],
+        `destination ${destination.value} is not a valid PayID`,
+      );
+    }
+
+    if (rail === 'RTGS') {
+      if (!command.initiator_id) {
+        throw new CommandValidationError(
+          'InitiatePaymentCommand',
+          [],
+          'initiator_id is required for RTGS',
+        );
+      }
+      if (!BSB_ACCOUNT_PATTERN.test(destination.value)) {
+        throw new CommandValidationError(
+          'InitiatePaymentCommand',
+          [],
+          'RTGS destination must be a BSB and account number',
+        );
+      }
+    }
+  }
+
+  protected async execute(command: InitiatePaymentCommand): Promise<string> {
+    const { payment_id } = command;
+
+    if ((await this.eventStore.streamVersion(payment_id)) !== NO_STREAM) {
+      throw new Error(`Payment ${payment_id} already exists`);
+    }
+
+    const occurredAt = this.now();
+    const record = this.createIntent(command, occurredAt);
+
+    return this.commit(command, NO_STREAM, [record], {
+      event_type: 'PaymentInitiated',
+      occurred_at: occurredAt,
+      payload: {
+        payment_id,
+        rail: command.rail,
+        amount: command.amount,
+        currency: command.currency,
+        source_account_id: command.source_account_id,
+        destination: { ...command.destination },
+      },
+    });
+  }
+
+  /**
+   * Map the command to the rail's PaymentIntentCreated event and run the
+   * rail's creation invariants on it.
+   */
+  private createIntent(command: InitiatePaymentCommand, occurredAt: Date): RailEventRecord {
+    const common = {
+      type: 'PaymentIntentCreated' as const,
+      paymentIntentId: command.payment_id,
+      occurredAt,
+      amount: toMinorUnits(command.amount),
+      currency: command.currency,
+      idempotencyKey: command.command_id,
+    };
+    const destination = command.destination.value;
+    const bsbAccount = BSB_ACCOUNT_PATTERN.exec(destination);
+
+    switch (command.rail) {
+      case 'NPP': {
+        // validate() guarantees a PayID destination parses
+        const payId = command.destination.type === 'PAYID' ? parsePayID(destination)! : undefined;
+        const event: RailIntentEvent<'NPP'> = {
+          ...common,
+          fromAccountId: command.source_account_id,
+          toAccountId: destination,
+          payId: payId?.payId,
+          payIdType: payId?.payIdType,
+        };
+        this.rails.initiate('NPP', event);
+        return { rail: 'NPP', event };
+      }
+
+      case 'BECS': {
+        const event: RailIntentEvent<'BECS'> = {
+          ...common,
+          fromAccountId: command.source_account_id,
+          toAccountId: destination,
+          bsb: bsbAccount ? `${bsbAccount[1]}-${bsbAccount[2]}` : undefined,
+          accountNumber: bsbAccount ? bsbAccount[3] : undefined,
+        };
+        this.rails.initiate('BECS', event);
+        assertBECSDestinationValid(event, this.bsbDirectory);
+        return { rail: 'BECS', event };
+      }
+
+      case 'RTGS': {
+        // validate() guarantees initiator_id and a BSB + account destination
+        const event: RailIntentEvent<'RTGS'> = {
+          ...common,
+          fromAccountId: command.source_account_id,
+          toAccountId: destination,
+          bsb: `${bsbAccount![1]}-${bsbAccount![2]}`,
+          accountNumber: bsbAccount![3],
+          initiatorId: command.initiator_id!,
+          initiatorRole: RTGSApprovalRole.INITIATOR,
+        };
+        this.rails.initiate('RTGS', event);
+        assertRTGSDestinationValid(event, this.bsbDirectory);
+        return { rail: 'RTGS', event };
+      }
+
+      case 'CARDS': {
+        const event: RailIntentEvent<'CARDS'> = {
+          ...common,
+          cardToken: destination,
+          merchantId: command.source_account_id,
+        };
+        this.rails.initiate('CARDS', event);
+        return { rail: 'CARDS', event };
+      }
+    }
+  }
+}
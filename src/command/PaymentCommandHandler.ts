@@ -0,0 +1,129 @@
+/**
+ * Base class for payment command handlers.
+ * 
+ * Adds event-sourced persistence to CommandHandler:
+ * - Load the aggregate by replaying its stream from the event store
+ * - Append the resulting domain events with optimistic concurrency
+ * - Emit the outward-facing envelope
+ * 
+ * When the event store implements the transactional outbox, the envelope
+ * is validated and committed with the domain events, and OutboxRelay
+ * delivers it. Otherwise it is published through emitEvent() after the
+ * append (a crash in between loses the envelope).
+ * 
+ * Streams are keyed by payment_id and hold rail-tagged records, so a
+ * Retry or Cancel command does not need to know which rail it targets.
+ * RTGS approvals in a stream are re-checked against the approver registry
+ * on every load, so a registry is always required.
+ */
+
+import { CommandHandler, Command, CommandHandlerDependencies } from './CommandHandler';
+import { EventStore } from '../store/EventStore';
+import { isOutboxEventStore } from '../outbox/Outbox';
+import { PaymentsRails } from '../rails/PaymentsRails';
+import { createRailAdapters } from '../rails/RailAdapters';
+import { RTGSApproverRegistry } from '../domain/rtgs/RTGSApproverRegistry';
+import { RTGSApprovalPolicy } from '../domain/rtgs/RTGSApprovalPolicy';
+import { BECSReturnWindowPolicy } from '../domain/becs/BECSReturnWindow';
+import { RailEventRecord, RailPaymentRecord } from '../rails/Rail';
+import { BSBDirectory } from '../bsb/BSBDirectory';
+import { EventEnvelope, createEnvelope } from '../emit/envelope';
+import { emitEvent } from '../emit/emit_event';
+import { validateEvent } from '../emit/validateEvent';
+
+export interface PaymentCommandHandlerDependencies extends CommandHandlerDependencies {
+  eventStore: EventStore<RailEventRecord>;
+  /** Who may approve RTGS payments */
+  approvers: RTGSApproverRegistry;
+  /** Institution RTGS approval policy (default DEFAULT_RTGS_APPROVAL_POLICY) */
+  approvalPolicy?: RTGSApprovalPolicy;
+  /** Institution BECS return windows (default DEFAULT_BECS_RETURN_WINDOW_POLICY) */
+  returnWindowPolicy?: BECSReturnWindowPolicy;
+  /** Facade used to replay payments (default: checks RTGS approvals against approvers) */
+  rails?: PaymentsRails;
+  now?: () => Date;
+  /** Validates BECS and RTGS destinations at intent creation; an empty directory refuses them all */
+  bsbDirectory: BSBDirectory;
+}
+
+export type LoadedPayment = RailPaymentRecord & { version: number };
+
+/**
+ * Outward-facing envelope for a command outcome
+ */
+export interface PaymentOutcome {
+  event_type: string;
+  occurred_at: Date;
+  payload: Record<string, unknown> & { payment_id: string };
+}
+
+export abstract class PaymentCommandHandler<T extends Command> extends CommandHandler<T> {
+  protected eventStore: EventStore<RailEventRecord>;
+  protected rails: PaymentsRails;
+  protected now: () => Date;
+
+  /**
+   * @param deps - Event store and approver registry, plus optional policy, facade, clock and base dependencies
+   */
+  constructor(deps: PaymentCommandHandlerDependencies) {
+    super(deps);
+    this.eventStore = deps.eventStore;
+    this.rails = deps.rails ?? new PaymentsRails(createRailAdapters(deps.approvers, deps.approvalPolicy, deps.returnWindowPolicy));
+    this.now = deps.now ?? (() => new Date());
+  }
+
+  /**
+   * Load a payment by replaying its stream.
+   * 
+   * @param payment_id - Payment (stream) ID
+   * @returns Rebuilt payment, its rail and the stream version
+   * @throws Error if the payment does not exist
+   */
+  protected async loadPayment(payment_id: string): Promise<LoadedPayment> {
+    const stored = await this.eventStore.readStream(payment_id);
+
+    if (stored.length === 0) {
+      throw new Error(`Payment ${payment_id} not found`);
+    }
+
+    const record = this.rails.rebuildRecords(stored.map((s) => s.event));
+    return { ...record, version: stored[stored.length - 1].version };
+  }
+
+  /**
+   * Append domain events and emit the envelope for the command outcome.
+   * 
+   * @param command - Command that caused the events
+   * @param expectedVersion - Stream version the events were derived from
+   * @param records - Domain events to append
+   * @param outcome - Envelope event type, timestamp and payload
+   * @returns Event ID of the envelope
+   */
+  protected async commit(
+    command: T,
+    expectedVersion: number,
+    records: RailEventRecord[],
+    outcome: PaymentOutcome,
+  ): Promise<string> {
+    const { event_type, occurred_at, payload } = outcome;
+    const envelope: EventEnvelope = createEnvelope({
+      event_type,
+      entity_id: payload.payment_id,
+      occurred_at,
+      payload,
+      correlation_id: command.correlation_id ?? command.command_id,
+      causation_id: command.command_id,
+    });
+
+    if (isOutboxEventStore(this.eventStore)) {
+      // Same rule as emitEvent: an invalid envelope never enters the outbox
+      validateEvent(envelope);
+      await this.eventStore.appendWithOutbox(payload.payment_id, expectedVersion, records, [envelope]);
+    } else {
+      await this.eventStore.append(payload.payment_id, expectedVersion, records);
+      await emitEvent(envelope);
+    }
+
+    return envelope.event_id;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Payment commands accepted by turing-payments-rails.
+ * 
+ * Shapes mirror the component schemas in openapi.yaml
+ * (InitiatePaymentCommand, RetryPaymentCommand, CancelPaymentCommand).
+ * `command_type` and `correlation_id` are transport metadata added by
+ * the caller, not part of the request body.
+ */
+
+import { Command } from './CommandHandler';
+import { Rail } from '../rails/Rail';
+
+export type PaymentDestinationType = 'ACCOUNT' | 'PAYID' | 'CARD';
+
+export interface PaymentDestination {
+  type: PaymentDestinationType;
+  value: string;
+}
+
+export interface InitiatePaymentCommand extends Command {
+  command_type: 'InitiatePayment';
+  payment_id: string;
+  rail: Rail;
+  amount: number;
+  currency: 'AUD';
+  source_account_id: string;
+  destination: PaymentDestination;
+  initiator_id?: string;
+}
+
+export interface RetryPaymentCommand extends Command {
+  command_type: 'RetryPayment';
+  payment_id: string;
+}
+
+export interface CancelPaymentCommand extends Command {
+  command_type: 'CancelPayment';
+  payment_id: string;
+  reason: string;
+}
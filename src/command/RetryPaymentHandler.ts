@@ -0,0 +1,81 @@
+/**
+ * RetryPayment command handler.
+ * 
+ * Only NPP models a retry in its lifecycle (ops override FAILED → AUTHORISED
+ * followed by a fresh attempt). BECS, RTGS and Cards failures are terminal
+ * and are rejected.
+ */
+
+import { randomUUID } from 'crypto';
+import { PaymentCommandHandler } from './PaymentCommandHandler';
+import { RetryPaymentCommand } from './PaymentCommands';
+import { validateCommand } from './validateCommand';
+import { RailEventMap } from '../rails/Rail';
+import { NPPPaymentState } from '../domain/npp/NPPPaymentState';
+import { StateTransitionError } from '../domain/shared/PaymentErrors';
+
+/**
+ * Operator and policy gate recorded on command-driven ops overrides
+ */
+export const COMMAND_OPERATOR_ID = 'command-api';
+
+export class RetryPaymentHandler extends PaymentCommandHandler<RetryPaymentCommand> {
+  protected validate(command: RetryPaymentCommand): void {
+    validateCommand('RetryPaymentCommand', command);
+  }
+
+  protected async execute(command: RetryPaymentCommand): Promise<string> {
+    const loaded = await this.loadPayment(command.payment_id);
+
+    if (loaded.rail !== 'NPP') {
+      throw new Error(`RetryPayment is not supported on ${loaded.rail}`);
+    }
+
+    const { payment, version } = loaded;
+    if (payment.state !== NPPPaymentState.FAILED) {
+      throw new StateTransitionError(
+        'NPP',
+        payment.state,
+        NPPPaymentState.AUTHORISED,
+        `Invalid state transition: cannot retry NPP payment ${payment.paymentIntentId} in state ${payment.state}`,
+      );
+    }
+
+    const occurredAt = this.now();
+    const attemptId = randomUUID();
+    const events: RailEventMap['NPP'][] = [
+      {
+        type: 'OpsOverrideApplied',
+        paymentIntentId: payment.paymentIntentId,
+        occurredAt,
+        operatorId: COMMAND_OPERATOR_ID,
+        action: 'RETRY',
+        reason: `RetryPayment command ${command.command_id}`,
+        fromState: NPPPaymentState.FAILED,
+        toState: NPPPaymentState.AUTHORISED,
+        policyGate: 'command:RetryPayment',
+      },
+      {
+        type: 'PaymentAttemptCreated',
+        paymentIntentId: payment.paymentIntentId,
+        occurredAt,
+        attemptId,
+        rail: 'NPP',
+      },
+    ];
+
+    // Run NPP invariants before anything is persisted
+    events.reduce((current, event) => this.rails.apply('NPP', current, event), payment);
+
+    return this.commit(
+      command,
+      version,
+      events.map((event) => ({ rail: 'NPP' as const, event })),
+      {
+        event_type: 'PaymentAttemptCreated',
+        occurred_at: occurredAt,
+        payload: { payment_id: command.payment_id, attempt_id: attemptId, rail: 'NPP' },
+      },
+    );
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * SQLite-backed command idempotency store.
+ *
+ * Uses the built-in `node:sqlite` module (Node >= 22), like
+ * SqliteEventStore, and may share its database file.
+ *
+ * Concurrency:
+ * - PRIMARY KEY (command_id) rejects a second record even if two
+ *   processes race past the isProcessed check
+ * - Expired records are deleted in the same transaction as the insert
+ */
+
+import type { DatabaseSync } from 'node:sqlite';
+import { openSqliteDatabase } from '../store/SqliteEventStore';
+import {
+  CommandAlreadyProcessedError,
+  CommandIdempotencyStore,
+  CommandIdempotencyStoreOptions,
+  CommandRecord,
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+  expiresAt,
+} from './CommandIdempotencyStore';
+
+interface CommandRow {
+  command_id: string;
+  command_type: string;
+  processed_at: string;
+  result_event_id: string | null;
+  fingerprint: string | null;
+  expires_at: string | null;
+}
+
+export interface SqliteCommandIdempotencyStoreOptions extends CommandIdempotencyStoreOptions {
+  /** Database file path (":memory:" for an in-process database) */
+  filename: string;
+}
+
+export class SqliteCommandIdempotencyStore implements CommandIdempotencyStore {
+  private readonly db: DatabaseSync;
+  private readonly ttlMs: number;
+  private readonly now: () => Date;
+
+  /**
+   * @param options - Database file, retention and clock
+   */
+  constructor(options: SqliteCommandIdempotencyStoreOptions) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS;
+    this.now = options.now ?? (() => new Date());
+    this.db = openSqliteDatabase(options.filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS processed_commands (
+        command_id      TEXT PRIMARY KEY,
+        command_type    TEXT NOT NULL,
+        processed_at    TEXT NOT NULL,
+        result_event_id TEXT,
+        fingerprint     TEXT,
+        expires_at      TEXT
+      );
+      CREATE INDEX IF NOT EXISTS processed_commands_expiry ON processed_commands (expires_at);
+    `);
+  }
+
+  async isProcessed(command_id: string): Promise<boolean> {
+    return (await this.getRecord(command_id)) !== undefined;
+  }
+
+  async getRecord(command_id: string): Promise<CommandRecord | undefined> {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM processed_commands
+         WHERE command_id = ? AND (expires_at IS NULL OR expires_at > ?)`,
+      )
+      .get(command_id, this.now().toISOString()) as CommandRow | undefined;
+    return row ? toCommandRecord(row) : undefined;
+  }
+
+  async markProcessed(
+    command_id: string,
+    command_type: string,
+    result_event_id?: string,
+    fingerprint?: string,
+  ): Promise<void> {
+    const processed_at = this.now();
+    const expires_at = expiresAt(processed_at, this.ttlMs);
+
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      this.db
+        .prepare('DELETE FROM processed_commands WHERE command_id = ? AND expires_at <= ?')
+        .run(command_id, processed_at.toISOString());
+      this.db
+        .prepare(
+          `INSERT INTO processed_commands
+             (command_id, command_type, processed_at, result_event_id, fingerprint, expires_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          command_id,
+          command_type,
+          processed_at.toISOString(),
+          result_event_id ?? null,
+          fingerprint ?? null,
+          expires_at?.toISOString() ?? null,
+        );
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      if (error instanceof Error && /UNIQUE constraint failed: processed_commands\./.test(error.message)) {
+        throw new CommandAlreadyProcessedError(command_id);
+      }
+      throw error;
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = this.db
+      .prepare('DELETE FROM processed_commands WHERE expires_at <= ?')
+      .run(this.now().toISOString());
+    return Number(result.changes);
+  }
+
+  async count(): Promise<number> {
+    const row = this.db
+      .prepare(
+        'SELECT COUNT(*) AS count FROM processed_commands WHERE expires_at IS NULL OR expires_at > ?',
+      )
+      .get(this.now().toISOString()) as { count: number };
+    return Number(row.count);
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec('DELETE FROM processed_commands');
+  }
+
+  /**
+   * Close the underlying database.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toCommandRecord(row: CommandRow): CommandRecord {
+  return {
+    command_id: row.command_id,
+    command_type: row.command_type,
+    processed_at: new Date(row.processed_at),
+    result_event_id: row.result_event_id ?? undefined,
+    fingerprint: row.fingerprint ?? undefined,
+    expires_at: row.expires_at === null ? null : new Date(row.expires_at),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Command-side schema validation.
+ * 
+ * Validates incoming commands against the component schemas of
+ * openapi.yaml, so the HTTP contract and the handlers can never drift.
+ * 
+ * Rule: A command that fails validation never reaches the aggregate.
+ */
+
+import Ajv2020, { ErrorObject } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parse } from 'yaml';
+
+export type CommandSchemaName =
+  | 'InitiatePaymentCommand'
+  | 'RetryPaymentCommand'
+  | 'CancelPaymentCommand';
+
+// OpenAPI 3.0 component schemas use "description" and other
+// annotations freely, so strict mode is relaxed to unknown keywords only.
+const ajv = new Ajv2020({ allErrors: true, strict: false });
+addFormats(ajv);
+
+const specPath = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../openapi.yaml',
+);
+
+const spec = parse(fs.readFileSync(specPath, 'utf-8'));
+const componentSchemas: Record<string, object> = spec.components.schemas;
+
+for (const [name, schema] of Object.entries(componentSchemas)) {
+  ajv.addSchema(schema, name);
+}
+
+export class CommandValidationError extends Error {
+  constructor(
+    public readonly schemaName: CommandSchemaName,
+    public readonly errors: ErrorObject[],
+    errorsText: string,
+  ) {
+    super(`Command validation failed for ${schemaName}: ${errorsText}`);
+    this.name = 'CommandValidationError';
+  }
+}
+
+/**
+ * Validate a command against its openapi.yaml component schema.
+ * 
+ * @param schemaName - Component schema name (e.g. InitiatePaymentCommand)
+ * @param command - Command object to validate
+ * @throws CommandValidationError if the command is invalid (message contains "validation")
+ */
+export function validateCommand(schemaName: CommandSchemaName, command: unknown): void {
+  const validate = ajv.getSchema(schemaName);
+
+  if (!validate) {
+    throw new Error(`No command schema registered for ${schemaName}`);
+  }
+
+  if (!validate(command)) {
+    const errors = validate.errors ?? [];
+    throw new CommandValidationError(schemaName, errors, ajv.errorsText(errors));
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * ABA (Cemtext) Direct Entry File Generator
+ *
+ * Builds the file a BECS batch is submitted as. Fixed-width, 120
+ * character records separated by CRLF:
+ *
+ *   0  Descriptive record  (user / APCA details, one per file)
+ *   1  Detail record       (one per payment)
+ *   7  File total record   (net / credit / debit totals, record count)
+ *
+ * Layout follows the APCA BECS Procedures (Appendix C2, "Cemtext"):
+ * numeric fields are right-justified and zero-filled, alpha fields
+ * left-justified and blank-filled, amounts are in cents.
+ *
+ * The generator never trims or pads silently past a field's width: a
+ * value that does not fit, or contains characters outside the BECS
+ * character set, is an ABAFileError. Batch totals are cross-checked with
+ * assertBatchTotalsReconcile before the file is returned, and the file's
+ * declared total and item count are handed back as the BatchSubmitted
+ * events for every payment in the batch.
+ *
+ * Direct debits are written with transaction code 13 and must carry their
+ * DDR authority: it must still be live on the processing date and name
+ * the APCA user ID the file is lodged under (assertDDRAuthorityLive).
+ */
+
+import { createHash } from "crypto";
+import { BECSPayment } from "./BECSPayment";
+import { BECSDirection, BECSPaymentState } from "./BECSPaymentState";
+import { BatchSubmitted, PaymentBatched } from "./BECSPaymentEvent";
+import {
+  assertBatchFileIntegrity,
+  assertBatchTotalsReconcile,
+  assertDDRAuthorityLive,
+} from "./BECSInvariants";
+import { DDRAuthority } from "./DDRAuthority";
+
+/**
+ * Length of every ABA record (excluding the CRLF terminator)
+ */
+export const ABA_RECORD_LENGTH = 120;
+
+/**
+ * Record terminator
+ */
+export const ABA_LINE_ENDING = "\r\n";
+
+/**
+ * BSB written in the file total record
+ */
+export const ABA_FILE_TOTAL_BSB = "999-999";
+
+/**
+ * Direct entry transaction codes
+ */
+export enum ABATransactionCode {
+  EXTERNALLY_INITIATED_DEBIT = "13",
+  EXTERNALLY_INITIATED_CREDIT = "50",
+  AUSTRALIAN_GOVERNMENT_SECURITY_INTEREST = "51",
+  FAMILY_ALLOWANCE = "52",
+  PAY = "53",
+  PENSION = "54",
+  ALLOTMENT = "55",
+  DIVIDEND = "56",
+  DEBENTURE_NOTE_INTEREST = "57",
+}
+
+/**
+ * Detail record indicator (blank for a new item)
+ */
+export type ABAIndicator = " " | "N" | "W" | "X" | "Y";
+
+/**
+ * User (remitter) and APCA details written to the descriptive record
+ */
+export interface ABAUserDetails {
+  /** User's financial institution, e.g. "CBA" */
+  financialInstitution: string;
+  /** User preferred specification (name of user supplying the file) */
+  userName: string;
+  /** APCA-issued direct entry user ID */
+  apcaUserId: string;
+  /** Remitter name shown on the payee's statement */
+  remitterName: string;
+  /** Trace record: account returns are credited to */
+  traceBsb: string;
+  traceAccountNumber: string;
+}
+
+/**
+ * One payment in the batch
+ */
+export interface ABAEntry {
+  /** Payment aggregate (must be BATCHED with a BSB and account number) */
+  payment: BECSPayment;
+  /** The payment's PaymentBatched event */
+  batched: PaymentBatched;
+  /** Title of the payee's account */
+  accountTitle: string;
+  /** Lodgement reference shown to the payee (defaults to paymentIntentId) */
+  lodgementReference?: string;
+  /** Defaults to EXTERNALLY_INITIATED_DEBIT for debits, else EXTERNALLY_INITIATED_CREDIT */
+  transactionCode?: ABATransactionCode;
+  /** DDR authority the debit is drawn under (required for debits) */
+  authority?: DDRAuthority;
+  /** Defaults to a new item (blank) */
+  indicator?: ABAIndicator;
+  /** Withholding tax in cents (defaults to 0) */
+  withholdingTax?: bigint;
+}
+
+export interface ABAFileOptions {
+  user: ABAUserDetails;
+  /** Description of entries, e.g. "PAYROLL" */
+  description: string;
+  /** Date to process, YYYY-MM-DD (defaults to the batch date) */
+  processingDate?: string;
+  /** Reel sequence number (defaults to 1) */
+  reelSequence?: number;
+  /** When the file is submitted (BatchSubmitted.occurredAt) */
+  submittedAt: Date;
+  /** BECS file reference (defaults to a digest of the file) */
+  fileReference?: string;
+}
+
+/**
+ * A detail record as written, kept so returns can be matched back to it
+ */
+export interface ABADetail {
+  paymentIntentId: string;
+  bsb: string;
+  accountNumber: string;
+  transactionCode: ABATransactionCode;
+  amount: bigint;
+  accountTitle: string;
+  lodgementReference: string;
+  traceBsb: string;
+  traceAccountNumber: string;
+}
+
+export interface ABAFile {
+  batchId: string;
+  fileReference: string;
+  apcaUserId: string;
+  /** Date processed, YYYY-MM-DD */
+  processingDate: string;
+  /** File contents, CRLF-terminated records */
+  content: string;
+  /** Sum of all detail amounts (cents) */
+  declaredTotal: bigint;
+  itemCount: number;
+  creditTotal: bigint;
+  debitTotal: bigint;
+  /** Detail records in file order */
+  details: ABADetail[];
+  /** One BatchSubmitted per payment, in detail record order */
+  submissions: BatchSubmitted[];
+}
+
+/**
+ * Raised when a batch cannot be written as a valid ABA file
+ */
+export class ABAFileError extends Error {
+  constructor(message: string) {
+    super(`ABA_FILE_ERROR: ${message}`);
+    this.name = "ABAFileError";
+  }
+}
+
+/**
+ * BECS character set: letters, digits, space and the listed punctuation
+ */
+const ABA_CHARACTER_SET = /^[A-Za-z0-9 &'()*+,\-./:;=?@\\^_{}|~!"%#$]*$/;
+
+const BSB_PATTERN = /^(\d{3})-?(\d{3})$/;
+
+const ACCOUNT_NUMBER_PATTERN = /^[0-9A-Za-z-]{1,9}$/;
+
+const DEBIT_CODES: ReadonlySet<ABATransactionCode> = new Set([
+  ABATransactionCode.EXTERNALLY_INITIATED_DEBIT,
+]);
+
+/**
+ * Generate the ABA file for a batch
+ *
+ * @throws ABAFileError if the batch cannot be represented
+ * @throws InvariantError (BECS.1) if the batch totals do not reconcile
+ * @throws InvariantError (BECS.DDR) if a debit's authority is not live
+ */
+export function generateABAFile(entries: ABAEntry[], options: ABAFileOptions): ABAFile {
+  if (entries.length === 0) {
+    throw new ABAFileError("batch has no entries");
+  }
+
+  const batchedEvents = entries.map((entry) => entry.batched);
+  assertBatchFileIntegrity(batchedEvents);
+
+  const { batchId, batchDate } = entries[0].batched;
+  const processedOn = options.processingDate ?? batchDate;
+  const ordered = [...entries].sort((a, b) => a.batched.sequenceNumber - b.batched.sequenceNumber);
+  assertUniqueSequenceNumbers(ordered);
+
+  const details: ABADetail[] = [];
+  const detailRecords: string[] = [];
+  let creditTotal = 0n;
+  let debitTotal = 0n;
+
+  for (const entry of ordered) {
+    assertEntryBatched(entry, batchId);
+
+    const detail = toDetail(entry, options.user);
+    assertEntryDirection(entry, detail.transactionCode);
+    if (entry.payment.direction === BECSDirection.DEBIT) {
+      assertDDRAuthorityLive(entry.payment, entry.authority, processedOn, options.user.apcaUserId);
+    }
+
+    if (DEBIT_CODES.has(detail.transactionCode)) {
+      debitTotal += detail.amount;
+    } else {
+      creditTotal += detail.amount;
+    }
+
+    details.push(detail);
+    detailRecords.push(detailRecord(detail, entry, options.user));
+  }
+
+  const declaredTotal = creditTotal + debitTotal;
+  assertBatchTotalsReconcile(batchedEvents, declaredTotal);
+
+  const records = [
+    descriptiveRecord(options, processedOn),
+    ...detailRecords,
+    fileTotalRecord(creditTotal, debitTotal, detailRecords.length),
+  ];
+  const content = records.map((record) => record + ABA_LINE_ENDING).join("");
+
+  const fileReference =
+    options.fileReference ??
+    createHash("sha256").update(content).digest("hex").slice(0, 16).toUpperCase();
+
+  const submissions: BatchSubmitted[] = ordered.map((entry) => ({
+    type: "BatchSubmitted",
+    paymentIntentId: entry.payment.paymentIntentId,
+    occurredAt: options.submittedAt,
+    batchId,
+    fileReference,
+    declaredTotal,
+    itemCount: ordered.length,
+  }));
+
+  return {
+    batchId,
+    fileReference,
+    apcaUserId: options.user.apcaUserId,
+    processingDate: processedOn,
+    content,
+    declaredTotal,
+    itemCount: ordered.length,
+    creditTotal,
+    debitTotal,
+    details,
+    submissions,
+  };
+}
+
+/**
+ * Type 0 - descriptive record
+ */
+function descriptiveRecord(options: ABAFileOptions, processedOn: string): string {
+  const { user } = options;
+  return assertRecordLength([
+    "0",
+    blank(17),
+    numeric("reel sequence", options.reelSequence ?? 1, 2),
+    alpha("financial institution", user.financialInstitution, 3),
+    blank(7),
+    alpha("user name", user.userName, 26),
+    numeric("APCA user ID", user.apcaUserId, 6),
+    alpha("description", options.description, 12),
+    processingDate(processedOn),
+    blank(40),
+  ]);
+}
+
+/**
+ * Type 1 - detail record
+ */
+function detailRecord(detail: ABADetail, entry: ABAEntry, user: ABAUserDetails): string {
+  return assertRecordLength([
+    "1",
+    detail.bsb,
+    detail.accountNumber.padStart(9, " "),
+    entry.indicator ?? " ",
+    detail.transactionCode,
+    numeric("amount", detail.amount, 10),
+    alpha("account title", detail.accountTitle, 32),
+    alpha("lodgement reference", detail.lodgementReference, 18),
+    detail.traceBsb,
+    detail.traceAccountNumber.padStart(9, " "),
+    alpha("remitter name", user.remitterName, 16),
+    numeric("withholding tax", entry.withholdingTax ?? 0n, 8),
+  ]);
+}
+
+function toDetail(entry: ABAEntry, user: ABAUserDetails): ABADetail {
+  const { payment } = entry;
+  return {
+    paymentIntentId: payment.paymentIntentId,
+    bsb: bsb(`payment ${payment.paymentIntentId} BSB`, payment.bsb),
+    accountNumber: accountNumber(`payment ${payment.paymentIntentId} account number`, payment.accountNumber),
+    transactionCode:
+      entry.transactionCode ??
+      (payment.direction === BECSDirection.DEBIT
+        ? ABATransactionCode.EXTERNALLY_INITIATED_DEBIT
+        : ABATransactionCode.EXTERNALLY_INITIATED_CREDIT),
+    amount: payment.amount,
+    accountTitle: entry.accountTitle,
+    lodgementReference: entry.lodgementReference ?? payment.paymentIntentId,
+    traceBsb: bsb("trace BSB", user.traceBsb),
+    traceAccountNumber: accountNumber("trace account number", user.traceAccountNumber),
+  };
+}
+
+/**
+ * Type 7 - file total record
+ */
+function fileTotalRecord(creditTotal: bigint, debitTotal: bigint, count: number): string {
+  const net = creditTotal > debitTotal ? creditTotal - debitTotal : debitTotal - creditTotal;
+  return assertRecordLength([
+    "7",
+    ABA_FILE_TOTAL_BSB,
+    blank(12),
+    numeric("net total", net, 10),
+    numeric("credit total", creditTotal, 10),
+    numeric("debit total", debitTotal, 10),
+    blank(24),
+    numeric("record count", count, 6),
+    blank(40),
+  ]);
+}
+
+function assertEntryBatched(entry: ABAEntry, batchId: string): void {
+  const { payment, batched } = entry;
+
+  if (batched.paymentIntentId !== payment.paymentIntentId) {
+    throw new ABAFileError(
+      `PaymentBatched for ${batched.paymentIntentId} paired with payment ${payment.paymentIntentId}`
+    );
+  }
+  if (payment.state !== BECSPaymentState.BATCHED || payment.batchId !== batchId) {
+    throw new ABAFileError(
+      `payment ${payment.paymentIntentId} is ${payment.state} in batch ${payment.batchId ?? "none"}, expected BATCHED in ${batchId}`
+    );
+  }
+  if (payment.currency !== "AUD") {
+    throw new ABAFileError(`payment ${payment.paymentIntentId} is in ${payment.currency}, BECS pays AUD only`);
+  }
+  if (batched.fundsHeld !== payment.amount) {
+    throw new ABAFileError(
+      `payment ${payment.paymentIntentId} holds ${batched.fundsHeld} for an amount of ${payment.amount}`
+    );
+  }
+}
+
+function assertEntryDirection(entry: ABAEntry, transactionCode: ABATransactionCode): void {
+  const isDebit = entry.payment.direction === BECSDirection.DEBIT;
+  if (DEBIT_CODES.has(transactionCode) !== isDebit) {
+    throw new ABAFileError(
+      `payment ${entry.payment.paymentIntentId} is a ${isDebit ? "debit" : "credit"}, transaction code ${transactionCode} is not`
+    );
+  }
+}
+
+function assertUniqueSequenceNumbers(entries: ABAEntry[]): void {
+  for (let i = 1; i < entries.length; i++) {
+    if (entries[i].batched.sequenceNumber === entries[i - 1].batched.sequenceNumber) {
+      throw new ABAFileError(`duplicate sequence number ${entries[i].batched.sequenceNumber}`);
+    }
+  }
+}
+
+function assertRecordLength(fields: string[]): string {
+  const record = fields.join("");
+  if (record.length !== ABA_RECORD_LENGTH) {
+    throw new ABAFileError(`record is ${record.length} characters, expected ${ABA_RECORD_LENGTH}`);
+  }
+  return record;
+}
+
+function blank(width: number): string {
+  return " ".repeat(width);
+}
+
+function alpha(field: string, value: string, width: number): string {
+  if (!ABA_CHARACTER_SET.test(value)) {
+    throw new ABAFileError(`${field} "${value}" contains characters outside the BECS character set`);
+  }
+  if (value.length > width) {
+    throw new ABAFileError(`${field} "${value}" exceeds ${width} characters`);
+  }
+  return value.padEnd(width, " ");
+}
+
+function numeric(field: string, value: bigint | number | string, width: number): string {
+  const digits = value.toString();
+  if (!/^\d+$/.test(digits) || digits.length > width) {
+    throw new ABAFileError(`${field} ${digits} is not a ${width}-digit non-negative number`);
+  }
+  return digits.padStart(width, "0");
+}
+
+function bsb(field: string, value: string | undefined): string {
+  const match = value === undefined ? null : BSB_PATTERN.exec(value);
+  if (!match) {
+    throw new ABAFileError(`${field} ${value ?? "(missing)"} is not a BSB (NNN-NNN)`);
+  }
+  return `${match[1]}-${match[2]}`;
+}
+
+function accountNumber(field: string, value: string | undefined): string {
+  if (value === undefined || !ACCOUNT_NUMBER_PATTERN.test(value)) {
+    throw new ABAFileError(`${field} ${value ?? "(missing)"} is not a BECS account number`);
+  }
+  return value;
+}
+
+/**
+ * YYYY-MM-DD to DDMMYY
+ */
+function processingDate(date: string): string {
+  const match = /^\d{2}(\d{2})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    throw new ABAFileError(`processing date ${date} is not YYYY-MM-DD`);
+  }
+  return `${match[3]}${match[2]}${match[1]}`;
+}
@@ -0,0 +1,450 @@
+/**
+ * BECS Batch - Immutable Aggregate Root
+ *
+ * Owns what used to be scattered across per-payment events: membership,
+ * totals, status and the file reference of one BECS submission.
+ *
+ * Lifecycle (see BECSBatchState):
+ * OPEN → SEALED → SUBMITTED → ACCEPTED | REJECTED
+ *
+ * Dates come from the business calendar: a batch opened after the BECS
+ * cut-off (or on a non-business day) is dated the next business day, and
+ * can only be submitted on that date before cut-off.
+ *
+ * Cross-aggregate operations return the events for both sides. Every
+ * event is validated against its aggregate before any is returned, but
+ * nothing is persisted here: callers append the batch and payment events
+ * in one EventStore.appendAll, so they land in every stream or in none.
+ * - addPaymentToBECSBatch: BatchItemAdded + the payment's PaymentBatched
+ * - submitBECSBatch: BatchFileSubmitted + the ABA file's BatchSubmitted
+ * - rejectBECSBatch: BatchRejected + PaymentFailed{FILE_REJECTED} for
+ *   every member payment
+ *
+ * Usage:
+ * ```typescript
+ * const batch = createBECSBatch(openBECSBatch("batch_001", now, calendar));
+ * const updated = applyBECSBatchEvent(batch, sealedEvent);
+ * const rebuilt = rebuildBECSBatchFromEvents(events);
+ * ```
+ */
+
+import {
+  canonicalHash,
+  CanonicalHashAlgorithm,
+  CURRENT_HASH_ALGORITHM,
+} from "../shared/CanonicalHash";
+import {
+  BECSBatchState,
+  isBECSBatchTerminalState,
+  isBECSBatchTransitionLegal,
+} from "./BECSBatchState";
+import {
+  BECSBatchEvent,
+  BatchFileSubmitted,
+  BatchItemAdded,
+  BatchOpened,
+  BatchRejected,
+} from "./BECSBatchEvent";
+import { BECSPayment, applyBECSEvent } from "./BECSPayment";
+import { BECSFailureReason, BECSPaymentState } from "./BECSPaymentState";
+import { BatchSubmitted, PaymentBatched, PaymentFailed } from "./BECSPaymentEvent";
+import { ABAFile } from "./ABAFile";
+import type { BusinessCalendar } from "../../calendar/BusinessCalendar";
+import {
+  InvariantError,
+  StateTransitionError,
+  TerminalStateError,
+} from "../shared/PaymentErrors";
+
+/**
+ * A payment's place in the batch
+ */
+export interface BECSBatchItem {
+  readonly paymentIntentId: string;
+  readonly sequenceNumber: number;
+  readonly amount: bigint;
+}
+
+/**
+ * BECS Batch Aggregate
+ */
+export interface BECSBatch {
+  readonly batchId: string;
+  readonly batchDate: string;
+  readonly state: BECSBatchState;
+  readonly items: readonly BECSBatchItem[];
+  /** Sum of member amounts */
+  readonly total: bigint;
+  readonly fileReference?: string;
+  readonly rejectionReason?: string;
+  readonly openedAt: Date;
+  readonly sealedAt?: Date;
+  readonly submittedAt?: Date;
+  readonly acceptedAt?: Date;
+  readonly rejectedAt?: Date;
+}
+
+/**
+ * Open a batch dated for the BECS processing day of an instant
+ *
+ * @param calendar - Business calendar supplying the BECS cut-off
+ */
+export function openBECSBatch(
+  batchId: string,
+  occurredAt: Date,
+  calendar: BusinessCalendar
+): BatchOpened {
+  return {
+    type: "BatchOpened",
+    batchId,
+    occurredAt,
+    batchDate: calendar.processingDate("BECS", occurredAt),
+  };
+}
+
+/**
+ * Create a batch from its BatchOpened event
+ */
+export function createBECSBatch(event: BECSBatchEvent): BECSBatch {
+  if (event.type !== "BatchOpened") {
+    throw new Error("Batch must be created from BatchOpened event");
+  }
+
+  return {
+    batchId: event.batchId,
+    batchDate: event.batchDate,
+    state: BECSBatchState.OPEN,
+    items: [],
+    total: 0n,
+    openedAt: event.occurredAt,
+  };
+}
+
+/**
+ * Apply an event to a batch, returning a new immutable batch
+ *
+ * @throws StateTransitionError / TerminalStateError for an illegal status change
+ * @throws InvariantError if membership or totals would be inconsistent
+ */
+export function applyBECSBatchEvent(batch: BECSBatch, event: BECSBatchEvent): BECSBatch {
+  if (event.batchId !== batch.batchId) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.1",
+      `Event for batch ${event.batchId} applied to batch ${batch.batchId}`
+    );
+  }
+
+  switch (event.type) {
+    case "BatchOpened":
+      throw new InvariantError("BECS", "BECS.1", `Batch ${batch.batchId} is already open`);
+
+    case "BatchItemAdded": {
+      assertMembershipOpen(batch);
+      if (event.amount <= 0n) {
+        throw new InvariantError(
+          "BECS",
+          "BECS.1",
+          `Batch item amount must be positive, got ${event.amount}`,
+          { paymentIntentId: event.paymentIntentId, amount: event.amount }
+        );
+      }
+      if (batch.items.some((item) => item.paymentIntentId === event.paymentIntentId)) {
+        throw new InvariantError(
+          "BECS",
+          "BECS.1",
+          `Payment ${event.paymentIntentId} is already in batch ${batch.batchId}`
+        );
+      }
+      if (batch.items.some((item) => item.sequenceNumber === event.sequenceNumber)) {
+        throw new InvariantError(
+          "BECS",
+          "BECS.1",
+          `Sequence number ${event.sequenceNumber} is already used in batch ${batch.batchId}`
+        );
+      }
+
+      return {
+        ...batch,
+        items: [
+          ...batch.items,
+          {
+            paymentIntentId: event.paymentIntentId,
+            sequenceNumber: event.sequenceNumber,
+            amount: event.amount,
+          },
+        ],
+        total: batch.total + event.amount,
+      };
+    }
+
+    case "BatchItemRemoved": {
+      assertMembershipOpen(batch);
+      const item = batch.items.find((i) => i.paymentIntentId === event.paymentIntentId);
+      if (!item) {
+        throw new InvariantError(
+          "BECS",
+          "BECS.1",
+          `Payment ${event.paymentIntentId} is not in batch ${batch.batchId}`
+        );
+      }
+
+      return {
+        ...batch,
+        items: batch.items.filter((i) => i !== item),
+        total: batch.total - item.amount,
+      };
+    }
+
+    case "BatchSealed":
+      assertBECSBatchTransition(batch.state, BECSBatchState.SEALED);
+      if (batch.items.length === 0) {
+        throw new InvariantError("BECS", "BECS.1", `Cannot seal empty batch ${batch.batchId}`);
+      }
+      assertBatchTotals(batch, event.declaredTotal, event.itemCount);
+      return { ...batch, state: BECSBatchState.SEALED, sealedAt: event.occurredAt };
+
+    case "BatchFileSubmitted":
+      assertBECSBatchTransition(batch.state, BECSBatchState.SUBMITTED);
+      assertBatchTotals(batch, event.declaredTotal, event.itemCount);
+      return {
+        ...batch,
+        state: BECSBatchState.SUBMITTED,
+        fileReference: event.fileReference,
+        submittedAt: event.occurredAt,
+      };
+
+    case "BatchAccepted":
+      assertBECSBatchTransition(batch.state, BECSBatchState.ACCEPTED);
+      return { ...batch, state: BECSBatchState.ACCEPTED, acceptedAt: event.occurredAt };
+
+    case "BatchRejected":
+      assertBECSBatchTransition(batch.state, BECSBatchState.REJECTED);
+      return {
+        ...batch,
+        state: BECSBatchState.REJECTED,
+        rejectionReason: event.rejectionReason,
+        rejectedAt: event.occurredAt,
+      };
+  }
+}
+
+/**
+ * Rebuild a batch from its event stream
+ */
+export function rebuildBECSBatchFromEvents(events: BECSBatchEvent[]): BECSBatch {
+  if (events.length === 0) {
+    throw new Error("Cannot rebuild batch from empty event list");
+  }
+
+  const [first, ...rest] = events;
+  return rest.reduce(applyBECSBatchEvent, createBECSBatch(first));
+}
+
+/**
+ * Compute batch state hash for replay verification
+ */
+export function computeBECSBatchHash(
+  batch: BECSBatch,
+  algorithm: CanonicalHashAlgorithm = CURRENT_HASH_ALGORITHM
+): string {
+  return canonicalHash(batch, algorithm);
+}
+
+/**
+ * Add an AUTHORISED payment to an open batch
+ *
+ * @returns The batch event and the payment's PaymentBatched event
+ */
+export function addPaymentToBECSBatch(
+  batch: BECSBatch,
+  payment: BECSPayment,
+  occurredAt: Date
+): { batch: BECSBatch; batchEvent: BatchItemAdded; paymentEvent: PaymentBatched } {
+  const sequenceNumber = Math.max(0, ...batch.items.map((item) => item.sequenceNumber)) + 1;
+
+  const batchEvent: BatchItemAdded = {
+    type: "BatchItemAdded",
+    batchId: batch.batchId,
+    occurredAt,
+    paymentIntentId: payment.paymentIntentId,
+    sequenceNumber,
+    amount: payment.amount,
+  };
+  const paymentEvent: PaymentBatched = {
+    type: "PaymentBatched",
+    paymentIntentId: payment.paymentIntentId,
+    occurredAt,
+    batchId: batch.batchId,
+    batchDate: batch.batchDate,
+    sequenceNumber,
+    fundsHeld: payment.amount,
+  };
+
+  const updated = applyBECSBatchEvent(batch, batchEvent);
+  applyBECSEvent(payment, paymentEvent);
+
+  return { batch: updated, batchEvent, paymentEvent };
+}
+
+/**
+ * Record the ABA file a sealed batch was submitted as
+ *
+ * The file must contain exactly the batch's members and totals, and be
+ * submitted on the batch date before the BECS cut-off.
+ *
+ * @param calendar - Business calendar supplying the BECS cut-off
+ * @returns The batch event and the file's per-payment BatchSubmitted events
+ */
+export function submitBECSBatch(
+  batch: BECSBatch,
+  file: ABAFile,
+  occurredAt: Date,
+  calendar: BusinessCalendar
+): { batch: BECSBatch; batchEvent: BatchFileSubmitted; paymentEvents: BatchSubmitted[] } {
+  const processingDate = calendar.processingDate("BECS", occurredAt);
+  if (processingDate !== batch.batchDate) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.CUTOFF",
+      `Batch ${batch.batchId} dated ${batch.batchDate} cannot be submitted at ${occurredAt.toISOString()} (processed on ${processingDate})`,
+      { batchDate: batch.batchDate, processingDate, occurredAt }
+    );
+  }
+  if (file.batchId !== batch.batchId) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.1",
+      `File for batch ${file.batchId} submitted for batch ${batch.batchId}`
+    );
+  }
+  assertSameMembers(
+    batch,
+    file.details.map((detail) => detail.paymentIntentId)
+  );
+
+  const batchEvent: BatchFileSubmitted = {
+    type: "BatchFileSubmitted",
+    batchId: batch.batchId,
+    occurredAt,
+    fileReference: file.fileReference,
+    declaredTotal: file.declaredTotal,
+    itemCount: file.itemCount,
+  };
+
+  return {
+    batch: applyBECSBatchEvent(batch, batchEvent),
+    batchEvent,
+    paymentEvents: file.submissions,
+  };
+}
+
+/**
+ * Reject a submitted batch's file and fail every member payment
+ *
+ * If any member payment is missing or cannot move to FAILED, nothing is
+ * returned. Append the batch event and every PaymentFailed with one
+ * EventStore.appendAll (at the versions the payments were read at), so a
+ * crash or a concurrent writer cannot fail some members and not others.
+ *
+ * @param payments - Current state of every member payment
+ * @returns The batch event and one PaymentFailed{FILE_REJECTED} per member
+ */
+export function rejectBECSBatch(
+  batch: BECSBatch,
+  payments: BECSPayment[],
+  rejectionReason: string,
+  occurredAt: Date
+): { batch: BECSBatch; batchEvent: BatchRejected; paymentEvents: PaymentFailed[] } {
+  const batchEvent: BatchRejected = {
+    type: "BatchRejected",
+    batchId: batch.batchId,
+    occurredAt,
+    rejectionReason,
+  };
+  const updated = applyBECSBatchEvent(batch, batchEvent);
+
+  assertSameMembers(
+    batch,
+    payments.map((payment) => payment.paymentIntentId)
+  );
+
+  const byId = new Map(payments.map((payment) => [payment.paymentIntentId, payment]));
+  const paymentEvents = batch.items.map((item) => {
+    const payment = byId.get(item.paymentIntentId)!;
+    if (payment.batchId !== batch.batchId || payment.state !== BECSPaymentState.SUBMITTED) {
+      throw new InvariantError(
+        "BECS",
+        "BECS.1",
+        `Payment ${payment.paymentIntentId} is ${payment.state} in batch ${payment.batchId ?? "none"}, expected SUBMITTED in ${batch.batchId}`
+      );
+    }
+
+    const failed: PaymentFailed = {
+      type: "PaymentFailed",
+      paymentIntentId: payment.paymentIntentId,
+      occurredAt,
+      batchId: batch.batchId,
+      reason: BECSFailureReason.FILE_REJECTED,
+      fundsReleased: payment.amount,
+    };
+    applyBECSEvent(payment, failed);
+    return failed;
+  });
+
+  return { batch: updated, batchEvent, paymentEvents };
+}
+
+/**
+ * Assert that a batch state transition is legal
+ */
+export function assertBECSBatchTransition(from: BECSBatchState, to: BECSBatchState): void {
+  if (isBECSBatchTerminalState(from)) {
+    throw new TerminalStateError("BECS", from, to);
+  }
+  if (!isBECSBatchTransitionLegal(from, to)) {
+    throw new StateTransitionError(
+      "BECS",
+      from,
+      to,
+      `INVARIANT_VIOLATION: Illegal BECS batch state transition from ${from} to ${to}`
+    );
+  }
+}
+
+function assertMembershipOpen(batch: BECSBatch): void {
+  if (batch.state !== BECSBatchState.OPEN) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.1",
+      `Batch ${batch.batchId} is ${batch.state}; membership can only change while OPEN`
+    );
+  }
+}
+
+function assertBatchTotals(batch: BECSBatch, declaredTotal: bigint, itemCount: number): void {
+  if (declaredTotal !== batch.total || itemCount !== batch.items.length) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.1",
+      `Batch total mismatch. Declared: ${declaredTotal} (${itemCount} items), Calculated: ${batch.total} (${batch.items.length} items)`,
+      { declaredTotal, calculatedTotal: batch.total, itemCount, members: batch.items.length }
+    );
+  }
+}
+
+function assertSameMembers(batch: BECSBatch, paymentIntentIds: string[]): void {
+  const members = new Set(batch.items.map((item) => item.paymentIntentId));
+  const given = new Set(paymentIntentIds);
+  const missing = [...members].filter((id) => !given.has(id));
+  const extra = [...given].filter((id) => !members.has(id));
+
+  if (missing.length > 0 || extra.length > 0 || given.size !== paymentIntentIds.length) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.1",
+      `Payments do not match batch ${batch.batchId} membership. Missing: [${missing.join(", ")}], Not members: [${extra.join(", ")}]`,
+      { missing, extra }
+    );
+  }
+}
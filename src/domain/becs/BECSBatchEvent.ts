@@ -0,0 +1,90 @@
+/**
+ * BECS Batch Events - Immutable Event Definitions
+ *
+ * All BECS batch state is derived from these events. A batch has its own
+ * stream (streamId = batchId), separate from its member payments.
+ *
+ * Member payments still record their own PaymentBatched / BatchSubmitted /
+ * PaymentFailed events; the batch stream is the single owner of
+ * membership, totals, status and file reference.
+ */
+
+/**
+ * Base Event Interface
+ */
+interface BECSBatchBaseEvent {
+  batchId: string;
+  occurredAt: Date;
+}
+
+/**
+ * BatchOpened - Batch created and accepting payments
+ */
+export interface BatchOpened extends BECSBatchBaseEvent {
+  type: "BatchOpened";
+  batchDate: string; // YYYY-MM-DD
+}
+
+/**
+ * BatchItemAdded - Payment joined the batch
+ */
+export interface BatchItemAdded extends BECSBatchBaseEvent {
+  type: "BatchItemAdded";
+  paymentIntentId: string;
+  sequenceNumber: number;
+  amount: bigint;
+}
+
+/**
+ * BatchItemRemoved - Payment left the batch before sealing
+ */
+export interface BatchItemRemoved extends BECSBatchBaseEvent {
+  type: "BatchItemRemoved";
+  paymentIntentId: string;
+}
+
+/**
+ * BatchSealed - Membership and totals frozen
+ */
+export interface BatchSealed extends BECSBatchBaseEvent {
+  type: "BatchSealed";
+  declaredTotal: bigint;
+  itemCount: number;
+}
+
+/**
+ * BatchFileSubmitted - ABA file lodged with BECS
+ */
+export interface BatchFileSubmitted extends BECSBatchBaseEvent {
+  type: "BatchFileSubmitted";
+  fileReference: string;
+  declaredTotal: bigint;
+  itemCount: number;
+}
+
+/**
+ * BatchAccepted - File accepted by BECS
+ */
+export interface BatchAccepted extends BECSBatchBaseEvent {
+  type: "BatchAccepted";
+}
+
+/**
+ * BatchRejected - File rejected as a whole
+ */
+export interface BatchRejected extends BECSBatchBaseEvent {
+  type: "BatchRejected";
+  rejectionReason: string;
+}
+
+/**
+ * Union type of all BECS batch events
+ */
+export type BECSBatchEvent =
+  | BatchOpened
+  | BatchItemAdded
+  | BatchItemRemoved
+  | BatchSealed
+  | BatchFileSubmitted
+  | BatchAccepted
+  | BatchRejected;
@@ -0,0 +1,68 @@
+/**
+ * BECS Batch State - Batch Lifecycle
+ *
+ * A batch owns the payments that are submitted together as one ABA file.
+ *
+ * Batch Lifecycle:
+ * OPEN → SEALED → SUBMITTED → ACCEPTED
+ *
+ * Failure Path:
+ * SUBMITTED → REJECTED (file-level rejection; every member payment fails)
+ *
+ * Membership only changes while OPEN. Sealing freezes membership and
+ * totals; the file generated from a sealed batch must match them.
+ */
+
+export enum BECSBatchState {
+  /**
+   * OPEN - Accepting payments
+   */
+  OPEN = "OPEN",
+
+  /**
+   * SEALED - Membership and totals frozen, file can be built
+   */
+  SEALED = "SEALED",
+
+  /**
+   * SUBMITTED - File lodged with BECS, awaiting acceptance
+   */
+  SUBMITTED = "SUBMITTED",
+
+  /**
+   * ACCEPTED - File accepted; items now clear (or return) individually
+   */
+  ACCEPTED = "ACCEPTED",
+
+  /**
+   * REJECTED - File rejected as a whole; no item was processed
+   */
+  REJECTED = "REJECTED",
+}
+
+/**
+ * Legal BECS Batch State Transitions
+ */
+export const BECS_BATCH_ALLOWED_TRANSITIONS: Record<BECSBatchState, BECSBatchState[]> = {
+  [BECSBatchState.OPEN]: [BECSBatchState.SEALED],
+  [BECSBatchState.SEALED]: [BECSBatchState.SUBMITTED],
+  [BECSBatchState.SUBMITTED]: [BECSBatchState.ACCEPTED, BECSBatchState.REJECTED],
+
+  // Terminal states - no transitions allowed
+  [BECSBatchState.ACCEPTED]: [],
+  [BECSBatchState.REJECTED]: [],
+};
+
+/**
+ * Check if a batch state transition is legal
+ */
+export function isBECSBatchTransitionLegal(from: BECSBatchState, to: BECSBatchState): boolean {
+  return BECS_BATCH_ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check if a batch state is terminal
+ */
+export function isBECSBatchTerminalState(state: BECSBatchState): boolean {
+  return BECS_BATCH_ALLOWED_TRANSITIONS[state].length === 0;
+}
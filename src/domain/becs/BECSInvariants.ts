@@ -9,18 +9,41 @@
  * 2. Late Returns - Returns can arrive days after clearing
  * 3. File-Level Failures - Entire batches can be rejected
  * 4. Item-Level Returns - Individual payments can be returned
- * 5. Settlement Not Final - Until return window closes
+ * 5. Settlement Not Final - Until return window closes (BECS.4)
  * 
  * Invariant Categories:
  * - State Transition Invariants
  * - Economic Invariants
  * - Batch Integrity Invariants
  * - Return Handling Invariants
+ * - Destination Invariants
+ * - Direct Debit Invariants
+ *
+ * Every check throws a typed error from domain/shared/PaymentErrors.
  */
 
-import { BECSPaymentState, isBECSTerminalState } from "./BECSPaymentState";
+import {
+  BECSDirection,
+  BECSPaymentState,
+  BECS_DEBIT_RETURN_CODES,
+  isBECSTerminalState,
+} from "./BECSPaymentState";
 import { isBECSTransitionLegal } from "./BECSStateTransitions";
-import { BECSPaymentEvent } from "./BECSPaymentEvent";
+import { BECSPaymentEvent, PaymentIntentCreated, PaymentReturned } from "./BECSPaymentEvent";
+import type { BECSPayment } from "./BECSPayment";
+import {
+  BECSReturnWindowPolicy,
+  DEFAULT_BECS_RETURN_WINDOW_POLICY,
+  getBECSReturnWindowCloses,
+} from "./BECSReturnWindow";
+import {
+  InvariantError,
+  StateTransitionError,
+  TerminalStateError,
+  UNIVERSAL_INVARIANTS,
+} from "../shared/PaymentErrors";
+import type { BSBDirectory } from "../../bsb/BSBDirectory";
+import { DDRAuthority, DDRAuthorityState } from "./DDRAuthority";
 
 /**
  * Category 1: State Transition Invariants
@@ -34,22 +57,19 @@ export function assertBECSTransitionLegal(
   to: BECSPaymentState
 ): void {
   if (!isBECSTransitionLegal(from, to)) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Illegal BECS state transition from ${from} to ${to}`
-    );
+    throw new StateTransitionError("BECS", from, to);
   }
 }
 
 /**
  * Assert that the current state is not terminal
  * 
- * Terminal states (RETURNED, FAILED, EXPIRED) cannot transition to any other state
+ * Terminal states (RETURNED, FAILED, EXPIRED) cannot transition to any other state.
+ * SETTLED is not terminal while its return window is open.
  */
 export function assertNotBECSTerminal(state: BECSPaymentState): void {
   if (isBECSTerminalState(state)) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Cannot transition from terminal state ${state}`
-    );
+    throw new TerminalStateError("BECS", state);
   }
 }
 
@@ -66,8 +86,11 @@ export function assertSingleBECSSettlement(events: BECSPaymentEvent[]): void {
   const settlementEvents = events.filter((e) => e.type === "PaymentSettled");
   
   if (settlementEvents.length > 1) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Multiple settlement events detected (${settlementEvents.length})`
+    throw new InvariantError(
+      "BECS",
+      "BECS.SINGLE_SETTLEMENT",
+      `Multiple settlement events detected (${settlementEvents.length})`,
+      { settlements: settlementEvents.length }
     );
   }
 }
@@ -77,6 +100,9 @@ export function assertSingleBECSSettlement(events: BECSPaymentEvent[]): void {
  * 
  * Total funds earmarked must equal total funds transferred or released
  * 
+ * A return after settlement reverses funds already counted as
+ * transferred, so it moves them back rather than accounting for more.
+ * 
  * Note: This invariant only applies to terminal states.
  * Intermediate states (BATCHED, SUBMITTED, CLEARED) are allowed to have
  * earmarked funds that haven't been accounted for yet.
@@ -86,15 +112,17 @@ export function assertBECSFundsConservation(events: BECSPaymentEvent[]): void {
   let totalTransferred = 0n;
   let totalReleased = 0n;
   let totalReversed = 0n;
+  let settled = false;
 
   for (const event of events) {
     if (event.type === "PaymentAuthorised") {
       totalEarmarked += event.fundsEarmarked;
     } else if (event.type === "PaymentSettled") {
       totalTransferred += event.fundsTransferred;
+      settled = true;
     } else if (event.type === "PaymentFailed" || event.type === "PaymentExpired") {
       totalReleased += event.fundsReleased;
-    } else if (event.type === "PaymentReturned") {
+    } else if (event.type === "PaymentReturned" && !settled) {
       totalReversed += event.fundsReversed;
     }
   }
@@ -104,8 +132,11 @@ export function assertBECSFundsConservation(events: BECSPaymentEvent[]): void {
   // Only enforce conservation if funds have been accounted for
   // (i.e., terminal state reached)
   if (totalAccountedFor > 0n && totalEarmarked !== totalAccountedFor) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Funds conservation violated. Earmarked: ${totalEarmarked}, Accounted for: ${totalAccountedFor}`
+    throw new InvariantError(
+      "BECS",
+      UNIVERSAL_INVARIANTS.FUNDS_CONSERVATION,
+      `Funds conservation violated. Earmarked: ${totalEarmarked}, Accounted for: ${totalAccountedFor}`,
+      { earmarked: totalEarmarked, accountedFor: totalAccountedFor }
     );
   }
 }
@@ -133,8 +164,11 @@ export function assertBatchTotalsReconcile(
   );
 
   if (calculatedTotal !== declaredTotal) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Batch total mismatch. Declared: ${declaredTotal}, Calculated: ${calculatedTotal}`
+    throw new InvariantError(
+      "BECS",
+      "BECS.1",
+      `Batch total mismatch. Declared: ${declaredTotal}, Calculated: ${calculatedTotal}`,
+      { declaredTotal, calculatedTotal }
     );
   }
 }
@@ -162,13 +196,19 @@ export function assertBatchFileIntegrity(events: BECSPaymentEvent[]): void {
   for (const event of batchedEvents) {
     if (event.type === "PaymentBatched") {
       if (event.batchId !== batchId) {
-        throw new Error(
-          `INVARIANT_VIOLATION: Batch ID mismatch. Expected: ${batchId}, Got: ${event.batchId}`
+        throw new InvariantError(
+          "BECS",
+          "BECS.1",
+          `Batch ID mismatch. Expected: ${batchId}, Got: ${event.batchId}`,
+          { expected: batchId, actual: event.batchId }
         );
       }
       if (event.batchDate !== batchDate) {
-        throw new Error(
-          `INVARIANT_VIOLATION: Batch date mismatch. Expected: ${batchDate}, Got: ${event.batchDate}`
+        throw new InvariantError(
+          "BECS",
+          "BECS.1",
+          `Batch date mismatch. Expected: ${batchDate}, Got: ${event.batchDate}`,
+          { expected: batchDate, actual: event.batchDate }
         );
       }
     }
@@ -180,16 +220,44 @@ export function assertBatchFileIntegrity(events: BECSPaymentEvent[]): void {
  */
 
 /**
- * Assert return only from CLEARED state
+ * Assert a return is allowed for the payment's current state
  * 
- * BECS-SPECIFIC: Returns can only occur after clearing
+ * BECS-SPECIFIC: Returns can occur after clearing, and after settlement
+ * while the return code's window is open (see BECSReturnWindow)
  */
-export function assertReturnOnlyFromCleared(
-  currentState: BECSPaymentState
+export function assertReturnWithinWindow(
+  payment: BECSPayment,
+  event: PaymentReturned,
+  policy: BECSReturnWindowPolicy = DEFAULT_BECS_RETURN_WINDOW_POLICY
 ): void {
-  if (currentState !== BECSPaymentState.CLEARED) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Return only allowed from CLEARED state, current state is ${currentState}`
+  if (payment.state === BECSPaymentState.CLEARED) {
+    return;
+  }
+
+  if (payment.state !== BECSPaymentState.SETTLED) {
+    throw new StateTransitionError(
+      "BECS",
+      payment.state,
+      BECSPaymentState.RETURNED,
+      `INVARIANT_VIOLATION: Return only allowed from CLEARED or SETTLED state, current state is ${payment.state}`
+    );
+  }
+
+  if (payment.batchDate === undefined) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.4",
+      `Settled payment ${payment.paymentIntentId} has no processing date`
+    );
+  }
+
+  const closes = getBECSReturnWindowCloses(payment.batchDate, event.returnCode, policy);
+  if (event.returnDate > closes) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.4",
+      `Return window for code ${event.returnCode} closed on ${closes}, return dated ${event.returnDate}`,
+      { batchDate: payment.batchDate, returnCode: event.returnCode, closes, returnDate: event.returnDate }
     );
   }
 }
@@ -203,8 +271,11 @@ export function assertSingleReturn(events: BECSPaymentEvent[]): void {
   const returnEvents = events.filter((e) => e.type === "PaymentReturned");
   
   if (returnEvents.length > 1) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Multiple return events detected (${returnEvents.length})`
+    throw new InvariantError(
+      "BECS",
+      "BECS.SINGLE_RETURN",
+      `Multiple return events detected (${returnEvents.length})`,
+      { returns: returnEvents.length }
     );
   }
 }
@@ -224,8 +295,11 @@ export function assertReturnReversesLedger(events: BECSPaymentEvent[]): void {
 
   if (clearedEvent.type === "PaymentCleared" && returnEvent.type === "PaymentReturned") {
     if (clearedEvent.fundsProvisional !== returnEvent.fundsReversed) {
-      throw new Error(
-        `INVARIANT_VIOLATION: Return amount mismatch. Cleared: ${clearedEvent.fundsProvisional}, Reversed: ${returnEvent.fundsReversed}`
+      throw new InvariantError(
+        "BECS",
+        "BECS.2",
+        `Return amount mismatch. Cleared: ${clearedEvent.fundsProvisional}, Reversed: ${returnEvent.fundsReversed}`,
+        { cleared: clearedEvent.fundsProvisional, reversed: returnEvent.fundsReversed }
       );
     }
   }
@@ -247,10 +321,138 @@ export function assertUniqueIdempotencyKey(
   const intentEvents = events.filter((e) => e.type === "PaymentIntentCreated");
   
   if (intentEvents.length > 1) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Multiple payment intents with same idempotency key: ${idempotencyKey}`
+    throw new InvariantError(
+      "BECS",
+      UNIVERSAL_INVARIANTS.IDEMPOTENCY,
+      `Multiple payment intents with same idempotency key: ${idempotencyKey}`,
+      { idempotencyKey }
+    );
+  }
+}
+
+/**
+ * Category 6: Destination Invariants
+ */
+
+/**
+ * Assert the destination is an open BSB that accepts BECS (E stream)
+ * payments, with a well-formed account number
+ * 
+ * Checked when the intent is created, not on replay: a branch that closes
+ * later must not make its past payments unreadable.
+ */
+export function assertBECSDestinationValid(
+  event: PaymentIntentCreated,
+  directory: BSBDirectory
+): void {
+  if (event.bsb === undefined || event.accountNumber === undefined) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.DESTINATION",
+      `BECS payment ${event.paymentIntentId} requires a BSB and account number destination`,
+      { toAccountId: event.toAccountId }
+    );
+  }
+
+  const result = directory.validate(event.bsb, event.accountNumber, "E");
+  if (!result.valid) {
+    throw new InvariantError("BECS", "BECS.DESTINATION", result.message, {
+      bsb: event.bsb,
+      accountNumber: event.accountNumber,
+      failure: result.failure,
+    });
+  }
+}
+
+/**
+ * Category 7: Direct Debit Invariants
+ */
+
+/**
+ * The parts of a debit its authority is checked against (a
+ * PaymentIntentCreated or a BECSPayment)
+ */
+export type BECSDebitDetails = Pick<
+  PaymentIntentCreated,
+  "paymentIntentId" | "amount" | "bsb" | "accountNumber" | "ddrAuthorityId"
+>;
+
+/**
+ * Assert a debit is drawn under a live DDR authority
+ * 
+ * The authority must be the one the debit names, ACTIVE and in force on
+ * the date, cover the debited account, and allow the amount. When the
+ * lodging debit user ID is known (file build), it must match too.
+ * 
+ * Checked when a debit is initiated (initiateBECSDebit) and again when
+ * its file is built (generateABAFile), not on replay: revoking an
+ * authority must not make past debits unreadable.
+ * 
+ * @param asOfDate - YYYY-MM-DD
+ */
+export function assertDDRAuthorityLive(
+  debit: BECSDebitDetails,
+  authority: DDRAuthority | undefined,
+  asOfDate: string,
+  debitUserId?: string
+): void {
+  const fail = (detail: string): never => {
+    throw new InvariantError("BECS", "BECS.DDR", `Direct debit ${debit.paymentIntentId} ${detail}`, {
+      ddrAuthorityId: debit.ddrAuthorityId,
+      asOfDate,
+    });
+  };
+
+  if (!authority || debit.ddrAuthorityId !== authority.authorityId) {
+    return fail(`has no DDR authority${debit.ddrAuthorityId ? ` (${debit.ddrAuthorityId} not found)` : ""}`);
+  }
+  if (authority.state === DDRAuthorityState.REVOKED) {
+    return fail(`is drawn under revoked DDR authority ${authority.authorityId} (${authority.revocationReason})`);
+  }
+  if (asOfDate < authority.validFrom || (authority.validTo !== undefined && asOfDate > authority.validTo)) {
+    return fail(
+      `is drawn on ${asOfDate}, outside DDR authority ${authority.authorityId} (${authority.validFrom}..${authority.validTo ?? "open"})`
+    );
+  }
+  if (debit.bsb !== authority.bsb || debit.accountNumber !== authority.accountNumber) {
+    return fail(
+      `debits ${debit.bsb} ${debit.accountNumber}, DDR authority ${authority.authorityId} covers ${authority.bsb} ${authority.accountNumber}`
     );
   }
+  if (debit.amount > authority.debitLimit) {
+    return fail(`of ${debit.amount} exceeds the debit limit ${authority.debitLimit}`);
+  }
+  if (debitUserId !== undefined && debitUserId !== authority.debitUserId) {
+    return fail(`is lodged under user ID ${debitUserId}, DDR authority names ${authority.debitUserId}`);
+  }
+}
+
+/**
+ * Assert debits name their authority and debit-only return codes are
+ * only used on debits
+ */
+export function assertDirectDebitIntegrity(events: BECSPaymentEvent[]): void {
+  const intent = events.find((e): e is PaymentIntentCreated => e.type === "PaymentIntentCreated");
+  const isDebit = intent?.direction === BECSDirection.DEBIT;
+
+  if (isDebit && !intent.ddrAuthorityId) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.DDR",
+      `Direct debit ${intent.paymentIntentId} does not name a DDR authority`
+    );
+  }
+
+  for (const event of events) {
+    if (event.type === "PaymentReturned" && !isDebit && BECS_DEBIT_RETURN_CODES.includes(event.returnCode)) {
+      throw new InvariantError(
+        "BECS",
+        "BECS.DDR",
+        `Return code ${event.returnCode} only applies to direct debits, payment ${event.paymentIntentId} is a credit`,
+        { returnCode: event.returnCode }
+      );
+    }
+  }
 }
 
 /**
@@ -275,6 +477,9 @@ export function validateAllBECSInvariants(
   assertSingleReturn(events);
   assertReturnReversesLedger(events);
   
+  // Direct debit invariants
+  assertDirectDebitIntegrity(events);
+  
   // Idempotency invariants
   const intentEvent = events.find((e) => e.type === "PaymentIntentCreated");
   if (intentEvent && intentEvent.type === "PaymentIntentCreated") {
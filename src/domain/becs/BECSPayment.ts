@@ -18,13 +18,27 @@
  * ```
  */
 
-import { BECSPaymentState } from "./BECSPaymentState";
-import { BECSPaymentEvent } from "./BECSPaymentEvent";
+import {
+  canonicalHash,
+  CanonicalHashAlgorithm,
+  CURRENT_HASH_ALGORITHM,
+} from "../shared/CanonicalHash";
+import { BECSDirection, BECSPaymentState } from "./BECSPaymentState";
+import { BECSPaymentEvent, PaymentIntentCreated, PaymentReturned } from "./BECSPaymentEvent";
 import {
   assertBECSTransitionLegal,
+  assertDDRAuthorityLive,
   assertNotBECSTerminal,
+  assertReturnWithinWindow,
   validateAllBECSInvariants,
 } from "./BECSInvariants";
+import { DDRAuthority } from "./DDRAuthority";
+import { InvariantError } from "../shared/PaymentErrors";
+import {
+  BECSReturnWindowPolicy,
+  DEFAULT_BECS_RETURN_WINDOW_POLICY,
+  isBECSSettlementFinal,
+} from "./BECSReturnWindow";
 
 /**
  * BECS Payment Aggregate
@@ -41,6 +55,8 @@ export interface BECSPayment {
   readonly toAccountId: string;
   readonly bsb?: string;
   readonly accountNumber?: string;
+  readonly direction?: BECSDirection; // Absent = CREDIT
+  readonly ddrAuthorityId?: string;
   readonly batchId?: string;
   readonly batchDate?: string;
   readonly fileReference?: string;
@@ -68,13 +84,65 @@ export function createBECSPayment(event: BECSPaymentEvent): BECSPayment {
     toAccountId: event.toAccountId,
     bsb: event.bsb,
     accountNumber: event.accountNumber,
+    direction: event.direction,
+    ddrAuthorityId: event.ddrAuthorityId,
     createdAt: event.occurredAt,
     updatedAt: event.occurredAt,
   };
 }
 
+/**
+ * Initiate a BECS direct debit under a live DDR authority
+ *
+ * createBECSPayment does not look at the authority, so a debit whose
+ * authority was later revoked still replays; this is the check for when
+ * the debit is initiated.
+ *
+ * @param authority - DDR authority the debit names (current state)
+ * @param asOfDate - YYYY-MM-DD the debit is initiated on
+ * @throws InvariantError (BECS.DDR) if the intent is not a debit or its
+ * authority is not live for the account and amount
+ */
+export function initiateBECSDebit(
+  event: PaymentIntentCreated,
+  authority: DDRAuthority | undefined,
+  asOfDate: string
+): BECSPayment {
+  if (event.direction !== BECSDirection.DEBIT) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.DDR",
+      `Payment ${event.paymentIntentId} is not a direct debit`
+    );
+  }
+  assertDDRAuthorityLive(event, authority, asOfDate);
+  return createBECSPayment(event);
+}
+
+/**
+ * Accept a return for a payment (command side)
+ * 
+ * Every new return goes through here, so a SETTLED payment is only
+ * returned while the return code's window is open. applyBECSEvent does
+ * not check windows, so recorded returns still replay after they change.
+ * 
+ * @throws InvariantError (BECS.4) if the return window has closed
+ * @throws StateTransitionError if the payment is not CLEARED or SETTLED
+ */
+export function returnBECSPayment(
+  payment: BECSPayment,
+  event: PaymentReturned,
+  policy: BECSReturnWindowPolicy = DEFAULT_BECS_RETURN_WINDOW_POLICY
+): BECSPayment {
+  assertReturnWithinWindow(payment, event, policy);
+  return applyBECSEvent(payment, event);
+}
+
 /**
  * Apply an event to a BECS payment, returning a new immutable payment
+ * 
+ * Replays recorded returns without checking their window; accept new
+ * returns with returnBECSPayment
  */
 export function applyBECSEvent(
   payment: BECSPayment,
@@ -208,37 +276,31 @@ export function rebuildBECSFromEvents(events: BECSPaymentEvent[]): BECSPayment {
 /**
  * Compute a deterministic hash of payment state
  * 
- * Used to verify replay produces identical results
+ * Used to verify replay produces identical results. Versioned canonical
+ * hash of the full aggregate (see CanonicalHash).
  */
-export function computeBECSStateHash(payment: BECSPayment): string {
-  const crypto = require("crypto");
-  
-  const stateString = JSON.stringify({
-    paymentIntentId: payment.paymentIntentId,
-    state: payment.state,
-    amount: payment.amount.toString(),
-    currency: payment.currency,
-    idempotencyKey: payment.idempotencyKey,
-    fromAccountId: payment.fromAccountId,
-    toAccountId: payment.toAccountId,
-    bsb: payment.bsb,
-    accountNumber: payment.accountNumber,
-    batchId: payment.batchId,
-    batchDate: payment.batchDate,
-    fileReference: payment.fileReference,
-    returnCode: payment.returnCode,
-    returnReason: payment.returnReason,
-  });
+export function computeBECSStateHash(
+  payment: BECSPayment,
+  algorithm: CanonicalHashAlgorithm = CURRENT_HASH_ALGORITHM
+): string {
+  return canonicalHash(payment, algorithm);
+}
 
-  return crypto.createHash("sha256").update(stateString).digest("hex");
+/**
+ * Check if a BECS payment is a direct debit
+ */
+export function isBECSDirectDebit(payment: BECSPayment): boolean {
+  return payment.direction === BECSDirection.DEBIT;
 }
 
 /**
  * Check if a BECS payment is in a terminal state
+ * 
+ * SETTLED is not terminal: it can still be returned until its return
+ * window closes (see isBECSSettlementFinal)
  */
 export function isBECSPaymentTerminal(payment: BECSPayment): boolean {
   return (
-    payment.state === BECSPaymentState.SETTLED ||
     payment.state === BECSPaymentState.RETURNED ||
     payment.state === BECSPaymentState.FAILED ||
     payment.state === BECSPaymentState.EXPIRED
@@ -278,8 +340,19 @@ export function canResubmitBECSPayment(payment: BECSPayment): boolean {
 /**
  * Check if a BECS payment can be returned
  * 
- * Only CLEARED payments can be returned
+ * CLEARED payments can be returned, and SETTLED payments until their
+ * settlement is final
+ * 
+ * @param asOfDate - YYYY-MM-DD
  */
-export function canReturnBECSPayment(payment: BECSPayment): boolean {
-  return payment.state === BECSPaymentState.CLEARED;
+export function canReturnBECSPayment(
+  payment: BECSPayment,
+  asOfDate: string,
+  policy: BECSReturnWindowPolicy = DEFAULT_BECS_RETURN_WINDOW_POLICY
+): boolean {
+  return (
+    payment.state === BECSPaymentState.CLEARED ||
+    (payment.state === BECSPaymentState.SETTLED &&
+      !isBECSSettlementFinal(payment, asOfDate, policy))
+  );
 }
@@ -18,7 +18,7 @@
  * - PaymentSettled
  */
 
-import { BECSFailureReason, BECSReturnCode } from "./BECSPaymentState";
+import { BECSDirection, BECSFailureReason, BECSReturnCode } from "./BECSPaymentState";
 
 /**
  * Base Event Interface
@@ -30,6 +30,9 @@ interface BECSBaseEvent {
 
 /**
  * PaymentIntentCreated - Intent exists, nothing executed
+ * 
+ * For a DEBIT, fromAccountId and bsb/accountNumber are the customer's
+ * account being debited and toAccountId is our collection account.
  */
 export interface PaymentIntentCreated extends BECSBaseEvent {
   type: "PaymentIntentCreated";
@@ -40,6 +43,8 @@ export interface PaymentIntentCreated extends BECSBaseEvent {
   toAccountId: string;
   bsb?: string; // BSB for BECS
   accountNumber?: string; // Account number for BECS
+  direction?: BECSDirection; // Absent = CREDIT
+  ddrAuthorityId?: string; // DDR authority a DEBIT is drawn under
 }
 
 /**
@@ -57,11 +57,11 @@ export enum BECSPaymentState {
   CLEARED = "CLEARED",
 
   /**
-   * SETTLED - Final settlement confirmed
+   * SETTLED - Settlement confirmed
    * Economic Impact: Funds moved (but return window still open)
    * 
-   * TERMINAL STATE - No transitions allowed from here
-   * (except RETURNED if within return window)
+   * Final only once the return window closes (see BECSReturnWindow);
+   * until then SETTLED → RETURNED is allowed
    */
   SETTLED = "SETTLED",
 
@@ -91,6 +91,17 @@ export enum BECSPaymentState {
   EXPIRED = "EXPIRED",
 }
 
+/**
+ * BECS Entry Direction
+ * 
+ * CREDIT pays out of our account; DEBIT collects from the customer's
+ * account under a DDR (Direct Debit Request) authority.
+ */
+export enum BECSDirection {
+  CREDIT = "CREDIT",
+  DEBIT = "DEBIT",
+}
+
 /**
  * BECS Failure Reasons
  * 
@@ -177,6 +188,18 @@ export enum BECSReturnCode {
    */
   PAYMENT_STOPPED = "05",
 
+  /**
+   * 06 - No Authority (debits only)
+   * Debtor's institution holds no DDR, or the customer has cancelled it
+   */
+  NO_AUTHORITY = "06",
+
+  /**
+   * 07 - Invalid Debit User ID (debits only)
+   * Debit user ID not recognised by the debtor's institution
+   */
+  INVALID_DEBIT_USER_ID = "07",
+
   /**
    * 08 - Drawer Deceased
    */
@@ -188,11 +211,19 @@ export enum BECSReturnCode {
   NOT_DRAWN = "09",
 }
 
+/**
+ * Return codes that only apply to direct debits
+ */
+export const BECS_DEBIT_RETURN_CODES: BECSReturnCode[] = [
+  BECSReturnCode.NO_AUTHORITY,
+  BECSReturnCode.INVALID_DEBIT_USER_ID,
+];
+
 /**
  * Terminal States - No transitions allowed from these states
  * 
- * Note: SETTLED is technically terminal, but BECS allows
- * SETTLED → RETURNED within the return window
+ * Note: SETTLED is not terminal. BECS allows SETTLED → RETURNED
+ * within the return window (see isBECSSettlementFinal)
  */
 export const BECS_TERMINAL_STATES: BECSPaymentState[] = [
   BECSPaymentState.RETURNED,
@@ -0,0 +1,346 @@
+/**
+ * BECS Return File Parser
+ *
+ * Returns and dishonours arrive days after clearing as a Cemtext file:
+ *
+ *   0  Descriptive record  (date processed)
+ *   2  Return record       (one per returned item)
+ *   3  Refusal record      (same layout as a return)
+ *   7  File total record
+ *
+ * Return and refusal records repeat the original detail record and add
+ * the return code (position 18), the original day of processing and the
+ * original APCA user ID (positions 113-120).
+ *
+ * Each item is matched back to the detail record it reverses, using the
+ * ABA files we submitted (generateABAFile):
+ * - batch:     original user ID and day of processing select the file
+ * - trace:     trace BSB / account select our side of the entry
+ * - reference: lodgement reference, BSB and account select the entry
+ *
+ * Matched items become PaymentReturned events, validated against the
+ * return window and by applying them to the payment. Settled payments
+ * can be returned while their return window is open. Anything that cannot be turned into a valid event -
+ * unmatched, ambiguous, duplicated, wrong amount, unsupported code, or
+ * rejected by the aggregate - is reported as an exception for operators
+ * instead of being dropped. A malformed file (bad record layout or
+ * totals) is a BECSReturnFileError.
+ */
+
+import { BECSPayment, returnBECSPayment } from "./BECSPayment";
+import { BECSReturnCode } from "./BECSPaymentState";
+import { PaymentReturned } from "./BECSPaymentEvent";
+import { BECSReturnWindowPolicy } from "./BECSReturnWindow";
+import {
+  ABA_RECORD_LENGTH,
+  ABA_FILE_TOTAL_BSB,
+  ABADetail,
+  ABAFile,
+  ABATransactionCode,
+} from "./ABAFile";
+
+/**
+ * APCA direct entry return reasons (return record position 18)
+ *
+ * Reasons without a BECSReturnCode cannot be booked automatically and
+ * are reported as UNSUPPORTED_RETURN_CODE exceptions.
+ */
+export const BECS_RETURN_REASONS: Readonly<
+  Record<string, { description: string; returnCode: BECSReturnCode | null }>
+> = {
+  "1": { description: "Invalid BSB number", returnCode: BECSReturnCode.INVALID_ACCOUNT },
+  "2": { description: "Payment stopped", returnCode: BECSReturnCode.PAYMENT_STOPPED },
+  "3": { description: "Account closed", returnCode: BECSReturnCode.ACCOUNT_CLOSED },
+  "4": { description: "Customer deceased", returnCode: BECSReturnCode.DRAWER_DECEASED },
+  "5": { description: "No account/incorrect account number", returnCode: BECSReturnCode.INVALID_ACCOUNT },
+  "6": { description: "Refer to customer", returnCode: BECSReturnCode.REFER_TO_DRAWER },
+  "7": { description: "Deleted entry", returnCode: null },
+  "8": { description: "Invalid user ID number", returnCode: null },
+  "9": { description: "Technically invalid", returnCode: null },
+};
+
+/**
+ * A return or refusal record as read from the file
+ */
+export interface BECSReturnItem {
+  /** 1-based line number in the return file */
+  line: number;
+  recordType: "2" | "3";
+  bsb: string;
+  accountNumber: string;
+  /** APCA return reason (see BECS_RETURN_REASONS) */
+  returnReason: string;
+  transactionCode: string;
+  amount: bigint;
+  accountTitle: string;
+  lodgementReference: string;
+  traceBsb: string;
+  traceAccountNumber: string;
+  remitterName: string;
+  /** Day of month the original entry was processed */
+  originalProcessingDay: number;
+  originalUserId: string;
+}
+
+export type BECSReturnExceptionReason =
+  | "UNMATCHED"
+  | "AMBIGUOUS"
+  | "DUPLICATE"
+  | "AMOUNT_MISMATCH"
+  | "UNSUPPORTED_RETURN_CODE"
+  | "REJECTED";
+
+/**
+ * An item that could not be turned into a PaymentReturned
+ */
+export interface BECSReturnException {
+  reason: BECSReturnExceptionReason;
+  message: string;
+  item: BECSReturnItem;
+  /** Payments the item could belong to */
+  candidates: string[];
+}
+
+export interface BECSReturnFileOptions {
+  /** ABA files the returned items were originally submitted in */
+  originals: ABAFile[];
+  /** Current state of the payments in those files */
+  payments: BECSPayment[];
+  /** When the return file was received (PaymentReturned.occurredAt) */
+  receivedAt: Date;
+  /** Return windows for settled payments (default: DEFAULT_BECS_RETURN_WINDOW_POLICY) */
+  returnWindowPolicy?: BECSReturnWindowPolicy;
+}
+
+export interface BECSReturnFileResult {
+  /** Date processed from the descriptive record, YYYY-MM-DD */
+  returnDate: string;
+  items: BECSReturnItem[];
+  /** Validated events, in file order */
+  returns: PaymentReturned[];
+  exceptions: BECSReturnException[];
+}
+
+/**
+ * Raised when a return file is malformed
+ */
+export class BECSReturnFileError extends Error {
+  constructor(message: string) {
+    super(`BECS_RETURN_FILE_ERROR: ${message}`);
+    this.name = "BECSReturnFileError";
+  }
+}
+
+const DEBIT_CODES: ReadonlySet<string> = new Set([ABATransactionCode.EXTERNALLY_INITIATED_DEBIT]);
+
+interface Candidate {
+  file: ABAFile;
+  detail: ABADetail;
+}
+
+/**
+ * Parse a return file and match every item to its original payment
+ *
+ * @throws BECSReturnFileError if the file layout or totals are invalid
+ */
+export function parseBECSReturnFile(
+  content: string,
+  options: BECSReturnFileOptions
+): BECSReturnFileResult {
+  const { returnDate, items } = readReturnFile(content);
+
+  const payments = new Map(options.payments.map((payment) => [payment.paymentIntentId, payment]));
+  const candidates: Candidate[] = options.originals.flatMap((file) =>
+    file.details.map((detail) => ({ file, detail }))
+  );
+  const matched = new Set<string>();
+
+  const returns: PaymentReturned[] = [];
+  const exceptions: BECSReturnException[] = [];
+
+  for (const item of items) {
+    const found = candidates.filter((candidate) => matches(candidate, item));
+    const ids = found.map(({ detail }) => detail.paymentIntentId);
+    const exception = (reason: BECSReturnExceptionReason, message: string) =>
+      exceptions.push({ reason, message, item, candidates: ids });
+
+    if (found.length === 0) {
+      exception("UNMATCHED", `No submitted entry matches lodgement reference ${item.lodgementReference}`);
+      continue;
+    }
+    if (found.length > 1) {
+      exception("AMBIGUOUS", `${found.length} submitted entries match lodgement reference ${item.lodgementReference}`);
+      continue;
+    }
+
+    const [{ file, detail }] = found;
+    const reason = BECS_RETURN_REASONS[item.returnReason];
+
+    if (matched.has(detail.paymentIntentId)) {
+      exception("DUPLICATE", `Payment ${detail.paymentIntentId} is returned more than once in this file`);
+      continue;
+    }
+    matched.add(detail.paymentIntentId);
+
+    if (item.amount !== detail.amount) {
+      exception("AMOUNT_MISMATCH", `Returned ${item.amount} for an entry of ${detail.amount}`);
+      continue;
+    }
+    if (!reason?.returnCode) {
+      exception(
+        "UNSUPPORTED_RETURN_CODE",
+        `Return reason ${item.returnReason} (${reason?.description ?? "unknown"}) has no BECS return code`
+      );
+      continue;
+    }
+
+    const payment = payments.get(detail.paymentIntentId);
+    if (!payment) {
+      exception("UNMATCHED", `Payment ${detail.paymentIntentId} was not supplied`);
+      continue;
+    }
+
+    const event: PaymentReturned = {
+      type: "PaymentReturned",
+      paymentIntentId: detail.paymentIntentId,
+      occurredAt: options.receivedAt,
+      batchId: file.batchId,
+      returnCode: reason.returnCode,
+      returnDate,
+      returnReason: reason.description,
+      fundsReversed: detail.amount,
+    };
+
+    if (payment.batchId !== file.batchId) {
+      exception("REJECTED", `Payment ${payment.paymentIntentId} is in batch ${payment.batchId ?? "none"}, not ${file.batchId}`);
+      continue;
+    }
+
+    try {
+      returnBECSPayment(payment, event, options.returnWindowPolicy);
+    } catch (error) {
+      exception("REJECTED", (error as Error).message);
+      continue;
+    }
+
+    returns.push(event);
+  }
+
+  return { returnDate, items, returns, exceptions };
+}
+
+function matches({ file, detail }: Candidate, item: BECSReturnItem): boolean {
+  return (
+    file.apcaUserId === item.originalUserId &&
+    Number(file.processingDate.slice(8, 10)) === item.originalProcessingDay &&
+    detail.traceBsb === item.traceBsb &&
+    detail.traceAccountNumber === item.traceAccountNumber &&
+    detail.lodgementReference === item.lodgementReference &&
+    detail.bsb === item.bsb &&
+    detail.accountNumber === item.accountNumber
+  );
+}
+
+/**
+ * Split a return file into records and check its structure and totals
+ */
+function readReturnFile(content: string): { returnDate: string; items: BECSReturnItem[] } {
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+
+  lines.forEach((line, index) => {
+    if (line.length !== ABA_RECORD_LENGTH) {
+      throw new BECSReturnFileError(
+        `line ${index + 1} is ${line.length} characters, expected ${ABA_RECORD_LENGTH}`
+      );
+    }
+  });
+
+  const header = lines[0];
+  const trailer = lines[lines.length - 1];
+  if (lines.length < 2 || header[0] !== "0" || trailer[0] !== "7") {
+    throw new BECSReturnFileError("file must start with a descriptive record and end with a file total record");
+  }
+
+  const items = lines.slice(1, -1).map((line, index) => readItem(line, index + 2));
+
+  let creditTotal = 0n;
+  let debitTotal = 0n;
+  for (const item of items) {
+    if (DEBIT_CODES.has(item.transactionCode)) {
+      debitTotal += item.amount;
+    } else {
+      creditTotal += item.amount;
+    }
+  }
+  const net = creditTotal > debitTotal ? creditTotal - debitTotal : debitTotal - creditTotal;
+
+  const declared = {
+    bsb: trailer.slice(1, 8),
+    net: digits(trailer, 20, 30, lines.length),
+    credit: digits(trailer, 30, 40, lines.length),
+    debit: digits(trailer, 40, 50, lines.length),
+    count: Number(digits(trailer, 74, 80, lines.length)),
+  };
+  if (
+    declared.bsb !== ABA_FILE_TOTAL_BSB ||
+    declared.net !== net ||
+    declared.credit !== creditTotal ||
+    declared.debit !== debitTotal ||
+    declared.count !== items.length
+  ) {
+    throw new BECSReturnFileError(
+      `file total record (net ${declared.net}, credit ${declared.credit}, debit ${declared.debit}, count ${declared.count}) ` +
+        `does not match items (net ${net}, credit ${creditTotal}, debit ${debitTotal}, count ${items.length})`
+    );
+  }
+
+  return { returnDate: returnDateOf(header), items };
+}
+
+function readItem(line: string, lineNumber: number): BECSReturnItem {
+  const recordType = line[0];
+  if (recordType !== "2" && recordType !== "3") {
+    throw new BECSReturnFileError(`line ${lineNumber} has record type ${recordType}, expected 2 or 3`);
+  }
+
+  return {
+    line: lineNumber,
+    recordType,
+    bsb: line.slice(1, 8),
+    accountNumber: line.slice(8, 17).trim(),
+    returnReason: line.slice(17, 18),
+    transactionCode: line.slice(18, 20),
+    amount: digits(line, 20, 30, lineNumber),
+    accountTitle: line.slice(30, 62).trimEnd(),
+    lodgementReference: line.slice(62, 80).trimEnd(),
+    traceBsb: line.slice(80, 87),
+    traceAccountNumber: line.slice(87, 96).trim(),
+    remitterName: line.slice(96, 112).trimEnd(),
+    originalProcessingDay: Number(digits(line, 112, 114, lineNumber)),
+    originalUserId: line.slice(114, 120),
+  };
+}
+
+function digits(line: string, start: number, end: number, lineNumber: number): bigint {
+  const field = line.slice(start, end);
+  if (!/^\d+$/.test(field)) {
+    throw new BECSReturnFileError(
+      `line ${lineNumber} positions ${start + 1}-${end} "${field}" is not numeric`
+    );
+  }
+  return BigInt(field);
+}
+
+/**
+ * Descriptive record date processed (DDMMYY) to YYYY-MM-DD
+ */
+function returnDateOf(header: string): string {
+  const date = header.slice(74, 80);
+  if (!/^\d{6}$/.test(date)) {
+    throw new BECSReturnFileError(`descriptive record date "${date}" is not DDMMYY`);
+  }
+  return `20${date.slice(4, 6)}-${date.slice(2, 4)}-${date.slice(0, 2)}`;
+}
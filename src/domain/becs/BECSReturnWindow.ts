@@ -0,0 +1,129 @@
+/**
+ * BECS Return Windows - When Settlement Becomes Final
+ *
+ * BECS payments can be returned after they settle. Each return code has
+ * its own window, in business days counted from the payment's processing
+ * date (batchDate): return deadlines run from the day the entry was
+ * processed, not from the day we recorded settlement.
+ *
+ * A SETTLED payment becomes final once every window has closed.
+ *
+ * Windows are checked when a return is accepted (returnBECSPayment),
+ * not when events are replayed: a return booked under one institution's
+ * windows must still replay after those windows change.
+ *
+ * Usage:
+ * ```typescript
+ * const closes = getBECSReturnWindowCloses("2024-12-17", BECSReturnCode.ACCOUNT_CLOSED);
+ * const final = isBECSSettlementFinal(payment, "2024-12-30");
+ * ```
+ */
+
+import { BECSPaymentState, BECSReturnCode } from "./BECSPaymentState";
+import type { BECSPayment } from "./BECSPayment";
+
+/**
+ * Return window per return code, in business days after processing
+ */
+export type BECSReturnWindows = Readonly<Record<BECSReturnCode, number>>;
+
+/**
+ * Default BECS Return Windows
+ *
+ * These can be customized per institution
+ */
+export const DEFAULT_BECS_RETURN_WINDOWS: BECSReturnWindows = {
+  // Dishonours are decided by the receiving institution within days
+  [BECSReturnCode.REFER_TO_DRAWER]: 3,
+  [BECSReturnCode.INSUFFICIENT_FUNDS]: 3,
+  [BECSReturnCode.PAYMENT_STOPPED]: 3,
+  [BECSReturnCode.INVALID_DEBIT_USER_ID]: 3,
+
+  // Account problems can surface after the entry has been posted
+  [BECSReturnCode.ACCOUNT_CLOSED]: 5,
+  [BECSReturnCode.INVALID_ACCOUNT]: 5,
+  [BECSReturnCode.DRAWER_DECEASED]: 5,
+
+  // Customer claims run longest
+  [BECSReturnCode.NOT_DRAWN]: 10,
+  [BECSReturnCode.NO_AUTHORITY]: 10,
+};
+
+export interface BECSReturnWindowPolicy {
+  readonly windows: BECSReturnWindows;
+  /** Whether a YYYY-MM-DD date is a business day */
+  readonly isBusinessDay: (date: string) => boolean;
+}
+
+/**
+ * Default policy: default windows, Monday to Friday business days
+ *
+ * To skip public holidays, use a business calendar:
+ * `{ ...DEFAULT_BECS_RETURN_WINDOW_POLICY, isBusinessDay: (date) => calendar.isBusinessDay(date) }`
+ */
+export const DEFAULT_BECS_RETURN_WINDOW_POLICY: BECSReturnWindowPolicy = {
+  windows: DEFAULT_BECS_RETURN_WINDOWS,
+  isBusinessDay: isWeekday,
+};
+
+/**
+ * Last date (YYYY-MM-DD) a return with this code can be dated
+ */
+export function getBECSReturnWindowCloses(
+  batchDate: string,
+  returnCode: BECSReturnCode,
+  policy: BECSReturnWindowPolicy = DEFAULT_BECS_RETURN_WINDOW_POLICY
+): string {
+  return addBusinessDays(batchDate, policy.windows[returnCode], policy.isBusinessDay);
+}
+
+/**
+ * Last date (YYYY-MM-DD) any return can be dated; settlement is final after it
+ */
+export function getBECSSettlementFinalDate(
+  batchDate: string,
+  policy: BECSReturnWindowPolicy = DEFAULT_BECS_RETURN_WINDOW_POLICY
+): string {
+  const longest = Math.max(...Object.values(policy.windows));
+  return addBusinessDays(batchDate, longest, policy.isBusinessDay);
+}
+
+/**
+ * Check if a payment is SETTLED and every return window has closed
+ *
+ * @param asOfDate - YYYY-MM-DD
+ */
+export function isBECSSettlementFinal(
+  payment: BECSPayment,
+  asOfDate: string,
+  policy: BECSReturnWindowPolicy = DEFAULT_BECS_RETURN_WINDOW_POLICY
+): boolean {
+  return (
+    payment.state === BECSPaymentState.SETTLED &&
+    payment.batchDate !== undefined &&
+    asOfDate > getBECSSettlementFinalDate(payment.batchDate, policy)
+  );
+}
+
+function addBusinessDays(
+  date: string,
+  days: number,
+  isBusinessDay: (date: string) => boolean
+): string {
+  const cursor = new Date(`${date}T00:00:00Z`);
+  let remaining = days;
+
+  while (remaining > 0) {
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+    if (isBusinessDay(cursor.toISOString().slice(0, 10))) {
+      remaining--;
+    }
+  }
+
+  return cursor.toISOString().slice(0, 10);
+}
+
+function isWeekday(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day !== 0 && day !== 6;
+}
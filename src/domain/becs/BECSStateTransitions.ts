@@ -15,6 +15,7 @@
  * BATCHED → FAILED (file build error)
  * SUBMITTED → FAILED (file rejected)
  * CLEARED → RETURNED (dishonour days later)
+ * SETTLED → RETURNED (late return, within the return window)
  * ANY → EXPIRED
  * 
  * Critical difference:
@@ -60,13 +61,14 @@ export const BECS_ALLOWED_TRANSITIONS: Record<BECSPaymentState, BECSPaymentState
   ],
 
   /**
-   * SETTLED is technically terminal, but BECS allows
-   * SETTLED → RETURNED within the return window (T+3 to T+7 days)
+   * SETTLED is final only once the return window closes
    * 
-   * This is commented out to enforce strict terminal state,
-   * but the invariant layer allows late returns via compensating events
+   * The window itself is checked when the return is accepted
+   * (returnBECSPayment), not here: see BECSReturnWindow
    */
-  [BECSPaymentState.SETTLED]: [],
+  [BECSPaymentState.SETTLED]: [
+    BECSPaymentState.RETURNED,
+  ],
 
   // Terminal states - no transitions allowed
   [BECSPaymentState.RETURNED]: [],
@@ -104,6 +106,7 @@ export function getBECSLegalNextStates(state: BECSPaymentState): BECSPaymentStat
  * | SUBMITTED   | CLEARED    | ❌  | ✅   |
  * | CLEARED     | SETTLED    | ❌  | ✅   |
  * | CLEARED     | RETURNED   | ❌  | ✅   |
+ * | SETTLED     | RETURNED   | ❌  | ✅   |
  * | ANY         | FAILED     | ✅  | ✅   |
  * | ANY         | EXPIRED    | ✅  | ✅   |
  */
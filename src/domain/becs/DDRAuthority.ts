@@ -0,0 +1,237 @@
+/**
+ * DDR Authority - Direct Debit Request Aggregate
+ *
+ * A customer's standing authority for us to debit their account through
+ * BECS. Each authority names:
+ * - the account that may be debited (BSB + account number)
+ * - the APCA debit user ID the debits are lodged under
+ * - the most a single debit may draw (the customer's debit limit)
+ * - the dates it is in force
+ *
+ * Lifecycle:
+ * ACTIVE → REVOKED (by the customer, their institution, or us)
+ *
+ * Revocation is final: a customer who re-authorises signs a new DDR.
+ * Debits are checked against the authority when they are initiated
+ * (initiateBECSDebit) and again when the ABA file is built
+ * (generateABAFile), so a debit already batched when its authority is
+ * revoked never reaches the file. Both use assertDDRAuthorityLive.
+ *
+ * Usage:
+ * ```typescript
+ * const authority = createDDRAuthority(establishedEvent);
+ * const revoked = applyDDRAuthorityEvent(authority, revokedEvent);
+ * const rebuilt = rebuildDDRAuthorityFromEvents(events);
+ * ```
+ */
+
+import {
+  canonicalHash,
+  CanonicalHashAlgorithm,
+  CURRENT_HASH_ALGORITHM,
+} from "../shared/CanonicalHash";
+import { InvariantError, TerminalStateError } from "../shared/PaymentErrors";
+
+export enum DDRAuthorityState {
+  /**
+   * ACTIVE - Debits may be drawn within the limit and validity dates
+   */
+  ACTIVE = "ACTIVE",
+
+  /**
+   * REVOKED - No further debits
+   * TERMINAL STATE - No transitions allowed from here
+   */
+  REVOKED = "REVOKED",
+}
+
+/**
+ * Who revoked an authority
+ */
+export type DDRRevokedBy = "CUSTOMER" | "INSTITUTION" | "USER";
+
+interface DDRAuthorityBaseEvent {
+  authorityId: string;
+  occurredAt: Date;
+}
+
+/**
+ * DDRAuthorityEstablished - Customer signed a Direct Debit Request
+ */
+export interface DDRAuthorityEstablished extends DDRAuthorityBaseEvent {
+  type: "DDRAuthorityEstablished";
+  customerId: string;
+  debitUserId: string; // APCA direct entry user ID debits are lodged under
+  bsb: string;
+  accountNumber: string;
+  accountName: string;
+  debitLimit: bigint; // Most a single debit may draw
+  validFrom: string; // YYYY-MM-DD
+  validTo?: string; // YYYY-MM-DD, absent = until revoked
+}
+
+/**
+ * DDRAuthorityLimitChanged - Customer varied their debit limit
+ */
+export interface DDRAuthorityLimitChanged extends DDRAuthorityBaseEvent {
+  type: "DDRAuthorityLimitChanged";
+  debitLimit: bigint;
+}
+
+/**
+ * DDRAuthorityRevoked - No further debits may be drawn
+ */
+export interface DDRAuthorityRevoked extends DDRAuthorityBaseEvent {
+  type: "DDRAuthorityRevoked";
+  revokedBy: DDRRevokedBy;
+  reason: string;
+}
+
+export type DDRAuthorityEvent =
+  | DDRAuthorityEstablished
+  | DDRAuthorityLimitChanged
+  | DDRAuthorityRevoked;
+
+/**
+ * DDR Authority Aggregate
+ */
+export interface DDRAuthority {
+  readonly authorityId: string;
+  readonly state: DDRAuthorityState;
+  readonly customerId: string;
+  readonly debitUserId: string;
+  readonly bsb: string;
+  readonly accountNumber: string;
+  readonly accountName: string;
+  readonly debitLimit: bigint;
+  readonly validFrom: string;
+  readonly validTo?: string;
+  readonly revokedBy?: DDRRevokedBy;
+  readonly revocationReason?: string;
+  readonly establishedAt: Date;
+  readonly revokedAt?: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Create an authority from its DDRAuthorityEstablished event
+ *
+ * @throws InvariantError (BECS.DDR) for a non-positive limit or inverted dates
+ */
+export function createDDRAuthority(event: DDRAuthorityEvent): DDRAuthority {
+  if (event.type !== "DDRAuthorityEstablished") {
+    throw new Error("Authority must be created from DDRAuthorityEstablished event");
+  }
+
+  assertPositiveLimit(event.authorityId, event.debitLimit);
+  if (event.validTo !== undefined && event.validTo < event.validFrom) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.DDR",
+      `DDR authority ${event.authorityId} ends (${event.validTo}) before it starts (${event.validFrom})`
+    );
+  }
+
+  return {
+    authorityId: event.authorityId,
+    state: DDRAuthorityState.ACTIVE,
+    customerId: event.customerId,
+    debitUserId: event.debitUserId,
+    bsb: event.bsb,
+    accountNumber: event.accountNumber,
+    accountName: event.accountName,
+    debitLimit: event.debitLimit,
+    validFrom: event.validFrom,
+    validTo: event.validTo,
+    establishedAt: event.occurredAt,
+    updatedAt: event.occurredAt,
+  };
+}
+
+/**
+ * Apply an event to an authority, returning a new immutable authority
+ *
+ * @throws TerminalStateError once the authority is revoked
+ */
+export function applyDDRAuthorityEvent(
+  authority: DDRAuthority,
+  event: DDRAuthorityEvent
+): DDRAuthority {
+  if (event.authorityId !== authority.authorityId) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.DDR",
+      `Event for authority ${event.authorityId} applied to authority ${authority.authorityId}`
+    );
+  }
+  if (authority.state === DDRAuthorityState.REVOKED) {
+    throw new TerminalStateError("BECS", authority.state);
+  }
+
+  switch (event.type) {
+    case "DDRAuthorityEstablished":
+      throw new InvariantError(
+        "BECS",
+        "BECS.DDR",
+        `DDR authority ${authority.authorityId} is already established`
+      );
+
+    case "DDRAuthorityLimitChanged":
+      assertPositiveLimit(authority.authorityId, event.debitLimit);
+      return { ...authority, debitLimit: event.debitLimit, updatedAt: event.occurredAt };
+
+    case "DDRAuthorityRevoked":
+      return {
+        ...authority,
+        state: DDRAuthorityState.REVOKED,
+        revokedBy: event.revokedBy,
+        revocationReason: event.reason,
+        revokedAt: event.occurredAt,
+        updatedAt: event.occurredAt,
+      };
+  }
+}
+
+/**
+ * Rebuild an authority from its events
+ */
+export function rebuildDDRAuthorityFromEvents(events: DDRAuthorityEvent[]): DDRAuthority {
+  if (events.length === 0) {
+    throw new Error("Cannot rebuild authority from empty event list");
+  }
+
+  return events.slice(1).reduce(applyDDRAuthorityEvent, createDDRAuthority(events[0]));
+}
+
+/**
+ * Check if an authority can be debited on a date
+ *
+ * @param asOfDate - YYYY-MM-DD
+ */
+export function isDDRAuthorityInForce(authority: DDRAuthority, asOfDate: string): boolean {
+  return (
+    authority.state === DDRAuthorityState.ACTIVE &&
+    asOfDate >= authority.validFrom &&
+    (authority.validTo === undefined || asOfDate <= authority.validTo)
+  );
+}
+
+/**
+ * Compute a deterministic hash of authority state
+ */
+export function computeDDRAuthorityHash(
+  authority: DDRAuthority,
+  algorithm: CanonicalHashAlgorithm = CURRENT_HASH_ALGORITHM
+): string {
+  return canonicalHash(authority, algorithm);
+}
+
+function assertPositiveLimit(authorityId: string, debitLimit: bigint): void {
+  if (debitLimit <= 0n) {
+    throw new InvariantError(
+      "BECS",
+      "BECS.DDR",
+      `DDR authority ${authorityId} debit limit must be positive, got ${debitLimit}`
+    );
+  }
+}
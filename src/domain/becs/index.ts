@@ -25,8 +25,10 @@
 // State machine
 export {
   BECSPaymentState,
+  BECSDirection,
   BECSFailureReason,
   BECSReturnCode,
+  BECS_DEBIT_RETURN_CODES,
   BECS_TERMINAL_STATES,
   isBECSTerminalState,
 } from "./BECSPaymentState";
@@ -74,24 +76,131 @@ export {
   assertBECSFundsConservation,
   assertBatchTotalsReconcile,
   assertBatchFileIntegrity,
-  assertReturnOnlyFromCleared,
+  assertReturnWithinWindow,
   assertSingleReturn,
   assertReturnReversesLedger,
   assertUniqueIdempotencyKey,
+  assertBECSDestinationValid,
+  assertDDRAuthorityLive,
+  assertDirectDebitIntegrity,
   validateAllBECSInvariants,
 } from "./BECSInvariants";
 
+export type { BECSDebitDetails } from "./BECSInvariants";
+
+// Return windows
+export type { BECSReturnWindows, BECSReturnWindowPolicy } from "./BECSReturnWindow";
+
+export {
+  DEFAULT_BECS_RETURN_WINDOWS,
+  DEFAULT_BECS_RETURN_WINDOW_POLICY,
+  getBECSReturnWindowCloses,
+  getBECSSettlementFinalDate,
+  isBECSSettlementFinal,
+} from "./BECSReturnWindow";
+
 // Payment aggregate
 export type { BECSPayment } from "./BECSPayment";
 
 export {
   createBECSPayment,
+  initiateBECSDebit,
+  returnBECSPayment,
   applyBECSEvent,
   rebuildBECSFromEvents,
   computeBECSStateHash,
+  isBECSDirectDebit,
   isBECSPaymentTerminal,
   canRetryBECSPayment,
   canCancelBECSPayment,
   canResubmitBECSPayment,
   canReturnBECSPayment,
 } from "./BECSPayment";
+
+// Batch state machine
+export {
+  BECSBatchState,
+  BECS_BATCH_ALLOWED_TRANSITIONS,
+  isBECSBatchTransitionLegal,
+  isBECSBatchTerminalState,
+} from "./BECSBatchState";
+
+// Batch events
+export type {
+  BECSBatchEvent,
+  BatchOpened,
+  BatchItemAdded,
+  BatchItemRemoved,
+  BatchSealed,
+  BatchFileSubmitted,
+  BatchAccepted,
+  BatchRejected,
+} from "./BECSBatchEvent";
+
+// Batch aggregate
+export type { BECSBatchItem, BECSBatch } from "./BECSBatch";
+
+export {
+  openBECSBatch,
+  createBECSBatch,
+  applyBECSBatchEvent,
+  rebuildBECSBatchFromEvents,
+  computeBECSBatchHash,
+  addPaymentToBECSBatch,
+  submitBECSBatch,
+  rejectBECSBatch,
+  assertBECSBatchTransition,
+} from "./BECSBatch";
+
+// ABA (Cemtext) direct entry files
+export type {
+  ABAIndicator,
+  ABAUserDetails,
+  ABAEntry,
+  ABAFileOptions,
+  ABADetail,
+  ABAFile,
+} from "./ABAFile";
+
+export {
+  ABA_RECORD_LENGTH,
+  ABA_LINE_ENDING,
+  ABA_FILE_TOTAL_BSB,
+  ABATransactionCode,
+  ABAFileError,
+  generateABAFile,
+} from "./ABAFile";
+
+// BECS return files
+export type {
+  BECSReturnItem,
+  BECSReturnExceptionReason,
+  BECSReturnException,
+  BECSReturnFileOptions,
+  BECSReturnFileResult,
+} from "./BECSReturnFile";
+
+export {
+  BECS_RETURN_REASONS,
+  BECSReturnFileError,
+  parseBECSReturnFile,
+} from "./BECSReturnFile";
+
+// DDR (Direct Debit Request) authorities
+export type {
+  DDRAuthority,
+  DDRAuthorityEvent,
+  DDRAuthorityEstablished,
+  DDRAuthorityLimitChanged,
+  DDRAuthorityRevoked,
+  DDRRevokedBy,
+} from "./DDRAuthority";
+
+export {
+  DDRAuthorityState,
+  createDDRAuthority,
+  applyDDRAuthorityEvent,
+  rebuildDDRAuthorityFromEvents,
+  isDDRAuthorityInForce,
+  computeDDRAuthorityHash,
+} from "./DDRAuthority";
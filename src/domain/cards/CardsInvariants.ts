@@ -1,5 +1,12 @@
 import { CardsPaymentState } from "./CardsPaymentState";
 import { isCardsTransitionLegal } from "./CardsStateTransitions";
+import {
+  InsufficientFundsError,
+  InvariantError,
+  StateTransitionError,
+  TerminalStateError,
+  UNIVERSAL_INVARIANTS,
+} from "../shared/PaymentErrors";
 
 /**
  * Cards Payment Invariants
@@ -9,6 +16,8 @@ import { isCardsTransitionLegal } from "./CardsStateTransitions";
  * - Auth hold ≠ ledger posting
  * - Partial capture allowed
  * - Settlement is reversible (chargebacks)
+ *
+ * Every check throws a typed error from domain/shared/PaymentErrors.
  */
 
 /**
@@ -25,11 +34,22 @@ export function assertAuthAllowed(
   authAmount: bigint
 ): void {
   if (authAmount <= 0n) {
-    throw new Error("INVARIANT_VIOLATION: Invalid auth amount (must be > 0)");
+    throw new InvariantError(
+      "CARDS",
+      "CARDS.POSITIVE_AMOUNT",
+      "Invalid auth amount (must be > 0)",
+      { authAmount }
+    );
   }
   
   if (availableBalance < authAmount) {
-    throw new Error("INVARIANT_VIOLATION: Insufficient funds for authorisation");
+    throw new InsufficientFundsError(
+      "CARDS",
+      "Cards.1",
+      authAmount,
+      availableBalance,
+      "Insufficient funds for authorisation"
+    );
   }
 }
 
@@ -41,7 +61,12 @@ export function assertAuthNotExpired(
   now: Date = new Date()
 ): void {
   if (now > expiresAt) {
-    throw new Error("INVARIANT_VIOLATION: Authorisation expired");
+    throw new InvariantError(
+      "CARDS",
+      "CARDS.AUTH_EXPIRY",
+      "Authorisation expired",
+      { expiresAt }
+    );
   }
 }
 
@@ -61,14 +86,23 @@ export function assertCaptureAllowed(
   captureAmount: bigint
 ): void {
   if (captureAmount <= 0n) {
-    throw new Error("INVARIANT_VIOLATION: Invalid capture amount (must be > 0)");
+    throw new InvariantError(
+      "CARDS",
+      "CARDS.POSITIVE_AMOUNT",
+      "Invalid capture amount (must be > 0)",
+      { captureAmount }
+    );
   }
   
   const totalAfterCapture = capturedSoFar + captureAmount;
   
   if (totalAfterCapture > authorisedAmount) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Capture exceeds auth (auth: ${authorisedAmount}, captured: ${capturedSoFar}, attempting: ${captureAmount})`
+    throw new InsufficientFundsError(
+      "CARDS",
+      "Cards.2",
+      captureAmount,
+      authorisedAmount - capturedSoFar,
+      `Capture exceeds auth (auth: ${authorisedAmount}, captured: ${capturedSoFar}, attempting: ${captureAmount})`
     );
   }
 }
@@ -84,8 +118,10 @@ export function assertCaptureAllowed(
  */
 export function assertSettlementProvisional(provisional: boolean): void {
   if (!provisional) {
-    throw new Error(
-      "INVARIANT_VIOLATION: Cards settlement must always be provisional (reversible via chargeback)"
+    throw new InvariantError(
+      "CARDS",
+      "Cards.4",
+      "Cards settlement must always be provisional (reversible via chargeback)"
     );
   }
 }
@@ -98,8 +134,11 @@ export function assertNoSecondSettlement(
   settledAmount: bigint
 ): void {
   if (settledAt !== null || settledAmount > 0n) {
-    throw new Error(
-      "INVARIANT_VIOLATION: Payment already settled (no second settlement allowed)"
+    throw new InvariantError(
+      "CARDS",
+      "CARDS.SINGLE_SETTLEMENT",
+      "Payment already settled (no second settlement allowed)",
+      { settledAt, settledAmount }
     );
   }
 }
@@ -115,7 +154,10 @@ export function assertNoSecondSettlement(
  */
 export function assertChargebackAllowed(state: CardsPaymentState): void {
   if (state !== CardsPaymentState.SETTLED) {
-    throw new Error(
+    throw new StateTransitionError(
+      "CARDS",
+      state,
+      CardsPaymentState.CHARGEBACK,
       `INVARIANT_VIOLATION: Chargeback only allowed after settlement (current state: ${state})`
     );
   }
@@ -129,8 +171,11 @@ export function assertChargebackReversesLedger(
   settledAmount: bigint
 ): void {
   if (fundsReversed !== settledAmount) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Chargeback must reverse full settlement (settled: ${settledAmount}, reversed: ${fundsReversed})`
+    throw new InvariantError(
+      "CARDS",
+      "Cards.3",
+      `Chargeback must reverse full settlement (settled: ${settledAmount}, reversed: ${fundsReversed})`,
+      { settledAmount, fundsReversed }
     );
   }
 }
@@ -147,9 +192,7 @@ export function assertCardsTransitionLegal(
   to: CardsPaymentState
 ): void {
   if (!isCardsTransitionLegal(from, to)) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Illegal Cards state transition from ${from} to ${to}`
-    );
+    throw new StateTransitionError("CARDS", from, to);
   }
 }
 
@@ -165,9 +208,7 @@ export function assertTerminalStateImmutable(state: CardsPaymentState): void {
   ];
   
   if (terminalStates.includes(state)) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Cannot transition from terminal state ${state}`
-    );
+    throw new TerminalStateError("CARDS", state);
   }
 }
 
@@ -191,15 +232,21 @@ export function assertFundsConservation(
   
   // If settled, settled amount should not exceed captured
   if (settledAmount > 0n && capturedAmount > 0n && settledAmount > capturedAmount) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Settled amount exceeds captured. Captured: ${capturedAmount}, Settled: ${settledAmount}`
+    throw new InvariantError(
+      "CARDS",
+      UNIVERSAL_INVARIANTS.FUNDS_CONSERVATION,
+      `Settled amount exceeds captured. Captured: ${capturedAmount}, Settled: ${settledAmount}`,
+      { capturedAmount, settledAmount }
     );
   }
   
   // If chargedback, chargeback should not exceed settled
   if (chargebackAmount > 0n && settledAmount > 0n && chargebackAmount > settledAmount) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Chargeback exceeds settled. Settled: ${settledAmount}, Chargeback: ${chargebackAmount}`
+    throw new InvariantError(
+      "CARDS",
+      UNIVERSAL_INVARIANTS.FUNDS_CONSERVATION,
+      `Chargeback exceeds settled. Settled: ${settledAmount}, Chargeback: ${chargebackAmount}`,
+      { settledAmount, chargebackAmount }
     );
   }
 }
@@ -5,7 +5,11 @@ import {
   assertTerminalStateImmutable,
   assertFundsConservation,
 } from "./CardsInvariants";
-import { createHash } from "crypto";
+import {
+  canonicalHash,
+  CanonicalHashAlgorithm,
+  CURRENT_HASH_ALGORITHM,
+} from "../shared/CanonicalHash";
 
 /**
  * Cards Payment Aggregate
@@ -259,20 +263,12 @@ export function rebuildCardsFromEvents(
 
 /**
  * Get deterministic hash of Cards payment state
+ *
+ * Versioned canonical hash of the full aggregate (see CanonicalHash).
  */
-export function getCardsPaymentHash(payment: CardsPayment): string {
-  const stateSnapshot = {
-    paymentIntentId: payment.paymentIntentId,
-    state: payment.state,
-    version: payment.version,
-    amount: payment.amount.toString(),
-    holdPlaced: payment.holdPlaced.toString(),
-    totalCaptured: payment.totalCaptured.toString(),
-    settledAmount: payment.settledAmount.toString(),
-    chargebackAmount: payment.chargebackAmount.toString(),
-  };
-  
-  return createHash("sha256")
-    .update(JSON.stringify(stateSnapshot))
-    .digest("hex");
+export function getCardsPaymentHash(
+  payment: CardsPayment,
+  algorithm: CanonicalHashAlgorithm = CURRENT_HASH_ALGORITHM
+): string {
+  return canonicalHash(payment, algorithm);
 }
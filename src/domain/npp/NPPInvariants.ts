@@ -0,0 +1,302 @@
+/**
+ * NPP Invariants - Immutable Business Rules
+ *
+ * These invariants enforce NPP-specific business rules that must hold true
+ * across all payment state transitions. Every check throws a typed error
+ * from NPPPaymentErrors.ts; callers never need to sniff messages.
+ *
+ * Key NPP Invariants:
+ * 1. Legal Transitions - Only NPP_ALLOWED_TRANSITIONS may be taken
+ * 2. ACK ≠ Settlement - Funds only move on SETTLED
+ * 3. Single Settlement - A payment settles at most once
+ * 4. Funds Conservation - Earmarked = moved + released at terminal states
+ * 5. Attempt Consistency - Rail callbacks must match the current attempt
+ * 6. Returns - Recorded once on SETTLED, never more than was moved
+ * 7. Confirmation of Payee - PayID payments are confirmed before authorisation
+ *
+ * Invariant Categories:
+ * - State Transition Invariants
+ * - Economic Invariants
+ * - Idempotency Invariants
+ * - Operator Invariants
+ */
+
+import { NPPPaymentState, isTerminalState } from "./NPPPaymentState";
+import { isNPPTransitionLegal, NPP_OPS_OVERRIDE_TRANSITIONS } from "./NPPStateTransitions";
+import { OpsOverrideApplied, PayeeConfirmed } from "./NPPPaymentEvent";
+import {
+  IllegalTransitionError,
+  InvariantViolationError,
+  OpsViolationError,
+} from "./NPPPaymentErrors";
+import { UNIVERSAL_INVARIANTS } from "../shared/PaymentErrors";
+
+/**
+ * Category 1: State Transition Invariants
+ */
+
+/**
+ * Assert that a state transition is legal
+ */
+export function assertNPPTransitionLegal(
+  from: NPPPaymentState,
+  to: NPPPaymentState
+): void {
+  if (!isNPPTransitionLegal(from, to)) {
+    throw new IllegalTransitionError(from, to);
+  }
+}
+
+/**
+ * Assert a payee confirmation is legal
+ *
+ * Only a payment addressed to a PayID can record one, for that PayID,
+ * once, while still CREATED.
+ */
+export function assertNPPPayeeConfirmationLegal(
+  state: NPPPaymentState,
+  payId: string | undefined,
+  payeeConfirmedAt: Date | undefined,
+  event: PayeeConfirmed
+): void {
+  if (state !== NPPPaymentState.CREATED) {
+    throw new InvariantViolationError(
+      `Payee can only be confirmed before authorisation, payment is ${state}`,
+      "NPP.PAYEE_CONFIRMATION"
+    );
+  }
+
+  if (payId === undefined || payId !== event.payId) {
+    throw new InvariantViolationError(
+      `Confirmation for PayID ${event.payId} does not match payment PayID ${payId ?? "none"}`,
+      "NPP.PAYEE_CONFIRMATION"
+    );
+  }
+
+  if (payeeConfirmedAt !== undefined) {
+    throw new InvariantViolationError(
+      `Payee already confirmed at ${payeeConfirmedAt.toISOString()}`,
+      "NPP.PAYEE_CONFIRMATION"
+    );
+  }
+
+  if (!Number.isInteger(event.matchScore) || event.matchScore < 0 || event.matchScore > 100) {
+    throw new InvariantViolationError(
+      `Payee match score must be an integer from 0 to 100, got ${event.matchScore}`,
+      "NPP.PAYEE_CONFIRMATION"
+    );
+  }
+}
+
+/**
+ * Assert a PayID payment has a confirmed payee before it is authorised
+ */
+export function assertNPPPayeeConfirmed(
+  payId: string | undefined,
+  payeeConfirmedAt: Date | undefined
+): void {
+  if (payId !== undefined && payeeConfirmedAt === undefined) {
+    throw new InvariantViolationError(
+      `PayID ${payId} must be resolved and the payee confirmed before authorisation`,
+      "NPP.PAYEE_CONFIRMATION"
+    );
+  }
+}
+
+/**
+ * Category 2: Economic Invariants
+ */
+
+/**
+ * Assert amount is positive
+ */
+export function assertPositiveAmount(amount: bigint): void {
+  if (amount <= 0n) {
+    throw new InvariantViolationError(
+      `NPP payment amount must be positive, got ${amount}`,
+      "NPP.POSITIVE_AMOUNT"
+    );
+  }
+}
+
+/**
+ * Assert currency is AUD
+ *
+ * NPP only clears Australian dollars.
+ */
+export function assertAUDCurrency(currency: string): void {
+  if (currency !== "AUD") {
+    throw new InvariantViolationError(
+      `NPP payments must be in AUD, got ${currency}`,
+      "NPP.AUD_CURRENCY"
+    );
+  }
+}
+
+/**
+ * Assert funds stay consistent between lifecycle stages
+ *
+ * The amount earmarked, held, provisional or moved for an attempt
+ * must equal the payment amount.
+ */
+export function assertNPPFundsConsistent(
+  stage: string,
+  expected: bigint,
+  actual: bigint
+): void {
+  if (actual !== expected) {
+    throw new InvariantViolationError(
+      `Funds mismatch at ${stage}. Expected: ${expected}, Got: ${actual}`,
+      UNIVERSAL_INVARIANTS.FUNDS_CONSERVATION,
+      { stage, expected, actual }
+    );
+  }
+}
+
+/**
+ * Assert single settlement
+ *
+ * A payment can only be settled once (NPP.2: no reversal after settlement)
+ */
+export function assertSingleNPPSettlement(settledAt: Date | undefined): void {
+  if (settledAt) {
+    throw new InvariantViolationError(
+      `Payment already settled at ${settledAt.toISOString()}`,
+      "NPP.2"
+    );
+  }
+}
+
+/**
+ * Assert funds conservation
+ *
+ * Total funds earmarked must equal total funds moved or released.
+ *
+ * Note: This invariant only applies to terminal states.
+ * Intermediate states (AUTHORISED, SENT, ACKNOWLEDGED) are allowed to have
+ * earmarked funds that haven't been accounted for yet.
+ */
+export function assertNPPFundsConservation(
+  state: NPPPaymentState,
+  fundsEarmarked: bigint,
+  fundsMoved: bigint,
+  fundsReleased: bigint
+): void {
+  if (!isTerminalState(state)) {
+    return;
+  }
+
+  const totalAccountedFor = fundsMoved + fundsReleased;
+
+  if (fundsEarmarked !== totalAccountedFor) {
+    throw new InvariantViolationError(
+      `Funds conservation violated. Earmarked: ${fundsEarmarked}, Moved: ${fundsMoved}, Released: ${fundsReleased}`,
+      UNIVERSAL_INVARIANTS.FUNDS_CONSERVATION,
+      { fundsEarmarked, fundsMoved, fundsReleased }
+    );
+  }
+}
+
+/**
+ * Assert a post-settlement return is legal
+ *
+ * Only a SETTLED payment can be returned, once, for at most the funds
+ * that moved. The payment stays SETTLED (NPP.2).
+ */
+export function assertNPPReturnLegal(
+  state: NPPPaymentState,
+  fundsMoved: bigint,
+  returnId: string | undefined,
+  fundsReturned: bigint
+): void {
+  if (state !== NPPPaymentState.SETTLED) {
+    throw new InvariantViolationError(
+      `Only SETTLED payments can be returned, payment is ${state}`,
+      "NPP.RETURN"
+    );
+  }
+
+  if (returnId !== undefined) {
+    throw new InvariantViolationError(
+      `Payment already returned (${returnId})`,
+      "NPP.RETURN"
+    );
+  }
+
+  if (fundsReturned <= 0n || fundsReturned > fundsMoved) {
+    throw new InvariantViolationError(
+      `Returned funds ${fundsReturned} must be positive and at most the ${fundsMoved} settled`,
+      "NPP.RETURN",
+      { fundsMoved, fundsReturned }
+    );
+  }
+}
+
+/**
+ * Category 3: Idempotency Invariants
+ */
+
+/**
+ * Assert rail callbacks reference the current attempt
+ *
+ * A late callback for a superseded attempt must never move the payment.
+ */
+export function assertCurrentAttempt(
+  currentAttemptId: string | undefined,
+  attemptId: string
+): void {
+  if (currentAttemptId !== attemptId) {
+    throw new InvariantViolationError(
+      `Event for attempt ${attemptId} does not match current attempt ${currentAttemptId ?? "none"}`,
+      "NPP.ATTEMPT_CONSISTENCY"
+    );
+  }
+}
+
+/**
+ * Assert attempt IDs are never reused
+ */
+export function assertNewAttempt(attempts: string[], attemptId: string): void {
+  if (attempts.includes(attemptId)) {
+    throw new InvariantViolationError(
+      `Attempt ${attemptId} already exists`,
+      UNIVERSAL_INVARIANTS.IDEMPOTENCY
+    );
+  }
+}
+
+/**
+ * Category 4: Operator Invariants
+ */
+
+/**
+ * Assert an operator override is legal
+ *
+ * The override must describe the state the payment is actually in,
+ * carry a policy gate, and follow NPP_OPS_OVERRIDE_TRANSITIONS
+ * (or the lifecycle matrix for generic OVERRIDE actions).
+ */
+export function assertOpsOverrideLegal(
+  currentState: NPPPaymentState,
+  event: OpsOverrideApplied
+): void {
+  if (event.fromState !== currentState) {
+    throw new OpsViolationError(
+      `${event.action} declared fromState ${event.fromState} but payment is ${currentState}`
+    );
+  }
+
+  if (!event.policyGate) {
+    throw new OpsViolationError(`${event.action} requires a policy gate`);
+  }
+
+  if (event.action === "OVERRIDE") {
+    assertNPPTransitionLegal(currentState, event.toState);
+    return;
+  }
+
+  const rule = NPP_OPS_OVERRIDE_TRANSITIONS[event.action];
+  if (!rule.from.includes(currentState) || !rule.to.includes(event.toState)) {
+    throw new IllegalTransitionError(currentState, event.toState);
+  }
+}
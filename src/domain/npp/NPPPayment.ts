@@ -5,8 +5,37 @@
  * No setters, no mutations, only event application.
  */
 
-import { NPPPaymentState } from "./NPPPaymentState";
-import { NPPPaymentEventUnion, mapEventToState } from "./NPPPaymentEvent";
+import {
+  canonicalHash,
+  CanonicalHashAlgorithm,
+  CURRENT_HASH_ALGORITHM,
+} from "../shared/CanonicalHash";
+import {
+  NPPPaymentState,
+  NPPPayIDType,
+  NPPPayeeMatchResult,
+} from "./NPPPaymentState";
+import {
+  NPPPaymentEventUnion,
+  OpsOverrideApplied,
+  mapEventToState,
+} from "./NPPPaymentEvent";
+import { InvariantViolationError } from "./NPPPaymentErrors";
+import { UNIVERSAL_INVARIANTS } from "../shared/PaymentErrors";
+import {
+  assertNPPTransitionLegal,
+  assertPositiveAmount,
+  assertAUDCurrency,
+  assertNPPFundsConsistent,
+  assertSingleNPPSettlement,
+  assertNPPFundsConservation,
+  assertCurrentAttempt,
+  assertNewAttempt,
+  assertNPPReturnLegal,
+  assertNPPPayeeConfirmationLegal,
+  assertNPPPayeeConfirmed,
+  assertOpsOverrideLegal,
+} from "./NPPInvariants";
 
 export interface NPPPayment {
   readonly paymentIntentId: string;
@@ -16,13 +45,26 @@ export interface NPPPayment {
   readonly idempotencyKey: string;
   readonly fromAccountId: string;
   readonly toAccountId: string;
+  readonly payId?: string;
+  readonly payIdType?: NPPPayIDType;
+  readonly payeeBsb?: string;
+  readonly payeeAccountNumber?: string;
+  readonly payeeName?: string;
+  readonly payeeMatchResult?: NPPPayeeMatchResult;
   readonly attempts: string[]; // attemptIds
   readonly currentAttemptId?: string;
   readonly externalRef?: string;
   readonly schemeRef?: string;
   readonly settlementRef?: string;
+  readonly returnId?: string;
+  readonly fundsEarmarked: bigint;
+  readonly fundsMoved: bigint;
+  readonly fundsReleased: bigint;
+  readonly fundsReturned?: bigint; // Sent back after settlement (pacs.004)
   readonly createdAt: Date;
+  readonly payeeConfirmedAt?: Date;
   readonly settledAt?: Date;
+  readonly returnedAt?: Date;
   readonly failedAt?: Date;
   readonly expiredAt?: Date;
 }
@@ -33,6 +75,9 @@ export interface NPPPayment {
 export function createNPPPayment(
   event: Extract<NPPPaymentEventUnion, { type: "PaymentIntentCreated" }>
 ): NPPPayment {
+  assertPositiveAmount(event.amount);
+  assertAUDCurrency(event.currency);
+
   return {
     paymentIntentId: event.paymentIntentId,
     state: NPPPaymentState.CREATED,
@@ -41,7 +86,12 @@ export function createNPPPayment(
     idempotencyKey: event.idempotencyKey,
     fromAccountId: event.fromAccountId,
     toAccountId: event.toAccountId,
+    payId: event.payId,
+    payIdType: event.payIdType,
     attempts: [],
+    fundsEarmarked: 0n,
+    fundsMoved: 0n,
+    fundsReleased: 0n,
     createdAt: event.occurredAt,
   };
 }
@@ -49,71 +99,242 @@ export function createNPPPayment(
 /**
  * Apply event to payment (immutable)
  * Returns new payment with updated state
+ *
+ * Every event is checked against NPPInvariants.ts before it is applied:
+ * - Illegal transitions throw IllegalTransitionError
+ * - Economic and idempotency breaches throw InvariantViolationError
+ * - Illegal operator overrides throw OpsViolationError
  */
 export function applyEvent(
   payment: NPPPayment,
   event: NPPPaymentEventUnion
 ): NPPPayment {
-  const newState = mapEventToState(event);
+  if (event.paymentIntentId !== payment.paymentIntentId) {
+    throw new InvariantViolationError(
+      `Event for ${event.paymentIntentId} applied to payment ${payment.paymentIntentId}`,
+      "NPP.STREAM_INTEGRITY"
+    );
+  }
+
+  const updated = applyEventUpdates(payment, event);
+
+  assertNPPFundsConservation(
+    updated.state,
+    updated.fundsEarmarked,
+    updated.fundsMoved,
+    updated.fundsReleased
+  );
 
+  return updated;
+}
+
+/**
+ * Validate and apply event-specific updates
+ */
+function applyEventUpdates(
+  payment: NPPPayment,
+  event: NPPPaymentEventUnion
+): NPPPayment {
   switch (event.type) {
     case "PaymentIntentCreated":
-      return createNPPPayment(event);
+      throw new InvariantViolationError(
+        `Duplicate PaymentIntentCreated for ${payment.paymentIntentId}`,
+        UNIVERSAL_INVARIANTS.IDEMPOTENCY
+      );
+
+    case "PayeeConfirmed":
+      assertNPPPayeeConfirmationLegal(
+        payment.state,
+        payment.payId,
+        payment.payeeConfirmedAt,
+        event
+      );
+
+      return {
+        ...payment,
+        payeeBsb: event.bsb,
+        payeeAccountNumber: event.accountNumber,
+        payeeName: event.payeeName,
+        payeeMatchResult: event.matchResult,
+        payeeConfirmedAt: event.occurredAt,
+      };
 
-    case "PaymentAuthorised":
-      return { ...payment, state: newState };
+    case "PaymentAuthorised": {
+      const newState = mapEventToState(event);
+      assertNPPTransitionLegal(payment.state, newState);
+      assertNPPPayeeConfirmed(payment.payId, payment.payeeConfirmedAt);
+      if (!event.policyChecksPassed) {
+        throw new InvariantViolationError(
+          "PaymentAuthorised requires policy checks to have passed",
+          "NPP.POLICY_CHECKS"
+        );
+      }
+      assertNPPFundsConsistent(newState, payment.amount, event.fundsEarmarked);
+
+      return {
+        ...payment,
+        state: newState,
+        fundsEarmarked: payment.fundsEarmarked + event.fundsEarmarked,
+      };
+    }
 
     case "PaymentAttemptCreated":
+      // Attempts don't change state; they may only be opened before sending
+      if (payment.state !== NPPPaymentState.AUTHORISED) {
+        throw new InvariantViolationError(
+          `Cannot create attempt in state ${payment.state}`,
+          "NPP.ATTEMPT_CONSISTENCY"
+        );
+      }
+      assertNewAttempt(payment.attempts, event.attemptId);
+
       return {
         ...payment,
         attempts: [...payment.attempts, event.attemptId],
         currentAttemptId: event.attemptId,
       };
 
-    case "PaymentSentToRail":
+    case "PaymentSentToRail": {
+      const newState = mapEventToState(event);
+      assertNPPTransitionLegal(payment.state, newState);
+      assertCurrentAttempt(payment.currentAttemptId, event.attemptId);
+      assertNPPFundsConsistent(newState, payment.amount, event.fundsHeld);
+
       return {
         ...payment,
         state: newState,
         externalRef: event.externalRef,
       };
+    }
+
+    case "PaymentAcknowledged": {
+      const newState = mapEventToState(event);
+      assertNPPTransitionLegal(payment.state, newState);
+      assertCurrentAttempt(payment.currentAttemptId, event.attemptId);
+      assertNPPFundsConsistent(newState, payment.amount, event.fundsProvisional);
 
-    case "PaymentAcknowledged":
       return {
         ...payment,
         state: newState,
         schemeRef: event.schemeRef,
       };
+    }
+
+    case "PaymentSettled": {
+      const newState = mapEventToState(event);
+      assertNPPTransitionLegal(payment.state, newState);
+      assertSingleNPPSettlement(payment.settledAt);
+      assertCurrentAttempt(payment.currentAttemptId, event.attemptId);
+      assertNPPFundsConsistent(newState, payment.amount, event.fundsMoved);
 
-    case "PaymentSettled":
       return {
         ...payment,
         state: newState,
         settlementRef: event.settlementRef,
+        fundsMoved: payment.fundsMoved + event.fundsMoved,
         settledAt: event.occurredAt,
       };
+    }
+
+    case "PaymentReturned":
+      assertNPPReturnLegal(payment.state, payment.fundsMoved, payment.returnId, event.fundsReturned);
+
+      return {
+        ...payment,
+        returnId: event.returnId,
+        fundsReturned: event.fundsReturned,
+        returnedAt: event.occurredAt,
+      };
+
+    case "PaymentFailed": {
+      const newState = mapEventToState(event);
+      assertNPPTransitionLegal(payment.state, newState);
+      if (event.attemptId !== undefined) {
+        assertCurrentAttempt(payment.currentAttemptId, event.attemptId);
+      }
 
-    case "PaymentFailed":
       return {
         ...payment,
         state: newState,
+        fundsReleased: payment.fundsReleased + event.fundsReleased,
         failedAt: event.occurredAt,
       };
+    }
+
+    case "PaymentExpired": {
+      const newState = mapEventToState(event);
+      assertNPPTransitionLegal(payment.state, newState);
+      if (event.attemptId !== undefined) {
+        assertCurrentAttempt(payment.currentAttemptId, event.attemptId);
+      }
 
-    case "PaymentExpired":
       return {
         ...payment,
         state: newState,
+        fundsReleased: payment.fundsReleased + event.fundsReleased,
         expiredAt: event.occurredAt,
       };
+    }
 
     case "OpsOverrideApplied":
+      assertOpsOverrideLegal(payment.state, event);
+      return applyOpsOverride(payment, event);
+
+    default:
+      throw new Error(`UNKNOWN_EVENT_TYPE: ${(event as any).type}`);
+  }
+}
+
+/**
+ * Apply an operator override
+ *
+ * Overrides carry no funds, so the economic effect is derived:
+ * - RETRY re-earmarks the full amount for the new attempt
+ * - Overrides into SETTLED move whatever is still outstanding
+ * - Overrides into FAILED/EXPIRED release whatever is still outstanding
+ */
+function applyOpsOverride(
+  payment: NPPPayment,
+  event: OpsOverrideApplied
+): NPPPayment {
+  const outstanding =
+    payment.fundsEarmarked - payment.fundsMoved - payment.fundsReleased;
+
+  if (event.action === "RETRY") {
+    return {
+      ...payment,
+      state: event.toState,
+      fundsEarmarked: payment.fundsEarmarked + payment.amount,
+    };
+  }
+
+  switch (event.toState) {
+    case NPPPaymentState.SETTLED:
+      return {
+        ...payment,
+        state: event.toState,
+        fundsMoved: payment.fundsMoved + outstanding,
+        settledAt: event.occurredAt,
+      };
+
+    case NPPPaymentState.FAILED:
+      return {
+        ...payment,
+        state: event.toState,
+        fundsReleased: payment.fundsReleased + outstanding,
+        failedAt: event.occurredAt,
+      };
+
+    case NPPPaymentState.EXPIRED:
       return {
         ...payment,
         state: event.toState,
+        fundsReleased: payment.fundsReleased + outstanding,
+        expiredAt: event.occurredAt,
       };
 
     default:
-      throw new Error(`UNKNOWN_EVENT_TYPE: ${(event as any).type}`);
+      return { ...payment, state: event.toState };
   }
 }
 
@@ -140,3 +361,15 @@ export function rebuildFromEvents(
 
   return payment;
 }
+
+/**
+ * Get deterministic hash of NPP payment state (for replay verification)
+ *
+ * Versioned canonical hash of the full aggregate (see CanonicalHash).
+ */
+export function getNPPPaymentHash(
+  payment: NPPPayment,
+  algorithm: CanonicalHashAlgorithm = CURRENT_HASH_ALGORITHM
+): string {
+  return canonicalHash(payment, algorithm);
+}
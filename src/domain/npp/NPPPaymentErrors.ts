@@ -1,28 +1,41 @@
 /**
  * NPP Payment Domain Errors
  * 
- * All errors are explicit and typed for proper error handling
+ * All errors are explicit and typed for proper error handling.
+ * Transition and invariant errors are NPP specialisations of the shared
+ * payment domain errors (domain/shared/PaymentErrors).
  */
 
 import { NPPPaymentState } from "./NPPPaymentState";
+import {
+  InvariantError,
+  PaymentDomainError,
+  StateTransitionError,
+} from "../shared/PaymentErrors";
 
-export class IllegalTransitionError extends Error {
+export class IllegalTransitionError extends StateTransitionError {
   constructor(from: NPPPaymentState, to: NPPPaymentState) {
-    super(`ILLEGAL_NPP_TRANSITION: ${from} → ${to}`);
+    super("NPP", from, to, `ILLEGAL_NPP_TRANSITION: ${from} → ${to}`);
     this.name = "IllegalTransitionError";
   }
 }
 
-export class InvariantViolationError extends Error {
-  constructor(message: string) {
-    super(`INVARIANT_VIOLATION: ${message}`);
+export class InvariantViolationError extends InvariantError {
+  constructor(
+    message: string,
+    invariant = "NPP",
+    context: Readonly<Record<string, unknown>> = {}
+  ) {
+    super("NPP", invariant, message, context);
     this.name = "InvariantViolationError";
   }
 }
 
-export class OpsViolationError extends Error {
+export class OpsViolationError extends PaymentDomainError {
+  readonly code: string = "OPS_VIOLATION";
+
   constructor(message: string) {
-    super(`OPS_VIOLATION: ${message}`);
+    super("NPP", `OPS_VIOLATION: ${message}`);
     this.name = "OpsViolationError";
   }
 }
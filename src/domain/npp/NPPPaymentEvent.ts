@@ -6,7 +6,12 @@
  * Current state = fold(events)
  */
 
-import { NPPPaymentState, NPPFailureReason } from "./NPPPaymentState";
+import {
+  NPPPaymentState,
+  NPPFailureReason,
+  NPPPayIDType,
+  NPPPayeeMatchResult,
+} from "./NPPPaymentState";
 
 /**
  * Base event interface
@@ -28,6 +33,28 @@ export interface PaymentIntentCreated extends NPPPaymentEvent {
   idempotencyKey: string;
   fromAccountId: string;
   toAccountId: string;
+  payId?: string; // Set when the customer paid a PayID (toAccountId holds it until resolved)
+  payIdType?: NPPPayIDType;
+}
+
+/**
+ * PayeeConfirmed - PayID resolved and payee confirmed by the customer
+ * 
+ * Recorded in CREATED, before PaymentAuthorised; a payment addressed to a
+ * PayID cannot be authorised without it. The match result is advisory:
+ * the customer may still confirm after a CLOSE_MATCH or NO_MATCH.
+ */
+export interface PayeeConfirmed extends NPPPaymentEvent {
+  type: "PayeeConfirmed";
+  payId: string;
+  payIdType: NPPPayIDType;
+  bsb: string;
+  accountNumber: string;
+  payeeName: string;         // Name registered against the PayID
+  expectedPayeeName: string; // Name the customer expected to pay
+  matchResult: NPPPayeeMatchResult;
+  matchScore: number;        // 0-100
+  confirmedBy: string;       // Customer who confirmed the payee
 }
 
 /**
@@ -83,6 +110,21 @@ export interface PaymentSettled extends NPPPaymentEvent {
   fundsMoved: bigint;
 }
 
+/**
+ * PaymentReturned - Funds sent back by the creditor's institution (pacs.004)
+ * 
+ * Recorded on a SETTLED payment: the settlement itself stands (NPP.2),
+ * the return is a separate credit linked to it. Named NPPPaymentReturned
+ * so it does not clash with the BECS PaymentReturned at the package root.
+ */
+export interface NPPPaymentReturned extends NPPPaymentEvent {
+  type: "PaymentReturned";
+  returnId: string;
+  returnReasonCode: string; // ISO 20022 return reason, e.g. AC04
+  returnReason?: string;
+  fundsReturned: bigint;
+}
+
 /**
  * PaymentFailed - Terminal failure
  * 
@@ -128,11 +170,13 @@ export interface OpsOverrideApplied extends NPPPaymentEvent {
  */
 export type NPPPaymentEventUnion =
   | PaymentIntentCreated
+  | PayeeConfirmed
   | PaymentAuthorised
   | PaymentAttemptCreated
   | PaymentSentToRail
   | PaymentAcknowledged
   | PaymentSettled
+  | NPPPaymentReturned
   | PaymentFailed
   | PaymentExpired
   | OpsOverrideApplied;
@@ -144,6 +188,9 @@ export function mapEventToState(event: NPPPaymentEventUnion): NPPPaymentState {
   switch (event.type) {
     case "PaymentIntentCreated":
       return NPPPaymentState.CREATED;
+    case "PayeeConfirmed":
+      // Payee confirmation happens before authorisation without changing state
+      return NPPPaymentState.CREATED;
     case "PaymentAuthorised":
       return NPPPaymentState.AUTHORISED;
     case "PaymentSentToRail":
@@ -152,6 +199,9 @@ export function mapEventToState(event: NPPPaymentEventUnion): NPPPaymentState {
       return NPPPaymentState.ACKNOWLEDGED;
     case "PaymentSettled":
       return NPPPaymentState.SETTLED;
+    case "PaymentReturned":
+      // Returns are recorded after settlement without leaving SETTLED
+      return NPPPaymentState.SETTLED;
     case "PaymentFailed":
       return NPPPaymentState.FAILED;
     case "PaymentExpired":
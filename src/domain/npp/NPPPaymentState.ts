@@ -4,7 +4,8 @@
  * This enum defines the ONLY legal states for NPP payments.
  * Anything not listed here is illegal by definition.
  * 
- * State transition rules are enforced in NPPInvariants.ts
+ * Legal transitions are defined in NPPStateTransitions.ts
+ * and enforced in NPPInvariants.ts
  */
 
 export enum NPPPaymentState {
@@ -85,3 +86,23 @@ export enum NPPFailureReason {
   RAIL = "RAIL",              // Rail rejected/timeout
   POST_ACK = "POST_ACK",      // Late failure after ACK
 }
+
+/**
+ * PayID types registered in the NPP Addressing Service
+ */
+export enum NPPPayIDType {
+  EMAIL = "EMAIL",
+  PHONE = "PHONE",     // Australian mobile, +61-4XXXXXXXX
+  ABN = "ABN",         // Australian Business Number (11 digits)
+  ORG_ID = "ORG_ID",   // Organisation identifier
+}
+
+/**
+ * Confirmation of Payee outcome - how closely the resolved account name
+ * matches the name the customer expected to pay
+ */
+export enum NPPPayeeMatchResult {
+  MATCH = "MATCH",
+  CLOSE_MATCH = "CLOSE_MATCH",
+  NO_MATCH = "NO_MATCH",
+}
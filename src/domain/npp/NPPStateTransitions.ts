@@ -0,0 +1,106 @@
+/**
+ * NPP State Transitions - Legal Transition Matrix
+ *
+ * This module defines the ONLY legal state transitions for NPP payments.
+ * Any transition not listed here is illegal by definition.
+ *
+ * NPP Lifecycle:
+ * CREATED → AUTHORISED → SENT → ACKNOWLEDGED → SETTLED
+ *
+ * Failure / Exception Paths:
+ * CREATED → FAILED (policy checks failed)
+ * AUTHORISED → FAILED (submission failed)
+ * SENT → FAILED (rail rejected/timeout)
+ * ACKNOWLEDGED → FAILED (late failure - ACK ≠ settlement)
+ * ANY non-terminal → EXPIRED
+ *
+ * Retries after FAILED are operator actions (OpsOverrideApplied RETRY),
+ * never plain lifecycle events. See NPP_OPS_OVERRIDE_TRANSITIONS.
+ */
+
+import { NPPPaymentState } from "./NPPPaymentState";
+
+/**
+ * Legal NPP State Transitions
+ *
+ * Key: Current state
+ * Value: Array of allowed next states
+ */
+export const NPP_ALLOWED_TRANSITIONS: Record<NPPPaymentState, NPPPaymentState[]> = {
+  [NPPPaymentState.CREATED]: [
+    NPPPaymentState.AUTHORISED,
+    NPPPaymentState.FAILED,
+    NPPPaymentState.EXPIRED,
+  ],
+
+  [NPPPaymentState.AUTHORISED]: [
+    NPPPaymentState.SENT,
+    NPPPaymentState.FAILED,
+    NPPPaymentState.EXPIRED,
+  ],
+
+  [NPPPaymentState.SENT]: [
+    NPPPaymentState.ACKNOWLEDGED,
+    NPPPaymentState.FAILED,
+    NPPPaymentState.EXPIRED,
+  ],
+
+  /**
+   * KEY NPP REALITY: ACK ≠ settlement
+   * The scheme can still fail the payment after acknowledging it.
+   */
+  [NPPPaymentState.ACKNOWLEDGED]: [
+    NPPPaymentState.SETTLED,
+    NPPPaymentState.FAILED,
+    NPPPaymentState.EXPIRED,
+  ],
+
+  // Terminal states - no transitions allowed
+  [NPPPaymentState.SETTLED]: [],
+  [NPPPaymentState.FAILED]: [],
+  [NPPPaymentState.EXPIRED]: [],
+};
+
+/**
+ * Operator Override Transitions
+ *
+ * Operator actions are policy-gated and may leave states that the
+ * lifecycle matrix treats as terminal (e.g. RETRY out of FAILED).
+ * Generic OVERRIDE actions are not listed: they must follow
+ * NPP_ALLOWED_TRANSITIONS like any lifecycle event.
+ */
+export const NPP_OPS_OVERRIDE_TRANSITIONS: Record<
+  "RETRY" | "CANCEL" | "MARK_FAILED",
+  { from: NPPPaymentState[]; to: NPPPaymentState[] }
+> = {
+  RETRY: {
+    from: [NPPPaymentState.FAILED],
+    to: [NPPPaymentState.AUTHORISED],
+  },
+  CANCEL: {
+    from: [NPPPaymentState.CREATED, NPPPaymentState.AUTHORISED, NPPPaymentState.SENT],
+    to: [NPPPaymentState.FAILED],
+  },
+  MARK_FAILED: {
+    from: [NPPPaymentState.SENT, NPPPaymentState.ACKNOWLEDGED],
+    to: [NPPPaymentState.FAILED],
+  },
+};
+
+/**
+ * Check if a state transition is legal
+ */
+export function isNPPTransitionLegal(
+  from: NPPPaymentState,
+  to: NPPPaymentState
+): boolean {
+  const allowedTransitions = NPP_ALLOWED_TRANSITIONS[from];
+  return allowedTransitions.includes(to);
+}
+
+/**
+ * Get all legal next states for a given state
+ */
+export function getNPPLegalNextStates(state: NPPPaymentState): NPPPaymentState[] {
+  return NPP_ALLOWED_TRANSITIONS[state];
+}
@@ -6,3 +6,5 @@ export * from "./NPPPaymentState";
 export * from "./NPPPaymentEvent";
 export * from "./NPPPayment";
 export * from "./NPPPaymentErrors";
+export * from "./NPPStateTransitions";
+export * from "./NPPInvariants";
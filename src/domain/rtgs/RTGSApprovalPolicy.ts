@@ -0,0 +1,457 @@
+/**
+ * RTGS Approval Policy - Who Must Approve a Payment
+ *
+ * Each institution configures its own approval policy:
+ * - Bands: amount ranges from $0 with no gaps, each with required roles
+ *   and a minimum number of approvers. Both ends of a band are inclusive and
+ *   the next band starts one cent above the previous maxAmount
+ * - Overrides: rules for specific source accounts, counterparties, times
+ *   of day or amounts, checked in order before the bands; the first that
+ *   matches wins
+ *
+ * The decision is recorded on ApprovalRequested (policyDecision) with the
+ * rule that matched and the criteria it matched on, so every approval
+ * requirement can be explained after the fact.
+ *
+ * Configs are JSON, amounts in cents as decimal strings:
+ * ```json
+ * {
+ *   "policyId": "turing-cu", "policyVersion": "2025-01",
+ *   "timeZone": "Australia/Sydney", "approvalValidityMinutes": 240,
+ *   "bands": [{ "ruleId": "UNDER_1M", "minAmount": "0", "maxAmount": "99999999",
+ *               "requiredRoles": ["FIRST_APPROVER"], "minApprovers": 1 }],
+ *   "overrides": [{ "ruleId": "AFTER_HOURS", "match": { "timeOfDay": { "from": "16:00", "to": "09:15" } },
+ *                   "requiredRoles": ["FIRST_APPROVER", "EXECUTIVE_APPROVER"], "minApprovers": 2 }]
+ * }
+ * ```
+ *
+ * Usage:
+ * ```typescript
+ * const policy = loadRTGSApprovalPolicy("/etc/turing/rtgs_approval_policy.json");
+ * const requested = requestRTGSApproval(payment, new Date(), policy);
+ * requested.policyDecision?.explanation;
+ * ```
+ */
+
+import fs from "fs";
+import {
+  DEFAULT_RTGS_THRESHOLDS,
+  RTGSApprovalRole,
+  RTGSApprovalThreshold,
+} from "./RTGSPaymentState";
+import type { RTGSApprovalPolicyDecision } from "./RTGSPaymentEvent";
+
+/**
+ * Amount band (a threshold with a rule ID)
+ */
+export interface RTGSApprovalBand extends RTGSApprovalThreshold {
+  readonly ruleId: string;
+}
+
+/**
+ * Criteria an override matches on; every criterion given must hold
+ */
+export interface RTGSApprovalMatch {
+  /** Source account is one of these */
+  readonly fromAccountIds?: string[];
+  /** Destination is one of these (accountNumber absent = any account at the BSB) */
+  readonly counterparties?: Array<{ bsb: string; accountNumber?: string }>;
+  /** Local time (policy time zone) in [from, to); wraps midnight if from > to */
+  readonly timeOfDay?: { from: string; to: string };
+  /** Amount at least this (cents) */
+  readonly minAmount?: bigint;
+  /** Amount at most this (cents) */
+  readonly maxAmount?: bigint;
+}
+
+export interface RTGSApprovalOverride {
+  readonly ruleId: string;
+  readonly description?: string;
+  readonly match: RTGSApprovalMatch;
+  readonly requiredRoles: RTGSApprovalRole[];
+  readonly minApprovers: number;
+  /** Approval validity for this rule (default the policy's) */
+  readonly approvalValidityMinutes?: number;
+}
+
+export interface RTGSApprovalPolicy {
+  readonly policyId: string;
+  readonly policyVersion: string;
+  /** IANA time zone time-of-day rules are evaluated in */
+  readonly timeZone: string;
+  /** How long approvals stay valid once requested */
+  readonly approvalValidityMinutes: number;
+  readonly bands: RTGSApprovalBand[];
+  readonly overrides: RTGSApprovalOverride[];
+}
+
+/**
+ * What a payment needs approved, and why
+ */
+export interface RTGSApprovalRequirement {
+  readonly requiredRoles: RTGSApprovalRole[];
+  readonly requiredApprovers: number;
+  /** Lower bound of the band the amount falls in */
+  readonly approvalThreshold: bigint;
+  readonly approvalValidityMinutes: number;
+  readonly decision: RTGSApprovalPolicyDecision;
+}
+
+/**
+ * The payment details a policy decides on
+ */
+export interface RTGSApprovalSubject {
+  readonly amount: bigint;
+  readonly fromAccountId: string;
+  readonly bsb: string;
+  readonly accountNumber: string;
+}
+
+/**
+ * Raised when a policy config is malformed or cannot decide
+ */
+export class RTGSApprovalPolicyError extends Error {
+  constructor(message: string) {
+    super(`APPROVAL_POLICY_ERROR: ${message}`);
+    this.name = "RTGSApprovalPolicyError";
+  }
+}
+
+/**
+ * Default Approval Policy: DEFAULT_RTGS_THRESHOLDS, no overrides, 4 hour validity
+ */
+export const DEFAULT_RTGS_APPROVAL_POLICY: RTGSApprovalPolicy = {
+  policyId: "default",
+  policyVersion: "1",
+  timeZone: "Australia/Sydney",
+  approvalValidityMinutes: 240,
+  bands: DEFAULT_RTGS_THRESHOLDS.map((threshold) => ({
+    ...threshold,
+    ruleId: `BAND_${threshold.minAmount}`,
+  })),
+  overrides: [],
+};
+
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+/**
+ * Decide what a payment needs approved
+ *
+ * @param at - When approval is requested (for time-of-day rules)
+ * @throws RTGSApprovalPolicyError if no band covers the amount
+ */
+export function evaluateRTGSApprovalPolicy(
+  policy: RTGSApprovalPolicy,
+  subject: RTGSApprovalSubject,
+  at: Date
+): RTGSApprovalRequirement {
+  const band = policy.bands.find(
+    (candidate) =>
+      subject.amount >= candidate.minAmount &&
+      (candidate.maxAmount === undefined || subject.amount <= candidate.maxAmount)
+  );
+  if (!band) {
+    throw new RTGSApprovalPolicyError(
+      `policy ${policy.policyId} has no band for amount ${subject.amount}`
+    );
+  }
+
+  const localTime = localTimeOf(at, policy.timeZone);
+  for (const override of policy.overrides) {
+    const matchedCriteria = matchOverride(override.match, subject, localTime);
+    if (matchedCriteria) {
+      return {
+        requiredRoles: override.requiredRoles,
+        requiredApprovers: override.minApprovers,
+        approvalThreshold: band.minAmount,
+        approvalValidityMinutes: override.approvalValidityMinutes ?? policy.approvalValidityMinutes,
+        decision: {
+          policyId: policy.policyId,
+          policyVersion: policy.policyVersion,
+          ruleId: override.ruleId,
+          ruleKind: "OVERRIDE",
+          matchedCriteria,
+          explanation: `Override ${override.ruleId}${override.description ? ` (${override.description})` : ""} matched on ${matchedCriteria.join(", ")}: ${describeRequirement(override)}`,
+        },
+      };
+    }
+  }
+
+  const range = `[${band.minAmount}, ${band.maxAmount === undefined ? "∞)" : `${band.maxAmount}]`}`;
+  return {
+    requiredRoles: band.requiredRoles,
+    requiredApprovers: band.minApprovers,
+    approvalThreshold: band.minAmount,
+    approvalValidityMinutes: policy.approvalValidityMinutes,
+    decision: {
+      policyId: policy.policyId,
+      policyVersion: policy.policyVersion,
+      ruleId: band.ruleId,
+      ruleKind: "BAND",
+      matchedCriteria: [`amount ${subject.amount} in ${range}`],
+      explanation: `Amount ${subject.amount} falls in band ${band.ruleId} ${range}: ${describeRequirement(band)}`,
+    },
+  };
+}
+
+/**
+ * Parse and validate a policy config (amounts as decimal strings of cents)
+ *
+ * @throws RTGSApprovalPolicyError if the config is malformed, bands do not
+ * run from $0 without gaps, or a rule cannot be satisfied
+ */
+export function parseRTGSApprovalPolicy(config: unknown): RTGSApprovalPolicy {
+  const raw = asRecord(config, "policy");
+  const policyId = asString(raw.policyId, "policyId");
+
+  const policy: RTGSApprovalPolicy = {
+    policyId,
+    policyVersion: asString(raw.policyVersion, "policyVersion"),
+    timeZone: asTimeZone(raw.timeZone ?? DEFAULT_RTGS_APPROVAL_POLICY.timeZone),
+    approvalValidityMinutes: asPositiveInteger(
+      raw.approvalValidityMinutes ?? DEFAULT_RTGS_APPROVAL_POLICY.approvalValidityMinutes,
+      "approvalValidityMinutes"
+    ),
+    bands: asArray(raw.bands, "bands").map((value, index) => {
+      const band = asRecord(value, `bands[${index}]`);
+      return {
+        ruleId: asString(band.ruleId, `bands[${index}].ruleId`),
+        minAmount: asAmount(band.minAmount, `bands[${index}].minAmount`),
+        maxAmount:
+          band.maxAmount === undefined ? undefined : asAmount(band.maxAmount, `bands[${index}].maxAmount`),
+        requiredRoles: asRoles(band.requiredRoles, `bands[${index}].requiredRoles`),
+        minApprovers: asPositiveInteger(band.minApprovers, `bands[${index}].minApprovers`),
+      };
+    }),
+    overrides: asArray(raw.overrides ?? [], "overrides").map((value, index) => {
+      const override = asRecord(value, `overrides[${index}]`);
+      return {
+        ruleId: asString(override.ruleId, `overrides[${index}].ruleId`),
+        description:
+          override.description === undefined
+            ? undefined
+            : asString(override.description, `overrides[${index}].description`),
+        match: asMatch(override.match, `overrides[${index}].match`),
+        requiredRoles: asRoles(override.requiredRoles, `overrides[${index}].requiredRoles`),
+        minApprovers: asPositiveInteger(override.minApprovers, `overrides[${index}].minApprovers`),
+        approvalValidityMinutes:
+          override.approvalValidityMinutes === undefined
+            ? undefined
+            : asPositiveInteger(override.approvalValidityMinutes, `overrides[${index}].approvalValidityMinutes`),
+      };
+    }),
+  };
+
+  assertBandsContiguous(policy.bands);
+  const ruleIds = new Set<string>();
+  for (const rule of [...policy.bands, ...policy.overrides]) {
+    if (ruleIds.has(rule.ruleId)) {
+      throw new RTGSApprovalPolicyError(`duplicate rule ID ${rule.ruleId}`);
+    }
+    ruleIds.add(rule.ruleId);
+    if (rule.minApprovers < rule.requiredRoles.length) {
+      throw new RTGSApprovalPolicyError(
+        `rule ${rule.ruleId} requires ${rule.requiredRoles.length} roles but only ${rule.minApprovers} approvers`
+      );
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Load an institution's policy config
+ *
+ * @param file - Path to the JSON config
+ * @throws RTGSApprovalPolicyError if the file cannot be read or is malformed
+ */
+export function loadRTGSApprovalPolicy(file: string): RTGSApprovalPolicy {
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new RTGSApprovalPolicyError(`cannot load ${file}: ${(error as Error).message}`);
+  }
+  return parseRTGSApprovalPolicy(config);
+}
+
+/**
+ * Criteria an override matched on, or undefined if any criterion fails
+ */
+function matchOverride(
+  match: RTGSApprovalMatch,
+  subject: RTGSApprovalSubject,
+  localTime: string
+): string[] | undefined {
+  const matched: string[] = [];
+
+  if (match.fromAccountIds) {
+    if (!match.fromAccountIds.includes(subject.fromAccountId)) return undefined;
+    matched.push(`fromAccountId ${subject.fromAccountId}`);
+  }
+
+  if (match.counterparties) {
+    const counterparty = match.counterparties.find(
+      (candidate) =>
+        candidate.bsb === subject.bsb &&
+        (candidate.accountNumber === undefined || candidate.accountNumber === subject.accountNumber)
+    );
+    if (!counterparty) return undefined;
+    matched.push(
+      counterparty.accountNumber === undefined
+        ? `counterparty BSB ${subject.bsb}`
+        : `counterparty ${subject.bsb} ${subject.accountNumber}`
+    );
+  }
+
+  if (match.timeOfDay) {
+    const { from, to } = match.timeOfDay;
+    const inWindow = from <= to ? localTime >= from && localTime < to : localTime >= from || localTime < to;
+    if (!inWindow) return undefined;
+    matched.push(`local time ${localTime} in [${from}, ${to})`);
+  }
+
+  if (match.minAmount !== undefined || match.maxAmount !== undefined) {
+    if (match.minAmount !== undefined && subject.amount < match.minAmount) return undefined;
+    if (match.maxAmount !== undefined && subject.amount > match.maxAmount) return undefined;
+    matched.push(
+      `amount ${subject.amount} in [${match.minAmount ?? 0n}, ${match.maxAmount === undefined ? "∞)" : `${match.maxAmount}]`}`
+    );
+  }
+
+  return matched.length > 0 ? matched : undefined;
+}
+
+function describeRequirement(rule: { requiredRoles: RTGSApprovalRole[]; minApprovers: number }): string {
+  return `${rule.minApprovers} approver(s) including ${rule.requiredRoles.join(", ") || "any role"}`;
+}
+
+function localTimeOf(at: Date, timeZone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+      .formatToParts(at)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.hour}:${parts.minute}`;
+}
+
+function assertBandsContiguous(bands: RTGSApprovalBand[]): void {
+  if (bands.length === 0 || bands[0].minAmount !== 0n) {
+    throw new RTGSApprovalPolicyError("bands must start at 0");
+  }
+  for (let i = 0; i < bands.length; i++) {
+    const { ruleId, minAmount, maxAmount } = bands[i];
+    const next = bands[i + 1];
+    if (maxAmount !== undefined && maxAmount < minAmount) {
+      throw new RTGSApprovalPolicyError(`band ${ruleId} is empty`);
+    }
+    if (next && (maxAmount === undefined || next.minAmount !== maxAmount + 1n)) {
+      throw new RTGSApprovalPolicyError(
+        `band ${next.ruleId} starts at ${next.minAmount}, expected ${maxAmount === undefined ? "none (previous band is open-ended)" : maxAmount + 1n}`
+      );
+    }
+    if (!next && maxAmount !== undefined) {
+      throw new RTGSApprovalPolicyError(`last band ${ruleId} must have no maxAmount`);
+    }
+  }
+}
+
+function asRecord(value: unknown, field: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new RTGSApprovalPolicyError(`${field} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function asArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new RTGSApprovalPolicyError(`${field} must be an array`);
+  }
+  return value;
+}
+
+function asString(value: unknown, field: string): string {
+  if (typeof value !== "string" || value === "") {
+    throw new RTGSApprovalPolicyError(`${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function asAmount(value: unknown, field: string): bigint {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new RTGSApprovalPolicyError(`${field} must be a decimal string of cents, got ${String(value)}`);
+  }
+  return BigInt(value);
+}
+
+function asPositiveInteger(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new RTGSApprovalPolicyError(`${field} must be a positive integer, got ${String(value)}`);
+  }
+  return value;
+}
+
+function asRoles(value: unknown, field: string): RTGSApprovalRole[] {
+  return asArray(value, field).map((role, index) => {
+    if (
+      !Object.values(RTGSApprovalRole).includes(role as RTGSApprovalRole) ||
+      role === RTGSApprovalRole.INITIATOR
+    ) {
+      throw new RTGSApprovalPolicyError(`${field}[${index}] ${String(role)} is not an approval role`);
+    }
+    return role as RTGSApprovalRole;
+  });
+}
+
+function asTimeZone(value: unknown): string {
+  const timeZone = asString(value, "timeZone");
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone });
+  } catch {
+    throw new RTGSApprovalPolicyError(`timeZone ${timeZone} is not an IANA time zone`);
+  }
+  return timeZone;
+}
+
+function asTimeOfDay(value: unknown, field: string): { from: string; to: string } {
+  const window = asRecord(value, field);
+  const from = asString(window.from, `${field}.from`);
+  const to = asString(window.to, `${field}.to`);
+  if (!TIME_PATTERN.test(from) || !TIME_PATTERN.test(to)) {
+    throw new RTGSApprovalPolicyError(`${field} must be HH:MM, got ${from}..${to}`);
+  }
+  return { from, to };
+}
+
+function asMatch(value: unknown, field: string): RTGSApprovalMatch {
+  const raw = asRecord(value, field);
+  const match: RTGSApprovalMatch = {
+    fromAccountIds:
+      raw.fromAccountIds === undefined
+        ? undefined
+        : asArray(raw.fromAccountIds, `${field}.fromAccountIds`).map((id, index) =>
+            asString(id, `${field}.fromAccountIds[${index}]`)
+          ),
+    counterparties:
+      raw.counterparties === undefined
+        ? undefined
+        : asArray(raw.counterparties, `${field}.counterparties`).map((entry, index) => {
+            const counterparty = asRecord(entry, `${field}.counterparties[${index}]`);
+            return {
+              bsb: asString(counterparty.bsb, `${field}.counterparties[${index}].bsb`),
+              accountNumber:
+                counterparty.accountNumber === undefined
+                  ? undefined
+                  : asString(counterparty.accountNumber, `${field}.counterparties[${index}].accountNumber`),
+            };
+          }),
+    timeOfDay: raw.timeOfDay === undefined ? undefined : asTimeOfDay(raw.timeOfDay, `${field}.timeOfDay`),
+    minAmount: raw.minAmount === undefined ? undefined : asAmount(raw.minAmount, `${field}.minAmount`),
+    maxAmount: raw.maxAmount === undefined ? undefined : asAmount(raw.maxAmount, `${field}.maxAmount`),
+  };
+
+  if (Object.values(match).every((criterion) => criterion === undefined)) {
+    throw new RTGSApprovalPolicyError(`${field} must have at least one criterion`);
+  }
+  return match;
+}
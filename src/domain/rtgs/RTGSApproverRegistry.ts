@@ -0,0 +1,509 @@
+/**
+ * RTGS Approver Registry - Who May Approve, and Up To What
+ *
+ * Event-sourced register of approval entitlements:
+ * - Entitlements: a user may approve in a role, optionally up to an
+ *   amount limit, for a validity period
+ * - Delegations: a user covers another's role for a bounded period
+ *   (e.g. leave cover), never beyond what the delegator holds
+ *
+ * Nothing is ever removed. Revocations stamp `revokedAt` so entitlement is
+ * answered as of a point in time, and the event list is the audit trail of
+ * who granted, delegated and revoked what, and why.
+ *
+ * A registry can also be loaded from a JSON file of its events, amounts in
+ * cents as decimal strings and times as ISO 8601:
+ * ```json
+ * {
+ *   "registryId": "turing-cu",
+ *   "events": [{ "type": "ApproverEntitlementGranted", "occurredAt": "2025-01-01T00:00:00Z",
+ *                "actorId": "user_admin", "entitlementId": "ent_cfo", "approverId": "user_cfo",
+ *                "role": "EXECUTIVE_APPROVER", "validFrom": "2025-01-01T00:00:00Z" }]
+ * }
+ * ```
+ *
+ * Usage:
+ * ```typescript
+ * const registry = rebuildApproverRegistryFromEvents("turing-cu", events);
+ * // or: const registry = loadApproverRegistry("/etc/turing/rtgs_approvers.json");
+ * const entitlement = findApproverEntitlement(registry, "user_cfo", RTGSApprovalRole.EXECUTIVE_APPROVER, amount, at);
+ * const payment = applyRTGSEvent(current, approvalGranted, registry);
+ * ```
+ */
+
+import fs from "fs";
+import { RTGSApprovalRole } from "./RTGSPaymentState";
+import {
+  canonicalHash,
+  CanonicalHashAlgorithm,
+  CURRENT_HASH_ALGORITHM,
+} from "../shared/CanonicalHash";
+import { InvariantError } from "../shared/PaymentErrors";
+
+interface ApproverRegistryBaseEvent {
+  registryId: string;
+  occurredAt: Date;
+  actorId: string; // Who made the change
+}
+
+/**
+ * ApproverEntitlementGranted - User may approve in a role
+ */
+export interface ApproverEntitlementGranted extends ApproverRegistryBaseEvent {
+  type: "ApproverEntitlementGranted";
+  entitlementId: string;
+  approverId: string;
+  role: RTGSApprovalRole;
+  maxAmount?: bigint; // Largest payment they may approve, absent = no limit
+  validFrom: Date;
+  validTo?: Date; // Exclusive, absent = until revoked
+}
+
+/**
+ * ApproverEntitlementRevoked - Entitlement ends early
+ */
+export interface ApproverEntitlementRevoked extends ApproverRegistryBaseEvent {
+  type: "ApproverEntitlementRevoked";
+  entitlementId: string;
+  reason: string;
+}
+
+/**
+ * ApprovalDelegated - Delegate covers the delegator's role for a period
+ */
+export interface ApprovalDelegated extends ApproverRegistryBaseEvent {
+  type: "ApprovalDelegated";
+  delegationId: string;
+  delegatorId: string;
+  delegateId: string;
+  role: RTGSApprovalRole;
+  maxAmount?: bigint; // Further caps the delegator's limit
+  validFrom: Date;
+  validTo: Date; // Exclusive; delegations are always time-bound
+  reason: string;
+}
+
+/**
+ * ApprovalDelegationRevoked - Delegation ends early
+ */
+export interface ApprovalDelegationRevoked extends ApproverRegistryBaseEvent {
+  type: "ApprovalDelegationRevoked";
+  delegationId: string;
+  reason: string;
+}
+
+export type ApproverRegistryEvent =
+  | ApproverEntitlementGranted
+  | ApproverEntitlementRevoked
+  | ApprovalDelegated
+  | ApprovalDelegationRevoked;
+
+export interface ApproverEntitlement {
+  readonly entitlementId: string;
+  readonly approverId: string;
+  readonly role: RTGSApprovalRole;
+  readonly maxAmount?: bigint;
+  readonly validFrom: Date;
+  readonly validTo?: Date;
+  readonly grantedBy: string;
+  readonly revokedAt?: Date;
+  readonly revokedBy?: string;
+  readonly revocationReason?: string;
+}
+
+export interface ApprovalDelegation {
+  readonly delegationId: string;
+  readonly delegatorId: string;
+  readonly delegateId: string;
+  readonly role: RTGSApprovalRole;
+  readonly maxAmount?: bigint;
+  readonly validFrom: Date;
+  readonly validTo: Date;
+  readonly reason: string;
+  readonly delegatedBy: string;
+  readonly revokedAt?: Date;
+  readonly revokedBy?: string;
+  readonly revocationReason?: string;
+}
+
+/**
+ * Approver Registry Aggregate
+ */
+export interface RTGSApproverRegistry {
+  readonly registryId: string;
+  readonly entitlements: ApproverEntitlement[];
+  readonly delegations: ApprovalDelegation[];
+  readonly version: number;
+  readonly updatedAt?: Date;
+}
+
+/**
+ * How an approver was entitled to approve
+ */
+export type ApproverEntitlementMatch =
+  | { readonly source: "DIRECT"; readonly entitlementId: string }
+  | {
+      readonly source: "DELEGATED";
+      readonly delegationId: string;
+      readonly delegatorId: string;
+      readonly entitlementId: string;
+    };
+
+/**
+ * Raised when a registry file is malformed
+ */
+export class RTGSApproverRegistryError extends Error {
+  constructor(message: string) {
+    super(`APPROVER_REGISTRY_ERROR: ${message}`);
+    this.name = "RTGSApproverRegistryError";
+  }
+}
+
+/**
+ * Create an empty registry
+ */
+export function createApproverRegistry(registryId: string): RTGSApproverRegistry {
+  return { registryId, entitlements: [], delegations: [], version: 0 };
+}
+
+/**
+ * Apply an event to a registry, returning a new immutable registry
+ *
+ * @throws InvariantError (RTGS.ENTITLEMENT) for unknown or duplicate IDs,
+ * inverted periods, self-delegation or changes to revoked grants
+ */
+export function applyApproverRegistryEvent(
+  registry: RTGSApproverRegistry,
+  event: ApproverRegistryEvent
+): RTGSApproverRegistry {
+  if (event.registryId !== registry.registryId) {
+    throw registryError(`Event for registry ${event.registryId} applied to registry ${registry.registryId}`);
+  }
+
+  const updated = { version: registry.version + 1, updatedAt: event.occurredAt };
+
+  switch (event.type) {
+    case "ApproverEntitlementGranted": {
+      if (registry.entitlements.some((e) => e.entitlementId === event.entitlementId)) {
+        throw registryError(`Entitlement ${event.entitlementId} already exists`);
+      }
+      assertPeriod(event.entitlementId, event.validFrom, event.validTo);
+      assertApprovalRole(event.entitlementId, event.role);
+      assertLimit(event.entitlementId, event.maxAmount);
+      const entitlement: ApproverEntitlement = {
+        entitlementId: event.entitlementId,
+        approverId: event.approverId,
+        role: event.role,
+        maxAmount: event.maxAmount,
+        validFrom: event.validFrom,
+        validTo: event.validTo,
+        grantedBy: event.actorId,
+      };
+      return { ...registry, ...updated, entitlements: [...registry.entitlements, entitlement] };
+    }
+
+    case "ApproverEntitlementRevoked": {
+      const existing = registry.entitlements.find((e) => e.entitlementId === event.entitlementId);
+      if (!existing || existing.revokedAt) {
+        throw registryError(`Entitlement ${event.entitlementId} is ${existing ? "already revoked" : "unknown"}`);
+      }
+      const revoked: ApproverEntitlement = {
+        ...existing,
+        revokedAt: event.occurredAt,
+        revokedBy: event.actorId,
+        revocationReason: event.reason,
+      };
+      return {
+        ...registry,
+        ...updated,
+        entitlements: registry.entitlements.map((e) => (e === existing ? revoked : e)),
+      };
+    }
+
+    case "ApprovalDelegated": {
+      if (registry.delegations.some((d) => d.delegationId === event.delegationId)) {
+        throw registryError(`Delegation ${event.delegationId} already exists`);
+      }
+      if (event.delegatorId === event.delegateId) {
+        throw registryError(`Delegation ${event.delegationId}: ${event.delegatorId} cannot delegate to themselves`);
+      }
+      assertPeriod(event.delegationId, event.validFrom, event.validTo);
+      assertLimit(event.delegationId, event.maxAmount);
+      const delegation: ApprovalDelegation = {
+        delegationId: event.delegationId,
+        delegatorId: event.delegatorId,
+        delegateId: event.delegateId,
+        role: event.role,
+        maxAmount: event.maxAmount,
+        validFrom: event.validFrom,
+        validTo: event.validTo,
+        reason: event.reason,
+        delegatedBy: event.actorId,
+      };
+      return { ...registry, ...updated, delegations: [...registry.delegations, delegation] };
+    }
+
+    case "ApprovalDelegationRevoked": {
+      const existing = registry.delegations.find((d) => d.delegationId === event.delegationId);
+      if (!existing || existing.revokedAt) {
+        throw registryError(`Delegation ${event.delegationId} is ${existing ? "already revoked" : "unknown"}`);
+      }
+      const revoked: ApprovalDelegation = {
+        ...existing,
+        revokedAt: event.occurredAt,
+        revokedBy: event.actorId,
+        revocationReason: event.reason,
+      };
+      return {
+        ...registry,
+        ...updated,
+        delegations: registry.delegations.map((d) => (d === existing ? revoked : d)),
+      };
+    }
+  }
+}
+
+/**
+ * Rebuild a registry from its events
+ */
+export function rebuildApproverRegistryFromEvents(
+  registryId: string,
+  events: ApproverRegistryEvent[]
+): RTGSApproverRegistry {
+  return events.reduce(applyApproverRegistryEvent, createApproverRegistry(registryId));
+}
+
+/**
+ * Parse a registry file's contents and replay its events
+ *
+ * @throws RTGSApproverRegistryError if the config is malformed
+ * @throws InvariantError (RTGS.ENTITLEMENT) if an event cannot be applied
+ */
+export function parseApproverRegistry(config: unknown): RTGSApproverRegistry {
+  const raw = asRecord(config, "registry");
+  const registryId = asString(raw.registryId, "registryId");
+  const events = asArray(raw.events, "events").map((value, index) =>
+    asRegistryEvent(registryId, asRecord(value, `events[${index}]`), `events[${index}]`)
+  );
+  return rebuildApproverRegistryFromEvents(registryId, events);
+}
+
+/**
+ * Load a registry from a JSON file of its events
+ *
+ * @param file - Path to the JSON file
+ * @throws RTGSApproverRegistryError if the file cannot be read or is malformed
+ */
+export function loadApproverRegistry(file: string): RTGSApproverRegistry {
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new RTGSApproverRegistryError(`cannot load ${file}: ${(error as Error).message}`);
+  }
+  return parseApproverRegistry(config);
+}
+
+/**
+ * Find how a user is entitled to approve an amount in a role at a time
+ *
+ * Direct entitlements are preferred; otherwise a delegation in force at
+ * `at` counts, provided the delegator held the role for the amount then.
+ *
+ * @returns undefined if the user is not entitled
+ */
+export function findApproverEntitlement(
+  registry: RTGSApproverRegistry,
+  approverId: string,
+  role: RTGSApprovalRole,
+  amount: bigint,
+  at: Date
+): ApproverEntitlementMatch | undefined {
+  const direct = findDirectEntitlement(registry, approverId, role, amount, at);
+  if (direct) {
+    return { source: "DIRECT", entitlementId: direct.entitlementId };
+  }
+
+  for (const delegation of registry.delegations) {
+    if (
+      delegation.delegateId !== approverId ||
+      delegation.role !== role ||
+      !inForce(delegation, at) ||
+      !withinLimit(delegation.maxAmount, amount)
+    ) {
+      continue;
+    }
+    const delegated = findDirectEntitlement(registry, delegation.delegatorId, role, amount, at);
+    if (delegated) {
+      return {
+        source: "DELEGATED",
+        delegationId: delegation.delegationId,
+        delegatorId: delegation.delegatorId,
+        entitlementId: delegated.entitlementId,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute a deterministic hash of registry state
+ */
+export function computeApproverRegistryHash(
+  registry: RTGSApproverRegistry,
+  algorithm: CanonicalHashAlgorithm = CURRENT_HASH_ALGORITHM
+): string {
+  return canonicalHash(registry, algorithm);
+}
+
+function findDirectEntitlement(
+  registry: RTGSApproverRegistry,
+  approverId: string,
+  role: RTGSApprovalRole,
+  amount: bigint,
+  at: Date
+): ApproverEntitlement | undefined {
+  return registry.entitlements.find(
+    (e) => e.approverId === approverId && e.role === role && inForce(e, at) && withinLimit(e.maxAmount, amount)
+  );
+}
+
+function inForce(grant: { validFrom: Date; validTo?: Date; revokedAt?: Date }, at: Date): boolean {
+  return (
+    at >= grant.validFrom &&
+    (grant.validTo === undefined || at < grant.validTo) &&
+    (grant.revokedAt === undefined || at < grant.revokedAt)
+  );
+}
+
+function withinLimit(maxAmount: bigint | undefined, amount: bigint): boolean {
+  return maxAmount === undefined || amount <= maxAmount;
+}
+
+function assertPeriod(id: string, validFrom: Date, validTo?: Date): void {
+  if (validTo !== undefined && validTo <= validFrom) {
+    throw registryError(`${id} ends (${validTo.toISOString()}) before it starts (${validFrom.toISOString()})`);
+  }
+}
+
+function assertApprovalRole(id: string, role: RTGSApprovalRole): void {
+  if (role === RTGSApprovalRole.INITIATOR) {
+    throw registryError(`${id}: ${role} is not an approval role`);
+  }
+}
+
+function assertLimit(id: string, maxAmount?: bigint): void {
+  if (maxAmount !== undefined && maxAmount <= 0n) {
+    throw registryError(`${id} amount limit must be positive, got ${maxAmount}`);
+  }
+}
+
+function registryError(detail: string): InvariantError {
+  return new InvariantError("RTGS", "RTGS.ENTITLEMENT", detail);
+}
+
+const REGISTRY_EVENT_TYPES: ReadonlyArray<ApproverRegistryEvent["type"]> = [
+  "ApproverEntitlementGranted",
+  "ApproverEntitlementRevoked",
+  "ApprovalDelegated",
+  "ApprovalDelegationRevoked",
+];
+
+function asRegistryEvent(registryId: string, raw: Record<string, unknown>, field: string): ApproverRegistryEvent {
+  const type = raw.type as ApproverRegistryEvent["type"];
+  if (!REGISTRY_EVENT_TYPES.includes(type)) {
+    throw new RTGSApproverRegistryError(`${field}.type ${String(raw.type)} is not a registry event`);
+  }
+  const base = {
+    registryId,
+    occurredAt: asDate(raw.occurredAt, `${field}.occurredAt`),
+    actorId: asString(raw.actorId, `${field}.actorId`),
+  };
+  const optional = <T>(value: unknown, parse: (v: unknown, f: string) => T, name: string): T | undefined =>
+    value === undefined ? undefined : parse(value, `${field}.${name}`);
+
+  switch (type) {
+    case "ApproverEntitlementGranted":
+      return {
+        ...base,
+        type,
+        entitlementId: asString(raw.entitlementId, `${field}.entitlementId`),
+        approverId: asString(raw.approverId, `${field}.approverId`),
+        role: asRole(raw.role, `${field}.role`),
+        maxAmount: optional(raw.maxAmount, asAmount, "maxAmount"),
+        validFrom: asDate(raw.validFrom, `${field}.validFrom`),
+        validTo: optional(raw.validTo, asDate, "validTo"),
+      };
+    case "ApproverEntitlementRevoked":
+      return {
+        ...base,
+        type,
+        entitlementId: asString(raw.entitlementId, `${field}.entitlementId`),
+        reason: asString(raw.reason, `${field}.reason`),
+      };
+    case "ApprovalDelegated":
+      return {
+        ...base,
+        type,
+        delegationId: asString(raw.delegationId, `${field}.delegationId`),
+        delegatorId: asString(raw.delegatorId, `${field}.delegatorId`),
+        delegateId: asString(raw.delegateId, `${field}.delegateId`),
+        role: asRole(raw.role, `${field}.role`),
+        maxAmount: optional(raw.maxAmount, asAmount, "maxAmount"),
+        validFrom: asDate(raw.validFrom, `${field}.validFrom`),
+        validTo: asDate(raw.validTo, `${field}.validTo`),
+        reason: asString(raw.reason, `${field}.reason`),
+      };
+    case "ApprovalDelegationRevoked":
+      return {
+        ...base,
+        type,
+        delegationId: asString(raw.delegationId, `${field}.delegationId`),
+        reason: asString(raw.reason, `${field}.reason`),
+      };
+  }
+}
+
+function asRecord(value: unknown, field: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new RTGSApproverRegistryError(`${field} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function asArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new RTGSApproverRegistryError(`${field} must be an array`);
+  }
+  return value;
+}
+
+function asString(value: unknown, field: string): string {
+  if (typeof value !== "string" || value === "") {
+    throw new RTGSApproverRegistryError(`${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function asDate(value: unknown, field: string): Date {
+  const date = typeof value === "string" ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new RTGSApproverRegistryError(`${field} must be an ISO 8601 timestamp, got ${String(value)}`);
+  }
+  return date;
+}
+
+function asAmount(value: unknown, field: string): bigint {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new RTGSApproverRegistryError(`${field} must be a decimal string of cents, got ${String(value)}`);
+  }
+  return BigInt(value);
+}
+
+function asRole(value: unknown, field: string): RTGSApprovalRole {
+  if (!Object.values(RTGSApprovalRole).includes(value as RTGSApprovalRole)) {
+    throw new RTGSApproverRegistryError(`${field} ${String(value)} is not a role`);
+  }
+  return value as RTGSApprovalRole;
+}
@@ -5,14 +5,30 @@
  * These are non-negotiable rules enforced at runtime.
  * 
  * Categories:
- * 1. Approval Invariants (dual-control, separation of duties)
+ * 1. Approval Invariants (dual-control, separation of duties, entitlement)
  * 2. State Transition Invariants
  * 3. Economic Invariants (funds conservation)
- * 4. Temporal Invariants (approval expiry)
+ * 4. Temporal Invariants (approval expiry, RITS session window)
+ * 5. Destination Invariants (BSB directory)
+ *
+ * Every check throws a typed error from domain/shared/PaymentErrors.
  */
 
 import { RTGSPaymentState, RTGSApprovalRole } from "./RTGSPaymentState";
 import { isRTGSTransitionLegal } from "./RTGSStateTransitions";
+import {
+  InvariantError,
+  StateTransitionError,
+  TerminalStateError,
+  UNIVERSAL_INVARIANTS,
+} from "../shared/PaymentErrors";
+import type { BusinessCalendar } from "../../calendar/BusinessCalendar";
+import type { BSBDirectory } from "../../bsb/BSBDirectory";
+import type { ApprovalGranted, PaymentIntentCreated } from "./RTGSPaymentEvent";
+import {
+  RTGSApproverRegistry,
+  findApproverEntitlement,
+} from "./RTGSApproverRegistry";
 
 /**
  * Approval Record
@@ -21,6 +37,7 @@ export interface ApprovalRecord {
   readonly approverId: string;
   readonly approverRole: RTGSApprovalRole;
   readonly approvedAt: Date;
+  readonly delegationId?: string;
 }
 
 /**
@@ -37,8 +54,10 @@ export function assertApprovalBeforeSend(
   approvals: ApprovalRecord[]
 ): void {
   if (state === RTGSPaymentState.SENT && approvals.length === 0) {
-    throw new Error(
-      "INVARIANT_VIOLATION: Cannot send RTGS payment without approvals"
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.1",
+      "Cannot send RTGS payment without approvals"
     );
   }
 }
@@ -53,16 +72,21 @@ export function assertDualControl(
   requiredApprovers: number
 ): void {
   if (approvals.length < requiredApprovers) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Dual-control requires ${requiredApprovers} approvers, got ${approvals.length}`
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.1",
+      `Dual-control requires ${requiredApprovers} approvers, got ${approvals.length}`,
+      { requiredApprovers, approvers: approvals.length }
     );
   }
   
   // All approvers must be unique
   const uniqueApprovers = new Set(approvals.map((a) => a.approverId));
   if (uniqueApprovers.size !== approvals.length) {
-    throw new Error(
-      "INVARIANT_VIOLATION: All approvers must be unique (no duplicate approvals)"
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.1",
+      "All approvers must be unique (no duplicate approvals)"
     );
   }
 }
@@ -78,8 +102,11 @@ export function assertSeparationOfDuties(
 ): void {
   const initiatorApproved = approvals.some((a) => a.approverId === initiatorId);
   if (initiatorApproved) {
-    throw new Error(
-      "INVARIANT_VIOLATION: Initiator cannot approve their own payment (separation of duties)"
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.2",
+      "Initiator cannot approve their own payment (separation of duties)",
+      { initiatorId }
     );
   }
 }
@@ -97,13 +124,66 @@ export function assertRequiredRoles(
   
   for (const requiredRole of requiredRoles) {
     if (!approvalRoles.has(requiredRole)) {
-      throw new Error(
-        `INVARIANT_VIOLATION: Missing required approval role: ${requiredRole}`
+      throw new InvariantError(
+        "RTGS",
+        "RTGS.1",
+        `Missing required approval role: ${requiredRole}`,
+        { requiredRole }
       );
     }
   }
 }
 
+/**
+ * Invariant: Approver Entitled
+ * 
+ * The approver must hold the role they approve in, for the payment amount,
+ * when the approval is granted: directly, or under the delegation the
+ * approval names. Without a registry nobody is entitled (fail closed).
+ */
+export function assertApproverEntitled(
+  registry: RTGSApproverRegistry | undefined,
+  approval: ApprovalGranted,
+  amount: bigint
+): void {
+  const { approverId, approverRole, delegationId, occurredAt } = approval;
+  if (!registry) {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.ENTITLEMENT",
+      `No approver registry to check ${approverId} as ${approverRole} against`,
+      { approverId, approverRole, delegationId, amount, approvedAt: occurredAt }
+    );
+  }
+  const entitlement = findApproverEntitlement(registry, approverId, approverRole, amount, occurredAt);
+  const context = { approverId, approverRole, delegationId, amount, approvedAt: occurredAt };
+
+  if (!entitlement) {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.ENTITLEMENT",
+      `${approverId} is not entitled to approve ${amount} as ${approverRole} at ${occurredAt.toISOString()}`,
+      context
+    );
+  }
+  if (delegationId === undefined && entitlement.source === "DELEGATED") {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.ENTITLEMENT",
+      `${approverId} holds ${approverRole} only under delegation ${entitlement.delegationId}, which the approval must name`,
+      context
+    );
+  }
+  if (delegationId !== undefined && (entitlement.source !== "DELEGATED" || entitlement.delegationId !== delegationId)) {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.ENTITLEMENT",
+      `${approverId} does not hold ${approverRole} under delegation ${delegationId}`,
+      context
+    );
+  }
+}
+
 /**
  * Category 2: State Transition Invariants
  */
@@ -118,9 +198,7 @@ export function assertRTGSTransitionLegal(
   to: RTGSPaymentState
 ): void {
   if (!isRTGSTransitionLegal(from, to)) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Illegal RTGS state transition from ${from} to ${to}`
-    );
+    throw new StateTransitionError("RTGS", from, to);
   }
 }
 
@@ -137,9 +215,7 @@ export function assertTerminalStateImmutable(state: RTGSPaymentState): void {
   ];
   
   if (terminalStates.includes(state)) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Cannot transition from terminal state ${state}`
-    );
+    throw new TerminalStateError("RTGS", state);
   }
 }
 
@@ -160,8 +236,11 @@ export function assertFundsConservation(
   const totalAccounted = fundsDebited + fundsReleased;
   
   if (fundsEarmarked !== totalAccounted) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Funds conservation violated. Earmarked: ${fundsEarmarked}, Debited: ${fundsDebited}, Released: ${fundsReleased}`
+    throw new InvariantError(
+      "RTGS",
+      UNIVERSAL_INVARIANTS.FUNDS_CONSERVATION,
+      `Funds conservation violated. Earmarked: ${fundsEarmarked}, Debited: ${fundsDebited}, Released: ${fundsReleased}`,
+      { fundsEarmarked, fundsDebited, fundsReleased }
     );
   }
 }
@@ -176,14 +255,19 @@ export function assertSingleSettlement(
   settledAt?: Date
 ): void {
   if (state === RTGSPaymentState.SETTLED && !settledAt) {
-    throw new Error(
-      "INVARIANT_VIOLATION: SETTLED state requires settledAt timestamp"
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.SINGLE_SETTLEMENT",
+      "SETTLED state requires settledAt timestamp"
     );
   }
   
   if (state !== RTGSPaymentState.SETTLED && settledAt) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Cannot have settledAt timestamp in state ${state}`
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.SINGLE_SETTLEMENT",
+      `Cannot have settledAt timestamp in state ${state}`,
+      { state }
     );
   }
 }
@@ -195,15 +279,71 @@ export function assertSingleSettlement(
 /**
  * Invariant: Approval Not Expired
  * 
- * Approvals must not be expired when sending payment.
+ * Approvals must not be expired when granted, verified or used to send.
+ * `now` is the event's occurredAt, so replay gives the same answer.
  */
 export function assertApprovalNotExpired(
   approvalExpiresAt: Date,
-  now: Date = new Date()
+  now: Date
 ): void {
   if (now > approvalExpiresAt) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Approval expired at ${approvalExpiresAt.toISOString()}`
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.APPROVAL_EXPIRY",
+      `Approval expired at ${approvalExpiresAt.toISOString()}`,
+      { approvalExpiresAt }
+    );
+  }
+}
+
+/**
+ * Invariant: Approval Lapsed
+ * 
+ * An approval can only be expired once its deadline has passed, and only
+ * the deadline the payment actually holds.
+ */
+export function assertApprovalLapsed(
+  approvalExpiresAt: Date | undefined,
+  expiry: { expiresAt: Date; occurredAt: Date }
+): void {
+  if (!approvalExpiresAt || approvalExpiresAt.getTime() !== expiry.expiresAt.getTime()) {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.APPROVAL_EXPIRY",
+      `Approval deadline ${expiry.expiresAt.toISOString()} does not match the payment's (${approvalExpiresAt?.toISOString() ?? "none"})`,
+      { approvalExpiresAt, expiresAt: expiry.expiresAt }
+    );
+  }
+  if (expiry.occurredAt <= approvalExpiresAt) {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.APPROVAL_EXPIRY",
+      `Approval valid until ${approvalExpiresAt.toISOString()} cannot expire at ${expiry.occurredAt.toISOString()}`,
+      { approvalExpiresAt, expiredAt: expiry.occurredAt }
+    );
+  }
+}
+
+/**
+ * Invariant: Sent Within RITS Session
+ * 
+ * Customer payments can only be sent while a RITS session that accepts
+ * them is open (business days, before the RTGS cut-off).
+ */
+export function assertWithinRTGSSession(
+  sentAt: Date,
+  calendar: BusinessCalendar
+): void {
+  const window = calendar.rtgsSessionAt(sentAt);
+
+  if (!window?.customerPayments || !calendar.isBeforeCutoff("RTGS", sentAt)) {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.SESSION_WINDOW",
+      `RTGS payment cannot be sent at ${sentAt.toISOString()}: ${
+        window ? `${window.session} session does not accept customer payments` : "no RITS session open"
+      }`,
+      { sentAt, session: window?.session, nextProcessingDate: calendar.processingDate("RTGS", sentAt) }
     );
   }
 }
@@ -218,12 +358,40 @@ export function assertEventOrdering(
   currentEventTime: Date
 ): void {
   if (currentEventTime < previousEventTime) {
-    throw new Error(
-      `INVARIANT_VIOLATION: Event ordering violated. Current event (${currentEventTime.toISOString()}) is before previous event (${previousEventTime.toISOString()})`
+    throw new InvariantError(
+      "RTGS",
+      UNIVERSAL_INVARIANTS.NO_TIME_TRAVEL,
+      `Event ordering violated. Current event (${currentEventTime.toISOString()}) is before previous event (${previousEventTime.toISOString()})`,
+      { previousEventTime, currentEventTime }
     );
   }
 }
 
+/**
+ * Category 5: Destination Invariants
+ */
+
+/**
+ * Invariant: Destination Accepts High Value Payments
+ * 
+ * The BSB must be open and accept high value (H stream) payments, and the
+ * account number must be well-formed. Checked at intent creation only.
+ */
+export function assertRTGSDestinationValid(
+  event: PaymentIntentCreated,
+  directory: BSBDirectory
+): void {
+  const result = directory.validate(event.bsb, event.accountNumber, "H");
+
+  if (!result.valid) {
+    throw new InvariantError("RTGS", "RTGS.DESTINATION", result.message, {
+      bsb: event.bsb,
+      accountNumber: event.accountNumber,
+      failure: result.failure,
+    });
+  }
+}
+
 /**
  * Composite Invariant: All Approval Requirements Met
  * 
@@ -234,10 +402,11 @@ export function assertAllApprovalRequirementsMet(
   approvals: ApprovalRecord[],
   requiredApprovers: number,
   requiredRoles: RTGSApprovalRole[],
-  approvalExpiresAt: Date
+  approvalExpiresAt: Date,
+  now: Date
 ): void {
   assertDualControl(approvals, requiredApprovers);
   assertSeparationOfDuties(initiatorId, approvals);
   assertRequiredRoles(approvals, requiredRoles);
-  assertApprovalNotExpired(approvalExpiresAt);
+  assertApprovalNotExpired(approvalExpiresAt, now);
 }
@@ -0,0 +1,272 @@
+/**
+ * RTGS Liquidity Queue - Offline ESA Settlement Simulation
+ *
+ * Local model of the RITS queue for rehearsing high-value days:
+ * - Each participant has an Exchange Settlement Account (ESA) balance
+ * - QUEUED payments wait until the payer's balance covers them
+ * - PRIORITY payments are tested before ACTIVE ones; DEFERRED payments
+ *   stay queued but are not tested
+ * - Next-down bypass: a payment the payer cannot fund does not hold up
+ *   the payments behind it
+ * - Gridlock resolution: when nothing settles individually, a multilateral
+ *   offset settles a subset whose net positions are all funded, found
+ *   greedily (not necessarily the largest such subset)
+ *
+ * Everything is pure: each function returns a new queue. Settlement here is
+ * simulated only; sending stays with sendRTGSPayment.
+ *
+ * Usage:
+ * ```typescript
+ * let queue = createLiquidityQueue({ TCU: 50000000n, WBC: 0n });
+ * queue = enqueueRTGSPayment(queue, payment, { payer: "TCU", payee: "WBC" });
+ * const { queue: next, settled } = runLiquidityQueue(queue);
+ * ```
+ */
+
+import { RTGSPaymentState, RTGSQueuePriority } from "./RTGSPaymentState";
+import { RTGSPayment } from "./RTGSPayment";
+import { InvariantError } from "../shared/PaymentErrors";
+
+/**
+ * A payment waiting in the simulated queue
+ */
+export interface QueuedRTGSPayment {
+  readonly paymentIntentId: string;
+  readonly payer: string; // ESA holder debited
+  readonly payee: string; // ESA holder credited
+  readonly amount: bigint;
+  readonly priority: RTGSQueuePriority;
+  readonly queuedAt: Date;
+}
+
+/**
+ * Simulated ESA balances and queue
+ */
+export interface RTGSLiquidityQueue {
+  readonly balances: Readonly<Record<string, bigint>>;
+  readonly queued: QueuedRTGSPayment[]; // Queue order within each priority
+}
+
+/**
+ * A queued payment the simulation settled
+ */
+export interface RTGSSimulatedSettlement extends QueuedRTGSPayment {
+  readonly method: "INDIVIDUAL" | "OFFSET";
+}
+
+export interface RTGSLiquidityQueueRun {
+  readonly queue: RTGSLiquidityQueue;
+  readonly settled: RTGSSimulatedSettlement[]; // In settlement order
+}
+
+const PRIORITY_ORDER: Record<RTGSQueuePriority, number> = {
+  [RTGSQueuePriority.PRIORITY]: 0,
+  [RTGSQueuePriority.ACTIVE]: 1,
+  [RTGSQueuePriority.DEFERRED]: 2,
+};
+
+/**
+ * Create a queue from opening ESA balances (cents)
+ */
+export function createLiquidityQueue(balances: Record<string, bigint>): RTGSLiquidityQueue {
+  for (const [participant, balance] of Object.entries(balances)) {
+    if (balance < 0n) {
+      throw queueError(`Opening balance for ${participant} cannot be negative`);
+    }
+  }
+  return { balances: { ...balances }, queued: [] };
+}
+
+/**
+ * Add a QUEUED payment to the back of its priority class
+ *
+ * @param accounts - ESA holders on each side of the payment
+ */
+export function enqueueRTGSPayment(
+  queue: RTGSLiquidityQueue,
+  payment: RTGSPayment,
+  accounts: { payer: string; payee: string }
+): RTGSLiquidityQueue {
+  if (payment.state !== RTGSPaymentState.QUEUED || !payment.queuePriority || !payment.queuedAt) {
+    throw queueError(`Payment ${payment.paymentIntentId} is ${payment.state}, not QUEUED`);
+  }
+  if (findQueued(queue, payment.paymentIntentId)) {
+    throw queueError(`Payment ${payment.paymentIntentId} is already queued`);
+  }
+  for (const participant of [accounts.payer, accounts.payee]) {
+    if (queue.balances[participant] === undefined) {
+      throw queueError(`${participant} has no settlement account`);
+    }
+  }
+  if (accounts.payer === accounts.payee) {
+    throw queueError(`Payment ${payment.paymentIntentId} pays ${accounts.payer} to itself`);
+  }
+
+  return {
+    ...queue,
+    queued: [
+      ...queue.queued,
+      {
+        paymentIntentId: payment.paymentIntentId,
+        payer: accounts.payer,
+        payee: accounts.payee,
+        amount: payment.amount,
+        priority: payment.queuePriority,
+        queuedAt: payment.queuedAt,
+      },
+    ],
+  };
+}
+
+/**
+ * Move a queued payment to another priority class and/or the front of its class
+ *
+ * A new priority puts the payment at the back of that class unless
+ * `toFront` is set.
+ */
+export function reorderQueuedPayment(
+  queue: RTGSLiquidityQueue,
+  paymentIntentId: string,
+  change: { priority?: RTGSQueuePriority; toFront?: boolean }
+): RTGSLiquidityQueue {
+  const entry = requireQueued(queue, paymentIntentId);
+  const moved = { ...entry, priority: change.priority ?? entry.priority };
+  const rest = queue.queued.filter((queued) => queued !== entry);
+
+  if (change.toFront) {
+    return { ...queue, queued: [moved, ...rest] };
+  }
+  if (moved.priority === entry.priority) {
+    return queue;
+  }
+  return { ...queue, queued: [...rest, moved] };
+}
+
+/**
+ * Take a payment out of the queue unsettled (unqueued or cancelled)
+ */
+export function unqueueRTGSPayment(queue: RTGSLiquidityQueue, paymentIntentId: string): RTGSLiquidityQueue {
+  const entry = requireQueued(queue, paymentIntentId);
+  return { ...queue, queued: queue.queued.filter((queued) => queued !== entry) };
+}
+
+/**
+ * Move liquidity into (positive) or out of (negative) an ESA
+ *
+ * Models intraday repos, other settlements and end-of-day sweeps.
+ */
+export function adjustESABalance(queue: RTGSLiquidityQueue, participant: string, delta: bigint): RTGSLiquidityQueue {
+  const balance = queue.balances[participant] ?? 0n;
+  if (balance + delta < 0n) {
+    throw queueError(`Adjustment of ${delta} would overdraw ${participant} (balance ${balance})`);
+  }
+  return { ...queue, balances: { ...queue.balances, [participant]: balance + delta } };
+}
+
+/**
+ * Queued payments in the order they are tested (DEFERRED excluded)
+ */
+export function getLiquidityQueueTestOrder(queue: RTGSLiquidityQueue): QueuedRTGSPayment[] {
+  return queue.queued
+    .filter((queued) => queued.priority !== RTGSQueuePriority.DEFERRED)
+    .map((queued, index) => ({ queued, index }))
+    .sort((a, b) => PRIORITY_ORDER[a.queued.priority] - PRIORITY_ORDER[b.queued.priority] || a.index - b.index)
+    .map(({ queued }) => queued);
+}
+
+/**
+ * Settle everything the current balances allow
+ *
+ * Payments are tested one at a time in priority and queue order,
+ * bypassing any the payer cannot fund, and retested from the top after
+ * each settlement. When none settle individually, gridlock resolution
+ * offsets the remaining payments multilaterally: while some participant
+ * would end up negative, their last outgoing payment is left out; the
+ * subset that remains settles simultaneously.
+ */
+export function runLiquidityQueue(queue: RTGSLiquidityQueue): RTGSLiquidityQueueRun {
+  let current = queue;
+  const settled: RTGSSimulatedSettlement[] = [];
+
+  for (;;) {
+    const candidates = getLiquidityQueueTestOrder(current);
+    if (candidates.length === 0) {
+      break;
+    }
+
+    const next = candidates.find((queued) => current.balances[queued.payer] >= queued.amount);
+    if (next) {
+      current = settle(current, [next]);
+      settled.push({ ...next, method: "INDIVIDUAL" });
+      continue;
+    }
+
+    const offset = resolveGridlock(current.balances, candidates);
+    if (offset.length === 0) {
+      break;
+    }
+    current = settle(current, offset);
+    settled.push(...offset.map((queued) => ({ ...queued, method: "OFFSET" as const })));
+  }
+
+  return { queue: current, settled };
+}
+
+/**
+ * Funded subset found greedily: while some participant's net position is
+ * short, drop that participant's last outgoing payment in test order
+ * (lowest priority, latest queued). A heuristic - it can drop more than
+ * needed and miss a larger funded subset.
+ */
+function resolveGridlock(
+  balances: Readonly<Record<string, bigint>>,
+  candidates: QueuedRTGSPayment[]
+): QueuedRTGSPayment[] {
+  let subset = candidates;
+
+  for (;;) {
+    const positions = netPositions(balances, subset);
+    const short = Object.keys(positions).find((participant) => positions[participant] < 0n);
+    if (short === undefined) {
+      return subset;
+    }
+    const outgoing = subset.filter((queued) => queued.payer === short);
+    const dropped = outgoing[outgoing.length - 1];
+    subset = subset.filter((queued) => queued !== dropped);
+  }
+}
+
+function netPositions(
+  balances: Readonly<Record<string, bigint>>,
+  payments: QueuedRTGSPayment[]
+): Record<string, bigint> {
+  const positions: Record<string, bigint> = { ...balances };
+  for (const queued of payments) {
+    positions[queued.payer] -= queued.amount;
+    positions[queued.payee] += queued.amount;
+  }
+  return positions;
+}
+
+function settle(queue: RTGSLiquidityQueue, payments: QueuedRTGSPayment[]): RTGSLiquidityQueue {
+  return {
+    balances: netPositions(queue.balances, payments),
+    queued: queue.queued.filter((queued) => !payments.includes(queued)),
+  };
+}
+
+function findQueued(queue: RTGSLiquidityQueue, paymentIntentId: string): QueuedRTGSPayment | undefined {
+  return queue.queued.find((queued) => queued.paymentIntentId === paymentIntentId);
+}
+
+function requireQueued(queue: RTGSLiquidityQueue, paymentIntentId: string): QueuedRTGSPayment {
+  const entry = findQueued(queue, paymentIntentId);
+  if (!entry) {
+    throw queueError(`Payment ${paymentIntentId} is not in the queue`);
+  }
+  return entry;
+}
+
+function queueError(detail: string): InvariantError {
+  return new InvariantError("RTGS", "RTGS.LIQUIDITY_QUEUE", detail);
+}
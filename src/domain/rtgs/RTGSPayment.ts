@@ -8,18 +8,68 @@
  * - createRTGSPayment: Create payment from initial event
  * - applyRTGSEvent: Apply event to payment (pure function)
  * - rebuildRTGSFromEvents: Rebuild payment from event stream
+ * - requestRTGSApproval: Build the ApprovalRequested event from the approval policy
+ * - expireRTGSApproval: Build the event for a lapsed approval (used by the expiry sweeper)
+ * - reRequestRTGSApproval: Discard a lapsed approval and start a fresh round
+ * - sendRTGSPayment: Build the PaymentSent event inside a RITS session
  */
 
-import { RTGSPaymentState, RTGSApprovalRole, getApprovalThreshold } from "./RTGSPaymentState";
-import { RTGSPaymentEvent, EVENT_TO_STATE_MAP } from "./RTGSPaymentEvent";
 import {
+  RTGSPaymentState,
+  RTGSApprovalRole,
+  RTGSFailureReason,
+  RTGSQueuePriority,
+} from "./RTGSPaymentState";
+import {
+  canonicalHash,
+  CanonicalHashAlgorithm,
+  CURRENT_HASH_ALGORITHM,
+} from "../shared/CanonicalHash";
+import {
+  RTGSPaymentEvent,
+  ApprovalRequested,
+  ApprovalExpired,
+  PaymentFailed,
+  PaymentQueued,
+  PaymentSent,
+  RTGSApprovalPolicyDecision,
+  EVENT_TO_STATE_MAP,
+} from "./RTGSPaymentEvent";
+import {
+  assertApprovalNotExpired,
+  assertApprovalLapsed,
+  assertWithinRTGSSession,
   assertRTGSTransitionLegal,
   assertTerminalStateImmutable,
   assertFundsConservation,
   assertSingleSettlement,
   assertEventOrdering,
+  assertApproverEntitled,
   ApprovalRecord,
 } from "./RTGSInvariants";
+import { InvariantError, StateTransitionError, UNIVERSAL_INVARIANTS } from "../shared/PaymentErrors";
+import {
+  DEFAULT_RTGS_APPROVAL_POLICY,
+  RTGSApprovalPolicy,
+  evaluateRTGSApprovalPolicy,
+} from "./RTGSApprovalPolicy";
+import type { RTGSApproverRegistry } from "./RTGSApproverRegistry";
+import type { BusinessCalendar } from "../../calendar/BusinessCalendar";
+
+/**
+ * Approval rounds a payment gets before an expiry fails it
+ */
+export const DEFAULT_RTGS_MAX_APPROVAL_ROUNDS = 3;
+
+/**
+ * An approval round that expired before the payment was sent
+ */
+export interface RTGSApprovalRound {
+  readonly approvals: ApprovalRecord[];
+  readonly approvalExpiresAt: Date;
+  readonly approvalDecision?: RTGSApprovalPolicyDecision;
+  readonly expiredAt: Date;
+}
 
 /**
  * RTGS Payment Aggregate
@@ -42,6 +92,12 @@ export interface RTGSPayment {
   readonly requiredApprovers: number;
   readonly requiredRoles: RTGSApprovalRole[];
   readonly approvalExpiresAt?: Date;
+  readonly approvalDecision?: RTGSApprovalPolicyDecision;
+  readonly approvalHistory?: RTGSApprovalRound[]; // Expired rounds, oldest first
+  
+  // Liquidity queue (while QUEUED)
+  readonly queuePriority?: RTGSQueuePriority;
+  readonly queuedAt?: Date;
   
   // Economic tracking
   readonly fundsEarmarked: bigint;
@@ -62,21 +118,25 @@ export interface RTGSPayment {
 
 /**
  * Create RTGS payment from initial event
+ * 
+ * The approval policy sets the provisional approval requirement; the one
+ * that counts is decided again when approval is requested.
+ * 
+ * @param policy - Institution approval policy (default DEFAULT_RTGS_APPROVAL_POLICY)
+ * @throws RTGSApprovalPolicyError if the policy has no band for the amount
  */
-export function createRTGSPayment(event: RTGSPaymentEvent): RTGSPayment {
+export function createRTGSPayment(
+  event: RTGSPaymentEvent,
+  policy: RTGSApprovalPolicy = DEFAULT_RTGS_APPROVAL_POLICY
+): RTGSPayment {
   if (event.type !== "PaymentIntentCreated") {
     throw new Error(
       `Cannot create RTGS payment from event type ${event.type}. Must start with PaymentIntentCreated.`
     );
   }
   
-  // Get approval threshold for amount
-  const threshold = getApprovalThreshold(event.amount);
-  if (!threshold) {
-    throw new Error(
-      `No approval threshold found for amount ${event.amount}`
-    );
-  }
+  // Get approval requirement for amount, account and counterparty
+  const requirement = evaluateRTGSApprovalPolicy(policy, event, event.occurredAt);
   
   return {
     paymentIntentId: event.paymentIntentId,
@@ -93,8 +153,8 @@ export function createRTGSPayment(event: RTGSPaymentEvent): RTGSPayment {
     initiatorId: event.initiatorId,
     initiatorRole: event.initiatorRole,
     approvals: [],
-    requiredApprovers: threshold.minApprovers,
-    requiredRoles: threshold.requiredRoles,
+    requiredApprovers: requirement.requiredApprovers,
+    requiredRoles: requirement.requiredRoles,
     approvalExpiresAt: undefined,
     
     // Economic tracking
@@ -117,10 +177,14 @@ export function createRTGSPayment(event: RTGSPaymentEvent): RTGSPayment {
 
 /**
  * Apply event to payment (pure function)
+ * 
+ * @param approvers - Approver registry; each ApprovalGranted must come from
+ * an approver entitled to its role at occurredAt, and is refused without one
  */
 export function applyRTGSEvent(
   payment: RTGSPayment,
-  event: RTGSPaymentEvent
+  event: RTGSPaymentEvent,
+  approvers?: RTGSApproverRegistry
 ): RTGSPayment {
   // Validate event ordering
   const lastEvent = payment.events[payment.events.length - 1];
@@ -128,6 +192,16 @@ export function applyRTGSEvent(
     assertEventOrdering(lastEvent.occurredAt, event.occurredAt);
   }
   
+  // A payment is created once; a second intent would reset it to CREATED
+  if (event.type === "PaymentIntentCreated") {
+    throw new InvariantError(
+      "RTGS",
+      UNIVERSAL_INVARIANTS.IDEMPOTENCY,
+      `Duplicate PaymentIntentCreated for ${payment.paymentIntentId}`,
+      { idempotencyKey: event.idempotencyKey }
+    );
+  }
+  
   // Get target state from event
   const targetState = EVENT_TO_STATE_MAP[event.type];
   
@@ -135,24 +209,35 @@ export function applyRTGSEvent(
   assertTerminalStateImmutable(payment.state);
   assertRTGSTransitionLegal(payment.state, targetState);
   
+  // Approvals can only be used until they expire (at the event's own time).
+  // Queueing uses the approval: a queued payment may wait past its expiry.
+  if (
+    payment.approvalExpiresAt &&
+    (event.type === "ApprovalGranted" ||
+      event.type === "DualControlVerified" ||
+      event.type === "PaymentAuthorised" ||
+      event.type === "PaymentQueued" ||
+      (event.type === "PaymentSent" && payment.state !== RTGSPaymentState.QUEUED))
+  ) {
+    assertApprovalNotExpired(payment.approvalExpiresAt, event.occurredAt);
+  }
+  
   // Apply event-specific logic
   let updatedPayment = { ...payment };
   
   switch (event.type) {
-    case "PaymentIntentCreated":
-      // Already handled in createRTGSPayment
-      break;
-      
     case "ApprovalRequested":
       updatedPayment = {
         ...updatedPayment,
         requiredApprovers: event.requiredApprovers,
         requiredRoles: event.requiredRoles,
         approvalExpiresAt: event.expiresAt,
+        approvalDecision: event.policyDecision,
       };
       break;
       
     case "ApprovalGranted":
+      assertApproverEntitled(approvers, event, payment.amount);
       updatedPayment = {
         ...updatedPayment,
         approvals: [
@@ -161,6 +246,7 @@ export function applyRTGSEvent(
             approverId: event.approverId,
             approverRole: event.approverRole,
             approvedAt: event.occurredAt,
+            delegationId: event.delegationId,
           },
         ],
       };
@@ -177,6 +263,25 @@ export function applyRTGSEvent(
       };
       break;
       
+    case "ApprovalExpired":
+      assertApprovalLapsed(payment.approvalExpiresAt, event);
+      updatedPayment = {
+        ...updatedPayment,
+        approvals: [],
+        approvalExpiresAt: undefined,
+        approvalDecision: undefined,
+        approvalHistory: [
+          ...(payment.approvalHistory ?? []),
+          {
+            approvals: payment.approvals,
+            approvalExpiresAt: event.expiresAt,
+            approvalDecision: payment.approvalDecision,
+            expiredAt: event.occurredAt,
+          },
+        ],
+      };
+      break;
+      
     case "PaymentAuthorised":
       updatedPayment = {
         ...updatedPayment,
@@ -184,6 +289,53 @@ export function applyRTGSEvent(
       };
       break;
       
+    case "PaymentQueued":
+      if (payment.state !== RTGSPaymentState.APPROVED) {
+        throw new StateTransitionError(
+          "RTGS",
+          payment.state,
+          targetState,
+          `Invalid state transition: only APPROVED RTGS payments can be queued, ${payment.paymentIntentId} is ${payment.state}`
+        );
+      }
+      updatedPayment = {
+        ...updatedPayment,
+        queuePriority: event.priority,
+        queuedAt: event.occurredAt,
+      };
+      break;
+      
+    case "PaymentQueuePriorityChanged":
+      if (payment.state !== RTGSPaymentState.QUEUED) {
+        throw new StateTransitionError(
+          "RTGS",
+          payment.state,
+          targetState,
+          `Invalid state transition: RTGS payment ${payment.paymentIntentId} is not queued`
+        );
+      }
+      updatedPayment = {
+        ...updatedPayment,
+        queuePriority: event.priority,
+      };
+      break;
+      
+    case "PaymentUnqueued":
+      if (payment.state !== RTGSPaymentState.QUEUED) {
+        throw new StateTransitionError(
+          "RTGS",
+          payment.state,
+          targetState,
+          `Invalid state transition: RTGS payment ${payment.paymentIntentId} is not queued`
+        );
+      }
+      updatedPayment = {
+        ...updatedPayment,
+        queuePriority: undefined,
+        queuedAt: undefined,
+      };
+      break;
+      
     case "PaymentSent":
       updatedPayment = {
         ...updatedPayment,
@@ -236,9 +388,15 @@ export function applyRTGSEvent(
 
 /**
  * Rebuild payment from event stream (replay)
+ * 
+ * @param approvers - Approver registry to re-check approvals against
+ * (required to replay a stream with approvals)
+ * @param policy - Approval policy the payment was created under
  */
 export function rebuildRTGSFromEvents(
-  events: RTGSPaymentEvent[]
+  events: RTGSPaymentEvent[],
+  approvers?: RTGSApproverRegistry,
+  policy: RTGSApprovalPolicy = DEFAULT_RTGS_APPROVAL_POLICY
 ): RTGSPayment {
   if (events.length === 0) {
     throw new Error("Cannot rebuild RTGS payment from empty event stream");
@@ -252,31 +410,227 @@ export function rebuildRTGSFromEvents(
   }
   
   // Create initial payment
-  let payment = createRTGSPayment(firstEvent);
+  let payment = createRTGSPayment(firstEvent, policy);
   
   // Apply remaining events
   for (let i = 1; i < events.length; i++) {
-    payment = applyRTGSEvent(payment, events[i]);
+    payment = applyRTGSEvent(payment, events[i], approvers);
   }
   
   return payment;
 }
 
 /**
- * Get payment state hash (for replay verification)
+ * Build the ApprovalRequested event for a new payment
+ * 
+ * The approval policy decides the required roles and approvers; the
+ * decision (matched rule and criteria) is recorded on the event.
+ * 
+ * @param policy - Institution approval policy (default DEFAULT_RTGS_APPROVAL_POLICY)
  */
-export function getRTGSPaymentHash(payment: RTGSPayment): string {
-  const stateString = JSON.stringify({
+export function requestRTGSApproval(
+  payment: RTGSPayment,
+  requestedAt: Date,
+  policy: RTGSApprovalPolicy = DEFAULT_RTGS_APPROVAL_POLICY
+): ApprovalRequested {
+  assertTerminalStateImmutable(payment.state);
+  assertRTGSTransitionLegal(payment.state, RTGSPaymentState.PENDING_APPROVAL);
+
+  const requirement = evaluateRTGSApprovalPolicy(policy, payment, requestedAt);
+  const event: ApprovalRequested = {
+    type: "ApprovalRequested",
     paymentIntentId: payment.paymentIntentId,
-    state: payment.state,
-    amount: payment.amount.toString(),
-    fundsEarmarked: payment.fundsEarmarked.toString(),
-    fundsDebited: payment.fundsDebited.toString(),
-    fundsReleased: payment.fundsReleased.toString(),
-    approvals: payment.approvals,
-    version: payment.version,
-  });
-  
-  // Simple hash (in production, use crypto.subtle.digest)
-  return Buffer.from(stateString).toString("base64");
+    occurredAt: requestedAt,
+    requiredApprovers: requirement.requiredApprovers,
+    requiredRoles: requirement.requiredRoles,
+    approvalThreshold: requirement.approvalThreshold,
+    expiresAt: new Date(requestedAt.getTime() + requirement.approvalValidityMinutes * 60_000),
+    policyDecision: requirement.decision,
+  };
+  applyRTGSEvent(payment, event);
+
+  return event;
+}
+
+/**
+ * Check if a payment's approval has lapsed without being used
+ */
+export function isRTGSApprovalExpired(payment: RTGSPayment, at: Date): boolean {
+  return (
+    (payment.state === RTGSPaymentState.PENDING_APPROVAL ||
+      payment.state === RTGSPaymentState.APPROVED) &&
+    payment.approvalExpiresAt !== undefined &&
+    at > payment.approvalExpiresAt
+  );
+}
+
+/**
+ * Build the event for a lapsed approval
+ * 
+ * ApprovalExpired returns the payment to CREATED for another round; once
+ * `maxApprovalRounds` rounds have lapsed the payment fails instead
+ * (APPROVAL_EXPIRED) and its earmarked funds are released.
+ * 
+ * @param maxApprovalRounds - Rounds allowed (default DEFAULT_RTGS_MAX_APPROVAL_ROUNDS)
+ * @throws InvariantError (RTGS.APPROVAL_EXPIRY) if the approval has not lapsed
+ */
+export function expireRTGSApproval(
+  payment: RTGSPayment,
+  expiredAt: Date,
+  maxApprovalRounds: number = DEFAULT_RTGS_MAX_APPROVAL_ROUNDS
+): ApprovalExpired | PaymentFailed {
+  assertTerminalStateImmutable(payment.state);
+  const expiresAt = payment.approvalExpiresAt;
+  if (!expiresAt) {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.APPROVAL_EXPIRY",
+      `Payment ${payment.paymentIntentId} has no approval to expire`
+    );
+  }
+  assertApprovalLapsed(expiresAt, { expiresAt, occurredAt: expiredAt });
+
+  const round = (payment.approvalHistory?.length ?? 0) + 1;
+  const event: ApprovalExpired | PaymentFailed =
+    round >= maxApprovalRounds
+      ? {
+          type: "PaymentFailed",
+          paymentIntentId: payment.paymentIntentId,
+          occurredAt: expiredAt,
+          reason: RTGSFailureReason.APPROVAL_EXPIRED,
+          failureMessage: `Approval expired at ${expiresAt.toISOString()} (round ${round} of ${maxApprovalRounds})`,
+          fundsReleased: payment.fundsEarmarked,
+        }
+      : {
+          type: "ApprovalExpired",
+          paymentIntentId: payment.paymentIntentId,
+          occurredAt: expiredAt,
+          expiresAt,
+          approvalsDiscarded: payment.approvals.length,
+        };
+  applyRTGSEvent(payment, event);
+
+  return event;
+}
+
+/**
+ * Start a fresh approval round
+ * 
+ * A lapsed approval that the sweeper has not yet expired is expired first,
+ * so the stale approvals are discarded into the approval history rather
+ * than counted towards the new round. Once `maxApprovalRounds` rounds have
+ * been used no further round is started: the lapsed payment is failed by
+ * expireRTGSApproval instead.
+ * 
+ * @param maxApprovalRounds - Rounds allowed (default DEFAULT_RTGS_MAX_APPROVAL_ROUNDS)
+ * @returns [ApprovalExpired?, ApprovalRequested]
+ * @throws InvariantError (RTGS.APPROVAL_EXPIRY) while the current approval is
+ * still valid, or once every round has been used
+ */
+export function reRequestRTGSApproval(
+  payment: RTGSPayment,
+  requestedAt: Date,
+  policy: RTGSApprovalPolicy = DEFAULT_RTGS_APPROVAL_POLICY,
+  maxApprovalRounds: number = DEFAULT_RTGS_MAX_APPROVAL_ROUNDS
+): Array<ApprovalExpired | ApprovalRequested> {
+  const roundsUsed =
+    (payment.approvalHistory?.length ?? 0) + (payment.state === RTGSPaymentState.CREATED ? 0 : 1);
+  if (roundsUsed >= maxApprovalRounds) {
+    throw new InvariantError(
+      "RTGS",
+      "RTGS.APPROVAL_EXPIRY",
+      `Payment ${payment.paymentIntentId} has used all ${maxApprovalRounds} approval rounds`,
+      { roundsUsed, maxApprovalRounds }
+    );
+  }
+
+  if (payment.state === RTGSPaymentState.CREATED) {
+    return [requestRTGSApproval(payment, requestedAt, policy)];
+  }
+
+  const expiresAt = payment.approvalExpiresAt;
+  const expired: ApprovalExpired = {
+    type: "ApprovalExpired",
+    paymentIntentId: payment.paymentIntentId,
+    occurredAt: requestedAt,
+    expiresAt: expiresAt ?? requestedAt,
+    approvalsDiscarded: payment.approvals.length,
+  };
+  const expiredPayment = applyRTGSEvent(payment, expired);
+
+  return [expired, requestRTGSApproval(expiredPayment, requestedAt, policy)];
+}
+
+/**
+ * Build the PaymentQueued event for an approved payment
+ * 
+ * Payments only enter the RITS queue during a session that accepts
+ * customer payments, and while the approval is still valid.
+ * 
+ * @param calendar - Business calendar supplying RITS session windows
+ */
+export function queueRTGSPayment(
+  payment: RTGSPayment,
+  priority: RTGSQueuePriority,
+  queuedAt: Date,
+  calendar: BusinessCalendar
+): PaymentQueued {
+  assertTerminalStateImmutable(payment.state);
+  assertWithinRTGSSession(queuedAt, calendar);
+
+  const event: PaymentQueued = {
+    type: "PaymentQueued",
+    paymentIntentId: payment.paymentIntentId,
+    occurredAt: queuedAt,
+    priority,
+  };
+  applyRTGSEvent(payment, event);
+
+  return event;
+}
+
+/**
+ * Build the PaymentSent event for an approved payment
+ * 
+ * Refuses sends outside a RITS session that accepts customer payments,
+ * and sends after the approval has expired.
+ * 
+ * @param calendar - Business calendar supplying RITS session windows
+ */
+export function sendRTGSPayment(
+  payment: RTGSPayment,
+  railTransactionId: string,
+  sentAt: Date,
+  calendar: BusinessCalendar
+): PaymentSent {
+  assertTerminalStateImmutable(payment.state);
+  assertRTGSTransitionLegal(payment.state, RTGSPaymentState.SENT);
+  assertWithinRTGSSession(sentAt, calendar);
+
+  const event: PaymentSent = {
+    type: "PaymentSent",
+    paymentIntentId: payment.paymentIntentId,
+    occurredAt: sentAt,
+    railTransactionId,
+    sentAt,
+    fundsDebited: payment.fundsEarmarked,
+  };
+  applyRTGSEvent(payment, event);
+
+  return event;
+}
+
+/**
+ * Get payment state hash (for replay verification)
+ *
+ * Versioned canonical hash of the aggregate (see CanonicalHash). The
+ * event list is left out: `version` already pins the stream length and
+ * the state is fully derived from it.
+ */
+export function getRTGSPaymentHash(
+  payment: RTGSPayment,
+  algorithm: CanonicalHashAlgorithm = CURRENT_HASH_ALGORITHM
+): string {
+  const { events: _events, ...state } = payment;
+  return canonicalHash(state, algorithm);
 }
@@ -9,11 +9,18 @@
  * - ApprovalGranted
  * - ApprovalRejected
  * - DualControlVerified
+ * - ApprovalExpired
+ * - PaymentQueued, PaymentQueuePriorityChanged, PaymentUnqueued
  * 
  * All events include approval metadata for audit trail.
  */
 
-import { RTGSPaymentState, RTGSFailureReason, RTGSApprovalRole } from "./RTGSPaymentState";
+import {
+  RTGSPaymentState,
+  RTGSFailureReason,
+  RTGSApprovalRole,
+  RTGSQueuePriority,
+} from "./RTGSPaymentState";
 
 /**
  * Base RTGS Payment Event
@@ -41,6 +48,21 @@ export interface PaymentIntentCreated extends BaseRTGSEvent {
   readonly initiatorRole: RTGSApprovalRole;
 }
 
+/**
+ * Approval Policy Decision
+ * 
+ * Which approval policy rule set the requirement, and why
+ * (see RTGSApprovalPolicy)
+ */
+export interface RTGSApprovalPolicyDecision {
+  readonly policyId: string;
+  readonly policyVersion: string;
+  readonly ruleId: string;
+  readonly ruleKind: "BAND" | "OVERRIDE";
+  readonly matchedCriteria: string[]; // e.g. ["amount 150000000 in [100000000, 1000000000]"]
+  readonly explanation: string;
+}
+
 /**
  * Approval Requested
  * 
@@ -53,6 +75,7 @@ export interface ApprovalRequested extends BaseRTGSEvent {
   readonly requiredRoles: RTGSApprovalRole[];
   readonly approvalThreshold: bigint; // Amount threshold
   readonly expiresAt: Date; // Approval expiry
+  readonly policyDecision?: RTGSApprovalPolicyDecision; // Absent on events recorded before the policy engine
 }
 
 /**
@@ -67,6 +90,7 @@ export interface ApprovalGranted extends BaseRTGSEvent {
   readonly approverRole: RTGSApprovalRole;
   readonly approvalSequence: number; // 1st, 2nd, 3rd approver
   readonly approvalReason?: string;
+  readonly delegationId?: string; // Approving under a delegation (see RTGSApproverRegistry)
 }
 
 /**
@@ -98,6 +122,19 @@ export interface ApprovalRejected extends BaseRTGSEvent {
   readonly rejectionReason: string;
 }
 
+/**
+ * Approval Expired
+ * 
+ * The approval window lapsed before the payment was sent. Approvals so
+ * far are discarded (kept in the aggregate's approval history) and the
+ * payment returns to CREATED for a fresh approval round.
+ */
+export interface ApprovalExpired extends BaseRTGSEvent {
+  readonly type: "ApprovalExpired";
+  readonly expiresAt: Date; // Deadline that lapsed
+  readonly approvalsDiscarded: number;
+}
+
 /**
  * Payment Authorised
  * 
@@ -109,6 +146,38 @@ export interface PaymentAuthorised extends BaseRTGSEvent {
   readonly fundsEarmarked: bigint;
 }
 
+/**
+ * Payment Queued
+ * 
+ * Approved payment placed in the RITS queue to wait for liquidity
+ */
+export interface PaymentQueued extends BaseRTGSEvent {
+  readonly type: "PaymentQueued";
+  readonly priority: RTGSQueuePriority;
+}
+
+/**
+ * Payment Queue Priority Changed
+ * 
+ * Treasury moved a queued payment between priority classes
+ */
+export interface PaymentQueuePriorityChanged extends BaseRTGSEvent {
+  readonly type: "PaymentQueuePriorityChanged";
+  readonly priority: RTGSQueuePriority;
+  readonly changedBy: string;
+}
+
+/**
+ * Payment Unqueued
+ * 
+ * Taken out of the queue unsent; back to APPROVED
+ */
+export interface PaymentUnqueued extends BaseRTGSEvent {
+  readonly type: "PaymentUnqueued";
+  readonly unqueuedBy: string;
+  readonly reason: string;
+}
+
 /**
  * Payment Sent
  * 
@@ -156,7 +225,11 @@ export type RTGSPaymentEvent =
   | ApprovalGranted
   | DualControlVerified
   | ApprovalRejected
+  | ApprovalExpired
   | PaymentAuthorised
+  | PaymentQueued
+  | PaymentQueuePriorityChanged
+  | PaymentUnqueued
   | PaymentSent
   | PaymentSettled
   | PaymentFailed;
@@ -170,7 +243,11 @@ export const EVENT_TO_STATE_MAP: Record<RTGSPaymentEvent["type"], RTGSPaymentSta
   ApprovalGranted: RTGSPaymentState.PENDING_APPROVAL, // Still pending until all approvals
   DualControlVerified: RTGSPaymentState.APPROVED,
   ApprovalRejected: RTGSPaymentState.REJECTED,
+  ApprovalExpired: RTGSPaymentState.CREATED, // Awaiting a fresh approval round
   PaymentAuthorised: RTGSPaymentState.APPROVED, // After dual-control
+  PaymentQueued: RTGSPaymentState.QUEUED,
+  PaymentQueuePriorityChanged: RTGSPaymentState.QUEUED,
+  PaymentUnqueued: RTGSPaymentState.APPROVED,
   PaymentSent: RTGSPaymentState.SENT,
   PaymentSettled: RTGSPaymentState.SETTLED,
   PaymentFailed: RTGSPaymentState.FAILED,
@@ -8,9 +8,10 @@
  * - Audit trail for all approvals
  * 
  * State Flow:
- * CREATED → PENDING_APPROVAL → APPROVED → SENT → SETTLED
- *                            ↓
- *                         REJECTED
+ * CREATED → PENDING_APPROVAL → APPROVED → (QUEUED) → SENT → SETTLED
+ *    ↑                       ↓          │
+ *    │                    REJECTED      │
+ *    └──── approval expired ────────────┘
  * 
  * RTGS Characteristics:
  * - High-value payments (typically > $1M AUD)
@@ -41,6 +42,12 @@ export enum RTGSPaymentState {
    */
   APPROVED = "APPROVED",
   
+  /**
+   * QUEUED - Waiting in the RITS queue for settlement-account liquidity
+   * Can be reprioritised, unqueued (back to APPROVED) or cancelled
+   */
+  QUEUED = "QUEUED",
+  
   /**
    * REJECTED - Approval denied
    * Terminal state - payment cannot proceed
@@ -109,6 +116,18 @@ export enum RTGSFailureReason {
   CANCELLED = "CANCELLED",
 }
 
+/**
+ * RTGS Queue Priority
+ * 
+ * RITS queue statuses: PRIORITY payments are tested for settlement before
+ * ACTIVE ones; DEFERRED payments stay queued but are not tested.
+ */
+export enum RTGSQueuePriority {
+  PRIORITY = "PRIORITY",
+  ACTIVE = "ACTIVE",
+  DEFERRED = "DEFERRED",
+}
+
 /**
  * RTGS Approval Roles
  * 
@@ -152,7 +171,7 @@ export interface RTGSApprovalThreshold {
   readonly minAmount: bigint;
   
   /**
-   * Maximum amount for this threshold (in cents)
+   * Maximum amount for this threshold (in cents, inclusive)
    * undefined = no upper limit
    */
   readonly maxAmount?: bigint;
@@ -171,9 +190,17 @@ export interface RTGSApprovalThreshold {
 /**
  * Default RTGS Approval Thresholds
  * 
- * These can be customized per institution
+ * Bands run from $0 with no gaps; both bounds are inclusive, so $1M
+ * and $10M need dual control. These can be customized per
+ * institution (see RTGSApprovalPolicy)
  */
 export const DEFAULT_RTGS_THRESHOLDS: RTGSApprovalThreshold[] = [
+  {
+    minAmount: 0n,
+    maxAmount: 99999999n, // $1M - 1c
+    requiredRoles: [RTGSApprovalRole.FIRST_APPROVER],
+    minApprovers: 1,
+  },
   {
     minAmount: 100000000n, // $1M
     maxAmount: 1000000000n, // $10M
@@ -181,7 +208,7 @@ export const DEFAULT_RTGS_THRESHOLDS: RTGSApprovalThreshold[] = [
     minApprovers: 2,
   },
   {
-    minAmount: 1000000000n, // $10M
+    minAmount: 1000000001n, // $10M + 1c
     maxAmount: undefined, // No upper limit
     requiredRoles: [
       RTGSApprovalRole.FIRST_APPROVER,
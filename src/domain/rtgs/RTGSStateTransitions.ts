@@ -7,10 +7,11 @@
  * Key Differences from NPP:
  * - AUTHORISED → PENDING_APPROVAL (not SENT)
  * - PENDING_APPROVAL → APPROVED | REJECTED
- * - APPROVED → QUEUED (optional queueing)
- * - QUEUED → SENT
+ * - PENDING_APPROVAL | APPROVED → CREATED when the approval expires
+ * - APPROVED → QUEUED (optional queueing for liquidity)
+ * - QUEUED → SENT | APPROVED (unqueued)
  * 
- * Terminal States: SETTLED, REJECTED, FAILED, EXPIRED
+ * Terminal States: SETTLED, REJECTED, FAILED
  */
 
 import { RTGSPaymentState } from "./RTGSPaymentState";
@@ -37,24 +38,45 @@ export const RTGS_ALLOWED_TRANSITIONS: Record<
   ],
   
   /**
-   * PENDING_APPROVAL → PENDING_APPROVAL, APPROVED, REJECTED
+   * PENDING_APPROVAL → PENDING_APPROVAL, APPROVED, REJECTED, CREATED, FAILED
    * 
    * Awaiting dual-control approval
    * Can stay in PENDING_APPROVAL for incremental approvals
+   * Back to CREATED (or FAILED) when the approval expires
    */
   [RTGSPaymentState.PENDING_APPROVAL]: [
     RTGSPaymentState.PENDING_APPROVAL, // Allow incremental approvals
     RTGSPaymentState.APPROVED,
     RTGSPaymentState.REJECTED,
+    RTGSPaymentState.CREATED, // Approval expired, re-request
+    RTGSPaymentState.FAILED, // Approval expired, no rounds left
   ],
   
   /**
-   * APPROVED → SENT, FAILED
+   * APPROVED → SENT, QUEUED, FAILED, CREATED
    * 
    * All approvals granted, ready to send
+   * Queued when settlement-account liquidity is short
+   * Back to CREATED when the approval expires before sending
    */
   [RTGSPaymentState.APPROVED]: [
     RTGSPaymentState.SENT,
+    RTGSPaymentState.QUEUED,
+    RTGSPaymentState.FAILED,
+    RTGSPaymentState.CREATED, // Approval expired, re-request
+  ],
+  
+  /**
+   * QUEUED → QUEUED, SENT, APPROVED, FAILED
+   * 
+   * Waiting for liquidity
+   * Can stay in QUEUED for priority changes
+   * Back to APPROVED when unqueued; FAILED when cancelled
+   */
+  [RTGSPaymentState.QUEUED]: [
+    RTGSPaymentState.QUEUED, // Priority changes
+    RTGSPaymentState.SENT,
+    RTGSPaymentState.APPROVED, // Unqueued
     RTGSPaymentState.FAILED,
   ],
   
@@ -9,3 +9,6 @@ export * from "./RTGSPaymentEvent";
 export * from "./RTGSStateTransitions";
 export * from "./RTGSInvariants";
 export * from "./RTGSPayment";
+export * from "./RTGSApprovalPolicy";
+export * from "./RTGSApproverRegistry";
+export * from "./RTGSLiquidityQueue";
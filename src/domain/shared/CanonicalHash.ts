@@ -0,0 +1,160 @@
+/**
+ * Canonical Hashing - One State Hash For Every Rail
+ *
+ * Every rail hashes its aggregate the same way: canonical JSON of the
+ * state, then SHA-256. The result is prefixed with a versioned algorithm
+ * identifier so a hash always says how it was produced:
+ *
+ *   cjson-sha256-v1:3f2a...e9
+ *
+ * Canonical JSON:
+ * - Object keys are sorted (code unit order); undefined members are dropped
+ * - No insignificant whitespace
+ * - bigint and Date are tagged exactly as the event codec tags them
+ *   ({ "$bigint": "..." } / { "$date": "..." })
+ * - Non-finite numbers and other non-JSON values are rejected
+ *
+ * Versioning rules:
+ * - An algorithm ID is frozen once released. Changing the serialization,
+ *   the digest or the hashed fields needs a new ID.
+ * - Hashes without a prefix predate versioning (LEGACY_HASH_ALGORITHM).
+ *   They were computed by each rail's own pre-v1 hash function, kept in
+ *   rails/LegacyStateHashes so old evidence stays verifiable.
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * Canonical JSON + SHA-256 (hex)
+ */
+export const CANONICAL_SHA256_V1 = "cjson-sha256-v1";
+
+/**
+ * Rail-specific hashes produced before algorithm IDs existed (no prefix)
+ */
+export const LEGACY_HASH_ALGORITHM = "legacy-v0";
+
+/**
+ * Algorithms canonicalHash can produce
+ */
+export const CANONICAL_HASH_ALGORITHMS = [CANONICAL_SHA256_V1] as const;
+
+export type CanonicalHashAlgorithm = (typeof CANONICAL_HASH_ALGORITHMS)[number];
+
+export type HashAlgorithmId = CanonicalHashAlgorithm | typeof LEGACY_HASH_ALGORITHM;
+
+/**
+ * Algorithm used for every new hash
+ */
+export const CURRENT_HASH_ALGORITHM: CanonicalHashAlgorithm = CANONICAL_SHA256_V1;
+
+/**
+ * Raised when a value has no canonical JSON form
+ */
+export class CanonicalJsonError extends Error {
+  constructor(path: string, message: string) {
+    super(`CANONICAL_JSON_ERROR: ${path}: ${message}`);
+    this.name = "CanonicalJsonError";
+  }
+}
+
+/**
+ * Raised when a hash names an algorithm this build does not know
+ */
+export class UnsupportedHashAlgorithmError extends Error {
+  constructor(algorithm: string) {
+    super(`UNSUPPORTED_HASH_ALGORITHM: ${algorithm}`);
+    this.name = "UnsupportedHashAlgorithmError";
+  }
+}
+
+/**
+ * Serialize a value to canonical JSON
+ *
+ * @throws CanonicalJsonError if the value contains non-JSON data
+ */
+export function canonicalJson(value: unknown): string {
+  return write(value, "$");
+}
+
+/**
+ * SHA-256 (hex) of a value's canonical JSON, without algorithm prefix
+ */
+export function canonicalSha256(value: unknown): string {
+  return createHash("sha256").update(canonicalJson(value)).digest("hex");
+}
+
+/**
+ * Versioned hash of a value: `<algorithm>:<digest>`
+ */
+export function canonicalHash(
+  value: unknown,
+  algorithm: CanonicalHashAlgorithm = CURRENT_HASH_ALGORITHM
+): string {
+  switch (algorithm) {
+    case CANONICAL_SHA256_V1:
+      return `${algorithm}:${canonicalSha256(value)}`;
+    default:
+      throw new UnsupportedHashAlgorithmError(algorithm);
+  }
+}
+
+/**
+ * Algorithm a hash was produced with
+ *
+ * @throws UnsupportedHashAlgorithmError for an unknown prefix
+ */
+export function hashAlgorithmOf(hash: string): HashAlgorithmId {
+  const separator = hash.indexOf(":");
+  if (separator === -1) {
+    return LEGACY_HASH_ALGORITHM;
+  }
+
+  const algorithm = hash.slice(0, separator);
+  if (!(CANONICAL_HASH_ALGORITHMS as readonly string[]).includes(algorithm)) {
+    throw new UnsupportedHashAlgorithmError(algorithm);
+  }
+  return algorithm as CanonicalHashAlgorithm;
+}
+
+function write(value: unknown, path: string): string {
+  if (value === null) {
+    return "null";
+  }
+
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return JSON.stringify(value);
+    case "number":
+      if (!Number.isFinite(value)) {
+        throw new CanonicalJsonError(path, `non-finite number ${value}`);
+      }
+      return JSON.stringify(value);
+    case "bigint":
+      return write({ $bigint: value.toString() }, path);
+    case "object":
+      break;
+    default:
+      throw new CanonicalJsonError(path, `unsupported type ${typeof value}`);
+  }
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new CanonicalJsonError(path, "invalid date");
+    }
+    return write({ $date: value.toISOString() }, path);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item, index) => write(item ?? null, `${path}[${index}]`)).join(",")}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const members = Object.keys(record)
+    .sort()
+    .filter((key) => record[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${write(record[key], `${path}.${key}`)}`);
+
+  return `{${members.join(",")}}`;
+}
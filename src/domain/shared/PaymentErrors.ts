@@ -0,0 +1,116 @@
+/**
+ * Payment Domain Errors - One Error Hierarchy For Every Rail
+ *
+ * Rail invariants throw these instead of plain Errors so callers (the
+ * command layer, ops tooling, tests) can branch on type and read the
+ * structured fields rather than parse messages.
+ *
+ *   PaymentDomainError
+ *   ├── StateTransitionError      from / to
+ *   │   └── TerminalStateError    from is terminal
+ *   └── InvariantError            invariant id, context
+ *       └── InsufficientFundsError required / available
+ *
+ * Messages keep the established prefixes (INVARIANT_VIOLATION: ...,
+ * ILLEGAL_NPP_TRANSITION: ...) so logs and existing assertions still read
+ * the same.
+ *
+ * Invariant IDs follow docs/INVARIANTS_FROZEN.md:
+ * - "UNIVERSAL.<n>" for the universal invariants (e.g. UNIVERSAL.5 funds conservation)
+ * - "<Rail>.<n>" for numbered rail invariants (e.g. RTGS.1, Cards.2)
+ * - "<RAIL>.<RULE>" for rail rules without a number (e.g. NPP.POSITIVE_AMOUNT)
+ */
+
+export type PaymentDomainRail = "NPP" | "BECS" | "RTGS" | "CARDS";
+
+/**
+ * Invariant IDs shared by every rail (docs/INVARIANTS_FROZEN.md)
+ */
+export const UNIVERSAL_INVARIANTS = {
+  STATE_TRANSITION_LEGALITY: "UNIVERSAL.3",
+  TERMINAL_STATE_IMMUTABILITY: "UNIVERSAL.4",
+  FUNDS_CONSERVATION: "UNIVERSAL.5",
+  IDEMPOTENCY: "UNIVERSAL.7",
+  NO_TIME_TRAVEL: "TEMPORAL.1",
+} as const;
+
+/**
+ * Base class for every typed payment domain error
+ */
+export abstract class PaymentDomainError extends Error {
+  abstract readonly code: string;
+
+  protected constructor(readonly rail: PaymentDomainRail, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Raised when a payment is asked to move between two states that its
+ * rail's transition table does not connect
+ */
+export class StateTransitionError extends PaymentDomainError {
+  readonly code: string = "ILLEGAL_STATE_TRANSITION";
+
+  constructor(
+    rail: PaymentDomainRail,
+    readonly from: string,
+    readonly to: string | null,
+    message = `INVARIANT_VIOLATION: Illegal ${railLabel(rail)} state transition from ${from} to ${to}`
+  ) {
+    super(rail, message);
+    this.name = "StateTransitionError";
+  }
+}
+
+/**
+ * Raised when a payment in a terminal state is asked to change at all
+ */
+export class TerminalStateError extends StateTransitionError {
+  readonly code: string = "TERMINAL_STATE";
+
+  constructor(rail: PaymentDomainRail, state: string, to: string | null = null) {
+    super(rail, state, to, `INVARIANT_VIOLATION: Cannot transition from terminal state ${state}`);
+    this.name = "TerminalStateError";
+  }
+}
+
+/**
+ * Raised when a rail invariant other than transition legality fails
+ */
+export class InvariantError extends PaymentDomainError {
+  readonly code: string = "INVARIANT_VIOLATION";
+
+  constructor(
+    rail: PaymentDomainRail,
+    readonly invariant: string,
+    readonly detail: string,
+    readonly context: Readonly<Record<string, unknown>> = {}
+  ) {
+    super(rail, `INVARIANT_VIOLATION: ${detail}`);
+    this.name = "InvariantError";
+  }
+}
+
+/**
+ * Raised when an amount exceeds the funds available to cover it
+ * (minor units)
+ */
+export class InsufficientFundsError extends InvariantError {
+  readonly code: string = "INSUFFICIENT_FUNDS";
+
+  constructor(
+    rail: PaymentDomainRail,
+    invariant: string,
+    readonly required: bigint,
+    readonly available: bigint,
+    detail = `Insufficient funds. Required: ${required}, Available: ${available}`
+  ) {
+    super(rail, invariant, detail, { required, available });
+    this.name = "InsufficientFundsError";
+  }
+}
+
+function railLabel(rail: PaymentDomainRail): string {
+  return rail === "CARDS" ? "Cards" : rail;
+}
@@ -0,0 +1,9 @@
+/**
+ * Shared Domain Utilities - Public API
+ *
+ * Canonical serialization, versioned state hashing and the typed payment
+ * domain errors used by every rail.
+ */
+
+export * from "./CanonicalHash";
+export * from "./PaymentErrors";
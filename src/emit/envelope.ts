@@ -0,0 +1,79 @@
+/**
+ * Event envelope construction.
+ * 
+ * Builds envelopes matching schemas/envelope.v1.json. Every event leaving
+ * turing-payments-rails is wrapped here and then passed to emitEvent(),
+ * which validates it against the event-specific schema.
+ */
+
+import { randomUUID } from 'crypto';
+
+export const PRODUCER = 'turing-payments-rails';
+
+export interface EventEnvelope<P extends Record<string, unknown> = Record<string, unknown>> {
+  event_id: string;
+  event_type: string;
+  event_version: 1;
+  occurred_at: string;
+  producer: typeof PRODUCER;
+  correlation_id: string;
+  causation_id?: string | null;
+  entity_type: 'PAYMENT';
+  entity_id: string;
+  payload: P;
+}
+
+export interface EnvelopeInput<P extends Record<string, unknown>> {
+  event_type: string;
+  entity_id: string;
+  occurred_at: Date;
+  payload: P;
+  correlation_id?: string;
+  causation_id?: string;
+}
+
+/**
+ * Create a payment event envelope.
+ * 
+ * @param input - Event type, entity, timestamp, payload and tracing IDs
+ * @returns Envelope (correlation_id defaults to the new event_id)
+ */
+export function createEnvelope<P extends Record<string, unknown>>(
+  input: EnvelopeInput<P>,
+): EventEnvelope<P> {
+  const event_id = randomUUID();
+
+  return {
+    event_id,
+    event_type: input.event_type,
+    event_version: 1,
+    occurred_at: input.occurred_at.toISOString(),
+    producer: PRODUCER,
+    correlation_id: input.correlation_id ?? event_id,
+    causation_id: input.causation_id ?? null,
+    entity_type: 'PAYMENT',
+    entity_id: input.entity_id,
+    payload: input.payload,
+  };
+}
+
+/**
+ * Convert a major-unit amount (dollars, as in the command API)
+ * to minor units (cents, as held by the aggregates).
+ * 
+ * @param amount - Amount in dollars
+ * @returns Amount in cents
+ */
+export function toMinorUnits(amount: number): bigint {
+  return BigInt(Math.round(amount * 100));
+}
+
+/**
+ * Convert a minor-unit amount (cents) to major units (dollars).
+ * 
+ * @param amount - Amount in cents
+ * @returns Amount in dollars
+ */
+export function toMajorUnits(amount: bigint): number {
+  return Number(amount) / 100;
+}
@@ -0,0 +1,593 @@
+/**
+ * Domain event → envelope mapping for every rail.
+ *
+ * Turns each rail's domain event union into the canonical envelopes in
+ * schemas/ (PaymentSettled, PaymentReversed, CardChargebackReceived, ...).
+ *
+ * Rules:
+ * - One mapper per domain event type per rail. The tables are mapped types
+ *   over each rail's event union, so adding a domain event without a mapper
+ *   is a compile error
+ * - Internal lifecycle events (approvals, batching, clearing) map to no
+ *   envelope, explicitly, via NO_ENVELOPE
+ * - Settlement and reversal envelopes carry a ledger_posting derived from
+ *   the aggregate's accounts and the funds the event actually moved
+ * - Every envelope is validated against its schema before it is returned
+ *
+ * `context.payment` is the aggregate BEFORE the event is applied (null for
+ * PaymentIntentCreated).
+ */
+
+import { Rail, RailEventMap, RailPaymentMap } from '../rails/Rail';
+import { PaymentsRails } from '../rails/PaymentsRails';
+import { EventEnvelope, createEnvelope, toMajorUnits } from './envelope';
+import { validateEvent } from './validateEvent';
+import { NPPPaymentState } from '../domain/npp/NPPPaymentState';
+import { BECSPaymentState } from '../domain/becs/BECSPaymentState';
+
+export interface EnvelopeTracing {
+  correlation_id: string;
+  causation_id?: string;
+}
+
+export interface EnvelopeContext<R extends Rail> extends EnvelopeTracing {
+  /** Aggregate before the event (null for PaymentIntentCreated) */
+  payment: RailPaymentMap[R] | null;
+  /** event_id of the payment's PaymentSettled envelope (required for reversals) */
+  settlement_event_id?: string;
+  /** Destination as given on the command (PaymentInitiated only) */
+  destination?: { type: 'ACCOUNT' | 'PAYID' | 'CARD'; value: string };
+}
+
+/**
+ * Envelope event type and payload, before tracing fields are added
+ */
+export interface EnvelopeDraft {
+  event_type: string;
+  payload: Record<string, unknown> & { payment_id: string };
+}
+
+export interface LedgerPosting extends Record<string, unknown> {
+  debit_account_id: string;
+  credit_account_id: string;
+  amount: number;
+}
+
+type RailEvent<R extends Rail, K extends RailEventMap[R]['type']> = Extract<
+  RailEventMap[R],
+  { type: K }
+>;
+
+export type EnvelopeMapper<R extends Rail, E> = (
+  event: E,
+  context: EnvelopeContext<R>,
+) => EnvelopeDraft[];
+
+/**
+ * Exhaustive mapper table for one rail
+ */
+export type EnvelopeMappers<R extends Rail> = {
+  [K in RailEventMap[R]['type']]: EnvelopeMapper<R, RailEvent<R, K>>;
+};
+
+/**
+ * Mapper for domain events that never leave the rail
+ */
+export const NO_ENVELOPE = (): EnvelopeDraft[] => [];
+
+/**
+ * Raised when an event cannot be mapped with the context supplied.
+ */
+export class EnvelopeMappingError extends Error {
+  constructor(rail: Rail, eventType: string, message: string) {
+    super(`ENVELOPE_MAPPING_ERROR: ${rail} ${eventType}: ${message}`);
+    this.name = 'EnvelopeMappingError';
+  }
+}
+
+function requirePayment<R extends Rail>(
+  rail: R,
+  eventType: string,
+  context: EnvelopeContext<R>,
+): RailPaymentMap[R] {
+  if (!context.payment) {
+    throw new EnvelopeMappingError(rail, eventType, 'aggregate state is required');
+  }
+  return context.payment;
+}
+
+function requireSettlementEventId<R extends Rail>(
+  rail: R,
+  eventType: string,
+  context: EnvelopeContext<R>,
+): string {
+  if (!context.settlement_event_id) {
+    throw new EnvelopeMappingError(rail, eventType, 'settlement_event_id is required for a reversal');
+  }
+  return context.settlement_event_id;
+}
+
+function posting(debit: string, credit: string, amount: bigint): LedgerPosting {
+  return { debit_account_id: debit, credit_account_id: credit, amount: toMajorUnits(amount) };
+}
+
+function initiated(
+  rail: Rail,
+  event: { paymentIntentId: string; amount: bigint; currency: string },
+  source_account_id: string,
+  destination: { type: 'ACCOUNT' | 'PAYID' | 'CARD'; value: string },
+): EnvelopeDraft[] {
+  return [
+    {
+      event_type: 'PaymentInitiated',
+      payload: {
+        payment_id: event.paymentIntentId,
+        rail,
+        amount: toMajorUnits(event.amount),
+        currency: event.currency,
+        source_account_id,
+        destination,
+      },
+    },
+  ];
+}
+
+export const NPP_ENVELOPE_MAPPERS: EnvelopeMappers<'NPP'> = {
+  PaymentIntentCreated: (event, context) =>
+    initiated(
+      'NPP',
+      event,
+      event.fromAccountId,
+      context.destination ??
+        (event.payId !== undefined
+          ? { type: 'PAYID', value: event.payId }
+          : { type: 'ACCOUNT', value: event.toAccountId }),
+    ),
+  PayeeConfirmed: NO_ENVELOPE,
+  PaymentAuthorised: NO_ENVELOPE,
+  PaymentAttemptCreated: (event) => [
+    {
+      event_type: 'PaymentAttemptCreated',
+      payload: { payment_id: event.paymentIntentId, attempt_id: event.attemptId, rail: 'NPP' },
+    },
+  ],
+  PaymentSentToRail: (event) => [
+    {
+      event_type: 'PaymentSent',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: event.attemptId,
+        external_ref: event.externalRef ?? event.attemptId,
+      },
+    },
+  ],
+  PaymentAcknowledged: (event) => [
+    {
+      event_type: 'PaymentAcknowledged',
+      payload: { payment_id: event.paymentIntentId, attempt_id: event.attemptId },
+    },
+  ],
+  PaymentSettled: (event, context) => {
+    const payment = requirePayment('NPP', event.type, context);
+    return [
+      {
+        event_type: 'PaymentSettled',
+        payload: {
+          payment_id: event.paymentIntentId,
+          attempt_id: event.attemptId,
+          external_ref: event.settlementRef,
+          settled_at: event.occurredAt.toISOString(),
+          ledger_posting: posting(payment.fromAccountId, payment.toAccountId, event.fundsMoved),
+        },
+      },
+    ];
+  },
+  PaymentReturned: (event, context) => {
+    const payment = requirePayment('NPP', event.type, context);
+    return [
+      {
+        event_type: 'PaymentReversed',
+        payload: {
+          payment_id: event.paymentIntentId,
+          original_settlement_event_id: requireSettlementEventId('NPP', event.type, context),
+          reversed_at: event.occurredAt.toISOString(),
+          ledger_posting: posting(payment.toAccountId, payment.fromAccountId, event.fundsReturned),
+        },
+      },
+    ];
+  },
+  PaymentFailed: (event) => [
+    {
+      event_type: 'PaymentFailed',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: event.attemptId ?? null,
+        failure_code: event.reason,
+        failure_reason: event.errorMessage ?? event.reason,
+      },
+    },
+  ],
+  PaymentExpired: (event) => [
+    {
+      event_type: 'PaymentExpired',
+      payload: { payment_id: event.paymentIntentId, expired_at: event.occurredAt.toISOString() },
+    },
+  ],
+  OpsOverrideApplied: (event, context) => {
+    const payment = requirePayment('NPP', event.type, context);
+
+    switch (event.toState) {
+      case NPPPaymentState.FAILED:
+        return [
+          {
+            event_type: 'PaymentFailed',
+            payload: {
+              payment_id: event.paymentIntentId,
+              attempt_id: payment.currentAttemptId ?? null,
+              failure_code: event.action === 'CANCEL' ? 'CANCELLED' : `OPS_${event.action}`,
+              failure_reason: event.reason,
+            },
+          },
+        ];
+
+      case NPPPaymentState.EXPIRED:
+        return [
+          {
+            event_type: 'PaymentExpired',
+            payload: { payment_id: event.paymentIntentId, expired_at: event.occurredAt.toISOString() },
+          },
+        ];
+
+      case NPPPaymentState.SETTLED: {
+        // Override settles whatever is still outstanding
+        const outstanding = payment.fundsEarmarked - payment.fundsMoved - payment.fundsReleased;
+        return [
+          {
+            event_type: 'PaymentSettled',
+            payload: {
+              payment_id: event.paymentIntentId,
+              attempt_id: payment.currentAttemptId ?? event.paymentIntentId,
+              external_ref: `ops:${event.operatorId}`,
+              settled_at: event.occurredAt.toISOString(),
+              ledger_posting: posting(payment.fromAccountId, payment.toAccountId, outstanding),
+            },
+          },
+        ];
+      }
+
+      default:
+        // RETRY and intermediate overrides have no outward effect
+        return [];
+    }
+  },
+};
+
+export const BECS_ENVELOPE_MAPPERS: EnvelopeMappers<'BECS'> = {
+  PaymentIntentCreated: (event, context) =>
+    initiated(
+      'BECS',
+      event,
+      event.fromAccountId,
+      context.destination ?? { type: 'ACCOUNT', value: event.toAccountId },
+    ),
+  PaymentAuthorised: NO_ENVELOPE,
+  PaymentBatched: NO_ENVELOPE,
+  BatchSubmitted: (event) => [
+    {
+      event_type: 'PaymentSent',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: event.batchId,
+        external_ref: event.fileReference,
+      },
+    },
+  ],
+  PaymentCleared: NO_ENVELOPE,
+  PaymentSettled: (event, context) => {
+    const payment = requirePayment('BECS', event.type, context);
+    return [
+      {
+        event_type: 'PaymentSettled',
+        payload: {
+          payment_id: event.paymentIntentId,
+          attempt_id: event.batchId,
+          external_ref: event.settlementRef,
+          settled_at: event.occurredAt.toISOString(),
+          ledger_posting: posting(payment.fromAccountId, payment.toAccountId, event.fundsTransferred),
+        },
+      },
+    ];
+  },
+  PaymentReturned: (event, context) => {
+    const payment = requirePayment('BECS', event.type, context);
+
+    // Dishonoured before settlement: nothing was posted, so nothing to reverse
+    if (payment.state !== BECSPaymentState.SETTLED) {
+      return [
+        {
+          event_type: 'PaymentFailed',
+          payload: {
+            payment_id: event.paymentIntentId,
+            attempt_id: event.batchId,
+            failure_code: `RETURN_${event.returnCode}`,
+            failure_reason: event.returnReason,
+          },
+        },
+      ];
+    }
+
+    return [
+      {
+        event_type: 'PaymentReversed',
+        payload: {
+          payment_id: event.paymentIntentId,
+          original_settlement_event_id: requireSettlementEventId('BECS', event.type, context),
+          reversed_at: event.occurredAt.toISOString(),
+          ledger_posting: posting(payment.toAccountId, payment.fromAccountId, event.fundsReversed),
+        },
+      },
+    ];
+  },
+  PaymentFailed: (event) => [
+    {
+      event_type: 'PaymentFailed',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: event.batchId ?? null,
+        failure_code: event.reason,
+        failure_reason: event.reason,
+      },
+    },
+  ],
+  PaymentExpired: (event) => [
+    {
+      event_type: 'PaymentExpired',
+      payload: { payment_id: event.paymentIntentId, expired_at: event.occurredAt.toISOString() },
+    },
+  ],
+  OpsOverrideApplied: NO_ENVELOPE,
+};
+
+export const RTGS_ENVELOPE_MAPPERS: EnvelopeMappers<'RTGS'> = {
+  PaymentIntentCreated: (event, context) =>
+    initiated(
+      'RTGS',
+      event,
+      event.fromAccountId,
+      context.destination ?? { type: 'ACCOUNT', value: event.toAccountId },
+    ),
+  ApprovalRequested: NO_ENVELOPE,
+  ApprovalGranted: NO_ENVELOPE,
+  DualControlVerified: NO_ENVELOPE,
+  // The payment goes back for re-approval; only a terminal expiry (PaymentFailed) is emitted
+  ApprovalExpired: NO_ENVELOPE,
+  ApprovalRejected: (event) => [
+    {
+      event_type: 'PaymentFailed',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: null,
+        failure_code: 'APPROVAL_REJECTED',
+        failure_reason: event.rejectionReason,
+      },
+    },
+  ],
+  PaymentAuthorised: NO_ENVELOPE,
+  PaymentQueued: NO_ENVELOPE,
+  PaymentQueuePriorityChanged: NO_ENVELOPE,
+  PaymentUnqueued: NO_ENVELOPE,
+  // RTGS has exactly one attempt per payment: the payment ID doubles as attempt ID
+  PaymentSent: (event) => [
+    {
+      event_type: 'PaymentSent',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: event.paymentIntentId,
+        external_ref: event.railTransactionId,
+      },
+    },
+  ],
+  PaymentSettled: (event, context) => {
+    const payment = requirePayment('RTGS', event.type, context);
+    return [
+      {
+        event_type: 'PaymentSettled',
+        payload: {
+          payment_id: event.paymentIntentId,
+          attempt_id: event.paymentIntentId,
+          external_ref: event.railConfirmationId,
+          settled_at: event.settledAt.toISOString(),
+          ledger_posting: posting(payment.fromAccountId, payment.toAccountId, event.fundsTransferred),
+        },
+      },
+    ];
+  },
+  PaymentFailed: (event) => [
+    {
+      event_type: 'PaymentFailed',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: null,
+        failure_code: event.reason,
+        failure_reason: event.failureMessage,
+      },
+    },
+  ],
+};
+
+export const CARDS_ENVELOPE_MAPPERS: EnvelopeMappers<'CARDS'> = {
+  PaymentIntentCreated: (event, context) =>
+    initiated(
+      'CARDS',
+      event,
+      event.merchantId,
+      context.destination ?? { type: 'CARD', value: event.cardToken },
+    ),
+  PaymentAuthorised: (event) => [
+    {
+      event_type: 'CardAuthorised',
+      payload: {
+        payment_id: event.paymentIntentId,
+        auth_code: event.authCode,
+        amount: toMajorUnits(event.authorisedAmount),
+        expires_at: event.expiresAt.toISOString(),
+      },
+    },
+  ],
+  PaymentCaptured: (event) => [
+    {
+      event_type: 'CardCaptured',
+      payload: { payment_id: event.paymentIntentId, capture_amount: toMajorUnits(event.captureAmount) },
+    },
+  ],
+  PaymentCleared: NO_ENVELOPE,
+  // Card funds move from the cardholder's card to the merchant
+  PaymentSettled: (event, context) => {
+    const payment = requirePayment('CARDS', event.type, context);
+    return [
+      {
+        event_type: 'PaymentSettled',
+        payload: {
+          payment_id: event.paymentIntentId,
+          attempt_id: payment.authCode ?? event.paymentIntentId,
+          external_ref: payment.authCode ?? event.paymentIntentId,
+          settled_at: event.settledAt.toISOString(),
+          ledger_posting: posting(payment.cardToken, payment.merchantId, event.fundsTransferred),
+        },
+      },
+    ];
+  },
+  PaymentChargeback: (event, context) => {
+    const payment = requirePayment('CARDS', event.type, context);
+    return [
+      {
+        event_type: 'CardChargebackReceived',
+        payload: {
+          payment_id: event.paymentIntentId,
+          reason_code: event.chargebackReason,
+          received_at: event.receivedAt.toISOString(),
+        },
+      },
+      {
+        event_type: 'PaymentReversed',
+        payload: {
+          payment_id: event.paymentIntentId,
+          original_settlement_event_id: requireSettlementEventId('CARDS', event.type, context),
+          reversed_at: event.receivedAt.toISOString(),
+          ledger_posting: posting(payment.merchantId, payment.cardToken, event.fundsReversed),
+        },
+      },
+    ];
+  },
+  // Representment is a dispute filing; the ledger moves only on its outcome
+  PaymentRepresented: NO_ENVELOPE,
+  PaymentDeclined: (event) => [
+    {
+      event_type: 'PaymentFailed',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: null,
+        failure_code: event.declineReason,
+        failure_reason: `Card declined: ${event.declineReason}`,
+      },
+    },
+  ],
+  PaymentExpired: (event) => [
+    {
+      event_type: 'PaymentExpired',
+      payload: { payment_id: event.paymentIntentId, expired_at: event.expiredAt.toISOString() },
+    },
+  ],
+  // Loss already reached the ledger through the chargeback reversal
+  PaymentWrittenOff: NO_ENVELOPE,
+  PaymentFailed: (event) => [
+    {
+      event_type: 'PaymentFailed',
+      payload: {
+        payment_id: event.paymentIntentId,
+        attempt_id: null,
+        failure_code: 'FAILED',
+        failure_reason: event.failureReason,
+      },
+    },
+  ],
+};
+
+export type RailEnvelopeMappers = { [R in Rail]: EnvelopeMappers<R> };
+
+/**
+ * Default mapper registry
+ */
+export const ENVELOPE_MAPPERS: RailEnvelopeMappers = {
+  NPP: NPP_ENVELOPE_MAPPERS,
+  BECS: BECS_ENVELOPE_MAPPERS,
+  RTGS: RTGS_ENVELOPE_MAPPERS,
+  CARDS: CARDS_ENVELOPE_MAPPERS,
+};
+
+/**
+ * Map one domain event to its envelopes (zero, one or more).
+ *
+ * @param rail - Rail the event belongs to
+ * @param event - Domain event
+ * @param context - Aggregate before the event, tracing IDs and reversal context
+ * @returns Schema-valid envelopes
+ * @throws EnvelopeMappingError if required context is missing
+ */
+export function mapDomainEvent<R extends Rail>(
+  rail: R,
+  event: RailEventMap[R],
+  context: EnvelopeContext<R>,
+): EventEnvelope[] {
+  const mappers = ENVELOPE_MAPPERS[rail] as Record<string, EnvelopeMapper<R, RailEventMap[R]>>;
+  const drafts = mappers[event.type](event, context);
+
+  return drafts.map((draft) => {
+    const envelope = createEnvelope({
+      event_type: draft.event_type,
+      entity_id: draft.payload.payment_id,
+      occurred_at: event.occurredAt,
+      payload: draft.payload,
+      correlation_id: context.correlation_id,
+      causation_id: context.causation_id,
+    });
+    validateEvent(envelope);
+    return envelope;
+  });
+}
+
+/**
+ * Map a payment's full event stream, replaying the aggregate as it goes.
+ *
+ * The aggregate before each event and the settlement envelope's event_id
+ * are threaded through automatically, so reversals link to the settlement
+ * envelope produced earlier in the same stream.
+ *
+ * @param rail - Rail the stream belongs to
+ * @param events - Domain events in stream order
+ * @param tracing - Correlation (and optional causation) ID for every envelope
+ * @param rails - Facade used to replay the aggregate (RTGS approvals need one built with the approver registry)
+ * @returns Schema-valid envelopes in stream order
+ */
+export function mapEventStream<R extends Rail>(
+  rail: R,
+  events: RailEventMap[R][],
+  tracing: EnvelopeTracing,
+  rails: PaymentsRails = new PaymentsRails(),
+): EventEnvelope[] {
+  const envelopes: EventEnvelope[] = [];
+  let payment: RailPaymentMap[R] | null = null;
+  let settlement_event_id: string | undefined;
+
+  for (const event of events) {
+    const mapped = mapDomainEvent(rail, event, { ...tracing, payment, settlement_event_id });
+    settlement_event_id =
+      mapped.find((envelope) => envelope.event_type === 'PaymentSettled')?.event_id ??
+      settlement_event_id;
+    envelopes.push(...mapped);
+
+    payment = payment === null ? rails.rebuild(rail, [event]) : rails.apply(rail, payment, event);
+  }
+
+  return envelopes;
+}
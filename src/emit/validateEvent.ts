@@ -7,16 +7,22 @@
  * This turns schemas into hard law, not documentation.
  */
 
-import Ajv from "ajv";
+import Ajv2020 from "ajv/dist/2020";
 import addFormats from "ajv-formats";
 import fs from "fs";
 import path from "path";
+import { fileURLToPath } from "url";
 
-const ajv = new Ajv({ allErrors: true, strict: true });
+// Schemas declare draft 2020-12; payload fragments inside allOf
+// omit "type": "object", so strictTypes stays off.
+const ajv = new Ajv2020({ allErrors: true, strict: true, strictTypes: false });
 addFormats(ajv);
 
 // Load all schemas from schemas directory
-const schemaDir = path.resolve(__dirname, "../../schemas");
+const schemaDir = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../schemas"
+);
 
 // Register all schemas with AJV
 const schemaFiles = fs.readdirSync(schemaDir).filter(f => f.endsWith('.json'));
@@ -0,0 +1,8 @@
+/**
+ * Evidence Packs - Public API
+ *
+ * Canonical JSON audit records per payment, with a SHA-256 replay proof
+ * that can be re-verified from the pack alone.
+ */
+
+export * from './EvidencePack';
@@ -19,6 +19,36 @@ export * from './domain/rtgs/index.js';
 // Cards (Authorisation, Capture, Clearing, Settlement, Chargebacks)
 export * from './domain/cards/index.js';
 
+// Canonical serialization and versioned state hashing (shared by every rail)
+export * from './domain/shared/index.js';
+
+// Rail-agnostic facade (NPP | BECS | RTGS | CARDS)
+export * from './rails/index.js';
+
+// Event Store (append-only streams with optimistic concurrency)
+export * from './store/index.js';
+
+// Transactional outbox (envelopes committed with events, relayed to the publisher)
+export * from './outbox/index.js';
+
+// Schedulers (RTGS approval expiry)
+export * from './scheduler/index.js';
+
+// Business calendar (public holidays, cut-offs, RITS sessions)
+export * from './calendar/index.js';
+
+// BSB directory (offline BSB file, destination validation)
+export * from './bsb/index.js';
+
+// PayID resolution and Confirmation of Payee (NPP)
+export * from './payid/index.js';
+
+// ISO 20022 messages (pacs.008 / pacs.009 / pacs.002 / pacs.004, offline schema validation)
+export * from './iso20022/index.js';
+
+// Evidence packs (canonical JSON with SHA-256 replay proof)
+export * from './evidence/index.js';
+
 /**
  * Version information
  */
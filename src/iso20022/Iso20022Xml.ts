@@ -0,0 +1,516 @@
+/**
+ * ISO 20022 XML layer.
+ *
+ * Just enough XML for ISO 20022 payment messages, with no dependencies:
+ * - XmlElement: element tree (local names, attributes, text)
+ * - serializeXml / parseXml: UTF-8 documents without DTDs, processing
+ *   instructions or mixed content (a DOCTYPE is refused outright, so
+ *   there is no entity expansion to abuse)
+ * - validateXml: XSD-style checks against a message schema - element
+ *   order, minOccurs/maxOccurs, required attributes and simple types
+ *   (length, pattern, enumeration) - done offline
+ *
+ * Namespace prefixes are dropped on parse; the document namespace is
+ * checked by validateXml against the schema's message definition.
+ *
+ * Usage:
+ * ```typescript
+ * const xml = serializeXml(element('Document', [...], { xmlns: PACS_009_NAMESPACE }));
+ * const issues = validateXml(parseXml(xml), PACS_009_SCHEMA);
+ * ```
+ */
+
+export interface XmlElement {
+  /** Local name (prefix dropped) */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Text content of a leaf element */
+  text?: string;
+}
+
+/**
+ * XSD simple type: the content rules for a leaf element or attribute
+ */
+export interface XmlSimpleType {
+  name: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  enumeration?: readonly string[];
+}
+
+/**
+ * XSD element declaration, children in sequence order
+ */
+export interface XmlSchemaElement {
+  name: string;
+  /** Default 1 */
+  minOccurs?: number;
+  /** Default 1 */
+  maxOccurs?: number;
+  /** Leaf content type (absent for complex elements) */
+  type?: XmlSimpleType;
+  children?: XmlSchemaElement[];
+  attributes?: { name: string; type: XmlSimpleType; required?: boolean }[];
+}
+
+/**
+ * A message schema: root element and document namespace
+ */
+export interface XmlMessageSchema {
+  /** Message definition, e.g. pacs.009.001.08 */
+  messageDefinition: string;
+  namespace: string;
+  root: XmlSchemaElement;
+}
+
+export interface XmlValidationIssue {
+  /** Slash-separated element path, e.g. Document/FICdtTrf/GrpHdr/MsgId */
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a message is not well-formed XML, fails schema
+ * validation, or cannot be built from the payment
+ */
+export class Iso20022Error extends Error {
+  constructor(
+    message: string,
+    readonly issues: XmlValidationIssue[] = [],
+  ) {
+    super(`ISO20022_ERROR: ${message}`);
+    this.name = 'Iso20022Error';
+  }
+}
+
+/**
+ * One line per issue, for error messages
+ */
+export function formatIssues(issues: XmlValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Build an element; a string body becomes text content
+ */
+export function element(
+  name: string,
+  body: XmlElement[] | string,
+  attributes: Record<string, string> = {},
+): XmlElement {
+  return typeof body === 'string'
+    ? { name, attributes, children: [], text: body }
+    : { name, attributes, children: body };
+}
+
+/**
+ * First child with the given name
+ */
+export function childElement(parent: XmlElement | undefined, name: string): XmlElement | undefined {
+  return parent?.children.find((child) => child.name === name);
+}
+
+/**
+ * Text at a path of child names below an element
+ */
+export function textAt(parent: XmlElement | undefined, ...path: string[]): string | undefined {
+  let current = parent;
+  for (const name of path) {
+    current = childElement(current, name);
+  }
+  return current?.text;
+}
+
+/**
+ * Serialize an element tree as an indented UTF-8 document
+ */
+export function serializeXml(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeElement(root, '')}\n`;
+}
+
+function serializeElement(node: XmlElement, indent: string): string {
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+  if (node.children.length === 0) {
+    return `${indent}<${node.name}${attributes}>${escapeXml(node.text ?? '')}</${node.name}>`;
+  }
+  const children = node.children.map((child) => serializeElement(child, `${indent}  `)).join('\n');
+  return `${indent}<${node.name}${attributes}>\n${children}\n${indent}</${node.name}>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const NAME = /[A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?/y;
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Parse a document into an element tree
+ *
+ * @throws Iso20022Error if the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+  const parser = new XmlParser(xml);
+  return parser.parseDocument();
+}
+
+class XmlParser {
+  private pos = 0;
+
+  constructor(private readonly xml: string) {}
+
+  parseDocument(): XmlElement {
+    this.skipProlog();
+    const root = this.parseElement();
+    this.skipMisc();
+    if (this.pos < this.xml.length) {
+      this.fail('content after the root element');
+    }
+    return root;
+  }
+
+  private skipProlog(): void {
+    if (this.xml.charCodeAt(0) === 0xfeff) {
+      this.pos = 1;
+    }
+    if (this.xml.startsWith('<?xml', this.pos)) {
+      this.skipPast('?>');
+    }
+    this.skipMisc();
+    if (this.xml.startsWith('<!DOCTYPE', this.pos)) {
+      this.fail('DOCTYPE declarations are not accepted');
+    }
+  }
+
+  private skipMisc(): void {
+    for (;;) {
+      this.skipWhitespace();
+      if (this.xml.startsWith('<!--', this.pos)) {
+        this.skipPast('-->');
+      } else {
+        return;
+      }
+    }
+  }
+
+  private parseElement(): XmlElement {
+    this.expect('<');
+    const name = this.readName();
+    const attributes: Record<string, string> = {};
+
+    for (;;) {
+      const hadSpace = this.skipWhitespace();
+      if (this.xml.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        return { name: localName(name), attributes, children: [] };
+      }
+      if (this.xml[this.pos] === '>') {
+        this.pos++;
+        break;
+      }
+      if (!hadSpace) {
+        this.fail(`malformed start tag <${name}>`);
+      }
+      const attribute = this.readName();
+      this.skipWhitespace();
+      this.expect('=');
+      this.skipWhitespace();
+      if (attributes[attribute] !== undefined) {
+        this.fail(`duplicate attribute ${attribute} on <${name}>`);
+      }
+      attributes[attribute] = this.readQuoted();
+    }
+
+    const children: XmlElement[] = [];
+    let text = '';
+    for (;;) {
+      if (this.pos >= this.xml.length) {
+        this.fail(`<${name}> is not closed`);
+      }
+      if (this.xml.startsWith('</', this.pos)) {
+        this.pos += 2;
+        const closing = this.readName();
+        if (closing !== name) {
+          this.fail(`</${closing}> closes <${name}>`);
+        }
+        this.skipWhitespace();
+        this.expect('>');
+        break;
+      }
+      if (this.xml.startsWith('<!--', this.pos)) {
+        this.skipPast('-->');
+      } else if (this.xml.startsWith('<![CDATA[', this.pos)) {
+        const end = this.indexOf(']]>');
+        text += this.xml.slice(this.pos + 9, end);
+        this.pos = end + 3;
+      } else if (this.xml[this.pos] === '<') {
+        children.push(this.parseElement());
+      } else {
+        const end = this.xml.indexOf('<', this.pos);
+        text += decodeEntities(this.xml.slice(this.pos, end === -1 ? undefined : end), (detail) => this.fail(detail));
+        this.pos = end === -1 ? this.xml.length : end;
+      }
+    }
+
+    if (children.length > 0) {
+      if (text.trim() !== '') {
+        this.fail(`<${name}> mixes text and elements`);
+      }
+      return { name: localName(name), attributes, children };
+    }
+    return { name: localName(name), attributes, children, text };
+  }
+
+  private readName(): string {
+    NAME.lastIndex = this.pos;
+    const match = NAME.exec(this.xml);
+    if (!match) {
+      this.fail('expected a name');
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private readQuoted(): string {
+    const quote = this.xml[this.pos];
+    if (quote !== '"' && quote !== "'") {
+      this.fail('expected a quoted attribute value');
+    }
+    const end = this.xml.indexOf(quote, this.pos + 1);
+    if (end === -1) {
+      this.fail('unterminated attribute value');
+    }
+    const raw = this.xml.slice(this.pos + 1, end);
+    if (raw.includes('<')) {
+      this.fail('< in attribute value');
+    }
+    this.pos = end + 1;
+    return decodeEntities(raw, (detail) => this.fail(detail));
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.pos;
+    while (this.pos < this.xml.length && /\s/.test(this.xml[this.pos])) {
+      this.pos++;
+    }
+    return this.pos > start;
+  }
+
+  private skipPast(terminator: string): void {
+    this.pos = this.indexOf(terminator) + terminator.length;
+  }
+
+  private indexOf(terminator: string): number {
+    const end = this.xml.indexOf(terminator, this.pos);
+    if (end === -1) {
+      this.fail(`missing ${terminator}`);
+    }
+    return end;
+  }
+
+  private expect(token: string): void {
+    if (!this.xml.startsWith(token, this.pos)) {
+      this.fail(`expected ${token}`);
+    }
+    this.pos += token.length;
+  }
+
+  private fail(detail: string): never {
+    const line = this.xml.slice(0, this.pos).split('\n').length;
+    throw new Iso20022Error(`Malformed XML at line ${line}: ${detail}`);
+  }
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function decodeEntities(raw: string, fail: (detail: string) => never): string {
+  return raw.replace(/&([^;&\s]*);?/g, (match, entity: string) => {
+    if (!match.endsWith(';')) {
+      return fail(`unescaped & in "${raw}"`);
+    }
+    if (entity.startsWith('#')) {
+      const codePoint = /^#x[0-9a-fA-F]+$/.test(entity)
+        ? parseInt(entity.slice(2), 16)
+        : /^#[0-9]+$/.test(entity)
+          ? parseInt(entity.slice(1), 10)
+          : NaN;
+      if (!isXmlChar(codePoint)) {
+        return fail(`character reference &${entity}; is not a legal XML character`);
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    return ENTITIES[entity] ?? fail(`unknown entity &${entity};`);
+  });
+}
+
+/**
+ * XML 1.0 Char production: tab, newline, carriage return and every code
+ * point except other controls, surrogates, U+FFFE and U+FFFF
+ */
+function isXmlChar(codePoint: number): boolean {
+  return (
+    codePoint === 0x9 ||
+    codePoint === 0xa ||
+    codePoint === 0xd ||
+    (codePoint >= 0x20 && codePoint <= 0xd7ff) ||
+    (codePoint >= 0xe000 && codePoint <= 0xfffd) ||
+    (codePoint >= 0x10000 && codePoint <= 0x10ffff)
+  );
+}
+
+/**
+ * Check a parsed document against a message schema
+ *
+ * @returns Every issue found, in document order (empty when valid)
+ */
+export function validateXml(root: XmlElement, schema: XmlMessageSchema): XmlValidationIssue[] {
+  const issues: XmlValidationIssue[] = [];
+  if (root.name !== schema.root.name) {
+    return [{ path: root.name, message: `Root element must be ${schema.root.name}` }];
+  }
+  if (root.attributes.xmlns !== schema.namespace) {
+    issues.push({
+      path: root.name,
+      message: `Namespace ${root.attributes.xmlns ?? '(none)'} is not ${schema.namespace}`,
+    });
+  }
+  validateElement(root, schema.root, root.name, issues);
+  return issues;
+}
+
+function validateElement(
+  node: XmlElement,
+  declaration: XmlSchemaElement,
+  path: string,
+  issues: XmlValidationIssue[],
+): void {
+  for (const attribute of declaration.attributes ?? []) {
+    const value = node.attributes[attribute.name];
+    if (value === undefined) {
+      if (attribute.required) {
+        issues.push({ path, message: `Missing attribute ${attribute.name}` });
+      }
+    } else {
+      checkSimpleType(value, attribute.type, `${path}@${attribute.name}`, issues);
+    }
+  }
+
+  if (declaration.type) {
+    if (node.children.length > 0) {
+      issues.push({ path, message: `${declaration.type.name} element cannot have child elements` });
+    } else {
+      checkSimpleType(node.text ?? '', declaration.type, path, issues);
+    }
+    return;
+  }
+
+  // Sequence: each declared child in order, within its occurrence bounds
+  let index = 0;
+  for (const child of declaration.children ?? []) {
+    const minOccurs = child.minOccurs ?? 1;
+    const maxOccurs = child.maxOccurs ?? 1;
+    let count = 0;
+    while (index < node.children.length && node.children[index].name === child.name) {
+      if (count < maxOccurs) {
+        validateElement(node.children[index], child, `${path}/${child.name}`, issues);
+      }
+      count++;
+      index++;
+    }
+    if (count < minOccurs) {
+      issues.push({ path: `${path}/${child.name}`, message: `Expected at least ${minOccurs}, found ${count}` });
+    } else if (count > maxOccurs) {
+      issues.push({ path: `${path}/${child.name}`, message: `Expected at most ${maxOccurs}, found ${count}` });
+    }
+  }
+  for (const unexpected of node.children.slice(index)) {
+    issues.push({ path: `${path}/${unexpected.name}`, message: 'Unexpected element' });
+  }
+}
+
+function checkSimpleType(value: string, type: XmlSimpleType, path: string, issues: XmlValidationIssue[]): void {
+  const length = [...value].length;
+  if (type.minLength !== undefined && length < type.minLength) {
+    issues.push({ path, message: `${type.name} must be at least ${type.minLength} characters` });
+  } else if (type.maxLength !== undefined && length > type.maxLength) {
+    issues.push({ path, message: `${type.name} must be at most ${type.maxLength} characters` });
+  }
+  if (type.pattern && !type.pattern.test(value)) {
+    issues.push({ path, message: `"${value}" is not a valid ${type.name}` });
+  }
+  if (type.enumeration && !type.enumeration.includes(value)) {
+    issues.push({ path, message: `"${value}" is not one of ${type.enumeration.join(', ')}` });
+  }
+}
+
+/**
+ * ISO 20022 simple types used by the payment messages
+ */
+export const ISO20022_TYPES = {
+  Max34Text: { name: 'Max34Text', minLength: 1, maxLength: 34 },
+  Max35Text: { name: 'Max35Text', minLength: 1, maxLength: 35 },
+  Max105Text: { name: 'Max105Text', minLength: 1, maxLength: 105 },
+  Max140Text: { name: 'Max140Text', minLength: 1, maxLength: 140 },
+  Max15NumericText: { name: 'Max15NumericText', pattern: /^[0-9]{1,15}$/ },
+  Max4AlphaNumericText: { name: 'Max4AlphaNumericText', pattern: /^[a-zA-Z0-9]{1,4}$/ },
+  ISODate: { name: 'ISODate', pattern: /^\d{4}-\d{2}-\d{2}$/ },
+  ISODateTime: {
+    name: 'ISODateTime',
+    pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+  },
+  BICFIIdentifier: { name: 'BICFIIdentifier', pattern: /^[A-Z0-9]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/ },
+  UUIDv4Identifier: {
+    name: 'UUIDv4Identifier',
+    pattern: /^[a-f0-9]{8}-[a-f0-9]{4}-4[a-f0-9]{3}-[89ab][a-f0-9]{3}-[a-f0-9]{12}$/,
+  },
+  ActiveCurrencyCode: { name: 'ActiveCurrencyCode', pattern: /^[A-Z]{3}$/ },
+  ActiveCurrencyAndAmount: {
+    name: 'ActiveCurrencyAndAmount',
+    pattern: /^(?=(?:\D*\d){1,18}$)\d+(\.\d{1,5})?$/,
+  },
+  ExternalCode: { name: 'ExternalCode', minLength: 1, maxLength: 4 },
+  ExternalClearingSystemIdentification1Code: {
+    name: 'ExternalClearingSystemIdentification1Code',
+    minLength: 1,
+    maxLength: 5,
+  },
+} as const satisfies Record<string, XmlSimpleType>;
+
+/**
+ * Format cents as an ISO 20022 decimal amount (e.g. 150000000n → 1500000.00)
+ */
+export function formatIso20022Amount(cents: bigint): string {
+  if (cents < 0n) {
+    throw new Iso20022Error(`Amount ${cents} cannot be negative`);
+  }
+  return `${cents / 100n}.${(cents % 100n).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Parse an ISO 20022 decimal amount into cents
+ *
+ * @throws Iso20022Error if the amount has sub-cent precision
+ */
+export function parseIso20022Amount(amount: string): bigint {
+  const match = /^(\d+)(?:\.(\d{1,5}))?$/.exec(amount);
+  if (!match) {
+    throw new Iso20022Error(`"${amount}" is not an amount`);
+  }
+  const fraction = (match[2] ?? '').padEnd(5, '0');
+  if (fraction.slice(2) !== '000') {
+    throw new Iso20022Error(`Amount ${amount} has sub-cent precision`);
+  }
+  return BigInt(match[1]) * 100n + BigInt(fraction.slice(0, 2));
+}
@@ -0,0 +1,442 @@
+/**
+ * pacs.002 FI to FI payment status report (inbound).
+ *
+ * Parses a pacs.002.001.10 document, after XSD-style validation against
+ * PACS_002_SCHEMA, into one status per transaction. A transaction without
+ * its own TxSts takes the group status.
+ *
+ * pacs002ToRTGSEvents turns the statuses into RTGS events:
+ * - ACSC / ACCC (settled)  → PaymentSettled
+ * - RJCT                   → PaymentFailed (reason from the status reason code)
+ * - anything else          → pending, no event yet
+ *
+ * Transactions are matched by OrgnlUETR against PaymentSent.railTransactionId,
+ * then by OrgnlEndToEndId against the paymentIntentId.
+ *
+ * pacs002ToNPPEvents does the same for NPP, where a status report answers
+ * the scheme's acceptance (settlement is advised separately):
+ * - ACSP / ACSC / ACCP / ACCC / ACTC / ACWC → PaymentAcknowledged
+ * - RJCT                                   → PaymentFailed (RAIL, or POST_ACK)
+ * - anything else                          → pending, no event yet
+ *
+ * NPP transactions are matched by OrgnlTxId against
+ * PaymentSentToRail.externalRef, then by OrgnlEndToEndId.
+ *
+ * As with BECS return files, a status that cannot be turned into a valid
+ * event (unmatched, or refused by the aggregate) is reported as an
+ * exception rather than dropped.
+ *
+ * Usage:
+ * ```typescript
+ * const report = parsePacs002(xml);
+ * const { events, pending, exceptions } = pacs002ToRTGSEvents(report, sentPayments);
+ * ```
+ */
+
+import { RTGSPayment, applyRTGSEvent } from '../domain/rtgs/RTGSPayment';
+import { PaymentFailed, PaymentSettled } from '../domain/rtgs/RTGSPaymentEvent';
+import { RTGSFailureReason } from '../domain/rtgs/RTGSPaymentState';
+import { NPPPayment, applyEvent as applyNPPEvent } from '../domain/npp/NPPPayment';
+import {
+  PaymentAcknowledged,
+  PaymentFailed as NPPPaymentFailed,
+} from '../domain/npp/NPPPaymentEvent';
+import { NPPFailureReason, NPPPaymentState } from '../domain/npp/NPPPaymentState';
+import {
+  ISO20022_TYPES,
+  Iso20022Error,
+  XmlElement,
+  XmlMessageSchema,
+  childElement,
+  formatIssues,
+  parseXml,
+  textAt,
+  validateXml,
+} from './Iso20022Xml';
+
+export const PACS_002_MESSAGE_DEFINITION = 'pacs.002.001.10';
+export const PACS_002_NAMESPACE = `urn:iso:std:iso:20022:tech:xsd:${PACS_002_MESSAGE_DEFINITION}`;
+
+const T = ISO20022_TYPES;
+
+const PAYMENT_STATUS = {
+  name: 'ExternalPaymentTransactionStatus1Code',
+  enumeration: ['ACCC', 'ACCP', 'ACSC', 'ACSP', 'ACTC', 'ACWC', 'ACWP', 'BLCK', 'PDNG', 'RCVD', 'RJCT'],
+};
+
+/**
+ * The subset of pacs.002.001.10 this module reads
+ */
+export const PACS_002_SCHEMA: XmlMessageSchema = {
+  messageDefinition: PACS_002_MESSAGE_DEFINITION,
+  namespace: PACS_002_NAMESPACE,
+  root: {
+    name: 'Document',
+    children: [
+      {
+        name: 'FIToFIPmtStsRpt',
+        children: [
+          {
+            name: 'GrpHdr',
+            children: [
+              { name: 'MsgId', type: T.Max35Text },
+              { name: 'CreDtTm', type: T.ISODateTime },
+            ],
+          },
+          {
+            name: 'OrgnlGrpInfAndSts',
+            minOccurs: 0,
+            children: [
+              { name: 'OrgnlMsgId', type: T.Max35Text },
+              { name: 'OrgnlMsgNmId', type: T.Max35Text },
+              { name: 'OrgnlCreDtTm', minOccurs: 0, type: T.ISODateTime },
+              { name: 'GrpSts', minOccurs: 0, type: PAYMENT_STATUS },
+            ],
+          },
+          {
+            name: 'TxInfAndSts',
+            minOccurs: 0,
+            maxOccurs: Number.POSITIVE_INFINITY,
+            children: [
+              { name: 'StsId', minOccurs: 0, type: T.Max35Text },
+              { name: 'OrgnlInstrId', minOccurs: 0, type: T.Max35Text },
+              { name: 'OrgnlEndToEndId', minOccurs: 0, type: T.Max35Text },
+              { name: 'OrgnlTxId', minOccurs: 0, type: T.Max35Text },
+              { name: 'OrgnlUETR', minOccurs: 0, type: T.UUIDv4Identifier },
+              { name: 'TxSts', minOccurs: 0, type: PAYMENT_STATUS },
+              {
+                name: 'StsRsnInf',
+                minOccurs: 0,
+                maxOccurs: Number.POSITIVE_INFINITY,
+                children: [
+                  {
+                    name: 'Rsn',
+                    minOccurs: 0,
+                    children: [
+                      { name: 'Cd', minOccurs: 0, type: T.ExternalCode },
+                      { name: 'Prtry', minOccurs: 0, type: T.Max35Text },
+                    ],
+                  },
+                  { name: 'AddtlInf', minOccurs: 0, maxOccurs: Number.POSITIVE_INFINITY, type: T.Max105Text },
+                ],
+              },
+              { name: 'AccptncDtTm', minOccurs: 0, type: T.ISODateTime },
+              {
+                name: 'FctvIntrBkSttlmDt',
+                minOccurs: 0,
+                children: [
+                  { name: 'Dt', minOccurs: 0, type: T.ISODate },
+                  { name: 'DtTm', minOccurs: 0, type: T.ISODateTime },
+                ],
+              },
+              { name: 'AcctSvcrRef', minOccurs: 0, type: T.Max35Text },
+              { name: 'ClrSysRef', minOccurs: 0, type: T.Max35Text },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * Status of one original transaction
+ */
+export interface Pacs002TransactionStatus {
+  statusId?: string;
+  originalInstructionId?: string;
+  originalEndToEndId?: string;
+  originalTransactionId?: string;
+  originalUETR?: string;
+  /** ExternalPaymentTransactionStatus1Code, e.g. ACSC, RJCT */
+  status: string;
+  /** ExternalStatusReason1Code, e.g. AM04 */
+  reasonCode?: string;
+  additionalInformation?: string;
+  acceptedAt?: Date;
+  clearingSystemReference?: string;
+}
+
+export interface Pacs002StatusReport {
+  messageId: string;
+  createdAt: Date;
+  originalMessageId?: string;
+  /** Message definition of the original, e.g. pacs.009.001.08 */
+  originalMessageDefinition?: string;
+  groupStatus?: string;
+  transactions: Pacs002TransactionStatus[];
+}
+
+/**
+ * Parse and validate a pacs.002 status report
+ *
+ * @throws Iso20022Error if the document is malformed or fails schema validation
+ */
+export function parsePacs002(xml: string): Pacs002StatusReport {
+  const document = parseXml(xml);
+  const issues = validateXml(document, PACS_002_SCHEMA);
+  if (issues.length > 0) {
+    throw new Iso20022Error(`pacs.002 is invalid: ${formatIssues(issues)}`, issues);
+  }
+
+  const report = childElement(document, 'FIToFIPmtStsRpt');
+  const group = childElement(report, 'OrgnlGrpInfAndSts');
+  const groupStatus = textAt(group, 'GrpSts');
+  const messageId = textAt(report, 'GrpHdr', 'MsgId') as string;
+
+  const transactions = (report?.children ?? [])
+    .filter((child) => child.name === 'TxInfAndSts')
+    .map((transaction, index) => parseTransaction(transaction, groupStatus, `${messageId} transaction ${index + 1}`));
+
+  return {
+    messageId,
+    createdAt: new Date(textAt(report, 'GrpHdr', 'CreDtTm') as string),
+    originalMessageId: textAt(group, 'OrgnlMsgId'),
+    originalMessageDefinition: textAt(group, 'OrgnlMsgNmId'),
+    groupStatus,
+    transactions,
+  };
+}
+
+function parseTransaction(
+  transaction: XmlElement,
+  groupStatus: string | undefined,
+  label: string,
+): Pacs002TransactionStatus {
+  const status = textAt(transaction, 'TxSts') ?? groupStatus;
+  if (!status) {
+    throw new Iso20022Error(`pacs.002 ${label} has no TxSts and no GrpSts`);
+  }
+  if (!textAt(transaction, 'OrgnlUETR') && !textAt(transaction, 'OrgnlEndToEndId') && !textAt(transaction, 'OrgnlTxId')) {
+    throw new Iso20022Error(`pacs.002 ${label} has no OrgnlUETR, OrgnlEndToEndId or OrgnlTxId`);
+  }
+
+  const reason = childElement(transaction, 'StsRsnInf');
+  const acceptedAt = textAt(transaction, 'AccptncDtTm') ?? textAt(transaction, 'FctvIntrBkSttlmDt', 'DtTm');
+  const additionalInformation = reason?.children
+    .filter((child) => child.name === 'AddtlInf')
+    .map((child) => child.text)
+    .join(' ');
+
+  return {
+    statusId: textAt(transaction, 'StsId'),
+    originalInstructionId: textAt(transaction, 'OrgnlInstrId'),
+    originalEndToEndId: textAt(transaction, 'OrgnlEndToEndId'),
+    originalTransactionId: textAt(transaction, 'OrgnlTxId'),
+    originalUETR: textAt(transaction, 'OrgnlUETR'),
+    status,
+    reasonCode: textAt(reason, 'Rsn', 'Cd') ?? textAt(reason, 'Rsn', 'Prtry'),
+    additionalInformation: additionalInformation || undefined,
+    acceptedAt: acceptedAt ? new Date(acceptedAt) : undefined,
+    clearingSystemReference: textAt(transaction, 'ClrSysRef') ?? textAt(transaction, 'AcctSvcrRef'),
+  };
+}
+
+/** Statuses that mean the interbank settlement is final */
+export const PACS_002_SETTLED_STATUSES: readonly string[] = ['ACSC', 'ACCC'];
+
+/**
+ * ISO 20022 status reasons with a specific RTGS failure reason
+ *
+ * Anything not listed fails as RAIL.
+ */
+export const RTGS_STATUS_REASON_MAP: Readonly<Record<string, RTGSFailureReason>> = {
+  AM04: RTGSFailureReason.INSUFFICIENT_FUNDS, // InsufficientFunds
+  AC01: RTGSFailureReason.INVALID_ACCOUNT, // IncorrectAccountNumber
+  AC03: RTGSFailureReason.INVALID_ACCOUNT, // InvalidCreditorAccountNumber
+  AC04: RTGSFailureReason.INVALID_ACCOUNT, // ClosedAccountNumber
+  AC06: RTGSFailureReason.INVALID_ACCOUNT, // BlockedAccount
+  AB05: RTGSFailureReason.TIMEOUT, // TimeoutCreditorAgent
+  AB06: RTGSFailureReason.TIMEOUT, // TimeoutInstructedAgent
+};
+
+export type Pacs002ExceptionReason = 'UNMATCHED' | 'REJECTED';
+
+/**
+ * A status that could not be turned into an event
+ */
+export interface Pacs002Exception {
+  reason: Pacs002ExceptionReason;
+  message: string;
+  transaction: Pacs002TransactionStatus;
+}
+
+export interface RTGSStatusReportResult {
+  /** Validated events, in report order */
+  events: (PaymentSettled | PaymentFailed)[];
+  /** Accepted but not yet final (e.g. ACSP, PDNG) */
+  pending: Pacs002TransactionStatus[];
+  exceptions: Pacs002Exception[];
+}
+
+/**
+ * Turn a pacs.002 into PaymentSettled / PaymentFailed events for SENT RTGS payments
+ *
+ * Each event is applied to the payment it matches, so a second final
+ * status for the same payment is reported as REJECTED.
+ *
+ * @param payments - Current state of the payments the report can refer to
+ */
+export function pacs002ToRTGSEvents(report: Pacs002StatusReport, payments: RTGSPayment[]): RTGSStatusReportResult {
+  const current = new Map(payments.map((payment) => [payment.paymentIntentId, payment]));
+  const result: RTGSStatusReportResult = { events: [], pending: [], exceptions: [] };
+
+  for (const transaction of report.transactions) {
+    const payment = matchPayment([...current.values()], transaction);
+    if (!payment) {
+      result.exceptions.push({
+        reason: 'UNMATCHED',
+        message: `No RTGS payment for UETR ${transaction.originalUETR ?? '-'} / EndToEndId ${transaction.originalEndToEndId ?? '-'}`,
+        transaction,
+      });
+      continue;
+    }
+
+    let event: PaymentSettled | PaymentFailed;
+    if (PACS_002_SETTLED_STATUSES.includes(transaction.status)) {
+      const settledAt = transaction.acceptedAt ?? report.createdAt;
+      event = {
+        type: 'PaymentSettled',
+        paymentIntentId: payment.paymentIntentId,
+        occurredAt: settledAt,
+        settledAt,
+        railConfirmationId: transaction.clearingSystemReference ?? transaction.statusId ?? report.messageId,
+        fundsTransferred: payment.fundsDebited,
+      };
+    } else if (transaction.status === 'RJCT') {
+      const code = transaction.reasonCode ?? 'NARR';
+      event = {
+        type: 'PaymentFailed',
+        paymentIntentId: payment.paymentIntentId,
+        occurredAt: report.createdAt,
+        reason: RTGS_STATUS_REASON_MAP[code] ?? RTGSFailureReason.RAIL,
+        failureMessage: `pacs.002 RJCT ${code}${transaction.additionalInformation ? `: ${transaction.additionalInformation}` : ''}`,
+        // Funds were debited when sent; conservation holds with nothing further released
+        fundsReleased: 0n,
+      };
+    } else {
+      result.pending.push(transaction);
+      continue;
+    }
+
+    try {
+      current.set(payment.paymentIntentId, applyRTGSEvent(payment, event));
+      result.events.push(event);
+    } catch (error) {
+      result.exceptions.push({
+        reason: 'REJECTED',
+        message: `${payment.paymentIntentId}: ${(error as Error).message}`,
+        transaction,
+      });
+    }
+  }
+
+  return result;
+}
+
+function matchPayment(payments: RTGSPayment[], transaction: Pacs002TransactionStatus): RTGSPayment | undefined {
+  if (transaction.originalUETR) {
+    const byUETR = payments.find((payment) =>
+      payment.events.some(
+        (event) => event.type === 'PaymentSent' && event.railTransactionId === transaction.originalUETR,
+      ),
+    );
+    if (byUETR) {
+      return byUETR;
+    }
+  }
+  return payments.find((payment) => payment.paymentIntentId === transaction.originalEndToEndId);
+}
+
+/** Statuses that mean the NPP scheme accepted the payment */
+export const PACS_002_ACCEPTED_STATUSES: readonly string[] = ['ACSP', 'ACSC', 'ACCP', 'ACCC', 'ACTC', 'ACWC'];
+
+export interface NPPStatusReportResult {
+  /** Validated events, in report order */
+  events: (PaymentAcknowledged | NPPPaymentFailed)[];
+  /** Received but not yet accepted or rejected (e.g. PDNG, RCVD) */
+  pending: Pacs002TransactionStatus[];
+  exceptions: Pacs002Exception[];
+}
+
+/**
+ * Turn a pacs.002 into PaymentAcknowledged / PaymentFailed events for sent NPP payments
+ *
+ * Events are raised against the payment's current attempt and applied as
+ * they are built, so a status the aggregate refuses (e.g. a second ACK)
+ * is reported as REJECTED.
+ *
+ * @param payments - Current state of the payments the report can refer to
+ */
+export function pacs002ToNPPEvents(report: Pacs002StatusReport, payments: NPPPayment[]): NPPStatusReportResult {
+  const current = new Map(payments.map((payment) => [payment.paymentIntentId, payment]));
+  const result: NPPStatusReportResult = { events: [], pending: [], exceptions: [] };
+
+  for (const transaction of report.transactions) {
+    const payment = matchNPPPayment([...current.values()], transaction);
+    if (!payment || !payment.currentAttemptId) {
+      result.exceptions.push({
+        reason: 'UNMATCHED',
+        message: `No NPP payment for TxId ${transaction.originalTransactionId ?? '-'} / EndToEndId ${transaction.originalEndToEndId ?? '-'}`,
+        transaction,
+      });
+      continue;
+    }
+
+    let event: PaymentAcknowledged | NPPPaymentFailed;
+    if (PACS_002_ACCEPTED_STATUSES.includes(transaction.status)) {
+      event = {
+        type: 'PaymentAcknowledged',
+        paymentIntentId: payment.paymentIntentId,
+        occurredAt: transaction.acceptedAt ?? report.createdAt,
+        attemptId: payment.currentAttemptId,
+        schemeRef: transaction.clearingSystemReference ?? transaction.statusId ?? report.messageId,
+        fundsProvisional: payment.amount,
+      };
+    } else if (transaction.status === 'RJCT') {
+      const code = transaction.reasonCode ?? 'NARR';
+      event = {
+        type: 'PaymentFailed',
+        paymentIntentId: payment.paymentIntentId,
+        occurredAt: report.createdAt,
+        reason: payment.state === NPPPaymentState.ACKNOWLEDGED ? NPPFailureReason.POST_ACK : NPPFailureReason.RAIL,
+        attemptId: payment.currentAttemptId,
+        // Release whatever is still earmarked
+        fundsReleased: payment.fundsEarmarked - payment.fundsMoved - payment.fundsReleased,
+        errorMessage: `pacs.002 RJCT ${code}${transaction.additionalInformation ? `: ${transaction.additionalInformation}` : ''}`,
+      };
+    } else {
+      result.pending.push(transaction);
+      continue;
+    }
+
+    try {
+      current.set(payment.paymentIntentId, applyNPPEvent(payment, event));
+      result.events.push(event);
+    } catch (error) {
+      result.exceptions.push({
+        reason: 'REJECTED',
+        message: `${payment.paymentIntentId}: ${(error as Error).message}`,
+        transaction,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * NPP payment a scheme message refers to: by TxId (externalRef), then EndToEndId
+ */
+export function matchNPPPayment(
+  payments: NPPPayment[],
+  original: { originalTransactionId?: string; originalEndToEndId?: string },
+): NPPPayment | undefined {
+  if (original.originalTransactionId) {
+    const byTxId = payments.find((payment) => payment.externalRef === original.originalTransactionId);
+    if (byTxId) {
+      return byTxId;
+    }
+  }
+  return payments.find((payment) => payment.paymentIntentId === original.originalEndToEndId);
+}
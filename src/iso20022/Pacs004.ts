@@ -0,0 +1,260 @@
+/**
+ * pacs.004 payment return (NPP inbound).
+ *
+ * Parses a pacs.004.001.09 document, after XSD-style validation against
+ * PACS_004_SCHEMA, into one return per transaction, and turns each into a
+ * PaymentReturned on the settled NPP payment it sends funds back for.
+ *
+ * Returns are matched like status reports (see matchNPPPayment): by
+ * OrgnlTxId against PaymentSentToRail.externalRef, then by OrgnlEndToEndId.
+ * A return that cannot be booked - unmatched, in another currency, or
+ * refused by the aggregate (not settled, already returned, more than was
+ * moved) - is reported as an exception rather than dropped.
+ *
+ * Usage:
+ * ```typescript
+ * const returns = parsePacs004(xml);
+ * const { events, exceptions } = pacs004ToNPPEvents(returns, settledPayments);
+ * ```
+ */
+
+import { NPPPayment, applyEvent as applyNPPEvent } from '../domain/npp/NPPPayment';
+import { NPPPaymentReturned } from '../domain/npp/NPPPaymentEvent';
+import {
+  ISO20022_TYPES,
+  Iso20022Error,
+  XmlElement,
+  XmlMessageSchema,
+  XmlSchemaElement,
+  childElement,
+  formatIssues,
+  parseIso20022Amount,
+  parseXml,
+  textAt,
+  validateXml,
+} from './Iso20022Xml';
+import { matchNPPPayment } from './Pacs002';
+
+export const PACS_004_MESSAGE_DEFINITION = 'pacs.004.001.09';
+export const PACS_004_NAMESPACE = `urn:iso:std:iso:20022:tech:xsd:${PACS_004_MESSAGE_DEFINITION}`;
+
+const T = ISO20022_TYPES;
+
+const amount = (name: string, minOccurs = 1): XmlSchemaElement => ({
+  name,
+  minOccurs,
+  type: T.ActiveCurrencyAndAmount,
+  attributes: [{ name: 'Ccy', type: T.ActiveCurrencyCode, required: true }],
+});
+
+/**
+ * The subset of pacs.004.001.09 this module reads
+ */
+export const PACS_004_SCHEMA: XmlMessageSchema = {
+  messageDefinition: PACS_004_MESSAGE_DEFINITION,
+  namespace: PACS_004_NAMESPACE,
+  root: {
+    name: 'Document',
+    children: [
+      {
+        name: 'PmtRtr',
+        children: [
+          {
+            name: 'GrpHdr',
+            children: [
+              { name: 'MsgId', type: T.Max35Text },
+              { name: 'CreDtTm', type: T.ISODateTime },
+              { name: 'NbOfTxs', type: T.Max15NumericText },
+              {
+                name: 'SttlmInf',
+                children: [
+                  {
+                    name: 'SttlmMtd',
+                    type: { name: 'SettlementMethod1Code', enumeration: ['INDA', 'INGA', 'COVE', 'CLRG'] },
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            name: 'TxInf',
+            maxOccurs: Number.POSITIVE_INFINITY,
+            children: [
+              { name: 'RtrId', type: T.Max35Text },
+              {
+                name: 'OrgnlGrpInf',
+                minOccurs: 0,
+                children: [
+                  { name: 'OrgnlMsgId', type: T.Max35Text },
+                  { name: 'OrgnlMsgNmId', type: T.Max35Text },
+                ],
+              },
+              { name: 'OrgnlInstrId', minOccurs: 0, type: T.Max35Text },
+              { name: 'OrgnlEndToEndId', minOccurs: 0, type: T.Max35Text },
+              { name: 'OrgnlTxId', minOccurs: 0, type: T.Max35Text },
+              { name: 'OrgnlUETR', minOccurs: 0, type: T.UUIDv4Identifier },
+              { name: 'OrgnlClrSysRef', minOccurs: 0, type: T.Max35Text },
+              amount('OrgnlIntrBkSttlmAmt', 0),
+              { name: 'OrgnlIntrBkSttlmDt', minOccurs: 0, type: T.ISODate },
+              amount('RtrdIntrBkSttlmAmt'),
+              { name: 'IntrBkSttlmDt', minOccurs: 0, type: T.ISODate },
+              {
+                name: 'RtrRsnInf',
+                minOccurs: 0,
+                maxOccurs: Number.POSITIVE_INFINITY,
+                children: [
+                  {
+                    name: 'Rsn',
+                    minOccurs: 0,
+                    children: [
+                      { name: 'Cd', minOccurs: 0, type: T.ExternalCode },
+                      { name: 'Prtry', minOccurs: 0, type: T.Max35Text },
+                    ],
+                  },
+                  { name: 'AddtlInf', minOccurs: 0, maxOccurs: Number.POSITIVE_INFINITY, type: T.Max105Text },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * One returned transaction
+ */
+export interface Pacs004Return {
+  returnId: string;
+  originalEndToEndId?: string;
+  originalTransactionId?: string;
+  originalUETR?: string;
+  /** Cents */
+  returnedAmount: bigint;
+  currency: string;
+  /** ExternalReturnReason1Code, e.g. AC04 */
+  reasonCode?: string;
+  additionalInformation?: string;
+}
+
+export interface Pacs004PaymentReturn {
+  messageId: string;
+  createdAt: Date;
+  returns: Pacs004Return[];
+}
+
+/**
+ * Parse and validate a pacs.004 payment return
+ *
+ * @throws Iso20022Error if the document is malformed or fails schema validation
+ */
+export function parsePacs004(xml: string): Pacs004PaymentReturn {
+  const document = parseXml(xml);
+  const issues = validateXml(document, PACS_004_SCHEMA);
+  if (issues.length > 0) {
+    throw new Iso20022Error(`pacs.004 is invalid: ${formatIssues(issues)}`, issues);
+  }
+
+  const message = childElement(document, 'PmtRtr');
+  return {
+    messageId: textAt(message, 'GrpHdr', 'MsgId') as string,
+    createdAt: new Date(textAt(message, 'GrpHdr', 'CreDtTm') as string),
+    returns: (message?.children ?? []).filter((child) => child.name === 'TxInf').map(parseReturn),
+  };
+}
+
+function parseReturn(transaction: XmlElement): Pacs004Return {
+  const returnId = textAt(transaction, 'RtrId') as string;
+  if (!textAt(transaction, 'OrgnlTxId') && !textAt(transaction, 'OrgnlEndToEndId')) {
+    throw new Iso20022Error(`pacs.004 return ${returnId} has neither OrgnlTxId nor OrgnlEndToEndId`);
+  }
+
+  const returned = childElement(transaction, 'RtrdIntrBkSttlmAmt') as XmlElement;
+  const reason = childElement(transaction, 'RtrRsnInf');
+  const additionalInformation = reason?.children
+    .filter((child) => child.name === 'AddtlInf')
+    .map((child) => child.text)
+    .join(' ');
+
+  return {
+    returnId,
+    originalEndToEndId: textAt(transaction, 'OrgnlEndToEndId'),
+    originalTransactionId: textAt(transaction, 'OrgnlTxId'),
+    originalUETR: textAt(transaction, 'OrgnlUETR'),
+    returnedAmount: parseIso20022Amount(returned.text ?? ''),
+    currency: returned.attributes.Ccy,
+    reasonCode: textAt(reason, 'Rsn', 'Cd') ?? textAt(reason, 'Rsn', 'Prtry'),
+    additionalInformation: additionalInformation || undefined,
+  };
+}
+
+export type Pacs004ExceptionReason = 'UNMATCHED' | 'CURRENCY' | 'REJECTED';
+
+/**
+ * A return that could not be turned into a PaymentReturned
+ */
+export interface Pacs004Exception {
+  reason: Pacs004ExceptionReason;
+  message: string;
+  transaction: Pacs004Return;
+}
+
+export interface NPPPaymentReturnResult {
+  /** Validated events, in message order */
+  events: NPPPaymentReturned[];
+  exceptions: Pacs004Exception[];
+}
+
+/**
+ * Turn a pacs.004 into PaymentReturned events for settled NPP payments
+ *
+ * @param payments - Current state of the payments the returns can refer to
+ */
+export function pacs004ToNPPEvents(message: Pacs004PaymentReturn, payments: NPPPayment[]): NPPPaymentReturnResult {
+  const current = new Map(payments.map((payment) => [payment.paymentIntentId, payment]));
+  const result: NPPPaymentReturnResult = { events: [], exceptions: [] };
+
+  for (const transaction of message.returns) {
+    const payment = matchNPPPayment([...current.values()], transaction);
+    if (!payment) {
+      result.exceptions.push({
+        reason: 'UNMATCHED',
+        message: `No NPP payment for TxId ${transaction.originalTransactionId ?? '-'} / EndToEndId ${transaction.originalEndToEndId ?? '-'}`,
+        transaction,
+      });
+      continue;
+    }
+    if (transaction.currency !== payment.currency) {
+      result.exceptions.push({
+        reason: 'CURRENCY',
+        message: `Return ${transaction.returnId} is in ${transaction.currency}, ${payment.paymentIntentId} is in ${payment.currency}`,
+        transaction,
+      });
+      continue;
+    }
+
+    const event: NPPPaymentReturned = {
+      type: 'PaymentReturned',
+      paymentIntentId: payment.paymentIntentId,
+      occurredAt: message.createdAt,
+      returnId: transaction.returnId,
+      returnReasonCode: transaction.reasonCode ?? 'NARR',
+      returnReason: transaction.additionalInformation,
+      fundsReturned: transaction.returnedAmount,
+    };
+
+    try {
+      current.set(payment.paymentIntentId, applyNPPEvent(payment, event));
+      result.events.push(event);
+    } catch (error) {
+      result.exceptions.push({
+        reason: 'REJECTED',
+        message: `${payment.paymentIntentId}: ${(error as Error).message}`,
+        transaction,
+      });
+    }
+  }
+
+  return result;
+}
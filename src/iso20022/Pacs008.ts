@@ -0,0 +1,274 @@
+/**
+ * pacs.008 FI to FI customer credit transfer (NPP outbound).
+ *
+ * Builds a pacs.008.001.08 document for the current attempt of an
+ * authorised NPP payment, one transaction per message:
+ *
+ *   GrpHdr       MsgId, CreDtTm, NbOfTxs = 1, SttlmInf CLRG
+ *   CdtTrfTxInf  PmtId (EndToEndId, TxId), PmtTpInf/SvcLvl (Osko overlay),
+ *                IntrBkSttlmAmt, ChrgBr SLEV, Dbtr / DbtrAcct / DbtrAgt,
+ *                CdtrAgt / Cdtr / CdtrAcct, RmtInf/Ustrd (up to 280 chars)
+ *
+ * For a PayID payment CdtrAcct is the account confirmed in PayeeConfirmed.
+ *
+ * The TxId is what ties scheme messages back to the attempt: record it as
+ * PaymentSentToRail.externalRef so pacs.002 and pacs.004 can be matched
+ * (see pacs002ToNPPEvents, pacs004ToNPPEvents). Every built message is
+ * validated against PACS_008_SCHEMA before it is returned.
+ *
+ * Usage:
+ * ```typescript
+ * const message = buildPacs008(payment, {
+ *   messageId: 'TURIAU2S20241217000001',
+ *   createdAt: new Date(),
+ *   transactionId: 'TURIAU2SXXXI20241217000000001',
+ *   debtorName: 'Jane Citizen',
+ *   debtorAgentBIC: 'TURIAU2SXXX',
+ *   creditorName: 'Acme Pty Ltd',
+ *   creditorAgentBIC: 'CTBAAU2SXXX',
+ *   remittanceInformation: 'Invoice 1042',
+ * });
+ * ```
+ */
+
+import { NPPPayment } from '../domain/npp/NPPPayment';
+import { NPPPaymentState } from '../domain/npp/NPPPaymentState';
+import {
+  ISO20022_TYPES,
+  Iso20022Error,
+  XmlElement,
+  XmlMessageSchema,
+  XmlSchemaElement,
+  XmlValidationIssue,
+  element,
+  formatIso20022Amount,
+  formatIssues,
+  parseXml,
+  serializeXml,
+  validateXml,
+} from './Iso20022Xml';
+
+export const PACS_008_MESSAGE_DEFINITION = 'pacs.008.001.08';
+export const PACS_008_NAMESPACE = `urn:iso:std:iso:20022:tech:xsd:${PACS_008_MESSAGE_DEFINITION}`;
+
+/** Osko overlay service (X2P1), version 01 */
+export const NPP_OSKO_SERVICE_LEVEL = 'X2P1.01';
+
+/** NPP extends unstructured remittance information to 280 characters */
+export const NPP_MAX_REMITTANCE_LENGTH = 280;
+
+const T = ISO20022_TYPES;
+
+const agent = (name: string, minOccurs = 1): XmlSchemaElement => ({
+  name,
+  minOccurs,
+  children: [{ name: 'FinInstnId', children: [{ name: 'BICFI', type: T.BICFIIdentifier }] }],
+});
+
+const party = (name: string): XmlSchemaElement => ({
+  name,
+  children: [{ name: 'Nm', minOccurs: 0, type: T.Max140Text }],
+});
+
+const account = (name: string): XmlSchemaElement => ({
+  name,
+  minOccurs: 0,
+  children: [{ name: 'Id', children: [{ name: 'Othr', children: [{ name: 'Id', type: T.Max34Text }] }] }],
+});
+
+/**
+ * The subset of pacs.008.001.08 (NPP usage) this module produces
+ */
+export const PACS_008_SCHEMA: XmlMessageSchema = {
+  messageDefinition: PACS_008_MESSAGE_DEFINITION,
+  namespace: PACS_008_NAMESPACE,
+  root: {
+    name: 'Document',
+    children: [
+      {
+        name: 'FIToFICstmrCdtTrf',
+        children: [
+          {
+            name: 'GrpHdr',
+            children: [
+              { name: 'MsgId', type: T.Max35Text },
+              { name: 'CreDtTm', type: T.ISODateTime },
+              { name: 'NbOfTxs', type: T.Max15NumericText },
+              {
+                name: 'SttlmInf',
+                children: [
+                  {
+                    name: 'SttlmMtd',
+                    type: { name: 'SettlementMethod1Code', enumeration: ['INDA', 'INGA', 'COVE', 'CLRG'] },
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            name: 'CdtTrfTxInf',
+            maxOccurs: Number.POSITIVE_INFINITY,
+            children: [
+              {
+                name: 'PmtId',
+                children: [
+                  { name: 'InstrId', minOccurs: 0, type: T.Max35Text },
+                  { name: 'EndToEndId', type: T.Max35Text },
+                  { name: 'TxId', minOccurs: 0, type: T.Max35Text },
+                ],
+              },
+              {
+                name: 'PmtTpInf',
+                minOccurs: 0,
+                children: [
+                  {
+                    name: 'SvcLvl',
+                    minOccurs: 0,
+                    maxOccurs: Number.POSITIVE_INFINITY,
+                    children: [{ name: 'Prtry', type: T.Max35Text }],
+                  },
+                ],
+              },
+              {
+                name: 'IntrBkSttlmAmt',
+                type: T.ActiveCurrencyAndAmount,
+                attributes: [{ name: 'Ccy', type: T.ActiveCurrencyCode, required: true }],
+              },
+              { name: 'IntrBkSttlmDt', minOccurs: 0, type: T.ISODate },
+              {
+                name: 'ChrgBr',
+                type: { name: 'ChargeBearerType1Code', enumeration: ['DEBT', 'CRED', 'SHAR', 'SLEV'] },
+              },
+              party('Dbtr'),
+              account('DbtrAcct'),
+              agent('DbtrAgt'),
+              agent('CdtrAgt'),
+              party('Cdtr'),
+              account('CdtrAcct'),
+              {
+                name: 'RmtInf',
+                minOccurs: 0,
+                children: [
+                  {
+                    name: 'Ustrd',
+                    minOccurs: 0,
+                    type: { name: 'NPPMax280Text', minLength: 1, maxLength: NPP_MAX_REMITTANCE_LENGTH },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+export interface Pacs008Options {
+  /** GrpHdr/MsgId, unique per message */
+  messageId: string;
+  createdAt: Date;
+  /** NPP transaction ID; record as PaymentSentToRail.externalRef */
+  transactionId: string;
+  /** Default: paymentIntentId */
+  endToEndId?: string;
+  debtorName: string;
+  debtorAgentBIC: string;
+  creditorName: string;
+  creditorAgentBIC: string;
+  /** Up to NPP_MAX_REMITTANCE_LENGTH characters */
+  remittanceInformation?: string;
+  /** Overlay service (default NPP_OSKO_SERVICE_LEVEL) */
+  serviceLevel?: string;
+}
+
+export interface Pacs008Message {
+  xml: string;
+  messageId: string;
+  endToEndId: string;
+  transactionId: string;
+}
+
+/**
+ * Build a pacs.008 for the current attempt of an AUTHORISED NPP payment
+ *
+ * @throws Iso20022Error if the payment cannot be sent or the message fails validation
+ */
+export function buildPacs008(payment: NPPPayment, options: Pacs008Options): Pacs008Message {
+  if (payment.state !== NPPPaymentState.AUTHORISED || !payment.currentAttemptId) {
+    throw new Iso20022Error(
+      `NPP payment ${payment.paymentIntentId} is ${payment.state}${payment.currentAttemptId ? '' : ' with no attempt'}; only AUTHORISED payments with an open attempt can be sent`,
+    );
+  }
+
+  const endToEndId = options.endToEndId ?? payment.paymentIntentId;
+  const transaction: XmlElement[] = [
+    element('PmtId', [
+      element('InstrId', payment.currentAttemptId),
+      element('EndToEndId', endToEndId),
+      element('TxId', options.transactionId),
+    ]),
+    element('PmtTpInf', [element('SvcLvl', [element('Prtry', options.serviceLevel ?? NPP_OSKO_SERVICE_LEVEL)])]),
+    element('IntrBkSttlmAmt', formatIso20022Amount(payment.amount), { Ccy: payment.currency }),
+    element('ChrgBr', 'SLEV'),
+    element('Dbtr', [element('Nm', options.debtorName)]),
+    element('DbtrAcct', [element('Id', [element('Othr', [element('Id', payment.fromAccountId)])])]),
+    element('DbtrAgt', [element('FinInstnId', [element('BICFI', options.debtorAgentBIC)])]),
+    element('CdtrAgt', [element('FinInstnId', [element('BICFI', options.creditorAgentBIC)])]),
+    element('Cdtr', [element('Nm', options.creditorName)]),
+    element('CdtrAcct', [element('Id', [element('Othr', [element('Id', creditorAccount(payment))])])]),
+  ];
+  if (options.remittanceInformation !== undefined) {
+    transaction.push(element('RmtInf', [element('Ustrd', options.remittanceInformation)]));
+  }
+
+  const document = element(
+    'Document',
+    [
+      element('FIToFICstmrCdtTrf', [
+        element('GrpHdr', [
+          element('MsgId', options.messageId),
+          element('CreDtTm', options.createdAt.toISOString()),
+          element('NbOfTxs', '1'),
+          element('SttlmInf', [element('SttlmMtd', 'CLRG')]),
+        ]),
+        element('CdtTrfTxInf', transaction),
+      ]),
+    ],
+    { xmlns: PACS_008_NAMESPACE },
+  );
+
+  const issues = validateXml(document, PACS_008_SCHEMA);
+  if (issues.length > 0) {
+    throw new Iso20022Error(
+      `pacs.008 for ${payment.paymentIntentId} is invalid: ${formatIssues(issues)}`,
+      issues,
+    );
+  }
+
+  return {
+    xml: serializeXml(document),
+    messageId: options.messageId,
+    endToEndId,
+    transactionId: options.transactionId,
+  };
+}
+
+/**
+ * Account the payment credits: the confirmed payee behind a PayID, else toAccountId
+ */
+function creditorAccount(payment: NPPPayment): string {
+  return payment.payeeBsb && payment.payeeAccountNumber
+    ? `${payment.payeeBsb} ${payment.payeeAccountNumber}`
+    : payment.toAccountId;
+}
+
+/**
+ * Validate a pacs.008 document offline
+ *
+ * @returns Schema issues (empty when valid)
+ * @throws Iso20022Error if the document is not well-formed
+ */
+export function validatePacs008(xml: string): XmlValidationIssue[] {
+  return validateXml(parseXml(xml), PACS_008_SCHEMA);
+}
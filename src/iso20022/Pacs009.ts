@@ -0,0 +1,241 @@
+/**
+ * pacs.009 FI credit transfer (RTGS outbound).
+ *
+ * Builds a pacs.009.001.08 document for an approved RTGS payment, one
+ * transaction per message:
+ *
+ *   GrpHdr       MsgId, CreDtTm, NbOfTxs = 1, SttlmInf CLRG via RITS
+ *   CdtTrfTxInf  PmtId (EndToEndId = paymentIntentId, UETR),
+ *                IntrBkSttlmAmt / IntrBkSttlmDt,
+ *                InstgAgt / Dbtr = sender BIC, InstdAgt / Cdtr = receiver BIC,
+ *                creditor BSB (AUBSB) and account number
+ *
+ * The UETR is what ties the RITS side back to the payment: record it as
+ * PaymentSent.railTransactionId so pacs.002 status reports can be matched
+ * (see pacs002ToRTGSEvents). Every built message is validated against
+ * PACS_009_SCHEMA before it is returned.
+ *
+ * Usage:
+ * ```typescript
+ * const message = buildPacs009(payment, {
+ *   messageId: 'TCU20241217000001',
+ *   createdAt: new Date(),
+ *   uetr: randomUUID(),
+ *   settlementDate: '2024-12-17',
+ *   senderBIC: 'TURIAU2SXXX',
+ *   receiverBIC: 'CTBAAU2SXXX',
+ * });
+ * sendRTGSPayment(payment, message.uetr, sentAt, calendar);
+ * ```
+ */
+
+import { RTGSPayment } from '../domain/rtgs/RTGSPayment';
+import { RTGSPaymentState } from '../domain/rtgs/RTGSPaymentState';
+import {
+  ISO20022_TYPES,
+  Iso20022Error,
+  XmlMessageSchema,
+  XmlSchemaElement,
+  XmlValidationIssue,
+  element,
+  formatIso20022Amount,
+  formatIssues,
+  parseXml,
+  serializeXml,
+  validateXml,
+} from './Iso20022Xml';
+
+export const PACS_009_MESSAGE_DEFINITION = 'pacs.009.001.08';
+export const PACS_009_NAMESPACE = `urn:iso:std:iso:20022:tech:xsd:${PACS_009_MESSAGE_DEFINITION}`;
+
+/** Clearing system member ID scheme for Australian BSBs */
+const AU_BSB_CLEARING_SYSTEM = 'AUBSB';
+
+const T = ISO20022_TYPES;
+
+const financialInstitution = (name: string, minOccurs = 1): XmlSchemaElement => ({
+  name,
+  minOccurs,
+  children: [
+    {
+      name: 'FinInstnId',
+      children: [
+        { name: 'BICFI', minOccurs: 0, type: T.BICFIIdentifier },
+        {
+          name: 'ClrSysMmbId',
+          minOccurs: 0,
+          children: [
+            { name: 'ClrSysId', minOccurs: 0, children: [{ name: 'Cd', type: T.ExternalClearingSystemIdentification1Code }] },
+            { name: 'MmbId', type: T.Max35Text },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+const account = (name: string): XmlSchemaElement => ({
+  name,
+  minOccurs: 0,
+  children: [{ name: 'Id', children: [{ name: 'Othr', children: [{ name: 'Id', type: T.Max34Text }] }] }],
+});
+
+/**
+ * The subset of pacs.009.001.08 this module produces
+ */
+export const PACS_009_SCHEMA: XmlMessageSchema = {
+  messageDefinition: PACS_009_MESSAGE_DEFINITION,
+  namespace: PACS_009_NAMESPACE,
+  root: {
+    name: 'Document',
+    children: [
+      {
+        name: 'FICdtTrf',
+        children: [
+          {
+            name: 'GrpHdr',
+            children: [
+              { name: 'MsgId', type: T.Max35Text },
+              { name: 'CreDtTm', type: T.ISODateTime },
+              { name: 'NbOfTxs', type: T.Max15NumericText },
+              {
+                name: 'SttlmInf',
+                children: [
+                  {
+                    name: 'SttlmMtd',
+                    type: { name: 'SettlementMethod1Code', enumeration: ['INDA', 'INGA', 'COVE', 'CLRG'] },
+                  },
+                  { name: 'ClrSys', minOccurs: 0, children: [{ name: 'Prtry', type: T.Max35Text }] },
+                ],
+              },
+            ],
+          },
+          {
+            name: 'CdtTrfTxInf',
+            maxOccurs: Number.POSITIVE_INFINITY,
+            children: [
+              {
+                name: 'PmtId',
+                children: [
+                  { name: 'InstrId', minOccurs: 0, type: T.Max35Text },
+                  { name: 'EndToEndId', type: T.Max35Text },
+                  { name: 'TxId', minOccurs: 0, type: T.Max35Text },
+                  { name: 'UETR', type: T.UUIDv4Identifier },
+                ],
+              },
+              {
+                name: 'IntrBkSttlmAmt',
+                type: T.ActiveCurrencyAndAmount,
+                attributes: [{ name: 'Ccy', type: T.ActiveCurrencyCode, required: true }],
+              },
+              { name: 'IntrBkSttlmDt', type: T.ISODate },
+              financialInstitution('InstgAgt', 0),
+              financialInstitution('InstdAgt', 0),
+              financialInstitution('Dbtr'),
+              account('DbtrAcct'),
+              financialInstitution('Cdtr'),
+              account('CdtrAcct'),
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+export interface Pacs009Options {
+  /** GrpHdr/MsgId, unique per message */
+  messageId: string;
+  createdAt: Date;
+  /** UUIDv4; record as PaymentSent.railTransactionId */
+  uetr: string;
+  /** Interbank settlement date, YYYY-MM-DD */
+  settlementDate: string;
+  /** Our BIC: instructing agent and debtor */
+  senderBIC: string;
+  /** Counterparty BIC: instructed agent and creditor */
+  receiverBIC: string;
+}
+
+export interface Pacs009Message {
+  xml: string;
+  messageId: string;
+  endToEndId: string;
+  uetr: string;
+}
+
+/**
+ * Build a pacs.009 for an APPROVED or QUEUED RTGS payment
+ *
+ * @throws Iso20022Error if the payment cannot be sent or the message fails validation
+ */
+export function buildPacs009(payment: RTGSPayment, options: Pacs009Options): Pacs009Message {
+  if (payment.state !== RTGSPaymentState.APPROVED && payment.state !== RTGSPaymentState.QUEUED) {
+    throw new Iso20022Error(
+      `RTGS payment ${payment.paymentIntentId} is ${payment.state}; only APPROVED or QUEUED payments can be sent`,
+    );
+  }
+
+  const document = element(
+    'Document',
+    [
+      element('FICdtTrf', [
+        element('GrpHdr', [
+          element('MsgId', options.messageId),
+          element('CreDtTm', options.createdAt.toISOString()),
+          element('NbOfTxs', '1'),
+          element('SttlmInf', [element('SttlmMtd', 'CLRG'), element('ClrSys', [element('Prtry', 'RITS')])]),
+        ]),
+        element('CdtTrfTxInf', [
+          element('PmtId', [
+            element('InstrId', options.messageId),
+            element('EndToEndId', payment.paymentIntentId),
+            element('UETR', options.uetr),
+          ]),
+          element('IntrBkSttlmAmt', formatIso20022Amount(payment.amount), { Ccy: payment.currency }),
+          element('IntrBkSttlmDt', options.settlementDate),
+          element('InstgAgt', [element('FinInstnId', [element('BICFI', options.senderBIC)])]),
+          element('InstdAgt', [element('FinInstnId', [element('BICFI', options.receiverBIC)])]),
+          element('Dbtr', [element('FinInstnId', [element('BICFI', options.senderBIC)])]),
+          element('DbtrAcct', [element('Id', [element('Othr', [element('Id', payment.fromAccountId)])])]),
+          element('Cdtr', [
+            element('FinInstnId', [
+              element('BICFI', options.receiverBIC),
+              element('ClrSysMmbId', [
+                element('ClrSysId', [element('Cd', AU_BSB_CLEARING_SYSTEM)]),
+                element('MmbId', payment.bsb.replace('-', '')),
+              ]),
+            ]),
+          ]),
+          element('CdtrAcct', [element('Id', [element('Othr', [element('Id', payment.accountNumber)])])]),
+        ]),
+      ]),
+    ],
+    { xmlns: PACS_009_NAMESPACE },
+  );
+
+  const issues = validateXml(document, PACS_009_SCHEMA);
+  if (issues.length > 0) {
+    throw new Iso20022Error(
+      `pacs.009 for ${payment.paymentIntentId} is invalid: ${formatIssues(issues)}`,
+      issues,
+    );
+  }
+
+  return {
+    xml: serializeXml(document),
+    messageId: options.messageId,
+    endToEndId: payment.paymentIntentId,
+    uetr: options.uetr,
+  };
+}
+
+/**
+ * Validate a pacs.009 document offline
+ *
+ * @returns Schema issues (empty when valid)
+ * @throws Iso20022Error if the document is not well-formed
+ */
+export function validatePacs009(xml: string): XmlValidationIssue[] {
+  return validateXml(parseXml(xml), PACS_009_SCHEMA);
+}
@@ -0,0 +1,13 @@
+/**
+ * ISO 20022 - Public API
+ *
+ * Offline XML message layer toward the clearing systems: pacs.008 for NPP
+ * and pacs.009 for RTGS sends, with pacs.002 status reports and pacs.004
+ * returns mapped back into rail events.
+ */
+
+export * from './Iso20022Xml';
+export * from './Pacs008';
+export * from './Pacs009';
+export * from './Pacs002';
+export * from './Pacs004';
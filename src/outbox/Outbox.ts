@@ -0,0 +1,144 @@
+/**
+ * Transactional outbox contract.
+ *
+ * Envelopes are written in the same transaction as the domain events that
+ * caused them, then drained to the EventPublisher by OutboxRelay. A crash
+ * between append and publish can delay an event, never lose it.
+ *
+ * Philosophy:
+ * - Outbox rows are created only by appendWithOutbox (never on their own)
+ * - Delivery is at-least-once: consumers dedupe on event_id
+ * - Rows are never deleted: DELIVERED and DEAD_LETTER rows stay inspectable
+ *   and replayable
+ */
+
+import { EventStore, StreamAppend } from '../store/EventStore';
+import { EventEnvelope } from '../emit/envelope';
+
+export type OutboxStatus = 'PENDING' | 'DELIVERED' | 'DEAD_LETTER';
+
+/**
+ * Envelope as persisted in the outbox.
+ */
+export interface OutboxMessage {
+  /** Monotonic delivery order, assigned at enqueue */
+  sequence: number;
+  stream_id: string;
+  event_id: string;
+  event_type: string;
+  envelope: EventEnvelope;
+  status: OutboxStatus;
+  /** Failed publish attempts so far */
+  attempts: number;
+  /** Earliest time the relay may (re)try this message */
+  next_attempt_at: Date;
+  last_error: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+export interface OutboxFilter {
+  status?: OutboxStatus;
+  streamId?: string;
+  fromSequence?: number;
+}
+
+/**
+ * Outbox table operations used by the relay.
+ */
+export interface OutboxStore {
+  /**
+   * PENDING messages that are due, in sequence order.
+   *
+   * A message behind an earlier PENDING message of its stream that is not
+   * due yet is left out too, so a stream that is backing off cannot fill
+   * the batch and starve the others.
+   *
+   * @param limit - Maximum messages to return
+   * @param now - Messages with next_attempt_at after this are not due
+   */
+  pendingMessages(limit: number, now: Date): Promise<OutboxMessage[]>;
+
+  /**
+   * List messages in sequence order (for inspection and replay).
+   *
+   * @param filter - Optional status / stream / sequence filter
+   */
+  listMessages(filter?: OutboxFilter): Promise<OutboxMessage[]>;
+
+  /**
+   * Record a successful publish.
+   */
+  markDelivered(sequence: number, deliveredAt: Date): Promise<void>;
+
+  /**
+   * Record a failed publish and schedule the next attempt.
+   */
+  markAttemptFailed(sequence: number, error: string, nextAttemptAt: Date): Promise<void>;
+
+  /**
+   * Record a final failed publish and move the message to the dead-letter store.
+   */
+  markDeadLetter(sequence: number, error: string): Promise<void>;
+
+  /**
+   * Put a dead-lettered message back in the queue with a fresh attempt budget.
+   */
+  requeue(sequence: number, nextAttemptAt: Date): Promise<void>;
+}
+
+/**
+ * Events and envelopes for one stream in a multi-stream append.
+ */
+export interface OutboxStreamAppend<E> extends StreamAppend<E> {
+  /** Envelopes to enqueue for delivery, in order */
+  envelopes: EventEnvelope[];
+}
+
+/**
+ * Event store that can append domain events and outbox envelopes atomically.
+ */
+export interface OutboxEventStore<E = unknown> extends EventStore<E>, OutboxStore {
+  /**
+   * Append events and their envelopes in one transaction.
+   *
+   * @param streamId - Stream identifier (payment intent ID)
+   * @param expectedVersion - Version the caller last read (NO_STREAM for a new stream)
+   * @param events - Events to append, in order
+   * @param envelopes - Envelopes to enqueue for delivery, in order
+   * @returns New stream version
+   * @throws VersionConflictError if the stream is not at expectedVersion (nothing is enqueued)
+   */
+  appendWithOutbox(
+    streamId: string,
+    expectedVersion: number,
+    events: E[],
+    envelopes: EventEnvelope[],
+  ): Promise<number>;
+
+  /**
+   * Append events and their envelopes to several streams in one transaction.
+   *
+   * @param appends - One entry per stream
+   * @returns New stream versions, in the order of appends
+   * @throws VersionConflictError if any stream is not at its expectedVersion (nothing is appended or enqueued)
+   */
+  appendAllWithOutbox(appends: OutboxStreamAppend<E>[]): Promise<number[]>;
+}
+
+/**
+ * Check if an event store supports the transactional outbox.
+ */
+export function isOutboxEventStore<E>(store: EventStore<E>): store is OutboxEventStore<E> {
+  return typeof (store as Partial<OutboxEventStore<E>>).appendWithOutbox === 'function';
+}
+
+/**
+ * Raised when an outbox operation targets a sequence that does not exist.
+ */
+export class OutboxMessageNotFoundError extends Error {
+  constructor(public readonly sequence: number) {
+    super(`OUTBOX_MESSAGE_NOT_FOUND: sequence ${sequence}`);
+    this.name = 'OutboxMessageNotFoundError';
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Outbox relay.
+ *
+ * Drains PENDING outbox messages to the configured EventPublisher:
+ * - At-least-once: a message is marked DELIVERED only after publish resolves
+ * - Per-stream order: a message waits while an earlier message of the same
+ *   stream is still pending (backing off or not yet due)
+ * - Only due messages are read, so a stream that is backing off does not
+ *   take up the batch and hold back other streams
+ * - Exponential backoff between attempts, capped at maxDelayMs
+ * - After maxAttempts failures a message moves to the dead-letter store
+ *   (status DEAD_LETTER) and stops blocking its stream
+ *
+ * Usage:
+ * ```typescript
+ * const relay = new OutboxRelay(store, publisher);
+ * relay.start();              // poll every pollIntervalMs
+ * await relay.drain();        // or drive it manually (tests, cron)
+ * await relay.inspect();      // counts per status, oldest pending
+ * await relay.redrive(seq);   // requeue a dead letter
+ * await relay.replay({ fromSequence: 1 }); // re-publish delivered history
+ * ```
+ */
+
+import { EventPublisher } from '../emit/emit_event';
+import { OutboxFilter, OutboxMessage, OutboxStore } from './Outbox';
+
+export interface OutboxRelayOptions {
+  /** Failed attempts before dead-lettering (default 8) */
+  maxAttempts?: number;
+  /** Delay after the first failure (default 1000ms) */
+  baseDelayMs?: number;
+  /** Upper bound on the backoff delay (default 5 minutes) */
+  maxDelayMs?: number;
+  /** Messages read per drain (default 100) */
+  batchSize?: number;
+  /** Polling interval for start() (default 1000ms) */
+  pollIntervalMs?: number;
+  /** Clock (injectable for tests) */
+  now?: () => Date;
+}
+
+export interface RelayResult {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+  /** Pending messages skipped behind a message of their stream that failed in this pass */
+  deferred: number;
+}
+
+export interface OutboxStats {
+  pending: number;
+  delivered: number;
+  deadLettered: number;
+  oldestPendingAt: Date | null;
+}
+
+export class OutboxRelay {
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly now: () => Date;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<RelayResult> | null = null;
+
+  /**
+   * @param outbox - Outbox table (usually an OutboxEventStore)
+   * @param publisher - Destination event bus
+   * @param options - Retry, batching and clock options
+   */
+  constructor(
+    private readonly outbox: OutboxStore,
+    private readonly publisher: EventPublisher,
+    options: OutboxRelayOptions = {},
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+    this.batchSize = options.batchSize ?? 100;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Deliver every due PENDING message once.
+   *
+   * Concurrent calls share the in-flight drain, so a message is never
+   * published twice by the same relay.
+   *
+   * @returns Counts of what happened in this pass
+   */
+  drain(): Promise<RelayResult> {
+    if (!this.draining) {
+      this.draining = this.drainOnce().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Start polling the outbox.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.drain().catch((error: Error) => {
+        console.error('[OutboxRelay] drain failed:', error.message);
+      });
+    }, this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling and wait for an in-flight drain to finish.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.draining;
+  }
+
+  /**
+   * Delay before the next attempt after `attempts` failures.
+   *
+   * @param attempts - Failed attempts so far (>= 1)
+   * @returns Delay in milliseconds
+   */
+  backoffDelayMs(attempts: number): number {
+    return Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempts - 1));
+  }
+
+  /**
+   * Summarise the outbox table.
+   */
+  async inspect(): Promise<OutboxStats> {
+    const messages = await this.outbox.listMessages();
+    const pending = messages.filter((message) => message.status === 'PENDING');
+
+    return {
+      pending: pending.length,
+      delivered: messages.filter((message) => message.status === 'DELIVERED').length,
+      deadLettered: messages.filter((message) => message.status === 'DEAD_LETTER').length,
+      oldestPendingAt: pending.length > 0 ? pending[0].created_at : null,
+    };
+  }
+
+  /**
+   * List dead-lettered messages.
+   */
+  deadLetters(): Promise<OutboxMessage[]> {
+    return this.outbox.listMessages({ status: 'DEAD_LETTER' });
+  }
+
+  /**
+   * Requeue a dead-lettered message for immediate delivery.
+   *
+   * @param sequence - Outbox sequence of the dead letter
+   * @throws Error if the message is not dead-lettered
+   */
+  async redrive(sequence: number): Promise<void> {
+    const [message] = await this.outbox.listMessages({ fromSequence: sequence });
+    if (!message || message.sequence !== sequence || message.status !== 'DEAD_LETTER') {
+      throw new Error(`Outbox message ${sequence} is not dead-lettered`);
+    }
+    await this.outbox.requeue(sequence, this.now());
+  }
+
+  /**
+   * Re-publish DELIVERED messages from the outbox table, in sequence order.
+   *
+   * For rebuilding a downstream projection; consumers must already dedupe
+   * on event_id under at-least-once delivery. Status is not changed.
+   *
+   * @param filter - Stream / starting sequence to replay
+   * @returns Number of messages re-published
+   */
+  async replay(filter: Omit<OutboxFilter, 'status'> = {}): Promise<number> {
+    const messages = await this.outbox.listMessages({ ...filter, status: 'DELIVERED' });
+    for (const message of messages) {
+      await this.publisher.publish(message.envelope);
+    }
+    return messages.length;
+  }
+
+  private async drainOnce(): Promise<RelayResult> {
+    const result: RelayResult = { delivered: 0, retried: 0, deadLettered: 0, deferred: 0 };
+    const blockedStreams = new Set<string>();
+    const pending = await this.outbox.pendingMessages(this.batchSize, this.now());
+
+    for (const message of pending) {
+      const now = this.now();
+
+      if (blockedStreams.has(message.stream_id) || message.next_attempt_at > now) {
+        blockedStreams.add(message.stream_id);
+        result.deferred++;
+        continue;
+      }
+
+      try {
+        await this.publisher.publish(message.envelope);
+        await this.outbox.markDelivered(message.sequence, this.now());
+        result.delivered++;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const attempts = message.attempts + 1;
+
+        if (attempts >= this.maxAttempts) {
+          await this.outbox.markDeadLetter(message.sequence, reason);
+          result.deadLettered++;
+        } else {
+          const nextAttemptAt = new Date(now.getTime() + this.backoffDelayMs(attempts));
+          await this.outbox.markAttemptFailed(message.sequence, reason, nextAttemptAt);
+          blockedStreams.add(message.stream_id);
+          result.retried++;
+        }
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Transactional Outbox - Public API
+ *
+ * Envelopes committed with their domain events, relayed to the
+ * EventPublisher with retries, backoff and a dead-letter store.
+ */
+
+export * from './Outbox';
+export * from './OutboxRelay';
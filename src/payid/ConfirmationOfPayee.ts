@@ -0,0 +1,191 @@
+/**
+ * Confirmation of Payee.
+ *
+ * Before a PayID payment is authorised the customer is shown who the PayID
+ * belongs to and confirms that is who they meant to pay. The name they
+ * expected is scored against the registered name (0-100):
+ *
+ *   MATCH        >= 95   names agree once titles, punctuation and
+ *                        company suffixes (PTY, LTD...) are ignored
+ *   CLOSE_MATCH  >= 75   e.g. an initial, a missing middle name, a typo
+ *   NO_MATCH     <  75
+ *
+ * Tokens are compared order-insensitively, each against its best unused
+ * counterpart: exact = 1, initial vs name = 0.75, otherwise edit-distance
+ * similarity. The result is advisory; the customer's confirmation is what
+ * PayeeConfirmed records, alongside the score it was made against.
+ *
+ * Usage:
+ * ```typescript
+ * const resolution = await resolver.resolve(payment.payId!, payment.payIdType);
+ * if (resolution.resolved) {
+ *   const match = matchPayeeName('Alice Citizen', resolution.payee.displayName);
+ *   // ...show match.result to the customer, then on confirmation:
+ *   const event = confirmPayee(payment, resolution.payee, {
+ *     expectedPayeeName: 'Alice Citizen',
+ *     confirmedBy: 'cust_42',
+ *     occurredAt: new Date(),
+ *   });
+ * }
+ * ```
+ */
+
+import { NPPPayment } from '../domain/npp/NPPPayment';
+import { PayeeConfirmed } from '../domain/npp/NPPPaymentEvent';
+import { NPPPayeeMatchResult } from '../domain/npp/NPPPaymentState';
+import { PayIDRegistration } from './PayIDResolver';
+
+export interface PayeeMatchThresholds {
+  /** Minimum score for MATCH */
+  match: number;
+  /** Minimum score for CLOSE_MATCH */
+  closeMatch: number;
+}
+
+export const DEFAULT_PAYEE_MATCH_THRESHOLDS: PayeeMatchThresholds = { match: 95, closeMatch: 75 };
+
+export interface PayeeNameMatch {
+  result: NPPPayeeMatchResult;
+  /** 0-100 */
+  score: number;
+}
+
+/** Honorifics and company-form words that never distinguish two payees */
+const IGNORED_TOKENS = new Set([
+  'MR', 'MRS', 'MS', 'MISS', 'MX', 'DR', 'PROF',
+  'PTY', 'PROPRIETARY', 'LTD', 'LIMITED', 'CO', 'COMPANY', 'INC', 'THE',
+]);
+
+const INITIAL_SIMILARITY = 0.75;
+
+/**
+ * Score how closely two names refer to the same payee
+ *
+ * @returns 0 (unrelated) to 100 (same name)
+ */
+export function scorePayeeName(expected: string, actual: string): number {
+  const a = nameTokens(expected);
+  const b = nameTokens(actual);
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const unused = [...longer];
+  let total = 0;
+  for (const token of shorter) {
+    let best = 0;
+    let bestIndex = 0;
+    unused.forEach((candidate, index) => {
+      const similarity = tokenSimilarity(token, candidate);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    total += best;
+    unused.splice(bestIndex, 1);
+  }
+
+  // Names the other side does not mention (e.g. a middle name) cost a little
+  const coverage = 0.8 + 0.2 * (shorter.length / longer.length);
+  return Math.round((total / shorter.length) * coverage * 100);
+}
+
+/**
+ * Score two names and classify the result
+ */
+export function matchPayeeName(
+  expected: string,
+  actual: string,
+  thresholds: PayeeMatchThresholds = DEFAULT_PAYEE_MATCH_THRESHOLDS,
+): PayeeNameMatch {
+  const score = scorePayeeName(expected, actual);
+  const result =
+    score >= thresholds.match
+      ? NPPPayeeMatchResult.MATCH
+      : score >= thresholds.closeMatch
+        ? NPPPayeeMatchResult.CLOSE_MATCH
+        : NPPPayeeMatchResult.NO_MATCH;
+  return { result, score };
+}
+
+export interface PayeeConfirmationOptions {
+  /** Name the customer expected to pay */
+  expectedPayeeName: string;
+  /** Customer who confirmed */
+  confirmedBy: string;
+  occurredAt: Date;
+  thresholds?: PayeeMatchThresholds;
+}
+
+/**
+ * Build the PayeeConfirmed event for a customer's confirmation of a resolved PayID
+ *
+ * The event is validated when applied (NPP.PAYEE_CONFIRMATION): the
+ * payment must still be CREATED and addressed to this PayID.
+ */
+export function confirmPayee(
+  payment: NPPPayment,
+  payee: PayIDRegistration,
+  options: PayeeConfirmationOptions,
+): PayeeConfirmed {
+  const match = matchPayeeName(options.expectedPayeeName, payee.displayName, options.thresholds);
+  return {
+    type: 'PayeeConfirmed',
+    paymentIntentId: payment.paymentIntentId,
+    occurredAt: options.occurredAt,
+    payId: payee.payId,
+    payIdType: payee.payIdType,
+    bsb: payee.bsb,
+    accountNumber: payee.accountNumber,
+    payeeName: payee.displayName,
+    expectedPayeeName: options.expectedPayeeName,
+    matchResult: match.result,
+    matchScore: match.score,
+    confirmedBy: options.confirmedBy,
+  };
+}
+
+/**
+ * Upper-case words with accents, punctuation and ignored words removed
+ */
+function nameTokens(name: string): string[] {
+  const tokens = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/['\u2019.]/g, '')
+    .split(/[^A-Z0-9]+/)
+    .filter((token) => token !== '');
+  const significant = tokens.filter((token) => !IGNORED_TOKENS.has(token));
+  // A name made only of ignored words is still compared on those words
+  return significant.length > 0 ? significant : tokens;
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if ((a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b))) {
+    return INITIAL_SIMILARITY;
+  }
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
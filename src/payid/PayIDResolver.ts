@@ -0,0 +1,217 @@
+/**
+ * PayID resolution.
+ *
+ * A PayID is an alias registered in the NPP Addressing Service that points
+ * at a BSB and account number, with the name the account holder chose to
+ * show payers. Four types are supported:
+ *
+ *   EMAIL    alice@example.com        (lower-cased)
+ *   PHONE    +61-412345678            (Australian mobile, NPP format)
+ *   ABN      51824753556              (11 digits, checksum verified)
+ *   ORG_ID   ACMEPAYROLL              (upper-cased)
+ *
+ * Resolution goes through the PayIDResolver interface so the Addressing
+ * Service client can be swapped in; LocalPayIDDirectory is an in-memory
+ * stand-in for tests and local runs. Nothing here calls the network.
+ *
+ * Usage:
+ * ```typescript
+ * const resolver = new LocalPayIDDirectory([
+ *   { payId: 'alice@example.com', payIdType: NPPPayIDType.EMAIL, bsb: '062-000',
+ *     accountNumber: '12345678', displayName: 'Alice Citizen' },
+ * ]);
+ * const resolution = await resolver.resolve('Alice@Example.com');
+ * if (resolution.resolved) resolution.payee.displayName;   // 'Alice Citizen'
+ * ```
+ */
+
+import { NPPPayIDType } from '../domain/npp/NPPPaymentState';
+import { normalizeBSB } from '../bsb/BSBDirectory';
+
+/**
+ * A PayID in its normalised form
+ */
+export interface ParsedPayID {
+  payIdType: NPPPayIDType;
+  payId: string;
+}
+
+/**
+ * A PayID registration as held by the Addressing Service
+ */
+export interface PayIDRegistration {
+  payId: string;
+  payIdType: NPPPayIDType;
+  /** NNN-NNN */
+  bsb: string;
+  accountNumber: string;
+  /** Name shown to payers */
+  displayName: string;
+  /** Disabled PayIDs stay registered but cannot be paid */
+  disabled?: boolean;
+}
+
+/**
+ * Why a PayID could not be resolved
+ */
+export enum PayIDResolutionFailure {
+  INVALID_PAYID = 'INVALID_PAYID',
+  NOT_REGISTERED = 'NOT_REGISTERED',
+  DISABLED = 'DISABLED',
+}
+
+export type PayIDResolution =
+  | { resolved: true; payee: PayIDRegistration }
+  | { resolved: false; failure: PayIDResolutionFailure; message: string };
+
+/**
+ * Resolves PayIDs to the account and name behind them
+ */
+export interface PayIDResolver {
+  /**
+   * @param payId - PayID as entered by the customer
+   * @param payIdType - Type, when the customer chose one (detected otherwise)
+   */
+  resolve(payId: string, payIdType?: NPPPayIDType): Promise<PayIDResolution>;
+}
+
+/**
+ * Raised when a PayID registration is malformed
+ */
+export class PayIDError extends Error {
+  constructor(message: string) {
+    super(`PAYID_ERROR: ${message}`);
+    this.name = 'PayIDError';
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_PAYID_LENGTH = 256;
+const PHONE_PATTERN = /^(?:\+?61|0)(4\d{8})$/;
+const ABN_PATTERN = /^\d{11}$/;
+const ABN_WEIGHTS = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+const ORG_ID_PATTERN = /^(?=.*[A-Z])[A-Z0-9][A-Z0-9._-]*$/;
+
+/**
+ * Normalise a PayID, detecting its type when none is given
+ *
+ * Detection only recognises EMAIL, PHONE and ABN values unambiguously;
+ * anything else with at least one letter is taken as an ORG_ID.
+ *
+ * @returns undefined if the value is not a valid PayID (of the given type)
+ */
+export function parsePayID(value: string, payIdType?: NPPPayIDType): ParsedPayID | undefined {
+  const trimmed = value.trim();
+  if (trimmed === '' || trimmed.length > MAX_PAYID_LENGTH) {
+    return undefined;
+  }
+
+  const types = payIdType
+    ? [payIdType]
+    : [NPPPayIDType.EMAIL, NPPPayIDType.PHONE, NPPPayIDType.ABN, NPPPayIDType.ORG_ID];
+  for (const type of types) {
+    const payId = normalizePayID(trimmed, type);
+    if (payId !== undefined) {
+      return { payIdType: type, payId };
+    }
+  }
+  return undefined;
+}
+
+function normalizePayID(value: string, payIdType: NPPPayIDType): string | undefined {
+  switch (payIdType) {
+    case NPPPayIDType.EMAIL:
+      return EMAIL_PATTERN.test(value) ? value.toLowerCase() : undefined;
+
+    case NPPPayIDType.PHONE: {
+      const match = PHONE_PATTERN.exec(value.replace(/[\s()-]/g, ''));
+      return match ? `+61-${match[1]}` : undefined;
+    }
+
+    case NPPPayIDType.ABN: {
+      const digits = value.replace(/\s/g, '');
+      return ABN_PATTERN.test(digits) && isValidABN(digits) ? digits : undefined;
+    }
+
+    case NPPPayIDType.ORG_ID: {
+      const orgId = value.toUpperCase();
+      return ORG_ID_PATTERN.test(orgId) ? orgId : undefined;
+    }
+  }
+}
+
+/**
+ * ABN checksum: subtract 1 from the first digit, weight, sum, mod 89
+ */
+function isValidABN(digits: string): boolean {
+  const sum = [...digits].reduce(
+    (total, digit, index) => total + (Number(digit) - (index === 0 ? 1 : 0)) * ABN_WEIGHTS[index],
+    0,
+  );
+  return sum % 89 === 0;
+}
+
+/**
+ * In-memory PayID directory (stand-in for the NPP Addressing Service)
+ */
+export class LocalPayIDDirectory implements PayIDResolver {
+  private readonly registrations: Map<string, PayIDRegistration>;
+
+  /**
+   * @param registrations - PayIDs; a later registration for the same PayID replaces an earlier one
+   * @throws PayIDError if a registration has an invalid PayID or BSB
+   */
+  constructor(registrations: PayIDRegistration[]) {
+    this.registrations = new Map(
+      registrations.map((registration) => {
+        const parsed = parsePayID(registration.payId, registration.payIdType);
+        if (!parsed) {
+          throw new PayIDError(`${registration.payId} is not a valid ${registration.payIdType} PayID`);
+        }
+        const bsb = normalizeBSB(registration.bsb);
+        if (!bsb) {
+          throw new PayIDError(`PayID ${parsed.payId} has invalid BSB ${registration.bsb}`);
+        }
+        return [key(parsed), { ...registration, ...parsed, bsb }];
+      }),
+    );
+  }
+
+  get size(): number {
+    return this.registrations.size;
+  }
+
+  async resolve(payId: string, payIdType?: NPPPayIDType): Promise<PayIDResolution> {
+    const parsed = parsePayID(payId, payIdType);
+    if (!parsed) {
+      return {
+        resolved: false,
+        failure: PayIDResolutionFailure.INVALID_PAYID,
+        message: `${payId} is not a valid ${payIdType ?? 'PayID'}`,
+      };
+    }
+
+    const payee = this.registrations.get(key(parsed));
+    if (!payee) {
+      return {
+        resolved: false,
+        failure: PayIDResolutionFailure.NOT_REGISTERED,
+        message: `${parsed.payIdType} PayID ${parsed.payId} is not registered`,
+      };
+    }
+
+    if (payee.disabled) {
+      return {
+        resolved: false,
+        failure: PayIDResolutionFailure.DISABLED,
+        message: `${parsed.payIdType} PayID ${parsed.payId} is disabled`,
+      };
+    }
+
+    return { resolved: true, payee };
+  }
+}
+
+function key(payId: ParsedPayID): string {
+  return `${payId.payIdType}:${payId.payId}`;
+}
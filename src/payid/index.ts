@@ -0,0 +1,9 @@
+/**
+ * PayID - Public API
+ *
+ * PayID resolution (resolver interface, local stand-in directory) and
+ * Confirmation of Payee name matching for NPP payments.
+ */
+
+export * from './PayIDResolver';
+export * from './ConfirmationOfPayee';
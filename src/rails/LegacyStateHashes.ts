@@ -0,0 +1,96 @@
+/**
+ * Legacy State Hashes (legacy-v0)
+ *
+ * The rail-specific state hashes in use before versioned canonical
+ * hashing. They are frozen here, byte for byte, so hashes recorded in
+ * older evidence packs can still be recomputed by replay.
+ *
+ * Never use these for new hashes - see domain/shared/CanonicalHash.
+ */
+
+import { createHash } from "crypto";
+import { Rail, RailPaymentMap } from "./Rail";
+
+export type LegacyStateHashes = { [R in Rail]: (payment: RailPaymentMap[R]) => string };
+
+export const LEGACY_STATE_HASHES: LegacyStateHashes = {
+  NPP: (payment) =>
+    createHash("sha256")
+      .update(
+        JSON.stringify({
+          paymentIntentId: payment.paymentIntentId,
+          state: payment.state,
+          amount: payment.amount.toString(),
+          currency: payment.currency,
+          idempotencyKey: payment.idempotencyKey,
+          fromAccountId: payment.fromAccountId,
+          toAccountId: payment.toAccountId,
+          attempts: payment.attempts,
+          currentAttemptId: payment.currentAttemptId,
+          externalRef: payment.externalRef,
+          schemeRef: payment.schemeRef,
+          settlementRef: payment.settlementRef,
+          fundsEarmarked: payment.fundsEarmarked.toString(),
+          fundsMoved: payment.fundsMoved.toString(),
+          fundsReleased: payment.fundsReleased.toString(),
+        })
+      )
+      .digest("hex"),
+
+  BECS: (payment) =>
+    createHash("sha256")
+      .update(
+        JSON.stringify({
+          paymentIntentId: payment.paymentIntentId,
+          state: payment.state,
+          amount: payment.amount.toString(),
+          currency: payment.currency,
+          idempotencyKey: payment.idempotencyKey,
+          fromAccountId: payment.fromAccountId,
+          toAccountId: payment.toAccountId,
+          bsb: payment.bsb,
+          accountNumber: payment.accountNumber,
+          batchId: payment.batchId,
+          batchDate: payment.batchDate,
+          fileReference: payment.fileReference,
+          returnCode: payment.returnCode,
+          returnReason: payment.returnReason,
+        })
+      )
+      .digest("hex"),
+
+  RTGS: (payment) =>
+    Buffer.from(
+      JSON.stringify({
+        paymentIntentId: payment.paymentIntentId,
+        state: payment.state,
+        amount: payment.amount.toString(),
+        fundsEarmarked: payment.fundsEarmarked.toString(),
+        fundsDebited: payment.fundsDebited.toString(),
+        fundsReleased: payment.fundsReleased.toString(),
+        // Only the fields approvals had when this hash was frozen
+        approvals: payment.approvals.map(({ approverId, approverRole, approvedAt }) => ({
+          approverId,
+          approverRole,
+          approvedAt,
+        })),
+        version: payment.version,
+      })
+    ).toString("base64"),
+
+  CARDS: (payment) =>
+    createHash("sha256")
+      .update(
+        JSON.stringify({
+          paymentIntentId: payment.paymentIntentId,
+          state: payment.state,
+          version: payment.version,
+          amount: payment.amount.toString(),
+          holdPlaced: payment.holdPlaced.toString(),
+          totalCaptured: payment.totalCaptured.toString(),
+          settledAmount: payment.settledAmount.toString(),
+          chargebackAmount: payment.chargebackAmount.toString(),
+        })
+      )
+      .digest("hex"),
+};
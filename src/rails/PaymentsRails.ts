@@ -0,0 +1,145 @@
+/**
+ * PaymentsRails - Rail-Agnostic Payment Facade
+ *
+ * Single entry point for orchestration code. Every operation is keyed on
+ * the `rail` from InitiatePaymentCommand (NPP | BECS | RTGS | CARDS) and
+ * routed to that rail's aggregate functions.
+ *
+ * RTGS approvals are only accepted when the facade is built with an
+ * approver registry; the default adapters refuse them.
+ *
+ * Usage:
+ * ```typescript
+ * const rails = new PaymentsRails(createRailAdapters(approverRegistry));
+ *
+ * const payment = rails.initiate("NPP", intentEvent);
+ * const updated = rails.apply("NPP", payment, authorisedEvent);
+ * const rebuilt = rails.rebuild(command.rail, events);
+ * const summary = rails.summarize(command.rail, rebuilt);
+ * ```
+ */
+
+import {
+  Rail,
+  RailPaymentMap,
+  RailEventMap,
+  RailIntentEvent,
+  RailEventRecord,
+  RailPaymentRecord,
+  isRail,
+} from "./Rail";
+import { RailAdapter, RailAdapters, PaymentSummary, RAIL_ADAPTERS } from "./RailAdapters";
+import { LEGACY_STATE_HASHES } from "./LegacyStateHashes";
+import {
+  HashAlgorithmId,
+  CURRENT_HASH_ALGORITHM,
+  LEGACY_HASH_ALGORITHM,
+  hashAlgorithmOf,
+} from "../domain/shared/CanonicalHash";
+
+export class PaymentsRails {
+  constructor(private readonly adapters: RailAdapters = RAIL_ADAPTERS) {}
+
+  /**
+   * Create a payment from its PaymentIntentCreated event
+   */
+  initiate<R extends Rail>(rail: R, event: RailIntentEvent<R>): RailPaymentMap[R] {
+    return this.adapter(rail).initiate(event);
+  }
+
+  /**
+   * Apply an event to a payment (rail invariants enforced)
+   */
+  apply<R extends Rail>(
+    rail: R,
+    payment: RailPaymentMap[R],
+    event: RailEventMap[R]
+  ): RailPaymentMap[R] {
+    return this.adapter(rail).apply(payment, event);
+  }
+
+  /**
+   * Rebuild a payment from its event stream (replay)
+   */
+  rebuild<R extends Rail>(rail: R, events: RailEventMap[R][]): RailPaymentMap[R] {
+    return this.adapter(rail).rebuild(events);
+  }
+
+  /**
+   * Rebuild a payment from rail-tagged records (e.g. an event store stream)
+   *
+   * @throws Error if the stream is empty or mixes rails
+   */
+  rebuildRecords(records: RailEventRecord[]): RailPaymentRecord {
+    if (records.length === 0) {
+      throw new Error("Cannot rebuild payment from empty event stream");
+    }
+
+    const rail = records[0].rail;
+    const events = records.map((record) => {
+      if (record.rail !== rail) {
+        throw new Error(`RAIL_MISMATCH: stream mixes ${rail} and ${record.rail} events`);
+      }
+      return record.event;
+    });
+
+    return { rail, payment: this.rebuild(rail, events) } as RailPaymentRecord;
+  }
+
+  /**
+   * Deterministic state hash (for replay verification)
+   *
+   * New hashes always use CURRENT_HASH_ALGORITHM. Older algorithms are
+   * only for recomputing hashes already on record (see verifyHash).
+   */
+  hash<R extends Rail>(
+    rail: R,
+    payment: RailPaymentMap[R],
+    algorithm: HashAlgorithmId = CURRENT_HASH_ALGORITHM
+  ): string {
+    const adapter = this.adapter(rail);
+    if (algorithm === LEGACY_HASH_ALGORITHM) {
+      return LEGACY_STATE_HASHES[rail](payment);
+    }
+    return adapter.hash(payment, algorithm);
+  }
+
+  /**
+   * Check a recorded state hash against a payment, using the algorithm
+   * the hash was produced with
+   *
+   * @throws UnsupportedHashAlgorithmError if the hash names an unknown algorithm
+   */
+  verifyHash<R extends Rail>(rail: R, payment: RailPaymentMap[R], hash: string): boolean {
+    return this.hash(rail, payment, hashAlgorithmOf(hash)) === hash;
+  }
+
+  /**
+   * Legal next states from a given state
+   */
+  allowedNextStates<R extends Rail>(
+    rail: R,
+    state: RailPaymentMap[R]["state"]
+  ): RailPaymentMap[R]["state"][] {
+    return this.adapter(rail).allowedNextStates(state);
+  }
+
+  /**
+   * Normalized, rail-agnostic view of a payment
+   */
+  summarize<R extends Rail>(rail: R, payment: RailPaymentMap[R]): PaymentSummary {
+    return this.adapter(rail).summarize(payment);
+  }
+
+  /**
+   * Get the adapter for a rail
+   *
+   * @throws Error if the rail is not supported
+   */
+  adapter<R extends Rail>(rail: R): RailAdapter<R> {
+    if (!isRail(rail)) {
+      throw new Error(`UNSUPPORTED_RAIL: ${rail}`);
+    }
+    return this.adapters[rail];
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Rail identifiers and per-rail type maps.
+ *
+ * `Rail` mirrors the `rail` enum of InitiatePaymentCommand in openapi.yaml.
+ * The maps let rail-agnostic code stay fully typed per rail without a
+ * four-way switch at every call site.
+ */
+
+import { NPPPayment } from "../domain/npp/NPPPayment";
+import { NPPPaymentEventUnion } from "../domain/npp/NPPPaymentEvent";
+import { BECSPayment } from "../domain/becs/BECSPayment";
+import { BECSPaymentEvent } from "../domain/becs/BECSPaymentEvent";
+import { RTGSPayment } from "../domain/rtgs/RTGSPayment";
+import { RTGSPaymentEvent } from "../domain/rtgs/RTGSPaymentEvent";
+import { CardsPayment } from "../domain/cards/CardsPayment";
+import { CardsPaymentEvent } from "../domain/cards/CardsPaymentEvent";
+
+/**
+ * Supported payment rails
+ */
+export const RAILS = ["NPP", "BECS", "RTGS", "CARDS"] as const;
+
+export type Rail = (typeof RAILS)[number];
+
+/**
+ * Check if a value is a supported rail
+ */
+export function isRail(value: unknown): value is Rail {
+  return typeof value === "string" && (RAILS as readonly string[]).includes(value);
+}
+
+/**
+ * Aggregate type per rail
+ */
+export interface RailPaymentMap {
+  NPP: NPPPayment;
+  BECS: BECSPayment;
+  RTGS: RTGSPayment;
+  CARDS: CardsPayment;
+}
+
+/**
+ * Domain event union per rail
+ */
+export interface RailEventMap {
+  NPP: NPPPaymentEventUnion;
+  BECS: BECSPaymentEvent;
+  RTGS: RTGSPaymentEvent;
+  CARDS: CardsPaymentEvent;
+}
+
+/**
+ * Initial (PaymentIntentCreated) event per rail
+ */
+export type RailIntentEvent<R extends Rail> = Extract<
+  RailEventMap[R],
+  { type: "PaymentIntentCreated" }
+>;
+
+/**
+ * Event tagged with its rail, as persisted in a payment's event stream
+ */
+export type RailEventRecord = {
+  [R in Rail]: { rail: R; event: RailEventMap[R] };
+}[Rail];
+
+/**
+ * Aggregate tagged with its rail
+ */
+export type RailPaymentRecord = {
+  [R in Rail]: { rail: R; payment: RailPaymentMap[R] };
+}[Rail];
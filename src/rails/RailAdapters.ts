@@ -0,0 +1,260 @@
+/**
+ * Rail Adapters - One Shape For Four Aggregates
+ *
+ * Each rail keeps its own aggregate, events and invariants. An adapter
+ * wraps a rail's public functions behind a common interface so the
+ * PaymentsRails facade can dispatch on `rail` alone.
+ *
+ * Adapters add no behaviour: every call goes straight to the rail's
+ * own create/apply/rebuild/hash functions and transition matrix.
+ *
+ * The RTGS adapter checks approvals against the approver registry it is
+ * built with (createRailAdapters), and creates payments under the
+ * institution's approval policy. The default RTGS_ADAPTER has no registry,
+ * so it refuses every ApprovalGranted, and uses the default policy.
+ *
+ * The BECS adapter accepts a new PaymentReturned only inside its return
+ * window (returnBECSPayment); replay does not check windows. Its summary
+ * reports a SETTLED payment as terminal once every window has closed.
+ */
+
+import { Rail, RailPaymentMap, RailEventMap, RailIntentEvent } from "./Rail";
+import {
+  createNPPPayment,
+  applyEvent,
+  rebuildFromEvents,
+  getNPPPaymentHash,
+} from "../domain/npp/NPPPayment";
+import { isTerminalState as isNPPTerminalState } from "../domain/npp/NPPPaymentState";
+import { getNPPLegalNextStates } from "../domain/npp/NPPStateTransitions";
+import {
+  createBECSPayment,
+  applyBECSEvent,
+  rebuildBECSFromEvents,
+  computeBECSStateHash,
+  isBECSPaymentTerminal,
+  returnBECSPayment,
+} from "../domain/becs/BECSPayment";
+import { BECSPaymentState } from "../domain/becs/BECSPaymentState";
+import { getBECSLegalNextStates } from "../domain/becs/BECSStateTransitions";
+import {
+  BECSReturnWindowPolicy,
+  DEFAULT_BECS_RETURN_WINDOW_POLICY,
+  isBECSSettlementFinal,
+} from "../domain/becs/BECSReturnWindow";
+import {
+  createRTGSPayment,
+  applyRTGSEvent,
+  rebuildRTGSFromEvents,
+  getRTGSPaymentHash,
+} from "../domain/rtgs/RTGSPayment";
+import { RTGSPaymentState } from "../domain/rtgs/RTGSPaymentState";
+import { RTGSApproverRegistry } from "../domain/rtgs/RTGSApproverRegistry";
+import {
+  DEFAULT_RTGS_APPROVAL_POLICY,
+  RTGSApprovalPolicy,
+} from "../domain/rtgs/RTGSApprovalPolicy";
+import {
+  getAllowedNextStates as getRTGSAllowedNextStates,
+  isTerminalState as isRTGSTerminalState,
+} from "../domain/rtgs/RTGSStateTransitions";
+import {
+  createCardsPayment,
+  applyCardsEvent,
+  rebuildCardsFromEvents,
+  getCardsPaymentHash,
+} from "../domain/cards/CardsPayment";
+import { CardsPaymentState } from "../domain/cards/CardsPaymentState";
+import { CARDS_ALLOWED_TRANSITIONS } from "../domain/cards/CardsStateTransitions";
+import { CanonicalHashAlgorithm } from "../domain/shared/CanonicalHash";
+
+/**
+ * Normalized, rail-agnostic view of a payment
+ */
+export interface PaymentSummary {
+  readonly rail: Rail;
+  readonly paymentIntentId: string;
+  readonly state: string;
+  readonly amount: bigint;
+  readonly currency: string;
+  readonly terminal: boolean;
+  readonly allowedNextStates: string[];
+  readonly createdAt: Date;
+  readonly settledAt?: Date;
+  readonly failedAt?: Date;
+}
+
+/**
+ * Common adapter interface implemented once per rail
+ */
+export interface RailAdapter<R extends Rail> {
+  readonly rail: R;
+  initiate(event: RailIntentEvent<R>): RailPaymentMap[R];
+  apply(payment: RailPaymentMap[R], event: RailEventMap[R]): RailPaymentMap[R];
+  rebuild(events: RailEventMap[R][]): RailPaymentMap[R];
+  hash(payment: RailPaymentMap[R], algorithm?: CanonicalHashAlgorithm): string;
+  allowedNextStates(state: RailPaymentMap[R]["state"]): RailPaymentMap[R]["state"][];
+  summarize(payment: RailPaymentMap[R]): PaymentSummary;
+}
+
+export type RailAdapters = { [R in Rail]: RailAdapter<R> };
+
+export const NPP_ADAPTER: RailAdapter<"NPP"> = {
+  rail: "NPP",
+  initiate: createNPPPayment,
+  apply: applyEvent,
+  rebuild: rebuildFromEvents,
+  hash: getNPPPaymentHash,
+  allowedNextStates: getNPPLegalNextStates,
+  summarize: (payment) => ({
+    rail: "NPP",
+    paymentIntentId: payment.paymentIntentId,
+    state: payment.state,
+    amount: payment.amount,
+    currency: payment.currency,
+    terminal: isNPPTerminalState(payment.state),
+    allowedNextStates: getNPPLegalNextStates(payment.state),
+    createdAt: payment.createdAt,
+    settledAt: payment.settledAt,
+    failedAt: payment.failedAt ?? payment.expiredAt,
+  }),
+};
+
+const SYDNEY_DATE = new Intl.DateTimeFormat("en-CA", { timeZone: "Australia/Sydney" });
+
+/**
+ * BECS adapter checking returns against the institution's return windows
+ *
+ * @param returnWindowPolicy - Return windows and business days
+ * @param today - Local date (YYYY-MM-DD) summaries judge finality on
+ * (default: today in Sydney)
+ */
+export function createBECSAdapter(
+  returnWindowPolicy: BECSReturnWindowPolicy = DEFAULT_BECS_RETURN_WINDOW_POLICY,
+  today: () => string = () => SYDNEY_DATE.format(new Date())
+): RailAdapter<"BECS"> {
+  return {
+    rail: "BECS",
+    initiate: createBECSPayment,
+    apply: (payment, event) =>
+      event.type === "PaymentReturned"
+        ? returnBECSPayment(payment, event, returnWindowPolicy)
+        : applyBECSEvent(payment, event),
+    rebuild: rebuildBECSFromEvents,
+    hash: computeBECSStateHash,
+    allowedNextStates: getBECSLegalNextStates,
+    summarize: (payment) => {
+      const final = isBECSSettlementFinal(payment, today(), returnWindowPolicy);
+      return {
+        rail: "BECS",
+        paymentIntentId: payment.paymentIntentId,
+        state: payment.state,
+        amount: payment.amount,
+        currency: payment.currency,
+        terminal: final || isBECSPaymentTerminal(payment),
+        allowedNextStates: final ? [] : getBECSLegalNextStates(payment.state),
+        createdAt: payment.createdAt,
+        settledAt:
+          payment.state === BECSPaymentState.SETTLED ? payment.updatedAt : undefined,
+        failedAt:
+          payment.state === BECSPaymentState.FAILED ||
+          payment.state === BECSPaymentState.RETURNED ||
+          payment.state === BECSPaymentState.EXPIRED
+            ? payment.updatedAt
+            : undefined,
+      };
+    },
+  };
+}
+
+export const BECS_ADAPTER: RailAdapter<"BECS"> = createBECSAdapter();
+
+/**
+ * RTGS adapter checking approvals against an approver registry
+ *
+ * @param approvers - Registry every ApprovalGranted is checked against;
+ * without one, approvals are refused
+ * @param policy - Institution approval policy payments are created under
+ */
+export function createRTGSAdapter(
+  approvers?: RTGSApproverRegistry,
+  policy: RTGSApprovalPolicy = DEFAULT_RTGS_APPROVAL_POLICY
+): RailAdapter<"RTGS"> {
+  return {
+    rail: "RTGS",
+    initiate: (event) => createRTGSPayment(event, policy),
+    apply: (payment, event) => applyRTGSEvent(payment, event, approvers),
+    rebuild: (events) => rebuildRTGSFromEvents(events, approvers, policy),
+    hash: getRTGSPaymentHash,
+    allowedNextStates: getRTGSAllowedNextStates,
+    summarize: (payment) => ({
+      rail: "RTGS",
+      paymentIntentId: payment.paymentIntentId,
+      state: payment.state,
+      amount: payment.amount,
+      currency: payment.currency,
+      terminal: isRTGSTerminalState(payment.state),
+      allowedNextStates: getRTGSAllowedNextStates(payment.state),
+      createdAt: payment.createdAt,
+      settledAt: payment.settledAt,
+      failedAt:
+        payment.state === RTGSPaymentState.REJECTED
+          ? payment.rejectedAt
+          : payment.failedAt,
+    }),
+  };
+}
+
+export const RTGS_ADAPTER: RailAdapter<"RTGS"> = createRTGSAdapter();
+
+export const CARDS_ADAPTER: RailAdapter<"CARDS"> = {
+  rail: "CARDS",
+  initiate: createCardsPayment,
+  apply: applyCardsEvent,
+  rebuild: rebuildCardsFromEvents,
+  hash: getCardsPaymentHash,
+  allowedNextStates: (state) => CARDS_ALLOWED_TRANSITIONS[state],
+  summarize: (payment) => ({
+    rail: "CARDS",
+    paymentIntentId: payment.paymentIntentId,
+    state: payment.state,
+    amount: payment.amount,
+    currency: payment.currency,
+    terminal: CARDS_ALLOWED_TRANSITIONS[payment.state].length === 0,
+    allowedNextStates: CARDS_ALLOWED_TRANSITIONS[payment.state],
+    createdAt: payment.createdAt,
+    settledAt: payment.settledAt ?? undefined,
+    failedAt:
+      payment.state === CardsPaymentState.DECLINED
+        ? payment.declinedAt ?? undefined
+        : payment.failedAt ?? payment.expiredAt ?? payment.writtenOffAt ?? undefined,
+  }),
+};
+
+/**
+ * Default adapter registry (RTGS approvals refused, see createRailAdapters)
+ */
+export const RAIL_ADAPTERS: RailAdapters = {
+  NPP: NPP_ADAPTER,
+  BECS: BECS_ADAPTER,
+  RTGS: RTGS_ADAPTER,
+  CARDS: CARDS_ADAPTER,
+};
+
+/**
+ * Adapter registry with RTGS approvals checked against an approver registry
+ *
+ * @param policy - Institution RTGS approval policy (default DEFAULT_RTGS_APPROVAL_POLICY)
+ * @param returnWindowPolicy - Institution BECS return windows (default DEFAULT_BECS_RETURN_WINDOW_POLICY)
+ */
+export function createRailAdapters(
+  approvers: RTGSApproverRegistry,
+  policy?: RTGSApprovalPolicy,
+  returnWindowPolicy?: BECSReturnWindowPolicy
+): RailAdapters {
+  return {
+    ...RAIL_ADAPTERS,
+    BECS: returnWindowPolicy ? createBECSAdapter(returnWindowPolicy) : BECS_ADAPTER,
+    RTGS: createRTGSAdapter(approvers, policy),
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * Payments Rails Facade - Public API
+ *
+ * Rail-agnostic entry point over the NPP, BECS, RTGS and Cards aggregates.
+ */
+
+export * from "./Rail";
+export * from "./RailAdapters";
+export * from "./PaymentsRails";
@@ -0,0 +1,265 @@
+/**
+ * RTGS approval expiry sweeper.
+ *
+ * Scans RTGS payments waiting on approval (PENDING_APPROVAL) or waiting to
+ * be sent (APPROVED) and expires any whose approval window has lapsed:
+ * - ApprovalExpired: approvals are discarded into the approval history and
+ *   the payment goes back to CREATED for a fresh round (reRequestRTGSApproval)
+ * - PaymentFailed APPROVAL_EXPIRED: once maxApprovalRounds rounds have lapsed
+ *
+ * Events are appended at the version the sweeper read, so a payment that
+ * was approved or sent in the meantime is left alone (VersionConflictError
+ * is counted, not thrown) and looked at again on the next sweep.
+ *
+ * Each stream is swept on its own: a stream that cannot be replayed or
+ * expired (or whose envelope cannot be emitted) is counted in `errors` and
+ * logged, and the sweep carries on with the rest. A stream that cannot be
+ * replayed is retried once it changes; a lapsed approval that cannot be
+ * expired is retried every sweep.
+ *
+ * The sweeper keeps an in-memory index of RTGS payments and their approval
+ * deadlines, so a sweep only lists stream IDs and reads:
+ * - streams it has not seen (the first sweep after start reads them all)
+ * - payments awaiting approval whose deadline has passed
+ * - other RTGS payments whose stream version has changed
+ * Other rails' streams and terminal RTGS payments are never read again.
+ *
+ * Usage:
+ * ```typescript
+ * const sweeper = new RTGSApprovalExpirySweeper(eventStore, { approvers });
+ * sweeper.start();              // sweep every pollIntervalMs
+ * await sweeper.sweep();        // or drive it manually (tests, cron)
+ * ```
+ */
+
+import { randomUUID } from 'crypto';
+import { EventStore, VersionConflictError } from '../store/EventStore';
+import { isOutboxEventStore } from '../outbox/Outbox';
+import { PaymentsRails } from '../rails/PaymentsRails';
+import { createRailAdapters } from '../rails/RailAdapters';
+import { RailEventRecord } from '../rails/Rail';
+import { mapDomainEvent } from '../emit/envelopeMapper';
+import { emitEvent } from '../emit/emit_event';
+import {
+  DEFAULT_RTGS_MAX_APPROVAL_ROUNDS,
+  expireRTGSApproval,
+  isRTGSApprovalExpired,
+  RTGSPayment,
+} from '../domain/rtgs/RTGSPayment';
+import { RTGSPaymentState } from '../domain/rtgs/RTGSPaymentState';
+import { isTerminalState } from '../domain/rtgs/RTGSStateTransitions';
+import { RTGSApproverRegistry } from '../domain/rtgs/RTGSApproverRegistry';
+import { RTGSApprovalPolicy } from '../domain/rtgs/RTGSApprovalPolicy';
+
+export interface RTGSApprovalExpirySweeperOptions {
+  /** Registry approvals are re-checked against when payments are replayed */
+  approvers: RTGSApproverRegistry;
+  /** Institution approval policy payments were created under (default DEFAULT_RTGS_APPROVAL_POLICY) */
+  approvalPolicy?: RTGSApprovalPolicy;
+  /** Approval rounds before an expiry fails the payment (default DEFAULT_RTGS_MAX_APPROVAL_ROUNDS) */
+  maxApprovalRounds?: number;
+  /** Polling interval for start() (default 60000ms) */
+  pollIntervalMs?: number;
+  /** Facade used to replay payments (default: checks RTGS approvals against approvers) */
+  rails?: PaymentsRails;
+  /** Clock (injectable for tests) */
+  now?: () => Date;
+}
+
+export interface SweepResult {
+  /** RTGS payments read and replayed */
+  scanned: number;
+  /** Payments sent back for re-approval */
+  expired: number;
+  /** Payments failed with APPROVAL_EXPIRED */
+  failed: number;
+  /** Payments that moved on while being swept */
+  conflicts: number;
+  /** Streams that could not be swept (logged and retried) */
+  errors: number;
+}
+
+/**
+ * What the sweeper knows about an RTGS stream it has read
+ */
+interface TrackedPayment {
+  /** Stream version when last read */
+  version: number;
+  /** Approval deadline, while the payment is awaiting or holding an approval */
+  approvalExpiresAt?: Date;
+}
+
+export class RTGSApprovalExpirySweeper {
+  private readonly maxApprovalRounds: number;
+  private readonly pollIntervalMs: number;
+  private readonly rails: PaymentsRails;
+  private readonly now: () => Date;
+  private readonly tracked = new Map<string, TrackedPayment>();
+  private readonly ignored = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<SweepResult> | null = null;
+
+  /**
+   * @param eventStore - Payment streams (rail-tagged records)
+   * @param options - Approver registry, plus round limit, polling and clock options
+   */
+  constructor(
+    private readonly eventStore: EventStore<RailEventRecord>,
+    options: RTGSApprovalExpirySweeperOptions,
+  ) {
+    this.maxApprovalRounds = options.maxApprovalRounds ?? DEFAULT_RTGS_MAX_APPROVAL_ROUNDS;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60 * 1000;
+    this.rails = options.rails ?? new PaymentsRails(createRailAdapters(options.approvers, options.approvalPolicy));
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Expire every lapsed RTGS approval once.
+   *
+   * Concurrent calls share the in-flight sweep.
+   *
+   * @returns Counts of what happened in this pass
+   */
+  sweep(): Promise<SweepResult> {
+    if (!this.sweeping) {
+      this.sweeping = this.sweepOnce().finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  /**
+   * Start sweeping on a timer.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.sweep().catch((error: Error) => {
+        console.error('[RTGSApprovalExpirySweeper] sweep failed:', error.message);
+      });
+    }, this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop sweeping and wait for an in-flight sweep to finish.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.sweeping;
+  }
+
+  private async sweepOnce(): Promise<SweepResult> {
+    const result: SweepResult = { scanned: 0, expired: 0, failed: 0, conflicts: 0, errors: 0 };
+    // Envelopes from one sweep share a correlation ID
+    const correlation_id = randomUUID();
+
+    for (const streamId of await this.eventStore.listStreams()) {
+      try {
+        if (await this.isDue(streamId)) {
+          await this.sweepStream(streamId, correlation_id, result);
+        }
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          // Moved on since it was read: read it afresh next sweep
+          this.tracked.delete(streamId);
+          result.conflicts++;
+          continue;
+        }
+        result.errors++;
+        console.error(`[RTGSApprovalExpirySweeper] cannot sweep ${streamId}:`, (error as Error).message);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether a stream needs reading this sweep
+   */
+  private async isDue(streamId: string): Promise<boolean> {
+    if (this.ignored.has(streamId)) {
+      return false;
+    }
+    const tracked = this.tracked.get(streamId);
+    if (!tracked) {
+      return true;
+    }
+    if (tracked.approvalExpiresAt) {
+      return this.now() > tracked.approvalExpiresAt;
+    }
+    return (await this.eventStore.streamVersion(streamId)) !== tracked.version;
+  }
+
+  private async sweepStream(streamId: string, correlation_id: string, result: SweepResult): Promise<void> {
+    const stored = await this.eventStore.readStream(streamId);
+    if (stored.length === 0) {
+      return;
+    }
+    if (stored[0].event.rail !== 'RTGS') {
+      this.ignored.add(streamId);
+      return;
+    }
+    result.scanned++;
+
+    // Recorded before replaying, so a stream that cannot be replayed is
+    // only retried once it changes
+    const version = stored[stored.length - 1].version;
+    this.tracked.set(streamId, { version });
+
+    const loaded = this.rails.rebuildRecords(stored.map((s) => s.event));
+    if (loaded.rail !== 'RTGS') {
+      return;
+    }
+    const payment = loaded.payment;
+    // A lapsed approval that cannot be expired stays due, and is retried next sweep
+    this.track(streamId, version, payment);
+    const now = this.now();
+    if (!isRTGSApprovalExpired(payment, now)) {
+      return;
+    }
+
+    const event = expireRTGSApproval(payment, now, this.maxApprovalRounds);
+    const envelopes = mapDomainEvent('RTGS', event, { payment, correlation_id });
+
+    if (isOutboxEventStore(this.eventStore)) {
+      const appended = await this.eventStore.appendWithOutbox(streamId, version, [{ rail: 'RTGS', event }], envelopes);
+      this.track(streamId, appended, this.rails.apply('RTGS', payment, event));
+    } else {
+      const appended = await this.eventStore.append(streamId, version, [{ rail: 'RTGS', event }]);
+      this.track(streamId, appended, this.rails.apply('RTGS', payment, event));
+      for (const envelope of envelopes) {
+        await emitEvent(envelope);
+      }
+    }
+
+    if (event.type === 'ApprovalExpired') {
+      result.expired++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  /**
+   * Index a payment by its approval deadline, or by stream version
+   */
+  private track(streamId: string, version: number, payment: RTGSPayment): void {
+    if (isTerminalState(payment.state)) {
+      this.tracked.delete(streamId);
+      this.ignored.add(streamId);
+      return;
+    }
+    const awaitingApproval =
+      payment.state === RTGSPaymentState.PENDING_APPROVAL || payment.state === RTGSPaymentState.APPROVED;
+    this.tracked.set(streamId, {
+      version,
+      approvalExpiresAt: awaitingApproval ? payment.approvalExpiresAt : undefined,
+    });
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Schedulers - Public API
+ *
+ * Timed components that turn the passage of time into domain events.
+ */
+
+export * from './RTGSApprovalExpirySweeper';
@@ -0,0 +1,223 @@
+/**
+ * HTTP command server for openapi.yaml.
+ * 
+ * Routes:
+ * - POST /commands/payments/initiate → InitiatePaymentHandler
+ * - POST /commands/payments/retry    → RetryPaymentHandler
+ * - POST /commands/payments/cancel   → CancelPaymentHandler
+ * - GET  /health                     → liveness probe
+ * 
+ * Bodies are validated against the openapi.yaml component schemas before
+ * dispatch (400 + ErrorResponse on failure; 413 for a body over
+ * MAX_BODY_BYTES). A valid command always gets
+ * 202 + { status: "accepted", command_id }: the outcome is communicated by
+ * events (PaymentInitiated, CommandRejected, ...), not by the HTTP status.
+ * 
+ * Built on node:http only - no framework, no external services.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CommandHandler, Command } from '../command/CommandHandler';
+import { PaymentCommandHandlerDependencies } from '../command/PaymentCommandHandler';
+import { InitiatePaymentHandler } from '../command/InitiatePaymentHandler';
+import { RetryPaymentHandler } from '../command/RetryPaymentHandler';
+import { CancelPaymentHandler } from '../command/CancelPaymentHandler';
+import {
+  CommandSchemaName,
+  CommandValidationError,
+  validateCommand,
+} from '../command/validateCommand';
+
+/**
+ * Maximum accepted request body size (bytes)
+ */
+export const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Raised by readBody once a body passes MAX_BODY_BYTES
+ */
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface CommandRoute {
+  schemaName: CommandSchemaName;
+  commandType: string;
+  handler: CommandHandler<Command>;
+}
+
+export class CommandServer {
+  readonly server: http.Server;
+  private routes: Map<string, CommandRoute>;
+
+  /**
+   * @param deps - Dependencies shared by the three payment command handlers
+   */
+  constructor(deps: PaymentCommandHandlerDependencies) {
+    this.routes = new Map<string, CommandRoute>([
+      [
+        '/commands/payments/initiate',
+        {
+          schemaName: 'InitiatePaymentCommand',
+          commandType: 'InitiatePayment',
+          handler: new InitiatePaymentHandler(deps) as CommandHandler<Command>,
+        },
+      ],
+      [
+        '/commands/payments/retry',
+        {
+          schemaName: 'RetryPaymentCommand',
+          commandType: 'RetryPayment',
+          handler: new RetryPaymentHandler(deps) as CommandHandler<Command>,
+        },
+      ],
+      [
+        '/commands/payments/cancel',
+        {
+          schemaName: 'CancelPaymentCommand',
+          commandType: 'CancelPayment',
+          handler: new CancelPaymentHandler(deps) as CommandHandler<Command>,
+        },
+      ],
+    ]);
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error: Error) => {
+        sendJson(res, 500, { error: 'Internal server error', details: { message: error.message } });
+      });
+    });
+  }
+
+  /**
+   * Start listening.
+   * 
+   * @param port - TCP port (0 picks a free port)
+   * @param host - Bind address
+   * @returns The bound port
+   */
+  listen(port: number, host = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve((this.server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * Stop accepting connections and wait for open ones to finish.
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url ?? '/').split('?')[0];
+
+    if (path === '/health') {
+      if (req.method !== 'GET') {
+        sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+        return;
+      }
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    const route = this.routes.get(path);
+    if (!route) {
+      sendJson(res, 404, { error: `No route for ${path}` });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        // The rest of the body is never read: close the connection after replying
+        sendJson(res, 413, { error: error.message, details: { max_bytes: MAX_BODY_BYTES } }, { connection: 'close' });
+        return;
+      }
+      sendJson(res, 400, { error: 'Request body must be valid JSON', details: { message: (error as Error).message } });
+      return;
+    }
+
+    try {
+      validateCommand(route.schemaName, body);
+    } catch (error) {
+      if (error instanceof CommandValidationError) {
+        sendJson(res, 400, { error: error.message, details: { errors: error.errors } });
+        return;
+      }
+      throw error;
+    }
+
+    const correlationHeader = req.headers['x-correlation-id'];
+    if (correlationHeader !== undefined && !(typeof correlationHeader === 'string' && UUID_PATTERN.test(correlationHeader))) {
+      sendJson(res, 400, { error: 'x-correlation-id must be a UUID' });
+      return;
+    }
+
+    const command: Command = {
+      ...(body as Record<string, unknown>),
+      command_id: (body as { command_id: string }).command_id,
+      command_type: route.commandType,
+      correlation_id: correlationHeader,
+    };
+
+    // Rejections surface as CommandRejected events, not as HTTP errors
+    await route.handler.handle(command);
+
+    sendJson(res, 202, { status: 'accepted', command_id: command.command_id });
+  }
+}
+
+/**
+ * Read a request body as UTF-8, enforcing MAX_BODY_BYTES.
+ *
+ * @throws BodyTooLargeError once the body passes MAX_BODY_BYTES (reading stops,
+ * the request is left open so a response can still be written)
+ */
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData);
+        req.pause();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: http.OutgoingHttpHeaders = {},
+): void {
+  res.writeHead(status, { ...headers, 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
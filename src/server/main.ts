@@ -0,0 +1,104 @@
+/**
+ * Command server entry point.
+ * 
+ * Environment:
+ * - PORT           Listen port (default 8080)
+ * - HOST           Bind address (default 0.0.0.0)
+ * - EVENT_STORE_DB SQLite file for payment streams and processed command IDs
+ *                  (in-memory when unset)
+ * - IDEMPOTENCY_TTL_MS Retention for processed command IDs (default 7 days)
+ * - BSB_DIRECTORY_FILE Local copy of the AusPayNet BSB file BECS and RTGS
+ *                  destinations are checked against; when unset every BECS
+ *                  and RTGS payment is refused
+ * - RTGS_APPROVER_REGISTRY_FILE JSON file of RTGS approver registry events;
+ *                  when unset no one is entitled and every RTGS approval is refused
+ * - RTGS_APPROVAL_POLICY_FILE JSON RTGS approval policy for the institution
+ *                  (DEFAULT_RTGS_APPROVAL_POLICY when unset)
+ * 
+ * Emitted events are written to stdout as JSON lines until a real
+ * EventPublisher is wired in. Payment outcome envelopes go through the
+ * event store's outbox and are delivered by an OutboxRelay. Lapsed RTGS
+ * approvals are expired by an RTGSApprovalExpirySweeper.
+ */
+
+import { CommandServer } from './CommandServer';
+import { EventPublisher, setPublisher } from '../emit/emit_event';
+import { InMemoryEventStore } from '../store/InMemoryEventStore';
+import { SqliteEventStore } from '../store/SqliteEventStore';
+import { RailEventRecord } from '../rails/Rail';
+import { OutboxEventStore } from '../outbox/Outbox';
+import { OutboxRelay } from '../outbox/OutboxRelay';
+import { RTGSApprovalExpirySweeper } from '../scheduler/RTGSApprovalExpirySweeper';
+import {
+  CommandIdempotencyStore,
+  InMemoryCommandIdempotencyStore,
+} from '../command/CommandIdempotencyStore';
+import { SqliteCommandIdempotencyStore } from '../command/SqliteCommandIdempotencyStore';
+import { BSBDirectory, loadBSBDirectory } from '../bsb/BSBDirectory';
+import {
+  RTGSApproverRegistry,
+  createApproverRegistry,
+  loadApproverRegistry,
+} from '../domain/rtgs/RTGSApproverRegistry';
+import {
+  DEFAULT_RTGS_APPROVAL_POLICY,
+  loadRTGSApprovalPolicy,
+} from '../domain/rtgs/RTGSApprovalPolicy';
+
+const port = Number(process.env.PORT ?? 8080);
+const host = process.env.HOST ?? '0.0.0.0';
+
+const eventStore: OutboxEventStore<RailEventRecord> = process.env.EVENT_STORE_DB
+  ? new SqliteEventStore<RailEventRecord>({ filename: process.env.EVENT_STORE_DB })
+  : new InMemoryEventStore<RailEventRecord>();
+
+const ttlMs = process.env.IDEMPOTENCY_TTL_MS ? Number(process.env.IDEMPOTENCY_TTL_MS) : undefined;
+const idempotencyStore: CommandIdempotencyStore = process.env.EVENT_STORE_DB
+  ? new SqliteCommandIdempotencyStore({ filename: process.env.EVENT_STORE_DB, ttlMs })
+  : new InMemoryCommandIdempotencyStore({ ttlMs });
+
+let bsbDirectory: BSBDirectory;
+if (process.env.BSB_DIRECTORY_FILE) {
+  bsbDirectory = loadBSBDirectory(process.env.BSB_DIRECTORY_FILE);
+} else {
+  console.warn('BSB_DIRECTORY_FILE is not set: every BECS and RTGS payment will be refused');
+  bsbDirectory = new BSBDirectory([]);
+}
+
+let approvers: RTGSApproverRegistry;
+if (process.env.RTGS_APPROVER_REGISTRY_FILE) {
+  approvers = loadApproverRegistry(process.env.RTGS_APPROVER_REGISTRY_FILE);
+} else {
+  console.warn('RTGS_APPROVER_REGISTRY_FILE is not set: every RTGS approval will be refused');
+  approvers = createApproverRegistry('none');
+}
+
+const approvalPolicy = process.env.RTGS_APPROVAL_POLICY_FILE
+  ? loadRTGSApprovalPolicy(process.env.RTGS_APPROVAL_POLICY_FILE)
+  : DEFAULT_RTGS_APPROVAL_POLICY;
+
+const publisher: EventPublisher = {
+  async publish(event) {
+    process.stdout.write(`${JSON.stringify(event)}\n`);
+  },
+};
+setPublisher(publisher);
+
+const relay = new OutboxRelay(eventStore, publisher);
+relay.start();
+
+const approvalSweeper = new RTGSApprovalExpirySweeper(eventStore, { approvers, approvalPolicy });
+approvalSweeper.start();
+
+const server = new CommandServer({ eventStore, idempotencyStore, bsbDirectory, approvers, approvalPolicy });
+const boundPort = await server.listen(port, host);
+console.log(`turing-payments-rails command server listening on ${host}:${boundPort}`);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    server
+      .close()
+      .then(() => Promise.all([relay.stop(), approvalSweeper.stop()]))
+      .finally(() => process.exit(0));
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Event store contract for turing-payments-rails.
+ *
+ * Every rail aggregate is rebuilt from an ordered event stream
+ * (rebuildFromEvents, rebuildBECSFromEvents, rebuildRTGSFromEvents,
+ * rebuildCardsFromEvents). The event store is where those streams live.
+ *
+ * Philosophy:
+ * - Streams are append-only (no UPDATE, no DELETE)
+ * - One stream per payment (streamId = paymentIntentId)
+ * - Optimistic concurrency: every append declares the version it read
+ * - A stale writer gets VersionConflictError, never a forked stream
+ * - An operation that changes several aggregates appends to all of their
+ *   streams at once (appendAll), or to none
+ */
+
+/**
+ * Expected version for a stream that must not exist yet.
+ */
+export const NO_STREAM = 0;
+
+/**
+ * Event as persisted in a stream.
+ */
+export interface StoredEvent<E> {
+  stream_id: string;
+  /** 1-based position of the event in its stream */
+  version: number;
+  recorded_at: Date;
+  event: E;
+}
+
+/**
+ * Events for one stream in a multi-stream append.
+ */
+export interface StreamAppend<E> {
+  streamId: string;
+  /** Version the caller last read (NO_STREAM for a new stream) */
+  expectedVersion: number;
+  /** Events to append, in order */
+  events: E[];
+}
+
+/**
+ * Pluggable event store backend.
+ */
+export interface EventStore<E = unknown> {
+  /**
+   * Append events to a stream.
+   *
+   * @param streamId - Stream identifier (payment intent ID)
+   * @param expectedVersion - Version the caller last read (NO_STREAM for a new stream)
+   * @param events - Events to append, in order
+   * @returns New stream version
+   * @throws VersionConflictError if the stream is not at expectedVersion
+   */
+  append(streamId: string, expectedVersion: number, events: E[]): Promise<number>;
+
+  /**
+   * Append events to several streams, all or nothing.
+   *
+   * @param appends - One entry per stream
+   * @returns New stream versions, in the order of appends
+   * @throws VersionConflictError if any stream is not at its expectedVersion (nothing is appended)
+   */
+  appendAll(appends: StreamAppend<E>[]): Promise<number[]>;
+
+  /**
+   * Read a stream in order.
+   *
+   * @param streamId - Stream identifier
+   * @returns Stored events (empty if the stream does not exist)
+   */
+  readStream(streamId: string): Promise<StoredEvent<E>[]>;
+
+  /**
+   * Get the current version of a stream.
+   *
+   * @param streamId - Stream identifier
+   * @returns Stream version (NO_STREAM if the stream does not exist)
+   */
+  streamVersion(streamId: string): Promise<number>;
+
+  /**
+   * List every stream in the store (for sweepers and replay tooling).
+   *
+   * @returns Stream identifiers, sorted
+   */
+  listStreams(): Promise<string[]>;
+}
+
+/**
+ * Raised when a writer appends against a stale stream version.
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly streamId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number,
+  ) {
+    super(
+      `VERSION_CONFLICT: stream ${streamId} expected version ${expectedVersion}, actual ${actualVersion}`,
+    );
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Raised when a backend could not take its write lock in time because
+ * another writer held it. Nothing was appended; the append may be retried.
+ */
+export class StoreBusyError extends Error {
+  constructor(public readonly streamIds: string[]) {
+    super(`STORE_BUSY: event store is locked by another writer (streams ${streamIds.join(', ')})`);
+    this.name = 'StoreBusyError';
+  }
+}
+
+/**
+ * Validate append arguments shared by all backends.
+ *
+ * @param streamId - Stream identifier
+ * @param expectedVersion - Expected stream version
+ * @throws Error if arguments are invalid
+ */
+export function assertAppendArguments(streamId: string, expectedVersion: number): void {
+  if (!streamId) {
+    throw new Error('Event store streamId must be a non-empty string');
+  }
+
+  if (!Number.isInteger(expectedVersion) || expectedVersion < NO_STREAM) {
+    throw new Error(`Invalid expectedVersion ${expectedVersion} for stream ${streamId}`);
+  }
+}
+
+/**
+ * Validate multi-stream append arguments shared by all backends.
+ *
+ * @param appends - One entry per stream
+ * @throws Error if any entry is invalid or a stream appears twice
+ */
+export function assertAppendAllArguments<E>(appends: StreamAppend<E>[]): void {
+  const seen = new Set<string>();
+  for (const { streamId, expectedVersion } of appends) {
+    assertAppendArguments(streamId, expectedVersion);
+    if (seen.has(streamId)) {
+      throw new Error(`Stream ${streamId} appears more than once in one append`);
+    }
+    seen.add(streamId);
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * File-backed event store.
+ *
+ * One JSON Lines file per stream under a base directory. Each line is a
+ * StoredEvent encoded with eventCodec, so bigint amounts and Date
+ * timestamps replay exactly.
+ *
+ * Concurrency:
+ * - Appends take an exclusive lock file (`<stream>.lock`, O_EXCL) holding
+ *   the owner's pid and when it was taken
+ * - The version check and the write happen while holding the lock
+ * - Writers in other processes sharing the directory are serialised too
+ * - A lock is stale once its owner process has died or it is older than
+ *   lockTimeoutMs. Stale locks are broken by journal recovery (below), so a
+ *   writer that crashed does not block its streams forever
+ *
+ * Multi-stream appends (appendAll) cannot write several files atomically,
+ * so they roll forward from a journal:
+ * - Lock every stream (in sorted order) and check every version
+ * - Write all the events to `<uuid>.journal` (written to a temp file, then renamed)
+ * - Append to each stream file, then delete the journal
+ * A journal left by a writer that died is finished, under the same locks
+ * (broken as stale), before this store first reads or writes and whenever
+ * it meets a stale lock, so its streams end up with all of the events or
+ * (if it died before the rename) none.
+ *
+ * Does not implement the transactional outbox: a stream file and an
+ * outbox file cannot be written atomically. Use SqliteEventStore when
+ * events must reach the EventPublisher.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  EventStore,
+  StoredEvent,
+  StreamAppend,
+  VersionConflictError,
+  assertAppendAllArguments,
+  assertAppendArguments,
+} from './EventStore';
+import { encodeEvent, decodeEvent } from './eventCodec';
+
+export interface FileEventStoreOptions {
+  /** Directory holding one `.jsonl` file per stream */
+  directory: string;
+  /** How long to wait for another writer's lock, and the age at which a lock is stale (default 5000ms) */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * Contents of a lock file
+ */
+interface LockOwner {
+  pid: number;
+  /** ISO timestamp the lock was taken */
+  acquiredAt: string;
+}
+
+/**
+ * Raised by acquireLock when a lock's owner has died or held it too long
+ */
+class StaleLockError extends Error {
+  constructor(readonly lockPath: string) {
+    super(`Stale event store lock ${lockPath}`);
+    this.name = 'StaleLockError';
+  }
+}
+
+/**
+ * Encoded events for one stream of an appendAll
+ */
+interface JournalEntry {
+  streamId: string;
+  /** Stream version the events follow */
+  expectedVersion: number;
+  lines: string[];
+}
+
+const JOURNAL_SUFFIX = '.journal';
+const LOCK_SUFFIX = '.lock';
+
+export class FileEventStore<E = unknown> implements EventStore<E> {
+  private readonly directory: string;
+  private readonly lockTimeoutMs: number;
+  private recovery?: Promise<void>;
+
+  constructor(options: FileEventStoreOptions) {
+    this.directory = options.directory;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  async append(streamId: string, expectedVersion: number, events: E[]): Promise<number> {
+    assertAppendArguments(streamId, expectedVersion);
+
+    const release = await this.lockStreams([streamId]);
+    try {
+      const stream = this.readStreamSync(streamId);
+      if (stream.length !== expectedVersion) {
+        throw new VersionConflictError(streamId, expectedVersion, stream.length);
+      }
+
+      const recorded_at = new Date();
+      const lines = events
+        .map((event, i) =>
+          encodeEvent({
+            stream_id: streamId,
+            version: expectedVersion + i + 1,
+            recorded_at,
+            event,
+          }),
+        )
+        .map((line) => `${line}\n`)
+        .join('');
+
+      if (lines.length > 0) {
+        fs.appendFileSync(this.streamPath(streamId), lines, { flag: 'a' });
+      }
+
+      return expectedVersion + events.length;
+    } finally {
+      release();
+    }
+  }
+
+  async appendAll(appends: StreamAppend<E>[]): Promise<number[]> {
+    assertAppendAllArguments(appends);
+
+    const release = await this.lockStreams(appends.map((entry) => entry.streamId));
+    try {
+      for (const { streamId, expectedVersion } of appends) {
+        const actualVersion = this.readStreamSync(streamId).length;
+        if (actualVersion !== expectedVersion) {
+          throw new VersionConflictError(streamId, expectedVersion, actualVersion);
+        }
+      }
+
+      const recorded_at = new Date();
+      const journal: JournalEntry[] = appends.map(({ streamId, expectedVersion, events }) => ({
+        streamId,
+        expectedVersion,
+        lines: events.map((event, i) =>
+          encodeEvent({ stream_id: streamId, version: expectedVersion + i + 1, recorded_at, event }),
+        ),
+      }));
+      const journalPath = path.join(this.directory, `${randomUUID()}${JOURNAL_SUFFIX}`);
+      fs.writeFileSync(`${journalPath}.tmp`, JSON.stringify(journal));
+      fs.renameSync(`${journalPath}.tmp`, journalPath);
+
+      this.rollForward(journal);
+      fs.rmSync(journalPath);
+
+      return appends.map(({ expectedVersion, events }) => expectedVersion + events.length);
+    } finally {
+      release();
+    }
+  }
+
+  async readStream(streamId: string): Promise<StoredEvent<E>[]> {
+    await this.recovered();
+    return this.readStreamSync(streamId);
+  }
+
+  async streamVersion(streamId: string): Promise<number> {
+    await this.recovered();
+    return this.readStreamSync(streamId).length;
+  }
+
+  async listStreams(): Promise<string[]> {
+    await this.recovered();
+    return fs
+      .readdirSync(this.directory)
+      .filter((file) => file.endsWith('.jsonl'))
+      .map((file) => decodeURIComponent(file.slice(0, -'.jsonl'.length)))
+      .sort();
+  }
+
+  private readStreamSync(streamId: string): StoredEvent<E>[] {
+    const file = this.streamPath(streamId);
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+
+    return fs
+      .readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => decodeEvent<StoredEvent<E>>(line));
+  }
+
+  /**
+   * Append each journal entry's events its stream does not have yet.
+   *
+   * @throws Error if a stream has moved past or fallen short of the journal
+   */
+  private rollForward(journal: JournalEntry[]): void {
+    for (const { streamId, expectedVersion, lines } of journal) {
+      const written = this.readStreamSync(streamId).length - expectedVersion;
+      if (written < 0 || written > lines.length) {
+        throw new Error(
+          `Stream ${streamId} is at version ${expectedVersion + written}, outside journal versions ${expectedVersion}..${expectedVersion + lines.length}`,
+        );
+      }
+      const remaining = lines.slice(written).map((line) => `${line}\n`).join('');
+      if (remaining.length > 0) {
+        fs.appendFileSync(this.streamPath(streamId), remaining, { flag: 'a' });
+      }
+    }
+  }
+
+  /**
+   * Lock streams for a write, recovering first if a lock turns out stale.
+   *
+   * A stale lock may belong to a writer that died mid-appendAll, so its
+   * journal is finished before the streams are written again.
+   */
+  private async lockStreams(streamIds: string[]): Promise<() => void> {
+    for (;;) {
+      await this.recovered();
+      try {
+        return await this.acquireLocks(streamIds);
+      } catch (error) {
+        if (!(error instanceof StaleLockError)) {
+          throw error;
+        }
+        this.recovery = undefined;
+      }
+    }
+  }
+
+  /**
+   * Finish any appendAll interrupted by a crash and break stale locks
+   * (before first use, and again after meeting a stale lock).
+   *
+   * A live writer holds its streams' locks until it deletes its journal,
+   * so a journal still there once the locks are ours belongs to a writer
+   * that died. A failed recovery is retried on the next call.
+   */
+  private recovered(): Promise<void> {
+    this.recovery ??= this.recoverJournals().catch((error) => {
+      this.recovery = undefined;
+      throw error;
+    });
+    return this.recovery;
+  }
+
+  private async recoverJournals(): Promise<void> {
+    const journals = fs.readdirSync(this.directory).filter((file) => file.endsWith(JOURNAL_SUFFIX));
+    for (const file of journals) {
+      const journalPath = path.join(this.directory, file);
+      let journal: JournalEntry[];
+      try {
+        journal = JSON.parse(fs.readFileSync(journalPath, 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue; // Finished by its writer meanwhile
+        }
+        throw error;
+      }
+
+      const release = await this.acquireLocks(journal.map((entry) => entry.streamId), true);
+      try {
+        if (fs.existsSync(journalPath)) {
+          this.rollForward(journal);
+          fs.rmSync(journalPath);
+        }
+      } finally {
+        release();
+      }
+    }
+
+    // Every journal is finished, so what is left of a dead writer is its locks
+    for (const file of fs.readdirSync(this.directory).filter((name) => name.endsWith(LOCK_SUFFIX))) {
+      this.breakLockIfStale(path.join(this.directory, file));
+    }
+  }
+
+  private streamPath(streamId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(streamId)}.jsonl`);
+  }
+
+  /**
+   * Acquire several streams' locks, in sorted order so writers cannot deadlock.
+   *
+   * @returns Release function for all of them
+   */
+  private async acquireLocks(streamIds: string[], breakStale = false): Promise<() => void> {
+    const releases: Array<() => void> = [];
+    const releaseAll = () => releases.reverse().forEach((release) => release());
+    try {
+      for (const streamId of [...streamIds].sort()) {
+        releases.push(await this.acquireLock(streamId, breakStale));
+      }
+    } catch (error) {
+      releaseAll();
+      throw error;
+    }
+    return releaseAll;
+  }
+
+  /**
+   * Acquire the per-stream lock file.
+   *
+   * @param streamId - Stream identifier
+   * @param breakStale - Break a stale lock instead of raising StaleLockError
+   * @returns Release function
+   * @throws StaleLockError if the lock is stale and breakStale is not set
+   * @throws Error if the lock is not acquired within lockTimeoutMs
+   */
+  private async acquireLock(streamId: string, breakStale: boolean): Promise<() => void> {
+    const lockPath = `${this.streamPath(streamId)}${LOCK_SUFFIX}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    let delayMs = 5;
+
+    for (;;) {
+      try {
+        const fd = fs.openSync(lockPath, 'wx');
+        const owner: LockOwner = { pid: process.pid, acquiredAt: new Date().toISOString() };
+        fs.writeSync(fd, JSON.stringify(owner));
+        return () => {
+          fs.closeSync(fd);
+          fs.rmSync(lockPath, { force: true });
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        if (this.isLockStale(lockPath)) {
+          if (!breakStale) {
+            throw new StaleLockError(lockPath);
+          }
+          this.breakLockIfStale(lockPath);
+          continue;
+        }
+        if (Date.now() >= deadline) {
+          throw new Error(`Timed out waiting for event store lock on stream ${streamId}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        delayMs = Math.min(delayMs * 2, 100);
+      }
+    }
+  }
+
+  /**
+   * Whether a lock's owner has died or has held it longer than lockTimeoutMs.
+   * A lock whose owner is not written yet is aged by its file's mtime.
+   */
+  private isLockStale(lockPath: string): boolean {
+    let contents: string;
+    let modifiedAt: number;
+    try {
+      contents = fs.readFileSync(lockPath, 'utf-8');
+      modifiedAt = fs.statSync(lockPath).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false; // Released meanwhile
+      }
+      throw error;
+    }
+
+    let owner: Partial<LockOwner> = {};
+    try {
+      owner = JSON.parse(contents);
+    } catch {
+      // Owner not written yet (or never will be): fall back to the file's age
+    }
+    const acquiredAt = owner.acquiredAt ? Date.parse(owner.acquiredAt) : modifiedAt;
+    if (Date.now() - acquiredAt > this.lockTimeoutMs) {
+      return true;
+    }
+    return typeof owner.pid === 'number' && !isProcessAlive(owner.pid);
+  }
+
+  /**
+   * Remove a lock if it is (still) stale.
+   */
+  private breakLockIfStale(lockPath: string): void {
+    if (this.isLockStale(lockPath)) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Whether a process exists (signal 0 checks without signalling)
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
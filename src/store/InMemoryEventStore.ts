@@ -0,0 +1,178 @@
+/**
+ * In-memory event store.
+ *
+ * Process-local backend for tests, replay tooling and single-process
+ * simulations. Appends are synchronous under the hood, so concurrent
+ * writers inside one process still hit VersionConflictError.
+ *
+ * Implements the transactional outbox: events and envelopes are committed
+ * together or not at all, across every stream of an appendAll.
+ */
+
+import {
+  StoredEvent,
+  StreamAppend,
+  VersionConflictError,
+  assertAppendAllArguments,
+} from './EventStore';
+import {
+  OutboxEventStore,
+  OutboxFilter,
+  OutboxMessage,
+  OutboxMessageNotFoundError,
+  OutboxStreamAppend,
+} from '../outbox/Outbox';
+import { EventEnvelope } from '../emit/envelope';
+
+export class InMemoryEventStore<E = unknown> implements OutboxEventStore<E> {
+  private streams: Map<string, StoredEvent<E>[]> = new Map();
+  private outbox: OutboxMessage[] = [];
+
+  async append(streamId: string, expectedVersion: number, events: E[]): Promise<number> {
+    return this.appendWithOutbox(streamId, expectedVersion, events, []);
+  }
+
+  async appendAll(appends: StreamAppend<E>[]): Promise<number[]> {
+    return this.appendAllWithOutbox(appends.map((entry) => ({ ...entry, envelopes: [] })));
+  }
+
+  async appendWithOutbox(
+    streamId: string,
+    expectedVersion: number,
+    events: E[],
+    envelopes: EventEnvelope[],
+  ): Promise<number> {
+    const [version] = await this.appendAllWithOutbox([{ streamId, expectedVersion, events, envelopes }]);
+    return version;
+  }
+
+  async appendAllWithOutbox(appends: OutboxStreamAppend<E>[]): Promise<number[]> {
+    assertAppendAllArguments(appends);
+
+    // Check every stream before touching any
+    for (const { streamId, expectedVersion } of appends) {
+      const actualVersion = this.streams.get(streamId)?.length ?? 0;
+      if (actualVersion !== expectedVersion) {
+        throw new VersionConflictError(streamId, expectedVersion, actualVersion);
+      }
+    }
+
+    const recorded_at = new Date();
+    return appends.map(({ streamId, expectedVersion, events, envelopes }) => {
+      const appended = events.map((event, i) => ({
+        stream_id: streamId,
+        version: expectedVersion + i + 1,
+        recorded_at,
+        event,
+      }));
+
+      this.streams.set(streamId, [...(this.streams.get(streamId) ?? []), ...appended]);
+      for (const envelope of envelopes) {
+        this.outbox.push({
+          sequence: this.outbox.length + 1,
+          stream_id: streamId,
+          event_id: envelope.event_id,
+          event_type: envelope.event_type,
+          envelope,
+          status: 'PENDING',
+          attempts: 0,
+          next_attempt_at: recorded_at,
+          last_error: null,
+          created_at: recorded_at,
+          delivered_at: null,
+        });
+      }
+
+      return expectedVersion + events.length;
+    });
+  }
+
+  async readStream(streamId: string): Promise<StoredEvent<E>[]> {
+    return [...(this.streams.get(streamId) ?? [])];
+  }
+
+  async streamVersion(streamId: string): Promise<number> {
+    return this.streams.get(streamId)?.length ?? 0;
+  }
+
+  async listStreams(): Promise<string[]> {
+    return [...this.streams.keys()].sort();
+  }
+
+  async pendingMessages(limit: number, now: Date): Promise<OutboxMessage[]> {
+    const waiting = new Set<string>();
+    return this.outbox
+      .filter((message) => {
+        if (message.status !== 'PENDING') {
+          return false;
+        }
+        if (message.next_attempt_at > now) {
+          waiting.add(message.stream_id);
+        }
+        return !waiting.has(message.stream_id);
+      })
+      .slice(0, limit)
+      .map((message) => ({ ...message }));
+  }
+
+  async listMessages(filter: OutboxFilter = {}): Promise<OutboxMessage[]> {
+    return this.outbox
+      .filter(
+        (message) =>
+          (filter.status === undefined || message.status === filter.status) &&
+          (filter.streamId === undefined || message.stream_id === filter.streamId) &&
+          (filter.fromSequence === undefined || message.sequence >= filter.fromSequence),
+      )
+      .map((message) => ({ ...message }));
+  }
+
+  async markDelivered(sequence: number, deliveredAt: Date): Promise<void> {
+    this.updateMessage(sequence, { status: 'DELIVERED', delivered_at: deliveredAt });
+  }
+
+  async markAttemptFailed(sequence: number, error: string, nextAttemptAt: Date): Promise<void> {
+    const message = this.message(sequence);
+    this.updateMessage(sequence, {
+      attempts: message.attempts + 1,
+      last_error: error,
+      next_attempt_at: nextAttemptAt,
+    });
+  }
+
+  async markDeadLetter(sequence: number, error: string): Promise<void> {
+    const message = this.message(sequence);
+    this.updateMessage(sequence, {
+      status: 'DEAD_LETTER',
+      attempts: message.attempts + 1,
+      last_error: error,
+    });
+  }
+
+  async requeue(sequence: number, nextAttemptAt: Date): Promise<void> {
+    this.updateMessage(sequence, {
+      status: 'PENDING',
+      attempts: 0,
+      next_attempt_at: nextAttemptAt,
+    });
+  }
+
+  /**
+   * Clear all streams and the outbox (for testing).
+   */
+  clear(): void {
+    this.streams.clear();
+    this.outbox = [];
+  }
+
+  private message(sequence: number): OutboxMessage {
+    const message = this.outbox[sequence - 1];
+    if (!message) {
+      throw new OutboxMessageNotFoundError(sequence);
+    }
+    return message;
+  }
+
+  private updateMessage(sequence: number, changes: Partial<OutboxMessage>): void {
+    this.outbox[sequence - 1] = { ...this.message(sequence), ...changes };
+  }
+}
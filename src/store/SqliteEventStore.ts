@@ -0,0 +1,339 @@
+/**
+ * SQLite-backed event store.
+ *
+ * Uses the built-in `node:sqlite` module (Node >= 22), so no native
+ * dependency is required.
+ *
+ * Concurrency:
+ * - Appends run inside BEGIN IMMEDIATE, taking the write lock before
+ *   the version check
+ * - A writer waits up to busyTimeoutMs for another process's write lock,
+ *   then fails with StoreBusyError (retryable, nothing written)
+ * - PRIMARY KEY (stream_id, version) rejects a forked stream even if
+ *   two processes race past the check
+ *
+ * Implements the transactional outbox: envelopes go to the `outbox` table
+ * in the same transaction as their events. An appendAll writes every
+ * stream in one transaction.
+ */
+
+import type { DatabaseSync } from 'node:sqlite';
+import {
+  StoredEvent,
+  StoreBusyError,
+  StreamAppend,
+  VersionConflictError,
+  assertAppendAllArguments,
+} from './EventStore';
+import { encodeEvent, decodeEvent } from './eventCodec';
+import {
+  OutboxEventStore,
+  OutboxFilter,
+  OutboxMessage,
+  OutboxMessageNotFoundError,
+  OutboxStatus,
+  OutboxStreamAppend,
+} from '../outbox/Outbox';
+import { EventEnvelope } from '../emit/envelope';
+
+interface OutboxRow {
+  sequence: number;
+  stream_id: string;
+  event_id: string;
+  event_type: string;
+  envelope: string;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface SqliteEventStoreOptions {
+  /** Database file path (":memory:" for an in-process database) */
+  filename: string;
+  /** How long a write waits for another connection's lock (ms, default 5000) */
+  busyTimeoutMs?: number;
+}
+
+export class SqliteEventStore<E = unknown> implements OutboxEventStore<E> {
+  private readonly db: DatabaseSync;
+
+  constructor(options: SqliteEventStoreOptions) {
+    this.db = openSqliteDatabase(options.filename, options.busyTimeoutMs);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        stream_id   TEXT    NOT NULL,
+        version     INTEGER NOT NULL,
+        recorded_at TEXT    NOT NULL,
+        event       TEXT    NOT NULL,
+        PRIMARY KEY (stream_id, version)
+      );
+      CREATE TABLE IF NOT EXISTS outbox (
+        sequence        INTEGER PRIMARY KEY AUTOINCREMENT,
+        stream_id       TEXT    NOT NULL,
+        event_id        TEXT    NOT NULL UNIQUE,
+        event_type      TEXT    NOT NULL,
+        envelope        TEXT    NOT NULL,
+        status          TEXT    NOT NULL,
+        attempts        INTEGER NOT NULL,
+        next_attempt_at TEXT    NOT NULL,
+        last_error      TEXT,
+        created_at      TEXT    NOT NULL,
+        delivered_at    TEXT
+      );
+      CREATE INDEX IF NOT EXISTS outbox_status ON outbox (status, sequence);
+      CREATE INDEX IF NOT EXISTS outbox_stream ON outbox (stream_id, status, sequence);
+    `);
+  }
+
+  async append(streamId: string, expectedVersion: number, events: E[]): Promise<number> {
+    return this.appendWithOutbox(streamId, expectedVersion, events, []);
+  }
+
+  async appendAll(appends: StreamAppend<E>[]): Promise<number[]> {
+    return this.appendAllWithOutbox(appends.map((entry) => ({ ...entry, envelopes: [] })));
+  }
+
+  async appendWithOutbox(
+    streamId: string,
+    expectedVersion: number,
+    events: E[],
+    envelopes: EventEnvelope[],
+  ): Promise<number> {
+    const [version] = await this.appendAllWithOutbox([{ streamId, expectedVersion, events, envelopes }]);
+    return version;
+  }
+
+  async appendAllWithOutbox(appends: OutboxStreamAppend<E>[]): Promise<number[]> {
+    assertAppendAllArguments(appends);
+
+    try {
+      this.db.exec('BEGIN IMMEDIATE');
+    } catch (error) {
+      if (isBusy(error)) {
+        throw new StoreBusyError(appends.map((entry) => entry.streamId));
+      }
+      throw error;
+    }
+    // Stream being written, to report a primary key race against it
+    let current: OutboxStreamAppend<E> | undefined;
+    try {
+      const insert = this.db.prepare(
+        'INSERT INTO events (stream_id, version, recorded_at, event) VALUES (?, ?, ?, ?)',
+      );
+      const enqueue = this.db.prepare(
+        `INSERT INTO outbox (stream_id, event_id, event_type, envelope, status, attempts, next_attempt_at, created_at)
+         VALUES (?, ?, ?, ?, 'PENDING', 0, ?, ?)`,
+      );
+      const recorded_at = new Date().toISOString();
+
+      const versions = appends.map((entry) => {
+        current = entry;
+        const { streamId, expectedVersion, events, envelopes } = entry;
+        const actualVersion = this.currentVersion(streamId);
+        if (actualVersion !== expectedVersion) {
+          throw new VersionConflictError(streamId, expectedVersion, actualVersion);
+        }
+
+        events.forEach((event, i) => {
+          insert.run(streamId, expectedVersion + i + 1, recorded_at, encodeEvent(event));
+        });
+        for (const envelope of envelopes) {
+          enqueue.run(
+            streamId,
+            envelope.event_id,
+            envelope.event_type,
+            encodeEvent(envelope),
+            recorded_at,
+            recorded_at,
+          );
+        }
+        return expectedVersion + events.length;
+      });
+
+      this.db.exec('COMMIT');
+      return versions;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      if (isBusy(error)) {
+        throw new StoreBusyError(appends.map((entry) => entry.streamId));
+      }
+      if (current && isPrimaryKeyViolation(error)) {
+        throw new VersionConflictError(
+          current.streamId,
+          current.expectedVersion,
+          this.currentVersion(current.streamId),
+        );
+      }
+      throw error;
+    }
+  }
+
+  async readStream(streamId: string): Promise<StoredEvent<E>[]> {
+    const rows = this.db
+      .prepare(
+        'SELECT stream_id, version, recorded_at, event FROM events WHERE stream_id = ? ORDER BY version',
+      )
+      .all(streamId) as Array<{
+      stream_id: string;
+      version: number;
+      recorded_at: string;
+      event: string;
+    }>;
+
+    return rows.map((row) => ({
+      stream_id: row.stream_id,
+      version: Number(row.version),
+      recorded_at: new Date(row.recorded_at),
+      event: decodeEvent<E>(row.event),
+    }));
+  }
+
+  async streamVersion(streamId: string): Promise<number> {
+    return this.currentVersion(streamId);
+  }
+
+  async listStreams(): Promise<string[]> {
+    const rows = this.db
+      .prepare('SELECT DISTINCT stream_id FROM events ORDER BY stream_id')
+      .all() as Array<{ stream_id: string }>;
+    return rows.map((row) => row.stream_id);
+  }
+
+  async pendingMessages(limit: number, now: Date): Promise<OutboxMessage[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM outbox AS message
+         WHERE status = 'PENDING'
+           AND NOT EXISTS (
+             SELECT 1 FROM outbox AS waiting
+             WHERE waiting.stream_id = message.stream_id
+               AND waiting.status = 'PENDING'
+               AND waiting.sequence <= message.sequence
+               AND waiting.next_attempt_at > ?1
+           )
+         ORDER BY sequence
+         LIMIT ?2`,
+      )
+      .all(now.toISOString(), limit) as unknown as OutboxRow[];
+    return rows.map(toOutboxMessage);
+  }
+
+  async listMessages(filter: OutboxFilter = {}): Promise<OutboxMessage[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM outbox
+         WHERE (?1 IS NULL OR status = ?1)
+           AND (?2 IS NULL OR stream_id = ?2)
+           AND (?3 IS NULL OR sequence >= ?3)
+         ORDER BY sequence`,
+      )
+      .all(filter.status ?? null, filter.streamId ?? null, filter.fromSequence ?? null) as unknown as OutboxRow[];
+    return rows.map(toOutboxMessage);
+  }
+
+  async markDelivered(sequence: number, deliveredAt: Date): Promise<void> {
+    this.updateMessage(
+      sequence,
+      "UPDATE outbox SET status = 'DELIVERED', delivered_at = ? WHERE sequence = ?",
+      deliveredAt.toISOString(),
+    );
+  }
+
+  async markAttemptFailed(sequence: number, error: string, nextAttemptAt: Date): Promise<void> {
+    this.updateMessage(
+      sequence,
+      'UPDATE outbox SET attempts = attempts + 1, last_error = ?, next_attempt_at = ? WHERE sequence = ?',
+      error,
+      nextAttemptAt.toISOString(),
+    );
+  }
+
+  async markDeadLetter(sequence: number, error: string): Promise<void> {
+    this.updateMessage(
+      sequence,
+      "UPDATE outbox SET status = 'DEAD_LETTER', attempts = attempts + 1, last_error = ? WHERE sequence = ?",
+      error,
+    );
+  }
+
+  async requeue(sequence: number, nextAttemptAt: Date): Promise<void> {
+    this.updateMessage(
+      sequence,
+      "UPDATE outbox SET status = 'PENDING', attempts = 0, next_attempt_at = ? WHERE sequence = ?",
+      nextAttemptAt.toISOString(),
+    );
+  }
+
+  /**
+   * Close the underlying database.
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private updateMessage(sequence: number, sql: string, ...params: Array<string | number>): void {
+    const result = this.db.prepare(sql).run(...params, sequence);
+    if (Number(result.changes) === 0) {
+      throw new OutboxMessageNotFoundError(sequence);
+    }
+  }
+
+  private currentVersion(streamId: string): number {
+    const row = this.db
+      .prepare('SELECT COALESCE(MAX(version), 0) AS version FROM events WHERE stream_id = ?')
+      .get(streamId) as { version: number };
+    return Number(row.version);
+  }
+}
+
+/**
+ * Load `node:sqlite` at runtime.
+ *
+ * Resolved through process.getBuiltinModule so bundlers and test runners
+ * that don't know the (prefix-only) `node:sqlite` builtin leave it alone.
+ *
+ * Sets busy_timeout so a connection waits for another process's write lock
+ * instead of failing at once with SQLITE_BUSY.
+ *
+ * @param filename - Database file path
+ * @param busyTimeoutMs - How long to wait for a locked database (ms)
+ * @returns Open database
+ */
+export function openSqliteDatabase(filename: string, busyTimeoutMs = 5000): DatabaseSync {
+  const sqlite = process.getBuiltinModule('node:sqlite') as typeof import('node:sqlite') | undefined;
+  if (!sqlite) {
+    throw new Error('node:sqlite is not available (Node >= 22.5 required)');
+  }
+  const db = new sqlite.DatabaseSync(filename);
+  db.exec(`PRAGMA busy_timeout = ${Math.floor(busyTimeoutMs)}`);
+  return db;
+}
+
+function toOutboxMessage(row: OutboxRow): OutboxMessage {
+  return {
+    sequence: Number(row.sequence),
+    stream_id: row.stream_id,
+    event_id: row.event_id,
+    event_type: row.event_type,
+    envelope: decodeEvent<EventEnvelope>(row.envelope),
+    status: row.status,
+    attempts: Number(row.attempts),
+    next_attempt_at: new Date(row.next_attempt_at),
+    last_error: row.last_error,
+    created_at: new Date(row.created_at),
+    delivered_at: row.delivered_at === null ? null : new Date(row.delivered_at),
+  };
+}
+
+function isPrimaryKeyViolation(error: unknown): boolean {
+  return error instanceof Error && /UNIQUE constraint failed: events\./.test(error.message);
+}
+
+function isBusy(error: unknown): boolean {
+  // Primary result code SQLITE_BUSY (5), also set on its extended codes
+  const errcode = (error as { errcode?: unknown } | null)?.errcode;
+  return typeof errcode === 'number' && (errcode & 0xff) === 5;
+}
@@ -0,0 +1,51 @@
+/**
+ * JSON codec for persisted domain events.
+ *
+ * Domain events carry bigint amounts and Date timestamps, neither of
+ * which survives a JSON round-trip. Persistent backends encode them as
+ * tagged objects so replay rebuilds byte-identical aggregates:
+ *
+ * - 10000n                      → { "$bigint": "10000" }
+ * - new Date("2024-12-17T...")  → { "$date": "2024-12-17T..." }
+ */
+
+/**
+ * Encode a value to JSON, preserving bigint and Date.
+ *
+ * @param value - Value to encode
+ * @returns JSON string
+ */
+export function encodeEvent(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, v: unknown) {
+    // Read the raw value: Date.prototype.toJSON has already run on `v`
+    const raw = this[key];
+    if (typeof raw === 'bigint') {
+      return { $bigint: raw.toString() };
+    }
+    if (raw instanceof Date) {
+      return { $date: raw.toISOString() };
+    }
+    return v;
+  });
+}
+
+/**
+ * Decode JSON produced by encodeEvent.
+ *
+ * @param json - JSON string
+ * @returns Decoded value
+ */
+export function decodeEvent<E>(json: string): E {
+  return JSON.parse(json, (_key: string, v: any) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      const keys = Object.keys(v);
+      if (keys.length === 1 && typeof v.$bigint === 'string') {
+        return BigInt(v.$bigint);
+      }
+      if (keys.length === 1 && typeof v.$date === 'string') {
+        return new Date(v.$date);
+      }
+    }
+    return v;
+  }) as E;
+}
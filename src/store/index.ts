@@ -0,0 +1,11 @@
+/**
+ * Event Store - Public API
+ *
+ * Append-only, optimistically concurrent event streams shared by all rails.
+ */
+
+export * from './EventStore';
+export * from './eventCodec';
+export * from './InMemoryEventStore';
+export * from './FileEventStore';
+export * from './SqliteEventStore';
@@ -0,0 +1,102 @@
+/**
+ * BSB directory tests.
+ *
+ * Tests:
+ * - The AusPayNet BSB file parses into branch metadata, closed branches flagged
+ * - Destinations are validated for format, existence, closure, stream and account number
+ * - BECS and RTGS intents are refused with typed invariant errors
+ * - Malformed files are rejected with the offending line
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BSBDirectoryError,
+  BSBValidationFailure,
+  loadBSBDirectory,
+  parseBSBDirectory,
+} from '../../src/bsb';
+import { assertBECSDestinationValid, BECSPaymentEvent } from '../../src/domain/becs';
+import { assertRTGSDestinationValid, PaymentIntentCreated, RTGSApprovalRole } from '../../src/domain/rtgs';
+import { InvariantError } from '../../src/domain/shared';
+
+const BSB_FILE = [
+  '"BSB","Mnemonic","Name","Address","Suburb","State","Postcode","Flags"',
+  '"062-000","CBA","Sydney","Cnr Pitt & King Sts","Sydney","NSW","2000","PEH"',
+  '"033-001","WBC","Melbourne, Collins St","360 Collins St","Melbourne","VIC","3000","PE"',
+  '"082-001","NAB","Old Branch","1 Closed Rd","Perth","WA","6000",""',
+  '',
+].join('\r\n');
+
+const directory = parseBSBDirectory(BSB_FILE);
+const occurredAt = new Date('2024-12-16T23:00:00Z');
+
+describe('BSB directory', () => {
+  it('should parse branch metadata and flag closed BSBs', () => {
+    expect(directory.size).toBe(3);
+    expect(directory.lookup('062000')).toMatchObject({
+      bsb: '062-000',
+      institution: 'CBA',
+      branchName: 'Sydney',
+      state: 'NSW',
+      streams: ['P', 'E', 'H'],
+      closed: false,
+    });
+    expect(directory.lookup('033-001')?.branchName).toBe('Melbourne, Collins St');
+    expect(directory.lookup('082-001')).toMatchObject({ streams: [], closed: true });
+    expect(directory.lookup('999-999')).toBeUndefined();
+  });
+
+  it('should validate format, existence, closure, stream and account number', () => {
+    expect(directory.validate('062-000', '12345678', 'H')).toMatchObject({ valid: true });
+
+    const failure = (bsb: string, account: string, stream?: 'E' | 'H') => {
+      const result = directory.validate(bsb, account, stream);
+      return result.valid ? undefined : result.failure;
+    };
+    expect(failure('62-000', '12345678')).toBe(BSBValidationFailure.INVALID_BSB_FORMAT);
+    expect(failure('999-999', '12345678')).toBe(BSBValidationFailure.UNKNOWN_BSB);
+    expect(failure('082-001', '12345678')).toBe(BSBValidationFailure.CLOSED_BSB);
+    expect(failure('033-001', '12345678', 'H')).toBe(BSBValidationFailure.STREAM_NOT_SUPPORTED);
+    expect(failure('062-000', '0000000')).toBe(BSBValidationFailure.INVALID_ACCOUNT_NUMBER);
+    expect(failure('062-000', '1234567890')).toBe(BSBValidationFailure.INVALID_ACCOUNT_NUMBER);
+  });
+
+  it('should refuse BECS and RTGS intents to invalid destinations', () => {
+    const becs: Extract<BECSPaymentEvent, { type: 'PaymentIntentCreated' }> = {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: 'pay_becs',
+      occurredAt,
+      amount: 12550n,
+      currency: 'AUD',
+      idempotencyKey: 'idem_becs',
+      fromAccountId: 'acc_source',
+      toAccountId: '033-001 12345678',
+      bsb: '033-001',
+      accountNumber: '12345678',
+    };
+    const rtgs: PaymentIntentCreated = {
+      ...becs,
+      paymentIntentId: 'pay_rtgs',
+      bsb: '033-001',
+      accountNumber: '12345678',
+      initiatorId: 'user_init',
+      initiatorRole: RTGSApprovalRole.INITIATOR,
+    };
+
+    expect(() => assertBECSDestinationValid(becs, directory)).not.toThrow();
+    expect(() => assertRTGSDestinationValid(rtgs, directory)).toThrow(InvariantError);
+    expect(() => assertRTGSDestinationValid(rtgs, directory)).toThrow('does not accept H stream payments');
+    expect(() => assertBECSDestinationValid({ ...becs, bsb: '082-001' }, directory)).toThrow('is closed');
+    expect(() =>
+      assertBECSDestinationValid({ ...becs, bsb: undefined, accountNumber: undefined }, directory),
+    ).toThrow('requires a BSB and account number');
+  });
+
+  it('should reject malformed files with the offending line', () => {
+    expect(() => parseBSBDirectory('"062-000","CBA","Sydney"')).toThrow('line 1: expected 8 fields, got 3');
+    expect(() => parseBSBDirectory('"62-000","CBA","Sydney","","","NSW","2000","PEH"')).toThrow(
+      'line 1: invalid BSB 62-000',
+    );
+    expect(() => loadBSBDirectory('/nonexistent/BSBDirectory.csv')).toThrow(BSBDirectoryError);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Business calendar tests.
+ *
+ * Tests:
+ * - Weekends and observed (national or state) holidays are not business days
+ * - Cut-offs are applied in Sydney time and stamp the processing date
+ * - RITS session windows follow daylight saving
+ * - BECS batching and RTGS sending refuse out-of-window submissions
+ * - The bundled holiday data covers every year through the coverage horizon
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CalendarError,
+  RITSSession,
+  loadAustralianCalendar,
+} from '../../src/calendar';
+import { openBECSBatch } from '../../src/domain/becs';
+import {
+  RTGSApprovalRole,
+  RTGSPaymentEvent,
+  rebuildApproverRegistryFromEvents,
+  rebuildRTGSFromEvents,
+  sendRTGSPayment,
+} from '../../src/domain/rtgs';
+import { InvariantError } from '../../src/domain/shared';
+
+const calendar = loadAustralianCalendar();
+// Extend calendars/au_public_holidays.json before this fails
+const COVERAGE_HORIZON_MONTHS = 12;
+const approvers = rebuildApproverRegistryFromEvents('turing-cu', [
+  { type: 'ApproverEntitlementGranted', registryId: 'turing-cu', occurredAt: new Date(0), actorId: 'user_admin', entitlementId: 'ent_a', approverId: 'user_a', role: RTGSApprovalRole.FIRST_APPROVER, validFrom: new Date(0) },
+  { type: 'ApproverEntitlementGranted', registryId: 'turing-cu', occurredAt: new Date(0), actorId: 'user_admin', entitlementId: 'ent_b', approverId: 'user_b', role: RTGSApprovalRole.SECOND_APPROVER, validFrom: new Date(0) },
+]);
+
+describe('business calendar', () => {
+  it('should skip weekends and observed public holidays', () => {
+    expect(calendar.isBusinessDay('2024-12-24')).toBe(true);
+    expect(calendar.isBusinessDay('2024-12-25')).toBe(false);
+    expect(calendar.nextBusinessDay('2024-12-24')).toBe('2024-12-27');
+    expect(calendar.addBusinessDays('2024-12-20', 3)).toBe('2024-12-27');
+    expect(calendar.holidayOn('2025-01-27')?.name).toBe('Australia Day (observed)');
+
+    // NSW bank holiday only counts where NSW holidays are observed
+    expect(calendar.isBusinessDay('2025-08-04')).toBe(true);
+    expect(loadAustralianCalendar({ states: ['NSW'] }).isBusinessDay('2025-08-04')).toBe(false);
+
+    expect(() => calendar.isBusinessDay('2031-01-02')).toThrow(CalendarError);
+  });
+
+  it('should apply cut-offs in Sydney time and stamp the processing date', () => {
+    // 15:59 and 16:00 AEDT on Tuesday 2024-12-17
+    expect(calendar.isBeforeCutoff('BECS', new Date('2024-12-17T04:59:00Z'))).toBe(true);
+    expect(calendar.isBeforeCutoff('BECS', new Date('2024-12-17T05:00:00Z'))).toBe(false);
+    expect(calendar.processingDate('BECS', new Date('2024-12-17T05:00:00Z'))).toBe('2024-12-18');
+
+    // Christmas Eve after cut-off rolls past Christmas and Boxing Day
+    expect(calendar.processingDate('RTGS', new Date('2024-12-24T06:00:00Z'))).toBe('2024-12-27');
+
+    // NPP runs 24/7
+    expect(calendar.isBeforeCutoff('NPP', new Date('2024-12-25T12:00:00Z'))).toBe(true);
+    expect(calendar.processingDate('NPP', new Date('2024-12-25T12:00:00Z'))).toBe('2024-12-25');
+  });
+
+  it('should place RITS sessions in Sydney time across daylight saving', () => {
+    const summer = calendar.rtgsSessions('2024-12-17');
+    expect(summer.map((window) => window.session)).toEqual([
+      RITSSession.MORNING_SETTLEMENT,
+      RITSSession.DAILY_SETTLEMENT,
+      RITSSession.SETTLEMENT_CLOSE,
+      RITSSession.EVENING_SETTLEMENT,
+    ]);
+    expect(summer[1]).toMatchObject({
+      opensAt: new Date('2024-12-16T22:15:00Z'),
+      closesAt: new Date('2024-12-17T05:30:00Z'),
+      customerPayments: true,
+    });
+
+    const winter = calendar.rtgsSessions('2024-07-16');
+    expect(winter[1].opensAt).toEqual(new Date('2024-07-15T23:15:00Z'));
+
+    expect(calendar.rtgsSessionAt(new Date('2024-12-17T05:45:00Z'))?.session).toBe(RITSSession.SETTLEMENT_CLOSE);
+    expect(calendar.rtgsSessions('2024-12-25')).toEqual([]);
+  });
+
+  it('should stamp BECS batches and refuse RTGS sends outside the daily session', () => {
+    expect(openBECSBatch('batch_1', new Date('2024-12-17T04:00:00Z'), calendar).batchDate).toBe('2024-12-17');
+    expect(openBECSBatch('batch_2', new Date('2024-12-20T06:00:00Z'), calendar).batchDate).toBe('2024-12-23');
+
+    const at = (iso: string) => new Date(iso);
+    const events: RTGSPaymentEvent[] = [
+      {
+        type: 'PaymentIntentCreated',
+        paymentIntentId: 'pay_rtgs',
+        occurredAt: at('2024-12-16T22:00:00Z'),
+        amount: 150_000_000n,
+        currency: 'AUD',
+        idempotencyKey: 'idem_rtgs',
+        fromAccountId: 'acc_treasury',
+        toAccountId: 'acc_supplier',
+        bsb: '062-000',
+        accountNumber: '12345678',
+        initiatorId: 'user_init',
+        initiatorRole: RTGSApprovalRole.INITIATOR,
+      },
+      {
+        type: 'ApprovalRequested',
+        paymentIntentId: 'pay_rtgs',
+        occurredAt: at('2024-12-16T22:01:00Z'),
+        requiredApprovers: 2,
+        requiredRoles: [RTGSApprovalRole.FIRST_APPROVER, RTGSApprovalRole.SECOND_APPROVER],
+        approvalThreshold: 100_000_000n,
+        expiresAt: at('2024-12-18T00:00:00Z'),
+      },
+      { type: 'ApprovalGranted', paymentIntentId: 'pay_rtgs', occurredAt: at('2024-12-16T22:02:00Z'), approverId: 'user_a', approverRole: RTGSApprovalRole.FIRST_APPROVER, approvalSequence: 1 },
+      { type: 'ApprovalGranted', paymentIntentId: 'pay_rtgs', occurredAt: at('2024-12-16T22:03:00Z'), approverId: 'user_b', approverRole: RTGSApprovalRole.SECOND_APPROVER, approvalSequence: 2 },
+      { type: 'PaymentAuthorised', paymentIntentId: 'pay_rtgs', occurredAt: at('2024-12-16T22:04:00Z'), policyChecksPassed: true, fundsEarmarked: 150_000_000n },
+    ];
+    const approved = rebuildRTGSFromEvents(events, approvers);
+
+    expect(sendRTGSPayment(approved, 'rits_1', at('2024-12-17T01:00:00Z'), calendar)).toMatchObject({
+      type: 'PaymentSent',
+      railTransactionId: 'rits_1',
+      fundsDebited: 150_000_000n,
+    });
+    expect(() => sendRTGSPayment(approved, 'rits_1', at('2024-12-17T05:45:00Z'), calendar)).toThrow(
+      'SETTLEMENT_CLOSE session does not accept customer payments',
+    );
+    expect(() => sendRTGSPayment(approved, 'rits_1', at('2024-12-17T10:00:00Z'), calendar)).toThrow(InvariantError);
+    expect(() => sendRTGSPayment(approved, 'rits_1', at('2024-12-17T10:00:00Z'), calendar)).toThrow('no RITS session open');
+  });
+
+  describe('bundled holiday data', () => {
+    it(`should cover at least the next ${COVERAGE_HORIZON_MONTHS} months`, () => {
+      const horizon = new Date();
+      horizon.setUTCMonth(horizon.getUTCMonth() + COVERAGE_HORIZON_MONTHS);
+      const horizonDate = horizon.toISOString().slice(0, 10);
+
+      expect(
+        calendar.coverage.to >= horizonDate,
+        `holiday data ends ${calendar.coverage.to}, before ${horizonDate}: add the next year's holidays`,
+      ).toBe(true);
+    });
+
+    it('should list the national holidays in every covered year', () => {
+      const firstYear = Number(calendar.coverage.from.slice(0, 4));
+      const lastYear = Number(calendar.coverage.to.slice(0, 4));
+
+      for (let year = firstYear; year <= lastYear; year++) {
+        const names = new Set<string>();
+        for (let day = new Date(Date.UTC(year, 0, 1)); day.getUTCFullYear() === year; day.setUTCDate(day.getUTCDate() + 1)) {
+          const holiday = calendar.holidayOn(day.toISOString().slice(0, 10));
+          if (holiday && !holiday.states) {
+            names.add(holiday.name.replace(' (observed)', ''));
+          }
+        }
+        expect([...names], `${year}`).toEqual(
+          expect.arrayContaining(["New Year's Day", 'Australia Day', 'Good Friday', 'Easter Monday', 'Christmas Day', 'Boxing Day']),
+        );
+      }
+    });
+
+    it('should observe weekend holidays on the following weekdays', () => {
+      expect(calendar.holidayOn('2027-12-27')?.name).toBe('Christmas Day (observed)');
+      expect(calendar.holidayOn('2027-12-28')?.name).toBe('Boxing Day (observed)');
+      expect(calendar.nextBusinessDay('2027-12-24')).toBe('2027-12-29');
+      expect(calendar.holidayOn('2028-01-03')?.name).toBe("New Year's Day (observed)");
+    });
+  });
+});
@@ -2,71 +2,153 @@
  * Command idempotency tests.
  * 
  * Tests:
- * - Idempotency store operations
+ * - Idempotency store operations, retention and restarts (every backend)
+ * - Request fingerprints
  * - CommandRejected emission
  * - Command handler idempotency enforcement
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import {
+  CommandAlreadyProcessedError,
   CommandIdempotencyStore,
+  CommandIdempotencyStoreOptions,
+  InMemoryCommandIdempotencyStore,
+  fingerprintCommand,
   getCommandIdempotencyStore,
 } from '../../src/command/CommandIdempotencyStore';
+import { FileCommandIdempotencyStore } from '../../src/command/FileCommandIdempotencyStore';
+import { SqliteCommandIdempotencyStore } from '../../src/command/SqliteCommandIdempotencyStore';
 import {
   CommandRejectedEmitter,
   RejectionReason,
 } from '../../src/command/CommandRejectedEmitter';
 import { CommandHandler, Command, CommandResult } from '../../src/command/CommandHandler';
 
-describe('CommandIdempotencyStore', () => {
+const T0 = new Date('2024-12-17T10:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const backends: Array<
+  [string, (dir: string, options: CommandIdempotencyStoreOptions) => CommandIdempotencyStore]
+> = [
+  ['InMemoryCommandIdempotencyStore', (_dir, options) => new InMemoryCommandIdempotencyStore(options)],
+  [
+    'FileCommandIdempotencyStore',
+    (dir, options) => new FileCommandIdempotencyStore({ ...options, directory: dir }),
+  ],
+  [
+    'SqliteCommandIdempotencyStore',
+    (dir, options) =>
+      new SqliteCommandIdempotencyStore({ ...options, filename: path.join(dir, 'commands.db') }),
+  ],
+];
+
+describe.each(backends)('%s', (name, createStore) => {
+  let dir: string;
+  let clock: Date;
   let store: CommandIdempotencyStore;
 
   beforeEach(() => {
-    store = new CommandIdempotencyStore();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'idempotency-store-'));
+    clock = T0;
+    store = createStore(dir, { ttlMs: 24 * HOUR, now: () => clock });
   });
 
-  it('should check if command is processed', () => {
-    expect(store.isProcessed('cmd-001')).toBe(false);
+  afterEach(() => {
+    (store as { close?: () => void }).close?.();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should check if command is processed', async () => {
+    expect(await store.isProcessed('cmd-001')).toBe(false);
 
-    store.markProcessed('cmd-001', 'InitiatePayment');
+    await store.markProcessed('cmd-001', 'InitiatePayment');
 
-    expect(store.isProcessed('cmd-001')).toBe(true);
+    expect(await store.isProcessed('cmd-001')).toBe(true);
   });
 
-  it('should get command record', () => {
-    store.markProcessed('cmd-002', 'InitiatePayment', 'evt-001');
+  it('should get command record', async () => {
+    await store.markProcessed('cmd-002', 'InitiatePayment', 'evt-001', 'fp-001');
 
-    const record = store.getRecord('cmd-002');
+    const record = await store.getRecord('cmd-002');
 
     expect(record).toBeDefined();
     expect(record?.command_id).toBe('cmd-002');
     expect(record?.command_type).toBe('InitiatePayment');
     expect(record?.result_event_id).toBe('evt-001');
+    expect(record?.fingerprint).toBe('fp-001');
+    expect(record?.processed_at).toEqual(T0);
+    expect(record?.expires_at).toEqual(new Date(T0.getTime() + 24 * HOUR));
+  });
+
+  it('should throw error when marking duplicate command', async () => {
+    await store.markProcessed('cmd-003', 'InitiatePayment');
+
+    await expect(store.markProcessed('cmd-003', 'InitiatePayment')).rejects.toThrow(
+      'already processed',
+    );
+    await expect(store.markProcessed('cmd-003', 'InitiatePayment')).rejects.toBeInstanceOf(
+      CommandAlreadyProcessedError,
+    );
   });
 
-  it('should throw error when marking duplicate command', () => {
-    store.markProcessed('cmd-003', 'InitiatePayment');
+  it('should count processed commands', async () => {
+    expect(await store.count()).toBe(0);
+
+    await store.markProcessed('cmd-004', 'InitiatePayment');
+    await store.markProcessed('cmd-005', 'InitiatePayment');
+
+    expect(await store.count()).toBe(2);
+  });
+
+  it('should clear all processed commands', async () => {
+    await store.markProcessed('cmd-006', 'InitiatePayment');
+    expect(await store.count()).toBe(1);
+
+    await store.clear();
+    expect(await store.count()).toBe(0);
+  });
+
+  it('should forget commands after the retention period', async () => {
+    await store.markProcessed('cmd-007', 'InitiatePayment', 'evt-007');
+    clock = new Date(T0.getTime() + 24 * HOUR - 1);
+    await store.markProcessed('cmd-008', 'InitiatePayment', 'evt-008');
+    expect(await store.isProcessed('cmd-007')).toBe(true);
+
+    clock = new Date(T0.getTime() + 24 * HOUR);
+    expect(await store.getRecord('cmd-007')).toBeUndefined();
+    expect(await store.purgeExpired()).toBeLessThanOrEqual(1);
+    expect(await store.count()).toBe(1);
 
-    expect(() => {
-      store.markProcessed('cmd-003', 'InitiatePayment');
-    }).toThrow('already processed');
+    // An expired command_id can be recorded again
+    await store.markProcessed('cmd-007', 'InitiatePayment', 'evt-007b');
+    expect((await store.getRecord('cmd-007'))?.result_event_id).toBe('evt-007b');
   });
 
-  it('should count processed commands', () => {
-    expect(store.count()).toBe(0);
+  it.skipIf(name === 'InMemoryCommandIdempotencyStore')('should survive a restart', async () => {
+    await store.markProcessed('cmd-009', 'InitiatePayment', 'evt-009', 'fp-009');
+    (store as { close?: () => void }).close?.();
 
-    store.markProcessed('cmd-004', 'InitiatePayment');
-    store.markProcessed('cmd-005', 'InitiatePayment');
+    store = createStore(dir, { ttlMs: 24 * HOUR, now: () => clock });
 
-    expect(store.count()).toBe(2);
+    expect(await store.getRecord('cmd-009')).toMatchObject({
+      result_event_id: 'evt-009',
+      fingerprint: 'fp-009',
+    });
   });
+});
 
-  it('should clear all processed commands', () => {
-    store.markProcessed('cmd-006', 'InitiatePayment');
-    expect(store.count()).toBe(1);
+describe('fingerprintCommand', () => {
+  it('should ignore key order and the correlation ID', () => {
+    const command = { command_id: 'c1', command_type: 'InitiatePayment', amount: 10 };
 
-    store.clear();
-    expect(store.count()).toBe(0);
+    expect(fingerprintCommand({ amount: 10, command_type: 'InitiatePayment', command_id: 'c1' })).toBe(
+      fingerprintCommand({ ...command, correlation_id: 'corr-1' }),
+    );
+    expect(fingerprintCommand({ ...command, amount: 11 })).not.toBe(fingerprintCommand(command));
   });
 });
 
@@ -79,9 +161,9 @@ describe('CommandRejectedEmitter', () => {
 
   it('should emit CommandRejected for duplicate command', async () => {
     const event_id = await emitter.emitDuplicateCommand(
-      'cmd-001',
+      '00000000-0000-4000-8000-000000000001',
       'InitiatePayment',
-      'corr-001',
+      '00000000-0000-4000-9000-000000000001',
     );
 
     expect(event_id).toBeDefined();
@@ -90,10 +172,10 @@ describe('CommandRejectedEmitter', () => {
 
   it('should emit CommandRejected for invalid schema', async () => {
     const event_id = await emitter.emitInvalidSchema(
-      'cmd-002',
+      '00000000-0000-4000-8000-000000000002',
       'InitiatePayment',
       'Missing required field: amount',
-      'corr-002',
+      '00000000-0000-4000-9000-000000000002',
     );
 
     expect(event_id).toBeDefined();
@@ -101,10 +183,10 @@ describe('CommandRejectedEmitter', () => {
 
   it('should emit CommandRejected for business rule violation', async () => {
     const event_id = await emitter.emitBusinessRuleViolation(
-      'cmd-003',
+      '00000000-0000-4000-8000-000000000003',
       'InitiatePayment',
       'Payment amount exceeds daily limit',
-      'corr-003',
+      '00000000-0000-4000-9000-000000000003',
     );
 
     expect(event_id).toBeDefined();
@@ -112,11 +194,11 @@ describe('CommandRejectedEmitter', () => {
 
   it('should emit CommandRejected for insufficient funds', async () => {
     const event_id = await emitter.emitInsufficientFunds(
-      'cmd-004',
+      '00000000-0000-4000-8000-000000000004',
       'InitiatePayment',
       1000,
       500,
-      'corr-004',
+      '00000000-0000-4000-9000-000000000004',
     );
 
     expect(event_id).toBeDefined();
@@ -124,11 +206,11 @@ describe('CommandRejectedEmitter', () => {
 
   it('should emit CommandRejected for invalid state transition', async () => {
     const event_id = await emitter.emitInvalidStateTransition(
-      'cmd-005',
+      '00000000-0000-4000-8000-000000000005',
       'InitiatePayment',
       'Settled',
       'Initiate',
-      'corr-005',
+      '00000000-0000-4000-9000-000000000005',
     );
 
     expect(event_id).toBeDefined();
@@ -136,16 +218,21 @@ describe('CommandRejectedEmitter', () => {
 });
 
 describe('CommandHandler', () => {
+  // Rejections are emitted as schema-valid CommandRejected events,
+  // so command IDs must be UUIDs
+  const FAILING_COMMAND_ID = '00000000-0000-4000-8000-0000000000f1';
+  const FAILING_COMMAND_ID_2 = '00000000-0000-4000-8000-0000000000f2';
+
   // Test command handler implementation
   class TestCommandHandler extends CommandHandler<Command> {
     protected validate(command: Command): void {
-      if (!command.command_id) {
-        throw new Error('validation: Missing command_id');
+      if (!command.command_type) {
+        throw new Error('validation: Missing command_type');
       }
     }
 
     protected async execute(command: Command): Promise<string> {
-      if (command.command_id === 'cmd-fail') {
+      if ([FAILING_COMMAND_ID, FAILING_COMMAND_ID_2].includes(command.command_id)) {
         throw new Error('Business rule violation: Test failure');
       }
       return 'evt-success';
@@ -155,15 +242,15 @@ describe('CommandHandler', () => {
   let handler: TestCommandHandler;
   let store: CommandIdempotencyStore;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     handler = new TestCommandHandler();
     store = getCommandIdempotencyStore();
-    store.clear();
+    await store.clear();
   });
 
   it('should process command successfully', async () => {
     const command: Command = {
-      command_id: 'cmd-success',
+      command_id: '00000000-0000-4000-8000-0000000000a1',
       command_type: 'TestCommand',
     };
 
@@ -171,12 +258,12 @@ describe('CommandHandler', () => {
 
     expect(result.success).toBe(true);
     expect(result.event_id).toBe('evt-success');
-    expect(store.isProcessed('cmd-success')).toBe(true);
+    expect(await store.isProcessed('00000000-0000-4000-8000-0000000000a1')).toBe(true);
   });
 
-  it('should reject duplicate command', async () => {
+  it('should return the original result for a duplicate command', async () => {
     const command: Command = {
-      command_id: 'cmd-duplicate',
+      command_id: '00000000-0000-4000-8000-0000000000d1',
       command_type: 'TestCommand',
     };
 
@@ -184,17 +271,33 @@ describe('CommandHandler', () => {
     const result1 = await handler.handle(command);
     expect(result1.success).toBe(true);
 
-    // Second execution rejected
+    // Second execution is not re-run: it returns the original event
     const result2 = await handler.handle(command);
-    expect(result2.success).toBe(false);
-    expect(result2.rejection_event_id).toBeDefined();
-    expect(result2.reason).toBe('Duplicate command');
+    expect(result2.success).toBe(true);
+    expect(result2.duplicate).toBe(true);
+    expect(result2.event_id).toBe(result1.event_id);
+    expect(result2.rejection_event_id).toBeUndefined();
   });
 
-  it('should reject command with validation error', async () => {
+  it('should reject a reused command_id with a different payload', async () => {
     const command: Command = {
-      command_id: '',
+      command_id: '00000000-0000-4000-8000-0000000000d2',
       command_type: 'TestCommand',
+      amount: 10,
+    };
+
+    await handler.handle(command);
+    const result = await handler.handle({ ...command, amount: 20 });
+
+    expect(result.success).toBe(false);
+    expect(result.rejection_event_id).toBeDefined();
+    expect(result.reason).toBe('Command ID conflict');
+  });
+
+  it('should reject command with validation error', async () => {
+    const command: Command = {
+      command_id: '00000000-0000-4000-8000-0000000000e1',
+      command_type: '',
     };
 
     const result = await handler.handle(command);
@@ -206,7 +309,7 @@ describe('CommandHandler', () => {
 
   it('should reject command with business rule violation', async () => {
     const command: Command = {
-      command_id: 'cmd-fail',
+      command_id: FAILING_COMMAND_ID,
       command_type: 'TestCommand',
     };
 
@@ -219,7 +322,7 @@ describe('CommandHandler', () => {
 
   it('should not mark failed commands as processed', async () => {
     const command: Command = {
-      command_id: 'cmd-fail-2',
+      command_id: FAILING_COMMAND_ID_2,
       command_type: 'TestCommand',
     };
 
@@ -227,6 +330,6 @@ describe('CommandHandler', () => {
 
     // Failed commands should NOT be marked as processed
     // (they can be retried)
-    expect(store.isProcessed('cmd-fail-2')).toBe(false);
+    expect(await store.isProcessed(FAILING_COMMAND_ID_2)).toBe(false);
   });
 });
@@ -0,0 +1,487 @@
+/**
+ * Payment command handler tests.
+ * 
+ * Tests:
+ * - InitiatePayment creates a stream per rail and emits PaymentInitiated
+ * - InitiatePayment refuses BECS/RTGS destinations the BSB directory rejects,
+ *   and every one of them when the directory is empty
+ * - InitiatePayment normalises NPP PayID destinations and refuses invalid ones
+ * - RetryPayment re-attempts a failed NPP payment
+ * - CancelPayment cancels per rail and emits PaymentFailed, including RTGS
+ *   payments still awaiting approval
+ * - RTGS streams with an unentitled approval are refused on load
+ * - Schema, lifecycle and command_id conflict rejections; duplicates replay the result
+ * - Typed domain errors map to precise CommandRejected payloads
+ * - Outcome envelopes are committed to the outbox with the events
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { InitiatePaymentHandler } from '../../src/command/InitiatePaymentHandler';
+import { RetryPaymentHandler } from '../../src/command/RetryPaymentHandler';
+import { CancelPaymentHandler } from '../../src/command/CancelPaymentHandler';
+import { InitiatePaymentCommand } from '../../src/command/PaymentCommands';
+import { InMemoryCommandIdempotencyStore } from '../../src/command/CommandIdempotencyStore';
+import { CommandRejectedEmitter } from '../../src/command/CommandRejectedEmitter';
+import { setPublisher } from '../../src/emit/emit_event';
+import { InMemoryEventStore } from '../../src/store/InMemoryEventStore';
+import { RailEventRecord } from '../../src/rails/Rail';
+import { NPPPaymentState, NPPFailureReason, NPPPayIDType, NPPPayeeMatchResult } from '../../src/domain/npp';
+import { BECSPaymentState, assertBatchTotalsReconcile } from '../../src/domain/becs';
+import { assertAuthAllowed } from '../../src/domain/cards';
+import { RTGSApprovalRole, RTGSPaymentState, createApproverRegistry } from '../../src/domain/rtgs';
+import { PaymentsRails } from '../../src/rails';
+import { OutboxRelay } from '../../src/outbox';
+import { CommandHandler, Command } from '../../src/command/CommandHandler';
+import { BSBDirectory, parseBSBDirectory } from '../../src/bsb';
+
+const now = new Date('2024-12-17T10:00:00Z');
+
+function initiateCommand(overrides: Partial<InitiatePaymentCommand> = {}): InitiatePaymentCommand {
+  return {
+    command_id: randomUUID(),
+    command_type: 'InitiatePayment',
+    payment_id: 'pay_001',
+    rail: 'NPP',
+    amount: 125.5,
+    currency: 'AUD',
+    source_account_id: 'acc_source',
+    destination: { type: 'PAYID', value: 'alice@example.com' },
+    ...overrides,
+  };
+}
+
+describe('Payment command handlers', () => {
+  let published: any[];
+  let eventStore: InMemoryEventStore<RailEventRecord>;
+  let deps: ConstructorParameters<typeof InitiatePaymentHandler>[0];
+  let relay: OutboxRelay;
+
+  // Handle a command, then deliver whatever it committed to the outbox
+  async function run<T extends Command>(handler: CommandHandler<T>, command: T) {
+    const result = await handler.handle(command);
+    await relay.drain();
+    return result;
+  }
+
+  beforeEach(() => {
+    published = [];
+    const publisher = { publish: async (event: any) => { published.push(event); } };
+    setPublisher(publisher);
+    eventStore = new InMemoryEventStore<RailEventRecord>();
+    deps = {
+      eventStore,
+      approvers: createApproverRegistry('turing-cu'),
+      bsbDirectory: parseBSBDirectory('"062-000","CBA","Sydney","","Sydney","NSW","2000","PEH"'),
+      now: () => now,
+      idempotencyStore: new InMemoryCommandIdempotencyStore(),
+      rejectedEmitter: new CommandRejectedEmitter(publisher),
+    };
+    relay = new OutboxRelay(eventStore, publisher);
+  });
+
+  describe('InitiatePaymentHandler', () => {
+    it('should create the payment stream and emit PaymentInitiated', async () => {
+      const command = initiateCommand();
+      const result = await run(new InitiatePaymentHandler(deps), command);
+
+      expect(result.success).toBe(true);
+      expect(published).toHaveLength(1);
+      expect(published[0]).toMatchObject({
+        event_id: result.event_id,
+        event_type: 'PaymentInitiated',
+        entity_id: 'pay_001',
+        causation_id: command.command_id,
+        payload: { rail: 'NPP', amount: 125.5 },
+      });
+
+      const stream = await eventStore.readStream('pay_001');
+      expect(stream).toHaveLength(1);
+      expect(stream[0].event).toMatchObject({
+        rail: 'NPP',
+        event: {
+          type: 'PaymentIntentCreated',
+          amount: 12550n,
+          toAccountId: 'alice@example.com',
+          payId: 'alice@example.com',
+          payIdType: NPPPayIDType.EMAIL,
+        },
+      });
+    });
+
+    it('should reject PayID destinations that are not a valid PayID', async () => {
+      const result = await run(new InitiatePaymentHandler(deps),
+        initiateCommand({ destination: { type: 'PAYID', value: '02 9999 0000' } }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(published[0].payload.reason_message).toContain('02 9999 0000 is not a valid PayID');
+      expect(await eventStore.streamVersion('pay_001')).toBe(0);
+    });
+
+    it('should hold the envelope in the outbox until the relay drains it', async () => {
+      const result = await new InitiatePaymentHandler(deps).handle(initiateCommand());
+
+      expect(published).toHaveLength(0);
+      const [message] = await eventStore.listMessages();
+      expect(message).toMatchObject({ status: 'PENDING', event_id: result.event_id, stream_id: 'pay_001' });
+
+      await relay.drain();
+      expect(published[0].event_id).toBe(result.event_id);
+    });
+
+    it('should parse BSB and account number for BECS', async () => {
+      await run(new InitiatePaymentHandler(deps), 
+        initiateCommand({ rail: 'BECS', destination: { type: 'ACCOUNT', value: '062-000 12345678' } }),
+      );
+
+      const [stored] = await eventStore.readStream('pay_001');
+      expect(stored.event.event).toMatchObject({ bsb: '062-000', accountNumber: '12345678' });
+    });
+
+    it('should refuse destinations the BSB directory rejects', async () => {
+      const bsbDirectory = parseBSBDirectory('"062-000","CBA","Sydney","","Sydney","NSW","2000",""');
+      const result = await run(new InitiatePaymentHandler({ ...deps, bsbDirectory }),
+        initiateCommand({ rail: 'BECS', destination: { type: 'ACCOUNT', value: '062-000 12345678' } }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(published[0].payload).toMatchObject({
+        reason_code: 'INVARIANT_VIOLATION',
+        reason_message: 'Invariant BECS.DESTINATION violated: BSB 062-000 (CBA Sydney) is closed',
+      });
+      expect(await eventStore.readStream('pay_001')).toHaveLength(0);
+    });
+
+    it('should refuse BECS and RTGS payments when the BSB directory is empty', async () => {
+      const handler = new InitiatePaymentHandler({ ...deps, bsbDirectory: new BSBDirectory([]) });
+      const destination = { type: 'ACCOUNT' as const, value: '062-000 12345678' };
+
+      const becs = await run(handler, initiateCommand({ rail: 'BECS', destination }));
+      const rtgs = await run(handler, initiateCommand({ rail: 'RTGS', initiator_id: 'user_init', destination }));
+
+      expect([becs.success, rtgs.success]).toEqual([false, false]);
+      expect(published.map((event) => event.payload.reason_message)).toEqual([
+        'Invariant BECS.DESTINATION violated: BSB 062-000 is not in the BSB directory',
+        'Invariant RTGS.DESTINATION violated: BSB 062-000 is not in the BSB directory',
+      ]);
+      expect(await eventStore.streamVersion('pay_001')).toBe(0);
+    });
+
+    it('should reject commands that fail the openapi schema', async () => {
+      const result = await run(new InitiatePaymentHandler(deps), initiateCommand({ amount: -5 }));
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toContain('validation');
+      expect(published[0].payload.reason_code).toBe('INVALID_SCHEMA');
+      expect(await eventStore.streamVersion('pay_001')).toBe(0);
+    });
+
+    it('should reject destinations the rail cannot pay', async () => {
+      const result = await run(new InitiatePaymentHandler(deps), 
+        initiateCommand({ rail: 'CARDS', destination: { type: 'PAYID', value: 'bob@example.com' } }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toContain('not supported on CARDS');
+    });
+
+    it('should reject a second payment with the same payment_id', async () => {
+      const handler = new InitiatePaymentHandler(deps);
+      await run(handler, initiateCommand());
+      const result = await run(handler, initiateCommand());
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toContain('already exists');
+    });
+
+    it('should return the original result for a replayed command', async () => {
+      const handler = new InitiatePaymentHandler(deps);
+      const command = initiateCommand();
+      const first = await run(handler, command);
+      const result = await run(handler, { ...command, correlation_id: randomUUID() });
+
+      expect(result).toEqual({ success: true, event_id: first.event_id, duplicate: true });
+      expect(published).toHaveLength(1);
+    });
+
+    it('should reject a reused command_id with a different payload', async () => {
+      const handler = new InitiatePaymentHandler(deps);
+      const command = initiateCommand();
+      await run(handler, command);
+      const result = await run(handler, { ...command, amount: 999 });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('Command ID conflict');
+      expect(published[1].payload).toMatchObject({
+        reason_code: 'DUPLICATE_COMMAND',
+        entity_id: 'pay_001',
+      });
+      expect(published[1].payload.reason_message).toContain('different payload');
+    });
+  });
+
+  describe('RetryPaymentHandler', () => {
+    it('should retry a failed NPP payment with a new attempt', async () => {
+      await run(new InitiatePaymentHandler(deps), initiateCommand());
+      await eventStore.append('pay_001', 1, [
+        {
+          rail: 'NPP',
+          event: {
+            type: 'PayeeConfirmed',
+            paymentIntentId: 'pay_001',
+            occurredAt: now,
+            payId: 'alice@example.com',
+            payIdType: NPPPayIDType.EMAIL,
+            bsb: '062-000',
+            accountNumber: '12345678',
+            payeeName: 'Alice Citizen',
+            expectedPayeeName: 'Alice Citizen',
+            matchResult: NPPPayeeMatchResult.MATCH,
+            matchScore: 100,
+            confirmedBy: 'cust_001',
+          },
+        },
+        {
+          rail: 'NPP',
+          event: {
+            type: 'PaymentAuthorised',
+            paymentIntentId: 'pay_001',
+            occurredAt: now,
+            policyChecksPassed: true,
+            fundsEarmarked: 12550n,
+          },
+        },
+        {
+          rail: 'NPP',
+          event: {
+            type: 'PaymentFailed',
+            paymentIntentId: 'pay_001',
+            occurredAt: now,
+            reason: NPPFailureReason.RAIL,
+            fundsReleased: 12550n,
+          },
+        },
+      ]);
+
+      const result = await run(new RetryPaymentHandler(deps), {
+        command_id: randomUUID(),
+        command_type: 'RetryPayment',
+        payment_id: 'pay_001',
+      });
+
+      expect(result.success).toBe(true);
+      expect(published[1]).toMatchObject({ event_type: 'PaymentAttemptCreated' });
+
+      const stream = await eventStore.readStream('pay_001');
+      const { payment } = new PaymentsRails().rebuildRecords(stream.map((s) => s.event));
+      expect(payment.state).toBe(NPPPaymentState.AUTHORISED);
+    });
+
+    it('should reject retry of a payment that has not failed', async () => {
+      await run(new InitiatePaymentHandler(deps), initiateCommand());
+
+      const result = await run(new RetryPaymentHandler(deps), {
+        command_id: randomUUID(),
+        command_type: 'RetryPayment',
+        payment_id: 'pay_001',
+      });
+
+      expect(result.success).toBe(false);
+      expect(published[1].payload).toMatchObject({
+        reason_code: 'LIFECYCLE_MISMATCH',
+        reason_message: 'Invalid state transition: CREATED -> AUTHORISED',
+      });
+    });
+  });
+
+  describe('CancelPaymentHandler', () => {
+    it('should cancel a created NPP payment and emit PaymentFailed', async () => {
+      await run(new InitiatePaymentHandler(deps), initiateCommand());
+
+      const result = await run(new CancelPaymentHandler(deps), {
+        command_id: randomUUID(),
+        command_type: 'CancelPayment',
+        payment_id: 'pay_001',
+        reason: 'Customer request',
+      });
+
+      expect(result.success).toBe(true);
+      expect(published[1]).toMatchObject({
+        event_type: 'PaymentFailed',
+        payload: { failure_code: 'CANCELLED', failure_reason: 'Customer request' },
+      });
+      expect(await eventStore.streamVersion('pay_001')).toBe(2);
+    });
+
+    it('should only cancel BECS payments that are authorised or batched', async () => {
+      await run(new InitiatePaymentHandler(deps), 
+        initiateCommand({ rail: 'BECS', destination: { type: 'ACCOUNT', value: '062-000 12345678' } }),
+      );
+      const cancel = new CancelPaymentHandler(deps);
+
+      const rejected = await run(cancel, {
+        command_id: randomUUID(),
+        command_type: 'CancelPayment',
+        payment_id: 'pay_001',
+        reason: 'Too early',
+      });
+      expect(rejected.success).toBe(false);
+
+      await eventStore.append('pay_001', 1, [
+        {
+          rail: 'BECS',
+          event: {
+            type: 'PaymentAuthorised',
+            paymentIntentId: 'pay_001',
+            occurredAt: now,
+            policyChecksPassed: true,
+            fundsEarmarked: 12550n,
+          },
+        },
+      ]);
+
+      const accepted = await run(cancel, {
+        command_id: randomUUID(),
+        command_type: 'CancelPayment',
+        payment_id: 'pay_001',
+        reason: 'Customer request',
+      });
+      expect(accepted.success).toBe(true);
+
+      const stream = await eventStore.readStream('pay_001');
+      const { payment } = new PaymentsRails().rebuildRecords(stream.map((s) => s.event));
+      expect(payment.state).toBe(BECSPaymentState.FAILED);
+    });
+
+    it('should cancel an RTGS payment that is still awaiting approval', async () => {
+      await run(new InitiatePaymentHandler(deps),
+        initiateCommand({ rail: 'RTGS', initiator_id: 'user_init', destination: { type: 'ACCOUNT', value: '062-000 12345678' } }),
+      );
+      await eventStore.append('pay_001', 1, [
+        {
+          rail: 'RTGS',
+          event: {
+            type: 'ApprovalRequested',
+            paymentIntentId: 'pay_001',
+            occurredAt: now,
+            requiredApprovers: 2,
+            requiredRoles: [RTGSApprovalRole.FIRST_APPROVER, RTGSApprovalRole.SECOND_APPROVER],
+            approvalThreshold: 0n,
+            expiresAt: new Date('2024-12-17T14:00:00Z'),
+          },
+        },
+      ]);
+
+      const result = await run(new CancelPaymentHandler(deps), {
+        command_id: randomUUID(),
+        command_type: 'CancelPayment',
+        payment_id: 'pay_001',
+        reason: 'Customer request',
+      });
+
+      expect(result.success).toBe(true);
+      const stream = await eventStore.readStream('pay_001');
+      const { payment } = new PaymentsRails().rebuildRecords(stream.map((s) => s.event));
+      expect(payment.state).toBe(RTGSPaymentState.FAILED);
+    });
+
+    it('should refuse an RTGS payment approved by someone not in the approver registry', async () => {
+      await run(new InitiatePaymentHandler(deps),
+        initiateCommand({ rail: 'RTGS', initiator_id: 'user_init', destination: { type: 'ACCOUNT', value: '062-000 12345678' } }),
+      );
+      await eventStore.append('pay_001', 1, [
+        {
+          rail: 'RTGS',
+          event: {
+            type: 'ApprovalRequested',
+            paymentIntentId: 'pay_001',
+            occurredAt: now,
+            requiredApprovers: 1,
+            requiredRoles: [RTGSApprovalRole.FIRST_APPROVER],
+            approvalThreshold: 0n,
+            expiresAt: new Date('2024-12-17T14:00:00Z'),
+          },
+        },
+        {
+          rail: 'RTGS',
+          event: {
+            type: 'ApprovalGranted',
+            paymentIntentId: 'pay_001',
+            occurredAt: now,
+            approverId: 'user_mallory',
+            approverRole: RTGSApprovalRole.FIRST_APPROVER,
+            approvalSequence: 1,
+          },
+        },
+      ]);
+
+      const result = await run(new CancelPaymentHandler(deps), {
+        command_id: randomUUID(),
+        command_type: 'CancelPayment',
+        payment_id: 'pay_001',
+        reason: 'Customer request',
+      });
+
+      expect(result.success).toBe(false);
+      expect(published[1].payload).toMatchObject({
+        reason_code: 'INVARIANT_VIOLATION',
+        reason_message: expect.stringContaining('Invariant RTGS.ENTITLEMENT violated: user_mallory is not entitled'),
+      });
+    });
+
+    it('should reject cancellation of an unknown payment', async () => {
+      const result = await run(new CancelPaymentHandler(deps), {
+        command_id: randomUUID(),
+        command_type: 'CancelPayment',
+        payment_id: 'pay_missing',
+        reason: 'n/a',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toContain('not found');
+    });
+  });
+
+  describe('Typed rejections', () => {
+    class GuardedHandler extends CommandHandler<Command> {
+      constructor(private readonly guard: () => void) {
+        super(deps);
+      }
+
+      protected validate(): void {}
+
+      protected async execute(): Promise<string> {
+        this.guard();
+        return 'evt-guarded';
+      }
+    }
+
+    function guarded(guard: () => void) {
+      return new GuardedHandler(guard).handle({
+        command_id: randomUUID(),
+        command_type: 'AuthorisePayment',
+        payment_id: 'pay_001',
+      });
+    }
+
+    it('should report required and available amounts for insufficient funds', async () => {
+      const result = await guarded(() => assertAuthAllowed(10000n, 12550n));
+
+      expect(result.success).toBe(false);
+      expect(published[0].payload).toMatchObject({
+        reason_code: 'POLICY_DENIED',
+        reason_message: 'Insufficient funds: required 125.5, available 100',
+      });
+    });
+
+    it('should name the violated invariant', async () => {
+      await guarded(() => assertBatchTotalsReconcile([], 100n));
+
+      expect(published[0].payload).toMatchObject({
+        reason_code: 'INVARIANT_VIOLATION',
+        reason_message: 'Invariant BECS.1 violated: Batch total mismatch. Declared: 100, Calculated: 0',
+      });
+    });
+  });
+});
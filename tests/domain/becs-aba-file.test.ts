@@ -0,0 +1,175 @@
+/**
+ * ABA (Cemtext) file generator tests.
+ *
+ * Tests:
+ * - Descriptive, detail and file total record layout
+ * - BatchSubmitted events carry the file's declared total and item count
+ *   (debits written with code 13 under their DDR authority)
+ * - Batch integrity, totals and field validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ABAEntry,
+  ABAFileError,
+  ABAFileOptions,
+  ABATransactionCode,
+  BECSDirection,
+  BECSPaymentEvent,
+  PaymentBatched,
+  PaymentIntentCreated,
+  applyBECSEvent,
+  createBECSPayment,
+  createDDRAuthority,
+  generateABAFile,
+} from '../../src/domain/becs';
+import { InvariantError } from '../../src/domain/shared';
+
+const submittedAt = new Date('2024-12-17T16:00:00Z');
+
+const options: ABAFileOptions = {
+  user: {
+    financialInstitution: 'CBA',
+    userName: 'TURING PAYMENTS',
+    apcaUserId: '301500',
+    remitterName: 'TURING',
+    traceBsb: '062-000',
+    traceAccountNumber: '11111111',
+  },
+  description: 'PAYMENTS',
+  submittedAt,
+};
+
+function entry(
+  id: string,
+  amount: bigint,
+  sequenceNumber: number,
+  overrides: Partial<ABAEntry> = {},
+  intent: Partial<PaymentIntentCreated> = {},
+): ABAEntry {
+  const occurredAt = new Date('2024-12-17T10:00:00Z');
+  const batched: PaymentBatched = {
+    type: 'PaymentBatched',
+    paymentIntentId: id,
+    occurredAt,
+    batchId: 'batch_001',
+    batchDate: '2024-12-17',
+    sequenceNumber,
+    fundsHeld: amount,
+  };
+  const events: BECSPaymentEvent[] = [
+    {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: id,
+      occurredAt,
+      amount,
+      currency: 'AUD',
+      idempotencyKey: `idem_${id}`,
+      fromAccountId: 'acc_source',
+      toAccountId: '062-000 12345678',
+      bsb: '062-000',
+      accountNumber: '12345678',
+      ...intent,
+    },
+    { type: 'PaymentAuthorised', paymentIntentId: id, occurredAt, policyChecksPassed: true, fundsEarmarked: amount },
+    batched,
+  ];
+  const [first, ...rest] = events;
+  const payment = rest.reduce(applyBECSEvent, createBECSPayment(first));
+
+  return { payment, batched, accountTitle: 'ALICE SMITH', ...overrides };
+}
+
+const authority = createDDRAuthority({
+  type: 'DDRAuthorityEstablished',
+  authorityId: 'ddr_001',
+  occurredAt: new Date('2024-01-02T00:00:00Z'),
+  customerId: 'cust_001',
+  debitUserId: '301500',
+  bsb: '062-000',
+  accountNumber: '12345678',
+  accountName: 'ALICE SMITH',
+  debitLimit: 5000n,
+  validFrom: '2024-01-02',
+});
+
+describe('ABA file generator', () => {
+  it('should write descriptive, detail and file total records', () => {
+    const file = generateABAFile([entry('pay_002', 2500n, 2), entry('pay_001', 12550n, 1)], options);
+    const records = file.content.split('\r\n');
+
+    expect(records).toHaveLength(5);
+    expect(records[4]).toBe('');
+    for (const record of records.slice(0, 4)) {
+      expect(record).toHaveLength(120);
+    }
+
+    expect(records[0]).toBe(
+      '0' + ' '.repeat(17) + '01' + 'CBA' + ' '.repeat(7) + 'TURING PAYMENTS'.padEnd(26) + '301500' +
+        'PAYMENTS    ' + '171224' + ' '.repeat(40),
+    );
+    expect(records[1]).toBe(
+      '1062-000' + ' 12345678' + ' ' + '50' + '0000012550' + 'ALICE SMITH'.padEnd(32) + 'pay_001'.padEnd(18) +
+        '062-000' + ' 11111111' + 'TURING'.padEnd(16) + '00000000',
+    );
+    expect(records[2].slice(20, 30)).toBe('0000002500');
+    expect(records[3]).toBe(
+      '7999-999' + ' '.repeat(12) + '0000015050' + '0000015050' + '0000000000' + ' '.repeat(24) + '000002' +
+        ' '.repeat(40),
+    );
+  });
+
+  it('should return BatchSubmitted events with the declared total and item count', () => {
+    const file = generateABAFile(
+      [
+        entry('pay_001', 12550n, 1),
+        entry('pay_002', 2500n, 2, { authority }, { direction: BECSDirection.DEBIT, ddrAuthorityId: 'ddr_001' }),
+      ],
+      { ...options, fileReference: 'FILE001' },
+    );
+
+    expect(file).toMatchObject({ declaredTotal: 15050n, itemCount: 2, creditTotal: 12550n, debitTotal: 2500n });
+    expect(file.details[1].transactionCode).toBe(ABATransactionCode.EXTERNALLY_INITIATED_DEBIT);
+    expect(file.content.split('\r\n')[3].slice(20, 50)).toBe('0000010050' + '0000012550' + '0000002500');
+    expect(file.submissions).toEqual([
+      { type: 'BatchSubmitted', paymentIntentId: 'pay_001', occurredAt: submittedAt, batchId: 'batch_001', fileReference: 'FILE001', declaredTotal: 15050n, itemCount: 2 },
+      { type: 'BatchSubmitted', paymentIntentId: 'pay_002', occurredAt: submittedAt, batchId: 'batch_001', fileReference: 'FILE001', declaredTotal: 15050n, itemCount: 2 },
+    ]);
+
+    // Submissions move every payment to SUBMITTED
+    expect(applyBECSEvent(entry('pay_001', 12550n, 1).payment, file.submissions[0]).fileReference).toBe('FILE001');
+  });
+
+  it('should derive a stable file reference from the contents', () => {
+    const a = generateABAFile([entry('pay_001', 12550n, 1)], options);
+    const b = generateABAFile([entry('pay_001', 12550n, 1)], options);
+
+    expect(a.fileReference).toMatch(/^[0-9A-F]{16}$/);
+    expect(a.fileReference).toBe(b.fileReference);
+  });
+
+  it('should reject mismatched holds and entries from another batch', () => {
+    const mismatched = entry('pay_001', 12550n, 1);
+    const batched = { ...mismatched.batched, fundsHeld: 100n };
+
+    expect(() => generateABAFile([{ ...mismatched, batched }], options)).toThrow(ABAFileError);
+
+    const other = entry('pay_002', 2500n, 2);
+    expect(() =>
+      generateABAFile([entry('pay_001', 12550n, 1), { ...other, batched: { ...other.batched, batchId: 'batch_002' } }], options),
+    ).toThrow(InvariantError);
+  });
+
+  it('should reject fields that do not fit the file format', () => {
+    expect(() => generateABAFile([entry('pay_001', 1n, 1, { accountTitle: 'A'.repeat(33) })], options)).toThrow(
+      'account title',
+    );
+    expect(() => generateABAFile([entry('pay_001', 1n, 1, { accountTitle: 'ALICE\tSMITH' })], options)).toThrow(
+      'BECS character set',
+    );
+    expect(() => generateABAFile([entry('pay_001', 1n, 1), entry('pay_002', 1n, 1)], options)).toThrow(
+      'duplicate sequence number 1',
+    );
+    expect(() => generateABAFile([], options)).toThrow('batch has no entries');
+  });
+});
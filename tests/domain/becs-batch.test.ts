@@ -0,0 +1,199 @@
+/**
+ * BECS batch aggregate tests.
+ *
+ * Tests:
+ * - Batch lifecycle OPEN -> SEALED -> SUBMITTED -> ACCEPTED replays from events
+ * - Membership is frozen by sealing and totals must reconcile
+ * - Submitted files must match the sealed batch
+ * - File rejection fails every member payment, or none
+ * - The rejection is stored in the batch and every payment stream, or none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BECSBatch,
+  BECSBatchEvent,
+  BECSBatchState,
+  BECSFailureReason,
+  BECSPayment,
+  BECSPaymentEvent,
+  BECSPaymentState,
+  addPaymentToBECSBatch,
+  applyBECSBatchEvent,
+  applyBECSEvent,
+  computeBECSBatchHash,
+  createBECSBatch,
+  createBECSPayment,
+  generateABAFile,
+  openBECSBatch,
+  rebuildBECSBatchFromEvents,
+  rejectBECSBatch,
+  submitBECSBatch,
+} from '../../src/domain/becs';
+import { InvariantError, StateTransitionError } from '../../src/domain/shared';
+import { loadAustralianCalendar } from '../../src/calendar';
+import { InMemoryEventStore, NO_STREAM, VersionConflictError } from '../../src/store';
+
+// 10:00 Sydney time, Tuesday 2024-12-17
+const occurredAt = new Date('2024-12-16T23:00:00Z');
+const calendar = loadAustralianCalendar();
+
+const opened = openBECSBatch('batch_001', occurredAt, calendar);
+
+function authorised(id: string, amount: bigint): BECSPayment {
+  const created: BECSPaymentEvent = {
+    type: 'PaymentIntentCreated',
+    paymentIntentId: id,
+    occurredAt,
+    amount,
+    currency: 'AUD',
+    idempotencyKey: `idem_${id}`,
+    fromAccountId: 'acc_source',
+    toAccountId: '062-000 12345678',
+    bsb: '062-000',
+    accountNumber: '12345678',
+  };
+  return applyBECSEvent(createBECSPayment(created), {
+    type: 'PaymentAuthorised',
+    paymentIntentId: id,
+    occurredAt,
+    policyChecksPassed: true,
+    fundsEarmarked: amount,
+  });
+}
+
+/**
+ * Add pay_001 and pay_002 to a batch, seal it and submit it as an ABA file.
+ */
+function submitted() {
+  let batch = createBECSBatch(opened);
+  const batchEvents: BECSBatchEvent[] = [opened];
+  const entries = [authorised('pay_001', 12550n), authorised('pay_002', 2500n)].map((payment) => {
+    const added = addPaymentToBECSBatch(batch, payment, occurredAt);
+    batch = added.batch;
+    batchEvents.push(added.batchEvent);
+    return { payment: applyBECSEvent(payment, added.paymentEvent), batched: added.paymentEvent, accountTitle: 'ALICE SMITH' };
+  });
+
+  const sealed: BECSBatchEvent = { type: 'BatchSealed', batchId: 'batch_001', occurredAt, declaredTotal: 15050n, itemCount: 2 };
+  batch = applyBECSBatchEvent(batch, sealed);
+  batchEvents.push(sealed);
+
+  const file = generateABAFile(entries, {
+    user: {
+      financialInstitution: 'CBA',
+      userName: 'TURING PAYMENTS',
+      apcaUserId: '301500',
+      remitterName: 'TURING',
+      traceBsb: '062-000',
+      traceAccountNumber: '11111111',
+    },
+    description: 'PAYMENTS',
+    submittedAt: occurredAt,
+  });
+  const submission = submitBECSBatch(batch, file, occurredAt, calendar);
+  batchEvents.push(submission.batchEvent);
+
+  const payments = entries.map((entry, index) => applyBECSEvent(entry.payment, submission.paymentEvents[index]));
+  return { batch: submission.batch, batchEvents, file, payments };
+}
+
+describe('BECS batch aggregate', () => {
+  it('should replay a batch through submission and acceptance', () => {
+    const { batch, batchEvents, file } = submitted();
+
+    expect(batch).toMatchObject({
+      state: BECSBatchState.SUBMITTED,
+      total: 15050n,
+      fileReference: file.fileReference,
+      items: [
+        { paymentIntentId: 'pay_001', sequenceNumber: 1, amount: 12550n },
+        { paymentIntentId: 'pay_002', sequenceNumber: 2, amount: 2500n },
+      ],
+    });
+    expect(computeBECSBatchHash(rebuildBECSBatchFromEvents(batchEvents))).toBe(computeBECSBatchHash(batch));
+
+    const accepted = applyBECSBatchEvent(batch, { type: 'BatchAccepted', batchId: 'batch_001', occurredAt });
+    expect(accepted.state).toBe(BECSBatchState.ACCEPTED);
+    expect(() =>
+      applyBECSBatchEvent(accepted, { type: 'BatchRejected', batchId: 'batch_001', occurredAt, rejectionReason: 'late' }),
+    ).toThrow('Cannot transition from terminal state ACCEPTED');
+  });
+
+  it('should freeze membership once sealed and reconcile declared totals', () => {
+    const batch = addPaymentToBECSBatch(createBECSBatch(opened), authorised('pay_001', 100n), occurredAt).batch;
+
+    expect(() =>
+      applyBECSBatchEvent(batch, { type: 'BatchSealed', batchId: 'batch_001', occurredAt, declaredTotal: 99n, itemCount: 1 }),
+    ).toThrow(InvariantError);
+    expect(() =>
+      applyBECSBatchEvent(createBECSBatch(opened), { type: 'BatchSealed', batchId: 'batch_001', occurredAt, declaredTotal: 0n, itemCount: 0 }),
+    ).toThrow('Cannot seal empty batch');
+    expect(() => addPaymentToBECSBatch(batch, authorised('pay_001', 100n), occurredAt)).toThrow('already in batch');
+
+    const sealed = applyBECSBatchEvent(batch, { type: 'BatchSealed', batchId: 'batch_001', occurredAt, declaredTotal: 100n, itemCount: 1 });
+    expect(() => addPaymentToBECSBatch(sealed, authorised('pay_002', 100n), occurredAt)).toThrow(
+      'membership can only change while OPEN',
+    );
+    expect(() =>
+      applyBECSBatchEvent(sealed, { type: 'BatchItemRemoved', batchId: 'batch_001', occurredAt, paymentIntentId: 'pay_001' }),
+    ).toThrow(InvariantError);
+    expect(() => applyBECSBatchEvent(sealed, { type: 'BatchAccepted', batchId: 'batch_001', occurredAt })).toThrow(
+      StateTransitionError,
+    );
+  });
+
+  it('should fail every member payment when the file is rejected', () => {
+    const { batch, payments } = submitted();
+
+    const result = rejectBECSBatch(batch, payments, 'Invalid APCA user ID', occurredAt);
+
+    expect(result.batch.state).toBe(BECSBatchState.REJECTED);
+    expect(result.batchEvent).toMatchObject({ type: 'BatchRejected', rejectionReason: 'Invalid APCA user ID' });
+    expect(result.paymentEvents).toEqual([
+      { type: 'PaymentFailed', paymentIntentId: 'pay_001', occurredAt, batchId: 'batch_001', reason: BECSFailureReason.FILE_REJECTED, fundsReleased: 12550n },
+      { type: 'PaymentFailed', paymentIntentId: 'pay_002', occurredAt, batchId: 'batch_001', reason: BECSFailureReason.FILE_REJECTED, fundsReleased: 2500n },
+    ]);
+    payments.forEach((payment, index) =>
+      expect(applyBECSEvent(payment, result.paymentEvents[index]).state).toBe(BECSPaymentState.FAILED),
+    );
+  });
+
+  it('should reject nothing unless every member payment can fail', () => {
+    const { batch, payments } = submitted();
+
+    expect(() => rejectBECSBatch(batch, [payments[0]], 'rejected', occurredAt)).toThrow('Missing: [pay_002]');
+
+    const cleared = applyBECSEvent(payments[1], {
+      type: 'PaymentCleared',
+      paymentIntentId: 'pay_002',
+      occurredAt,
+      batchId: 'batch_001',
+      clearingDate: '2024-12-18',
+      fundsProvisional: 2500n,
+    });
+    expect(() => rejectBECSBatch(batch, [payments[0], cleared], 'rejected', occurredAt)).toThrow(
+      'Payment pay_002 is CLEARED',
+    );
+
+    const unsubmitted: BECSBatch = { ...batch, state: BECSBatchState.SEALED };
+    expect(() => rejectBECSBatch(unsubmitted, payments, 'rejected', occurredAt)).toThrow(StateTransitionError);
+  });
+
+  it('should store the rejection in every stream or none', async () => {
+    const { batch, batchEvents, payments } = submitted();
+    const store = new InMemoryEventStore<BECSBatchEvent | BECSPaymentEvent>();
+    await store.append('batch_001', NO_STREAM, batchEvents);
+    const { batchEvent, paymentEvents } = rejectBECSBatch(batch, payments, 'Invalid APCA user ID', occurredAt);
+    const appends = [
+      { streamId: 'batch_001', expectedVersion: batchEvents.length, events: [batchEvent] },
+      ...paymentEvents.map((event) => ({ streamId: event.paymentIntentId, expectedVersion: NO_STREAM, events: [event] })),
+    ];
+
+    // pay_002 moved on after it was read
+    await store.append('pay_002', NO_STREAM, [paymentEvents[1]]);
+    await expect(store.appendAll(appends)).rejects.toBeInstanceOf(VersionConflictError);
+    expect(await store.streamVersion('batch_001')).toBe(batchEvents.length);
+    expect(await store.streamVersion('pay_001')).toBe(NO_STREAM);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * BECS direct debit tests.
+ *
+ * Tests:
+ * - DDR authorities replay through limit changes and revocation
+ * - Debits need a live authority covering the account and amount
+ * - Debits are checked against their authority when initiated, not on replay
+ * - ABA files write debits with code 13 under the authority's debit user ID
+ * - Debits must name their authority; debit-only return codes reject credits
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ABAFileError,
+  ABATransactionCode,
+  BECSDirection,
+  BECSPaymentEvent,
+  BECSPaymentState,
+  BECSReturnCode,
+  DDRAuthorityEvent,
+  DDRAuthorityState,
+  PaymentBatched,
+  applyBECSEvent,
+  applyDDRAuthorityEvent,
+  assertDDRAuthorityLive,
+  computeDDRAuthorityHash,
+  createBECSPayment,
+  createDDRAuthority,
+  generateABAFile,
+  initiateBECSDebit,
+  isDDRAuthorityInForce,
+  rebuildBECSFromEvents,
+  rebuildDDRAuthorityFromEvents,
+} from '../../src/domain/becs';
+import { InvariantError, TerminalStateError } from '../../src/domain/shared';
+
+const occurredAt = new Date('2024-12-17T10:00:00Z');
+
+const established: DDRAuthorityEvent = {
+  type: 'DDRAuthorityEstablished',
+  authorityId: 'ddr_001',
+  occurredAt: new Date('2024-06-01T00:00:00Z'),
+  customerId: 'cust_001',
+  debitUserId: '301501',
+  bsb: '062-000',
+  accountNumber: '12345678',
+  accountName: 'ALICE SMITH',
+  debitLimit: 50000n,
+  validFrom: '2024-06-01',
+  validTo: '2025-05-31',
+};
+const authority = createDDRAuthority(established);
+const revoked: DDRAuthorityEvent = {
+  type: 'DDRAuthorityRevoked',
+  authorityId: 'ddr_001',
+  occurredAt,
+  revokedBy: 'CUSTOMER',
+  reason: 'Loan refinanced',
+};
+
+function debitEvents(amount: bigint): BECSPaymentEvent[] {
+  return [
+    {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: 'pay_dd',
+      occurredAt,
+      amount,
+      currency: 'AUD',
+      idempotencyKey: 'idem_dd',
+      fromAccountId: '062-000 12345678',
+      toAccountId: 'acc_loan_collections',
+      bsb: '062-000',
+      accountNumber: '12345678',
+      direction: BECSDirection.DEBIT,
+      ddrAuthorityId: 'ddr_001',
+    },
+    { type: 'PaymentAuthorised', paymentIntentId: 'pay_dd', occurredAt, policyChecksPassed: true, fundsEarmarked: amount },
+    { type: 'PaymentBatched', paymentIntentId: 'pay_dd', occurredAt, batchId: 'batch_dd', batchDate: '2024-12-17', sequenceNumber: 1, fundsHeld: amount },
+  ];
+}
+
+const fileOptions = (apcaUserId: string) => ({
+  user: {
+    financialInstitution: 'CBA',
+    userName: 'TURING CU',
+    apcaUserId,
+    remitterName: 'TURING CU',
+    traceBsb: '062-000',
+    traceAccountNumber: '11111111',
+  },
+  description: 'LOAN REPAY',
+  submittedAt: occurredAt,
+});
+
+describe('BECS direct debits', () => {
+  it('should replay a DDR authority through limit changes and revocation', () => {
+    const events: DDRAuthorityEvent[] = [
+      established,
+      { type: 'DDRAuthorityLimitChanged', authorityId: 'ddr_001', occurredAt, debitLimit: 20000n },
+      revoked,
+    ];
+    const rebuilt = rebuildDDRAuthorityFromEvents(events);
+
+    expect(rebuilt).toMatchObject({ state: DDRAuthorityState.REVOKED, debitLimit: 20000n, revokedBy: 'CUSTOMER' });
+    expect(computeDDRAuthorityHash(rebuilt)).toBe(computeDDRAuthorityHash(events.slice(1).reduce(applyDDRAuthorityEvent, authority)));
+    expect(isDDRAuthorityInForce(authority, '2024-12-17')).toBe(true);
+    expect(isDDRAuthorityInForce(authority, '2025-06-01')).toBe(false);
+    expect(isDDRAuthorityInForce(rebuilt, '2024-12-17')).toBe(false);
+
+    expect(() => applyDDRAuthorityEvent(rebuilt, revoked)).toThrow(TerminalStateError);
+    expect(() => createDDRAuthority({ ...established, debitLimit: 0n })).toThrow('debit limit must be positive');
+  });
+
+  it('should require a live authority covering the account and amount', () => {
+    const [intent] = debitEvents(30000n);
+    if (intent.type !== 'PaymentIntentCreated') throw new Error('unreachable');
+
+    expect(() => assertDDRAuthorityLive(intent, authority, '2024-12-17')).not.toThrow();
+    expect(() => assertDDRAuthorityLive(intent, undefined, '2024-12-17')).toThrow(InvariantError);
+    expect(() => assertDDRAuthorityLive(intent, undefined, '2024-12-17')).toThrow('has no DDR authority (ddr_001 not found)');
+    expect(() => assertDDRAuthorityLive(intent, applyDDRAuthorityEvent(authority, revoked), '2024-12-17')).toThrow(
+      'revoked DDR authority ddr_001 (Loan refinanced)',
+    );
+    expect(() => assertDDRAuthorityLive(intent, authority, '2025-06-02')).toThrow('outside DDR authority ddr_001');
+    expect(() => assertDDRAuthorityLive({ ...intent, accountNumber: '87654321' }, authority, '2024-12-17')).toThrow(
+      'covers 062-000 12345678',
+    );
+    expect(() => assertDDRAuthorityLive({ ...intent, amount: 50001n }, authority, '2024-12-17')).toThrow(
+      'exceeds the debit limit 50000',
+    );
+  });
+
+  it('should check the authority when a debit is initiated', () => {
+    const [intent] = debitEvents(30000n);
+    if (intent.type !== 'PaymentIntentCreated') throw new Error('unreachable');
+
+    expect(initiateBECSDebit(intent, authority, '2024-12-17')).toMatchObject({
+      state: BECSPaymentState.CREATED,
+      ddrAuthorityId: 'ddr_001',
+    });
+    expect(() => initiateBECSDebit(intent, applyDDRAuthorityEvent(authority, revoked), '2024-12-17')).toThrow(
+      'Direct debit pay_dd is drawn under revoked DDR authority ddr_001',
+    );
+    expect(() => initiateBECSDebit({ ...intent, amount: 50001n }, authority, '2024-12-17')).toThrow(
+      'exceeds the debit limit 50000',
+    );
+    expect(() => initiateBECSDebit(intent, undefined, '2024-12-17')).toThrow(InvariantError);
+    expect(() => initiateBECSDebit({ ...intent, direction: BECSDirection.CREDIT }, authority, '2024-12-17')).toThrow(
+      'Payment pay_dd is not a direct debit',
+    );
+
+    // Revoking the authority later does not stop the debit replaying
+    expect(rebuildBECSFromEvents(debitEvents(30000n)).state).toBe(BECSPaymentState.BATCHED);
+  });
+
+  it('should write debits with code 13 under the authority debit user ID', () => {
+    const events = debitEvents(30000n);
+    const [first, ...rest] = events;
+    const payment = rest.reduce(applyBECSEvent, createBECSPayment(first));
+    const entry = { payment, batched: events[2] as PaymentBatched, accountTitle: 'ALICE SMITH', authority };
+
+    const file = generateABAFile([entry], fileOptions('301501'));
+    expect(file).toMatchObject({ creditTotal: 0n, debitTotal: 30000n });
+    expect(file.content.split('\r\n')[1].slice(18, 20)).toBe('13');
+
+    expect(() => generateABAFile([entry], fileOptions('301500'))).toThrow('is lodged under user ID 301500');
+    expect(() => generateABAFile([{ ...entry, authority: undefined }], fileOptions('301501'))).toThrow(InvariantError);
+    expect(() =>
+      generateABAFile(
+        [{ ...entry, payment: { ...payment, direction: BECSDirection.CREDIT }, transactionCode: ABATransactionCode.EXTERNALLY_INITIATED_DEBIT }],
+        fileOptions('301501'),
+      ),
+    ).toThrow(ABAFileError);
+  });
+
+  it('should require debits to name an authority and reserve debit return codes', () => {
+    const returned: BECSPaymentEvent[] = [
+      { type: 'BatchSubmitted', paymentIntentId: 'pay_dd', occurredAt, batchId: 'batch_dd', fileReference: 'FILE_DD', declaredTotal: 30000n, itemCount: 1 },
+      { type: 'PaymentCleared', paymentIntentId: 'pay_dd', occurredAt, batchId: 'batch_dd', clearingDate: '2024-12-18', fundsProvisional: 30000n },
+      {
+        type: 'PaymentReturned',
+        paymentIntentId: 'pay_dd',
+        occurredAt,
+        batchId: 'batch_dd',
+        returnCode: BECSReturnCode.NO_AUTHORITY,
+        returnDate: '2024-12-19',
+        returnReason: 'Customer cancelled DDR with their bank',
+        fundsReversed: 30000n,
+      },
+    ];
+
+    const [intent, ...rest] = debitEvents(30000n);
+    const withIntent = (changes: object) => [{ ...intent, ...changes } as BECSPaymentEvent, ...rest];
+
+    expect(rebuildBECSFromEvents([intent, ...rest, ...returned]).state).toBe(BECSPaymentState.RETURNED);
+    expect(() => rebuildBECSFromEvents(withIntent({ ddrAuthorityId: undefined }))).toThrow(
+      'does not name a DDR authority',
+    );
+    expect(() => rebuildBECSFromEvents([...withIntent({ direction: BECSDirection.CREDIT }), ...returned])).toThrow(
+      'Return code 06 only applies to direct debits',
+    );
+  });
+});
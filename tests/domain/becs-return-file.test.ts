@@ -0,0 +1,211 @@
+/**
+ * BECS return file parser tests.
+ *
+ * Tests:
+ * - Return records are matched back to the submitted entry and payment
+ * - Matched items become validated PaymentReturned events
+ * - Unmatched, ambiguous, duplicate and unsupported items are exceptions
+ * - Malformed files are rejected
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ABAFile,
+  BECSPayment,
+  BECSPaymentEvent,
+  BECSPaymentState,
+  BECSReturnCode,
+  BECSReturnFileError,
+  applyBECSEvent,
+  createBECSPayment,
+  generateABAFile,
+  parseBECSReturnFile,
+} from '../../src/domain/becs';
+
+const occurredAt = new Date('2024-12-17T10:00:00Z');
+const receivedAt = new Date('2024-12-20T09:00:00Z');
+
+function batchedEvents(id: string, amount: bigint, sequenceNumber: number): BECSPaymentEvent[] {
+  return [
+    {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: id,
+      occurredAt,
+      amount,
+      currency: 'AUD',
+      idempotencyKey: `idem_${id}`,
+      fromAccountId: 'acc_source',
+      toAccountId: '062-000 12345678',
+      bsb: '062-000',
+      accountNumber: '12345678',
+    },
+    { type: 'PaymentAuthorised', paymentIntentId: id, occurredAt, policyChecksPassed: true, fundsEarmarked: amount },
+    {
+      type: 'PaymentBatched',
+      paymentIntentId: id,
+      occurredAt,
+      batchId: 'batch_001',
+      batchDate: '2024-12-17',
+      sequenceNumber,
+      fundsHeld: amount,
+    },
+  ];
+}
+
+function replay(events: BECSPaymentEvent[]): BECSPayment {
+  const [first, ...rest] = events;
+  return rest.reduce(applyBECSEvent, createBECSPayment(first));
+}
+
+/**
+ * Submit pay_001 and pay_002, then clear both.
+ */
+function submittedBatch(): { file: ABAFile; payments: BECSPayment[] } {
+  const amounts = [12550n, 2500n];
+  const streams = amounts.map((amount, index) => batchedEvents(`pay_00${index + 1}`, amount, index + 1));
+  const file = generateABAFile(
+    streams.map((events) => ({
+      payment: replay(events),
+      batched: events[2] as Extract<BECSPaymentEvent, { type: 'PaymentBatched' }>,
+      accountTitle: 'ALICE SMITH',
+    })),
+    {
+      user: {
+        financialInstitution: 'CBA',
+        userName: 'TURING PAYMENTS',
+        apcaUserId: '301500',
+        remitterName: 'TURING',
+        traceBsb: '062-000',
+        traceAccountNumber: '11111111',
+      },
+      description: 'PAYMENTS',
+      submittedAt: occurredAt,
+    },
+  );
+
+  const payments = streams.map((events, index) =>
+    replay([
+      ...events,
+      file.submissions[index],
+      {
+        type: 'PaymentCleared',
+        paymentIntentId: file.submissions[index].paymentIntentId,
+        occurredAt,
+        batchId: 'batch_001',
+        clearingDate: '2024-12-18',
+        fundsProvisional: amounts[index],
+      },
+    ]),
+  );
+
+  return { file, payments };
+}
+
+/**
+ * Build a return file from submitted detail records: [line in file, return reason]
+ */
+function returnFile(file: ABAFile, items: [number, string][], overrides: { day?: string; total?: string } = {}): string {
+  const detailLines = file.content.split('\r\n');
+  const records = items.map(([line, reason]) => {
+    const detail = detailLines[line];
+    return '2' + detail.slice(1, 17) + reason + detail.slice(18, 112) + (overrides.day ?? '17') + '301500';
+  });
+  const total = items.reduce((sum, [line]) => sum + BigInt(detailLines[line].slice(20, 30)), 0n);
+  const amount = (overrides.total ?? total.toString()).padStart(10, '0');
+
+  return [
+    '0' + ' '.repeat(17) + '01' + 'CBA' + ' '.repeat(7) + 'RETURNS'.padEnd(26) + '301500' + 'RETURNS     ' + '201224' + ' '.repeat(40),
+    ...records,
+    '7999-999' + ' '.repeat(12) + amount + amount + '0'.repeat(10) + ' '.repeat(24) + String(records.length).padStart(6, '0') + ' '.repeat(40),
+    '',
+  ].join('\r\n');
+}
+
+describe('BECS return file parser', () => {
+  it('should match returns to the original payment and emit PaymentReturned', () => {
+    const { file, payments } = submittedBatch();
+
+    const result = parseBECSReturnFile(returnFile(file, [[2, '3']]), { originals: [file], payments, receivedAt });
+
+    expect(result.exceptions).toEqual([]);
+    expect(result.returnDate).toBe('2024-12-20');
+    expect(result.returns).toEqual([
+      {
+        type: 'PaymentReturned',
+        paymentIntentId: 'pay_002',
+        occurredAt: receivedAt,
+        batchId: 'batch_001',
+        returnCode: BECSReturnCode.ACCOUNT_CLOSED,
+        returnDate: '2024-12-20',
+        returnReason: 'Account closed',
+        fundsReversed: 2500n,
+      },
+    ]);
+    expect(applyBECSEvent(payments[1], result.returns[0]).state).toBe(BECSPaymentState.RETURNED);
+  });
+
+  it('should report unmatched, duplicate and unsupported items as exceptions', () => {
+    const { file, payments } = submittedBatch();
+
+    const unmatched = parseBECSReturnFile(returnFile(file, [[1, '6']], { day: '18' }), {
+      originals: [file],
+      payments,
+      receivedAt,
+    });
+    expect(unmatched.returns).toEqual([]);
+    expect(unmatched.exceptions).toMatchObject([{ reason: 'UNMATCHED', candidates: [], item: { line: 2 } }]);
+
+    const result = parseBECSReturnFile(returnFile(file, [[1, '6'], [1, '6'], [2, '9']]), {
+      originals: [file],
+      payments,
+      receivedAt,
+    });
+    expect(result.returns.map((event) => event.paymentIntentId)).toEqual(['pay_001']);
+    expect(result.exceptions).toMatchObject([
+      { reason: 'DUPLICATE', candidates: ['pay_001'] },
+      { reason: 'UNSUPPORTED_RETURN_CODE', candidates: ['pay_002'] },
+    ]);
+  });
+
+  it('should report ambiguous matches and payments the aggregate rejects', () => {
+    const { file, payments } = submittedBatch();
+
+    const ambiguous = parseBECSReturnFile(returnFile(file, [[1, '2']]), {
+      originals: [file, { ...file, batchId: 'batch_copy' }],
+      payments,
+      receivedAt,
+    });
+    expect(ambiguous.exceptions).toMatchObject([{ reason: 'AMBIGUOUS', candidates: ['pay_001', 'pay_001'] }]);
+
+    const returned = applyBECSEvent(payments[0], {
+      type: 'PaymentReturned',
+      paymentIntentId: 'pay_001',
+      occurredAt,
+      batchId: 'batch_001',
+      returnCode: BECSReturnCode.PAYMENT_STOPPED,
+      returnDate: '2024-12-19',
+      returnReason: 'Payment stopped',
+      fundsReversed: 12550n,
+    });
+    const rejected = parseBECSReturnFile(returnFile(file, [[1, '2']]), {
+      originals: [file],
+      payments: [returned, payments[1]],
+      receivedAt,
+    });
+    expect(rejected.returns).toEqual([]);
+    expect(rejected.exceptions).toMatchObject([
+      { reason: 'REJECTED', message: expect.stringContaining('current state is RETURNED') },
+    ]);
+  });
+
+  it('should reject a file whose totals do not match its items', () => {
+    const { file, payments } = submittedBatch();
+
+    expect(() =>
+      parseBECSReturnFile(returnFile(file, [[1, '6']], { total: '1' }), { originals: [file], payments, receivedAt }),
+    ).toThrow(BECSReturnFileError);
+    expect(() => parseBECSReturnFile('2 too short\r\n', { originals: [file], payments, receivedAt })).toThrow(
+      'line 1 is 11 characters',
+    );
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * BECS return window tests.
+ *
+ * Tests:
+ * - Windows are counted in business days from the processing date
+ * - Late return after settlement is accepted inside the window and replays
+ * - Returns outside the window are rejected; policies can widen it
+ * - New returns are checked against the window on every command path
+ *   (returnBECSPayment, the rails facade); replay is not
+ * - Settlement is final once every window has closed, and summaries say so
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BECSPaymentEvent,
+  BECSPaymentState,
+  BECSReturnCode,
+  DEFAULT_BECS_RETURN_WINDOW_POLICY,
+  assertReturnWithinWindow,
+  canReturnBECSPayment,
+  getBECSReturnWindowCloses,
+  getBECSSettlementFinalDate,
+  isBECSPaymentTerminal,
+  isBECSSettlementFinal,
+  rebuildBECSFromEvents,
+  returnBECSPayment,
+} from '../../src/domain/becs';
+import { InvariantError } from '../../src/domain/shared';
+import { PaymentsRails, createBECSAdapter } from '../../src/rails';
+
+const at = (day: number) => new Date(Date.UTC(2024, 11, day, 10));
+
+// Processed Thursday 2024-12-19
+const settledEvents: BECSPaymentEvent[] = [
+  {
+    type: 'PaymentIntentCreated',
+    paymentIntentId: 'pay_001',
+    occurredAt: at(18),
+    amount: 50000n,
+    currency: 'AUD',
+    idempotencyKey: 'idem_001',
+    fromAccountId: 'acc_payroll',
+    toAccountId: 'acc_employee',
+  },
+  { type: 'PaymentAuthorised', paymentIntentId: 'pay_001', occurredAt: at(18), policyChecksPassed: true, fundsEarmarked: 50000n },
+  { type: 'PaymentBatched', paymentIntentId: 'pay_001', occurredAt: at(18), batchId: 'batch_1', batchDate: '2024-12-19', sequenceNumber: 1, fundsHeld: 50000n },
+  { type: 'BatchSubmitted', paymentIntentId: 'pay_001', occurredAt: at(19), batchId: 'batch_1', fileReference: 'file_1', declaredTotal: 50000n, itemCount: 1 },
+  { type: 'PaymentCleared', paymentIntentId: 'pay_001', occurredAt: at(19), batchId: 'batch_1', clearingDate: '2024-12-19', fundsProvisional: 50000n },
+  { type: 'PaymentSettled', paymentIntentId: 'pay_001', occurredAt: at(20), batchId: 'batch_1', settlementRef: 'rba_1', settlementDate: '2024-12-20', fundsTransferred: 50000n },
+];
+
+function returned(returnCode: BECSReturnCode, returnDate: string): Extract<BECSPaymentEvent, { type: 'PaymentReturned' }> {
+  return {
+    type: 'PaymentReturned',
+    paymentIntentId: 'pay_001',
+    occurredAt: at(24),
+    batchId: 'batch_1',
+    returnCode,
+    returnDate,
+    returnReason: 'Returned',
+    fundsReversed: 50000n,
+  };
+}
+
+describe('BECS return windows', () => {
+  it('should count windows in business days from the processing date', () => {
+    expect(getBECSReturnWindowCloses('2024-12-19', BECSReturnCode.INSUFFICIENT_FUNDS)).toBe('2024-12-24');
+    expect(getBECSReturnWindowCloses('2024-12-19', BECSReturnCode.ACCOUNT_CLOSED)).toBe('2024-12-26');
+    expect(getBECSSettlementFinalDate('2024-12-19')).toBe('2025-01-02');
+  });
+
+  it('should accept a late return after settlement inside the window', () => {
+    const settled = rebuildBECSFromEvents(settledEvents);
+    const lateReturn = returned(BECSReturnCode.INSUFFICIENT_FUNDS, '2024-12-24');
+
+    expect(isBECSPaymentTerminal(settled)).toBe(false);
+    expect(() => assertReturnWithinWindow(settled, lateReturn)).not.toThrow();
+
+    const payment = rebuildBECSFromEvents([...settledEvents, lateReturn]);
+    expect(payment.state).toBe(BECSPaymentState.RETURNED);
+    expect(isBECSPaymentTerminal(payment)).toBe(true);
+  });
+
+  it('should reject returns outside the window unless the policy widens it', () => {
+    const settled = rebuildBECSFromEvents(settledEvents);
+    const lateReturn = returned(BECSReturnCode.INSUFFICIENT_FUNDS, '2024-12-27');
+
+    expect(() => assertReturnWithinWindow(settled, lateReturn)).toThrow(InvariantError);
+    expect(() => assertReturnWithinWindow(settled, lateReturn)).toThrow(
+      'Return window for code 02 closed on 2024-12-24, return dated 2024-12-27',
+    );
+
+    const widened = {
+      ...DEFAULT_BECS_RETURN_WINDOW_POLICY,
+      windows: { ...DEFAULT_BECS_RETURN_WINDOW_POLICY.windows, [BECSReturnCode.INSUFFICIENT_FUNDS]: 6 },
+    };
+    expect(() => assertReturnWithinWindow(settled, lateReturn, widened)).not.toThrow();
+
+    const authorised = rebuildBECSFromEvents(settledEvents.slice(0, 2));
+    expect(() => assertReturnWithinWindow(authorised, lateReturn)).toThrow('current state is AUTHORISED');
+  });
+
+  it('should make settlement final once every window has closed', () => {
+    const settled = rebuildBECSFromEvents(settledEvents);
+
+    expect(isBECSSettlementFinal(settled, '2025-01-02')).toBe(false);
+    expect(canReturnBECSPayment(settled, '2025-01-02')).toBe(true);
+    expect(isBECSSettlementFinal(settled, '2025-01-03')).toBe(true);
+    expect(canReturnBECSPayment(settled, '2025-01-03')).toBe(false);
+  });
+
+  it('should accept a return inside the window through returnBECSPayment', () => {
+    const payment = returnBECSPayment(rebuildBECSFromEvents(settledEvents), returned(BECSReturnCode.INSUFFICIENT_FUNDS, '2024-12-24'));
+    expect(payment.state).toBe(BECSPaymentState.RETURNED);
+  });
+
+  it('should refuse a return outside the window through returnBECSPayment', () => {
+    const settled = rebuildBECSFromEvents(settledEvents);
+    expect(() => returnBECSPayment(settled, returned(BECSReturnCode.INSUFFICIENT_FUNDS, '2024-12-27'))).toThrow(
+      'Return window for code 02 closed on 2024-12-24',
+    );
+  });
+
+  it('should refuse a return outside the window through the rails facade', () => {
+    const rails = new PaymentsRails();
+    const settled = rails.rebuild('BECS', settledEvents);
+    const lateReturn = returned(BECSReturnCode.INSUFFICIENT_FUNDS, '2024-12-27');
+
+    expect(() => rails.apply('BECS', settled, lateReturn)).toThrow(InvariantError);
+    expect(rails.apply('BECS', settled, returned(BECSReturnCode.NOT_DRAWN, '2024-12-27')).state).toBe(BECSPaymentState.RETURNED);
+  });
+
+  it('should still replay a recorded return after its window has closed', () => {
+    const lateReturn = returned(BECSReturnCode.INSUFFICIENT_FUNDS, '2024-12-27');
+    expect(new PaymentsRails().rebuild('BECS', [...settledEvents, lateReturn]).state).toBe(BECSPaymentState.RETURNED);
+  });
+
+  it('should summarise a settlement as terminal once every window has closed', () => {
+    const settled = rebuildBECSFromEvents(settledEvents);
+
+    expect(createBECSAdapter(DEFAULT_BECS_RETURN_WINDOW_POLICY, () => '2025-01-02').summarize(settled)).toMatchObject({
+      terminal: false,
+      allowedNextStates: [BECSPaymentState.RETURNED],
+    });
+    expect(createBECSAdapter(DEFAULT_BECS_RETURN_WINDOW_POLICY, () => '2025-01-03').summarize(settled)).toMatchObject({
+      terminal: true,
+      allowedNextStates: [],
+    });
+  });
+});
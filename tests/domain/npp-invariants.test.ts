@@ -0,0 +1,232 @@
+/**
+ * NPP invariant tests.
+ *
+ * Tests:
+ * - Transition matrix enforcement in applyEvent
+ * - Economic invariants (funds consistency, conservation, single settlement)
+ * - Operator override rules
+ * - Replay rejects corrupted event streams
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  NPPPaymentState,
+  NPPFailureReason,
+  NPPPaymentEventUnion,
+  IllegalTransitionError,
+  InvariantViolationError,
+  OpsViolationError,
+  applyEvent,
+  rebuildFromEvents,
+  isNPPTransitionLegal,
+} from '../../src/domain/npp';
+
+const ID = 'pay_npp_001';
+const AMOUNT = 10000n;
+
+function at(seconds: number): Date {
+  return new Date(Date.UTC(2024, 11, 17, 10, 0, seconds));
+}
+
+function happyPath(): NPPPaymentEventUnion[] {
+  return [
+    {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: ID,
+      occurredAt: at(0),
+      amount: AMOUNT,
+      currency: 'AUD',
+      idempotencyKey: 'idem_001',
+      fromAccountId: 'acc_from',
+      toAccountId: 'acc_to',
+    },
+    {
+      type: 'PaymentAuthorised',
+      paymentIntentId: ID,
+      occurredAt: at(1),
+      policyChecksPassed: true,
+      fundsEarmarked: AMOUNT,
+    },
+    {
+      type: 'PaymentAttemptCreated',
+      paymentIntentId: ID,
+      occurredAt: at(2),
+      attemptId: 'att_001',
+      rail: 'NPP',
+    },
+    {
+      type: 'PaymentSentToRail',
+      paymentIntentId: ID,
+      occurredAt: at(3),
+      attemptId: 'att_001',
+      externalRef: 'ext_001',
+      fundsHeld: AMOUNT,
+    },
+    {
+      type: 'PaymentAcknowledged',
+      paymentIntentId: ID,
+      occurredAt: at(4),
+      attemptId: 'att_001',
+      schemeRef: 'scheme_001',
+      fundsProvisional: AMOUNT,
+    },
+    {
+      type: 'PaymentSettled',
+      paymentIntentId: ID,
+      occurredAt: at(5),
+      attemptId: 'att_001',
+      settlementRef: 'settle_001',
+      fundsMoved: AMOUNT,
+    },
+  ];
+}
+
+function failedAfterSend(): NPPPaymentEventUnion[] {
+  return [
+    ...happyPath().slice(0, 4),
+    {
+      type: 'PaymentFailed',
+      paymentIntentId: ID,
+      occurredAt: at(4),
+      reason: NPPFailureReason.RAIL,
+      attemptId: 'att_001',
+      fundsReleased: AMOUNT,
+    },
+  ];
+}
+
+describe('NPP transition matrix', () => {
+  it('should allow the happy path', () => {
+    const payment = rebuildFromEvents(happyPath());
+
+    expect(payment.state).toBe(NPPPaymentState.SETTLED);
+    expect(payment.fundsMoved).toBe(AMOUNT);
+  });
+
+  it('should allow late failure after ACK', () => {
+    expect(isNPPTransitionLegal(NPPPaymentState.ACKNOWLEDGED, NPPPaymentState.FAILED)).toBe(true);
+  });
+
+  it('should have no transitions out of terminal states', () => {
+    for (const state of [NPPPaymentState.SETTLED, NPPPaymentState.FAILED, NPPPaymentState.EXPIRED]) {
+      for (const to of Object.values(NPPPaymentState)) {
+        expect(isNPPTransitionLegal(state, to)).toBe(false);
+      }
+    }
+  });
+
+  it('should reject PaymentSettled on a FAILED payment', () => {
+    const failed = rebuildFromEvents(failedAfterSend());
+
+    expect(() => applyEvent(failed, happyPath()[5])).toThrow(IllegalTransitionError);
+  });
+
+  it('should reject skipping SENT', () => {
+    const events = happyPath();
+
+    expect(() => rebuildFromEvents([...events.slice(0, 3), events[4]])).toThrow(
+      IllegalTransitionError,
+    );
+  });
+});
+
+describe('NPP economic invariants', () => {
+  it('should reject a second PaymentIntentCreated', () => {
+    const events = happyPath();
+
+    expect(() => rebuildFromEvents([...events.slice(0, 2), events[0]])).toThrow(
+      InvariantViolationError,
+    );
+  });
+
+  it('should reject settlement of a different amount', () => {
+    const events = happyPath();
+    const settled = { ...events[5], fundsMoved: AMOUNT - 1n } as NPPPaymentEventUnion;
+
+    expect(() => rebuildFromEvents([...events.slice(0, 5), settled])).toThrow(
+      InvariantViolationError,
+    );
+  });
+
+  it('should reject a failure that does not release earmarked funds', () => {
+    const events = failedAfterSend();
+    const failed = { ...events[4], fundsReleased: 0n } as NPPPaymentEventUnion;
+
+    expect(() => rebuildFromEvents([...events.slice(0, 4), failed])).toThrow(
+      /Funds conservation violated/,
+    );
+  });
+
+  it('should reject callbacks for a different attempt', () => {
+    const events = happyPath();
+    const ack = { ...events[4], attemptId: 'att_999' } as NPPPaymentEventUnion;
+
+    expect(() => rebuildFromEvents([...events.slice(0, 4), ack])).toThrow(
+      InvariantViolationError,
+    );
+  });
+});
+
+describe('NPP operator overrides', () => {
+  it('should retry a FAILED payment through a new attempt', () => {
+    const events: NPPPaymentEventUnion[] = [
+      ...failedAfterSend(),
+      {
+        type: 'OpsOverrideApplied',
+        paymentIntentId: ID,
+        occurredAt: at(10),
+        operatorId: 'op_001',
+        action: 'RETRY',
+        reason: 'Resolve approved retry after rail timeout',
+        fromState: NPPPaymentState.FAILED,
+        toState: NPPPaymentState.AUTHORISED,
+        policyGate: 'resolve:npp-retry',
+      },
+      { type: 'PaymentAttemptCreated', paymentIntentId: ID, occurredAt: at(11), attemptId: 'att_002', rail: 'NPP' },
+      { type: 'PaymentSentToRail', paymentIntentId: ID, occurredAt: at(12), attemptId: 'att_002', fundsHeld: AMOUNT },
+      { type: 'PaymentAcknowledged', paymentIntentId: ID, occurredAt: at(13), attemptId: 'att_002', schemeRef: 's2', fundsProvisional: AMOUNT },
+      { type: 'PaymentSettled', paymentIntentId: ID, occurredAt: at(14), attemptId: 'att_002', settlementRef: 'st2', fundsMoved: AMOUNT },
+    ];
+
+    const payment = rebuildFromEvents(events);
+
+    expect(payment.state).toBe(NPPPaymentState.SETTLED);
+    expect(payment.attempts).toEqual(['att_001', 'att_002']);
+  });
+
+  it('should reject an override whose fromState does not match', () => {
+    const payment = rebuildFromEvents(happyPath().slice(0, 4));
+
+    expect(() =>
+      applyEvent(payment, {
+        type: 'OpsOverrideApplied',
+        paymentIntentId: ID,
+        occurredAt: at(10),
+        operatorId: 'op_001',
+        action: 'MARK_FAILED',
+        reason: 'Rail outage',
+        fromState: NPPPaymentState.ACKNOWLEDGED,
+        toState: NPPPaymentState.FAILED,
+        policyGate: 'resolve:npp-mark-failed',
+      }),
+    ).toThrow(OpsViolationError);
+  });
+
+  it('should reject cancelling a SETTLED payment', () => {
+    const payment = rebuildFromEvents(happyPath());
+
+    expect(() =>
+      applyEvent(payment, {
+        type: 'OpsOverrideApplied',
+        paymentIntentId: ID,
+        occurredAt: at(10),
+        operatorId: 'op_001',
+        action: 'CANCEL',
+        reason: 'Customer request',
+        fromState: NPPPaymentState.SETTLED,
+        toState: NPPPaymentState.FAILED,
+        policyGate: 'resolve:npp-cancel',
+      }),
+    ).toThrow(IllegalTransitionError);
+  });
+});
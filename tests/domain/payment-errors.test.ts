@@ -0,0 +1,129 @@
+/**
+ * Cross-rail payment domain error tests.
+ *
+ * Tests:
+ * - Every rail's invariants throw the shared typed errors
+ * - Structured fields (from/to, required/available, invariant id) are populated
+ * - Existing message text is preserved
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  InsufficientFundsError,
+  InvariantError,
+  PaymentDomainError,
+  StateTransitionError,
+  TerminalStateError,
+  UNIVERSAL_INVARIANTS,
+} from '../../src/domain/shared';
+import {
+  IllegalTransitionError,
+  InvariantViolationError,
+  NPPPaymentState,
+  assertNPPTransitionLegal,
+  assertPositiveAmount,
+} from '../../src/domain/npp';
+import {
+  BECSPaymentState,
+  assertBECSTransitionLegal,
+  assertBatchTotalsReconcile,
+} from '../../src/domain/becs';
+import {
+  RTGSApprovalRole,
+  RTGSPaymentState,
+  assertRTGSTransitionLegal,
+  assertSeparationOfDuties,
+  assertFundsConservation,
+} from '../../src/domain/rtgs';
+import {
+  assertAuthAllowed,
+  assertCaptureAllowed,
+  assertTerminalStateImmutable,
+  CardsPaymentState,
+} from '../../src/domain/cards';
+
+function thrown(fn: () => void): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expected an error');
+}
+
+describe('Payment domain errors', () => {
+  it('should specialise the shared errors for NPP', () => {
+    const transition = thrown(() =>
+      assertNPPTransitionLegal(NPPPaymentState.SETTLED, NPPPaymentState.FAILED)
+    );
+    expect(transition).toBeInstanceOf(IllegalTransitionError);
+    expect(transition).toBeInstanceOf(StateTransitionError);
+    expect(transition).toMatchObject({
+      rail: 'NPP',
+      from: NPPPaymentState.SETTLED,
+      to: NPPPaymentState.FAILED,
+      message: 'ILLEGAL_NPP_TRANSITION: SETTLED → FAILED',
+    });
+
+    const invariant = thrown(() => assertPositiveAmount(0n));
+    expect(invariant).toBeInstanceOf(InvariantViolationError);
+    expect(invariant).toBeInstanceOf(InvariantError);
+    expect(invariant).toMatchObject({ rail: 'NPP', invariant: 'NPP.POSITIVE_AMOUNT' });
+  });
+
+  it('should carry from/to states for BECS, RTGS and Cards transitions', () => {
+    const becs = thrown(() =>
+      assertBECSTransitionLegal(BECSPaymentState.CREATED, BECSPaymentState.SETTLED)
+    );
+    expect(becs).toBeInstanceOf(StateTransitionError);
+    expect(becs).toMatchObject({
+      rail: 'BECS',
+      from: 'CREATED',
+      to: 'SETTLED',
+      message: 'INVARIANT_VIOLATION: Illegal BECS state transition from CREATED to SETTLED',
+    });
+
+    const rtgs = thrown(() =>
+      assertRTGSTransitionLegal(RTGSPaymentState.CREATED, RTGSPaymentState.SETTLED)
+    );
+    expect(rtgs).toMatchObject({ rail: 'RTGS', from: 'CREATED', to: 'SETTLED' });
+
+    const cards = thrown(() => assertTerminalStateImmutable(CardsPaymentState.DECLINED));
+    expect(cards).toBeInstanceOf(TerminalStateError);
+    expect(cards).toMatchObject({ rail: 'CARDS', from: 'DECLINED', to: null });
+  });
+
+  it('should name the violated invariant', () => {
+    expect(thrown(() => assertBatchTotalsReconcile([], 100n))).toMatchObject({
+      rail: 'BECS',
+      invariant: 'BECS.1',
+      context: { declaredTotal: 100n, calculatedTotal: 0n },
+    });
+    expect(
+      thrown(() =>
+        assertSeparationOfDuties('ops_1', [
+          { approverId: 'ops_1', approverRole: RTGSApprovalRole.INITIATOR, approvedAt: new Date() },
+        ])
+      )
+    ).toMatchObject({ invariant: 'RTGS.2' });
+    expect(thrown(() => assertFundsConservation(100n, 50n, 0n))).toMatchObject({
+      invariant: UNIVERSAL_INVARIANTS.FUNDS_CONSERVATION,
+    });
+  });
+
+  it('should report required and available funds', () => {
+    const auth = thrown(() => assertAuthAllowed(5000n, 12550n));
+    expect(auth).toBeInstanceOf(InsufficientFundsError);
+    expect(auth).toMatchObject({
+      rail: 'CARDS',
+      invariant: 'Cards.1',
+      required: 12550n,
+      available: 5000n,
+      message: 'INVARIANT_VIOLATION: Insufficient funds for authorisation',
+    });
+
+    const capture = thrown(() => assertCaptureAllowed(10000n, 6000n, 5000n));
+    expect(capture).toMatchObject({ invariant: 'Cards.2', required: 5000n, available: 4000n });
+    expect(capture).toBeInstanceOf(PaymentDomainError);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * RTGS approval policy tests.
+ *
+ * Tests:
+ * - Default bands start at $0 and the decision explains the band matched
+ * - Band bounds are inclusive and bands abut: $1M and $10M need dual control
+ * - Account and counterparty overrides win over bands, first match first
+ * - Time-of-day rules use the policy time zone and wrap midnight
+ * - The institution policy applies from payment creation through the rails
+ * - Malformed configs are refused; the example config loads
+ */
+
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import {
+  PaymentIntentCreated,
+  RTGSApprovalPolicyError,
+  RTGSApprovalRole,
+  RTGSFailureReason,
+  RTGSPaymentState,
+  applyRTGSEvent,
+  createApproverRegistry,
+  createRTGSPayment,
+  evaluateRTGSApprovalPolicy,
+  loadRTGSApprovalPolicy,
+  parseRTGSApprovalPolicy,
+  requestRTGSApproval,
+} from '../../src/domain/rtgs';
+import { TerminalStateError } from '../../src/domain/shared';
+import { PaymentsRails, createRailAdapters } from '../../src/rails';
+
+const examplePolicy = loadRTGSApprovalPolicy(
+  path.join(__dirname, '../../policies/rtgs_approval_policy.example.json'),
+);
+
+// Sydney is UTC+11 in December
+const businessHours = new Date('2024-12-16T23:00:00Z'); // 10:00 local
+const afterHours = new Date('2024-12-17T06:00:00Z'); // 17:00 local
+const earlyMorning = new Date('2024-12-16T20:00:00Z'); // 07:00 local
+
+function intent(amount: bigint, changes: Partial<PaymentIntentCreated> = {}): PaymentIntentCreated {
+  return {
+    type: 'PaymentIntentCreated',
+    paymentIntentId: 'pay_rtgs',
+    occurredAt: new Date('2024-12-16T12:00:00Z'),
+    amount,
+    currency: 'AUD',
+    idempotencyKey: 'idem_rtgs',
+    fromAccountId: 'acc_operating',
+    toAccountId: '062-000 12345678',
+    bsb: '062-000',
+    accountNumber: '12345678',
+    initiatorId: 'user_init',
+    initiatorRole: RTGSApprovalRole.INITIATOR,
+    ...changes,
+  };
+}
+
+const band = (ruleId: string, minAmount: string, maxAmount?: string) => ({
+  ruleId,
+  minAmount,
+  maxAmount,
+  requiredRoles: ['FIRST_APPROVER'],
+  minApprovers: 1,
+});
+const config = (changes: object) => ({
+  policyId: 'test',
+  policyVersion: '1',
+  bands: [band('LOW', '0', '99999'), band('HIGH', '100000')],
+  ...changes,
+});
+
+describe('RTGS approval policy', () => {
+  describe('bands', () => {
+    it('should start default bands at $0 and explain the band matched', () => {
+      const payment = createRTGSPayment(intent(50000000n));
+      const requested = requestRTGSApproval(payment, businessHours);
+
+      expect(requested).toMatchObject({
+        requiredApprovers: 1,
+        requiredRoles: [RTGSApprovalRole.FIRST_APPROVER],
+        approvalThreshold: 0n,
+        expiresAt: new Date('2024-12-17T03:00:00Z'),
+        policyDecision: { policyId: 'default', ruleId: 'BAND_0', ruleKind: 'BAND' },
+      });
+      expect(requested.policyDecision?.explanation).toBe(
+        'Amount 50000000 falls in band BAND_0 [0, 99999999]: 1 approver(s) including FIRST_APPROVER',
+      );
+    });
+
+    it('should record the decision on the payment', () => {
+      const payment = createRTGSPayment(intent(50000000n));
+      const requested = requestRTGSApproval(payment, businessHours);
+
+      const pending = applyRTGSEvent(payment, requested);
+      expect(pending.state).toBe(RTGSPaymentState.PENDING_APPROVAL);
+      expect(pending.approvalDecision).toEqual(requested.policyDecision);
+    });
+
+    it('should need one approver one cent under $1M', () => {
+      const requested = requestRTGSApproval(createRTGSPayment(intent(99999999n)), businessHours);
+      expect(requested).toMatchObject({ requiredApprovers: 1, approvalThreshold: 0n });
+    });
+
+    it('should need dual control at exactly $1M', () => {
+      const requested = requestRTGSApproval(createRTGSPayment(intent(100000000n)), businessHours);
+      expect(requested).toMatchObject({
+        requiredApprovers: 2,
+        requiredRoles: [RTGSApprovalRole.FIRST_APPROVER, RTGSApprovalRole.SECOND_APPROVER],
+        approvalThreshold: 100000000n,
+      });
+      expect(requested.policyDecision?.matchedCriteria).toEqual(['amount 100000000 in [100000000, 1000000000]']);
+    });
+
+    it('should keep exactly $10M in the dual-control band', () => {
+      const requested = requestRTGSApproval(createRTGSPayment(intent(1000000000n)), businessHours);
+      expect(requested).toMatchObject({ requiredApprovers: 2, approvalThreshold: 100000000n });
+    });
+
+    it('should need an executive one cent over $10M', () => {
+      const above = requestRTGSApproval(createRTGSPayment(intent(1000000001n)), businessHours);
+      expect(above.requiredApprovers).toBe(3);
+      expect(above.policyDecision?.matchedCriteria).toEqual(['amount 1000000001 in [1000000001, ∞)']);
+    });
+
+    it('should refuse to request approval for a terminal payment', () => {
+      const failed = applyRTGSEvent(createRTGSPayment(intent(50000000n)), {
+        type: 'PaymentFailed',
+        paymentIntentId: 'pay_rtgs',
+        occurredAt: businessHours,
+        reason: RTGSFailureReason.CANCELLED,
+        failureMessage: 'Cancelled by initiator',
+        fundsReleased: 0n,
+      });
+      expect(() => requestRTGSApproval(failed, businessHours)).toThrow(TerminalStateError);
+    });
+  });
+
+  describe('overrides', () => {
+    it('should apply an account and counterparty override before bands', () => {
+      const sweep = evaluateRTGSApprovalPolicy(
+        examplePolicy,
+        intent(900000000n, { fromAccountId: 'acc_treasury', bsb: '092-009', accountNumber: '11223344' }),
+        afterHours,
+      );
+      expect(sweep).toMatchObject({ requiredApprovers: 1, approvalThreshold: 500000000n });
+      expect(sweep.decision).toMatchObject({
+        ruleId: 'TREASURY_SWEEP',
+        ruleKind: 'OVERRIDE',
+        matchedCriteria: ['fromAccountId acc_treasury', 'counterparty 092-009 11223344'],
+      });
+    });
+
+    it('should fall back to the band when any criterion fails', () => {
+      // Same account, different counterparty: the sweep rule no longer matches
+      const notSweep = evaluateRTGSApprovalPolicy(examplePolicy, intent(900000000n, { fromAccountId: 'acc_treasury' }), businessHours);
+      expect(notSweep.decision).toMatchObject({ ruleId: '5M_AND_OVER', ruleKind: 'BAND' });
+    });
+
+    it('should explain a counterparty BSB override', () => {
+      const edd = evaluateRTGSApprovalPolicy(examplePolicy, intent(10000n, { bsb: '033-000', accountNumber: '99999999' }), businessHours);
+      expect(edd.requiredRoles).toEqual([RTGSApprovalRole.FIRST_APPROVER, RTGSApprovalRole.EXECUTIVE_APPROVER]);
+      expect(edd.decision.explanation).toBe(
+        'Override NEW_COUNTERPARTY_BSB (Counterparty bank under enhanced due diligence) matched on counterparty BSB 033-000: ' +
+          '2 approver(s) including FIRST_APPROVER, EXECUTIVE_APPROVER',
+      );
+    });
+
+    it('should include both ends of an override amount range', () => {
+      const policy = parseRTGSApprovalPolicy(
+        config({
+          overrides: [
+            { ruleId: 'MID', match: { minAmount: '1000', maxAmount: '5000' }, requiredRoles: ['SECOND_APPROVER'], minApprovers: 1 },
+          ],
+        }),
+      );
+      const ruleFor = (amount: bigint) => evaluateRTGSApprovalPolicy(policy, intent(amount), businessHours).decision;
+
+      expect(ruleFor(1000n)).toMatchObject({ ruleId: 'MID', matchedCriteria: ['amount 1000 in [1000, 5000]'] });
+      expect(ruleFor(5000n).ruleId).toBe('MID');
+      expect(ruleFor(999n).ruleId).toBe('LOW');
+      expect(ruleFor(5001n).ruleId).toBe('LOW');
+    });
+  });
+
+  describe('time-of-day rules', () => {
+    const payment = createRTGSPayment(intent(30000000n));
+
+    it('should match in the policy time zone on both sides of midnight', () => {
+      for (const at of [afterHours, earlyMorning]) {
+        const requested = requestRTGSApproval(payment, at, examplePolicy);
+        expect(requested.policyDecision?.ruleId).toBe('AFTER_HOURS');
+        expect(requested.requiredApprovers).toBe(3);
+        expect(requested.expiresAt.getTime() - at.getTime()).toBe(60 * 60_000);
+      }
+    });
+
+    it('should explain every criterion matched', () => {
+      expect(requestRTGSApproval(payment, afterHours, examplePolicy).policyDecision?.matchedCriteria).toEqual([
+        'local time 17:00 in [16:30, 09:15)',
+        'amount 30000000 in [25000000, ∞)',
+      ]);
+    });
+
+    it('should not match during business hours or below the minimum amount', () => {
+      expect(requestRTGSApproval(payment, businessHours, examplePolicy).policyDecision?.ruleId).toBe('250K_TO_5M');
+      expect(
+        requestRTGSApproval(createRTGSPayment(intent(10000n)), afterHours, examplePolicy).policyDecision?.ruleId,
+      ).toBe('UNDER_250K');
+    });
+  });
+
+  describe('institution policy wiring', () => {
+    it('should set the provisional requirement from the policy at creation', () => {
+      const created = intent(30000000n, { occurredAt: businessHours });
+
+      expect(createRTGSPayment(created)).toMatchObject({ requiredApprovers: 1 });
+      expect(createRTGSPayment(created, examplePolicy)).toMatchObject({
+        requiredApprovers: 2,
+        requiredRoles: [RTGSApprovalRole.FIRST_APPROVER, RTGSApprovalRole.SECOND_APPROVER],
+      });
+    });
+
+    it('should create and replay payments under the policy the rails are built with', () => {
+      const rails = new PaymentsRails(createRailAdapters(createApproverRegistry('turing-cu'), examplePolicy));
+      const created = intent(30000000n, { occurredAt: businessHours });
+
+      expect(rails.initiate('RTGS', created)).toMatchObject({ requiredApprovers: 2 });
+      expect(rails.rebuild('RTGS', [created])).toMatchObject({ requiredApprovers: 2 });
+      // Created after hours, the override applies
+      expect(rails.initiate('RTGS', intent(30000000n))).toMatchObject({ requiredApprovers: 3 });
+    });
+  });
+
+  describe('config validation', () => {
+    it('should default the time zone', () => {
+      expect(parseRTGSApprovalPolicy(config({})).timeZone).toBe('Australia/Sydney');
+    });
+
+    it('should refuse bands that do not start at 0', () => {
+      expect(() => parseRTGSApprovalPolicy(config({ bands: [band('LOW', '100', '99999'), band('HIGH', '100000')] }))).toThrow(
+        'bands must start at 0',
+      );
+    });
+
+    it('should refuse a gap between bands', () => {
+      expect(() => parseRTGSApprovalPolicy(config({ bands: [band('LOW', '0', '99999'), band('HIGH', '200000')] }))).toThrow(
+        'band HIGH starts at 200000, expected 100000',
+      );
+    });
+
+    it('should refuse bands that share a boundary amount', () => {
+      expect(() => parseRTGSApprovalPolicy(config({ bands: [band('LOW', '0', '100000'), band('HIGH', '100000')] }))).toThrow(
+        'band HIGH starts at 100000, expected 100001',
+      );
+    });
+
+    it('should refuse a closed last band', () => {
+      expect(() => parseRTGSApprovalPolicy(config({ bands: [band('LOW', '0', '100000')] }))).toThrow(
+        'last band LOW must have no maxAmount',
+      );
+    });
+
+    it('should refuse amounts that are not whole cents', () => {
+      expect(() => parseRTGSApprovalPolicy(config({ bands: [band('LOW', '0', '1.5'), band('HIGH', '100000')] }))).toThrow(
+        'must be a decimal string of cents',
+      );
+    });
+
+    it('should refuse duplicate rule IDs', () => {
+      expect(() =>
+        parseRTGSApprovalPolicy(
+          config({ overrides: [{ ruleId: 'LOW', match: { fromAccountIds: ['acc'] }, requiredRoles: [], minApprovers: 1 }] }),
+        ),
+      ).toThrow('duplicate rule ID LOW');
+    });
+
+    it('should refuse an override without criteria', () => {
+      expect(() =>
+        parseRTGSApprovalPolicy(
+          config({ overrides: [{ ruleId: 'X', match: {}, requiredRoles: ['FIRST_APPROVER'], minApprovers: 1 }] }),
+        ),
+      ).toThrow('must have at least one criterion');
+    });
+
+    it('should refuse a rule with fewer approvers than roles', () => {
+      expect(() =>
+        parseRTGSApprovalPolicy(
+          config({
+            overrides: [
+              { ruleId: 'X', match: { minAmount: '1' }, requiredRoles: ['FIRST_APPROVER', 'SECOND_APPROVER'], minApprovers: 1 },
+            ],
+          }),
+        ),
+      ).toThrow('requires 2 roles but only 1 approvers');
+    });
+
+    it('should refuse an unknown time zone', () => {
+      expect(() => parseRTGSApprovalPolicy(config({ timeZone: 'Mars/Olympus' }))).toThrow(RTGSApprovalPolicyError);
+    });
+
+    it('should refuse a config file that cannot be read', () => {
+      expect(() => loadRTGSApprovalPolicy('/nonexistent/policy.json')).toThrow('APPROVAL_POLICY_ERROR: cannot load');
+    });
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * RTGS approver registry tests.
+ *
+ * Tests:
+ * - Registry replays grants, delegations and revocations as an audit trail
+ * - Approvals are checked against the role, amount limit and validity at occurredAt
+ * - Delegates approve under a named delegation, never beyond the delegator
+ * - Registry changes are validated
+ * - Approvals are refused without a registry, including by the default rails wiring
+ * - Registries load from JSON files of their events
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ApprovalGranted,
+  ApproverRegistryEvent,
+  RTGSApprovalRole,
+  RTGSApproverRegistryError,
+  RTGSPaymentEvent,
+  applyApproverRegistryEvent,
+  applyRTGSEvent,
+  computeApproverRegistryHash,
+  createApproverRegistry,
+  findApproverEntitlement,
+  loadApproverRegistry,
+  parseApproverRegistry,
+  rebuildApproverRegistryFromEvents,
+  rebuildRTGSFromEvents,
+} from '../../src/domain/rtgs';
+import { InvariantError } from '../../src/domain/shared';
+import { PaymentsRails, createRailAdapters } from '../../src/rails';
+
+const day = (d: number, hour = 0) => new Date(Date.UTC(2024, 11, d, hour));
+const base = { registryId: 'turing-cu', actorId: 'user_admin' };
+
+const registryEvents: ApproverRegistryEvent[] = [
+  {
+    ...base,
+    type: 'ApproverEntitlementGranted',
+    occurredAt: day(1),
+    entitlementId: 'ent_alice',
+    approverId: 'user_alice',
+    role: RTGSApprovalRole.FIRST_APPROVER,
+    maxAmount: 500000000n,
+    validFrom: day(1),
+  },
+  {
+    ...base,
+    type: 'ApproverEntitlementGranted',
+    occurredAt: day(1),
+    entitlementId: 'ent_cfo',
+    approverId: 'user_cfo',
+    role: RTGSApprovalRole.SECOND_APPROVER,
+    validFrom: day(1),
+    validTo: day(31),
+  },
+  {
+    ...base,
+    type: 'ApprovalDelegated',
+    occurredAt: day(9),
+    actorId: 'user_cfo',
+    delegationId: 'del_leave',
+    delegatorId: 'user_cfo',
+    delegateId: 'user_bob',
+    role: RTGSApprovalRole.SECOND_APPROVER,
+    maxAmount: 200000000n,
+    validFrom: day(10),
+    validTo: day(20),
+    reason: 'Annual leave cover',
+  },
+  {
+    ...base,
+    type: 'ApproverEntitlementRevoked',
+    occurredAt: day(15),
+    entitlementId: 'ent_alice',
+    reason: 'Role change',
+  },
+];
+const registry = rebuildApproverRegistryFromEvents('turing-cu', registryEvents);
+
+function paymentEvents(amount: bigint): RTGSPaymentEvent[] {
+  return [
+    {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: 'pay_rtgs',
+      occurredAt: day(12, 1),
+      amount,
+      currency: 'AUD',
+      idempotencyKey: 'idem_rtgs',
+      fromAccountId: 'acc_operating',
+      toAccountId: '062-000 12345678',
+      bsb: '062-000',
+      accountNumber: '12345678',
+      initiatorId: 'user_init',
+      initiatorRole: RTGSApprovalRole.INITIATOR,
+    },
+    {
+      type: 'ApprovalRequested',
+      paymentIntentId: 'pay_rtgs',
+      occurredAt: day(12, 1),
+      requiredApprovers: 2,
+      requiredRoles: [RTGSApprovalRole.FIRST_APPROVER, RTGSApprovalRole.SECOND_APPROVER],
+      approvalThreshold: 100000000n,
+      expiresAt: day(12, 5),
+    },
+  ];
+}
+
+function granted(approverId: string, approverRole: RTGSApprovalRole, occurredAt: Date, delegationId?: string): ApprovalGranted {
+  return {
+    type: 'ApprovalGranted',
+    paymentIntentId: 'pay_rtgs',
+    occurredAt,
+    approverId,
+    approverRole,
+    approvalSequence: 1,
+    delegationId,
+  };
+}
+
+describe('RTGS approver registry', () => {
+  describe('audit trail', () => {
+    it('should replay grants, delegations and revocations', () => {
+      expect(registry.version).toBe(4);
+      expect(registry.entitlements[0]).toMatchObject({ grantedBy: 'user_admin', revokedAt: day(15), revocationReason: 'Role change' });
+      expect(registry.delegations[0]).toMatchObject({ delegatedBy: 'user_cfo', reason: 'Annual leave cover' });
+    });
+
+    it('should hash the same state however it was built', () => {
+      expect(computeApproverRegistryHash(registry)).toBe(
+        computeApproverRegistryHash(registryEvents.reduce(applyApproverRegistryEvent, createApproverRegistry('turing-cu'))),
+      );
+    });
+
+    it('should not apply a revocation retroactively', () => {
+      expect(findApproverEntitlement(registry, 'user_alice', RTGSApprovalRole.FIRST_APPROVER, 1n, day(14))).toEqual({
+        source: 'DIRECT',
+        entitlementId: 'ent_alice',
+      });
+      expect(findApproverEntitlement(registry, 'user_alice', RTGSApprovalRole.FIRST_APPROVER, 1n, day(15))).toBeUndefined();
+    });
+  });
+
+  describe('approval checks', () => {
+    function requested(amount: bigint) {
+      const [intent, request] = paymentEvents(amount);
+      return applyRTGSEvent(rebuildRTGSFromEvents([intent]), request);
+    }
+
+    it('should accept an approval within the approver\'s role and limit', () => {
+      const pending = applyRTGSEvent(requested(300000000n), granted('user_alice', RTGSApprovalRole.FIRST_APPROVER, day(12, 2)), registry);
+      expect(pending.approvals).toHaveLength(1);
+    });
+
+    it('should refuse a self-declared role the approver does not hold', () => {
+      expect(() =>
+        applyRTGSEvent(requested(300000000n), granted('user_init', RTGSApprovalRole.SECOND_APPROVER, day(12, 3)), registry),
+      ).toThrow(InvariantError);
+      expect(() =>
+        applyRTGSEvent(requested(300000000n), granted('user_alice', RTGSApprovalRole.SECOND_APPROVER, day(12, 3)), registry),
+      ).toThrow('user_alice is not entitled to approve 300000000 as SECOND_APPROVER');
+    });
+
+    it('should refuse an approval over the approver\'s amount limit', () => {
+      expect(() =>
+        rebuildRTGSFromEvents([...paymentEvents(600000000n), granted('user_alice', RTGSApprovalRole.FIRST_APPROVER, day(12, 2))], registry),
+      ).toThrow('not entitled to approve 600000000');
+    });
+
+    it('should refuse an approval once the entitlement is revoked', () => {
+      const [intent, request] = paymentEvents(1n).map((e) => ({ ...e, occurredAt: day(16) }));
+      const events = [intent, { ...request, expiresAt: day(16, 4) } as RTGSPaymentEvent];
+      expect(() =>
+        rebuildRTGSFromEvents([...events, granted('user_alice', RTGSApprovalRole.FIRST_APPROVER, day(16, 1))], registry),
+      ).toThrow('user_alice is not entitled');
+    });
+  });
+
+  describe('fail closed', () => {
+    const unentitled = granted('user_init', RTGSApprovalRole.SECOND_APPROVER, day(12, 2));
+
+    it('should refuse every approval when no registry is given', () => {
+      expect(() => rebuildRTGSFromEvents([...paymentEvents(600000000n), unentitled])).toThrow(
+        'No approver registry to check user_init as SECOND_APPROVER against',
+      );
+      // Even an approver the registry would accept
+      expect(() =>
+        rebuildRTGSFromEvents([...paymentEvents(1n), granted('user_alice', RTGSApprovalRole.FIRST_APPROVER, day(12, 2))]),
+      ).toThrow(InvariantError);
+    });
+
+    it('should refuse an unentitled approver with the default rails wiring', () => {
+      const rails = new PaymentsRails();
+      const payment = rails.rebuild('RTGS', paymentEvents(1n));
+      expect(() => rails.apply('RTGS', payment, unentitled)).toThrow(InvariantError);
+      expect(() => rails.rebuild('RTGS', [...paymentEvents(1n), unentitled])).toThrow('No approver registry');
+    });
+
+    it('should check approvals against the registry the rails are built with', () => {
+      const rails = new PaymentsRails(createRailAdapters(registry));
+      const events = [...paymentEvents(300000000n), granted('user_alice', RTGSApprovalRole.FIRST_APPROVER, day(12, 2))];
+      expect(rails.rebuild('RTGS', events).approvals).toHaveLength(1);
+      expect(() => rails.rebuild('RTGS', [...paymentEvents(300000000n), unentitled])).toThrow(
+        'user_init is not entitled to approve 300000000 as SECOND_APPROVER',
+      );
+    });
+  });
+
+  describe('delegation', () => {
+    const events = paymentEvents(150000000n);
+    const viaDelegation = granted('user_bob', RTGSApprovalRole.SECOND_APPROVER, day(12, 2), 'del_leave');
+
+    it('should let a delegate approve under a named delegation', () => {
+      const payment = rebuildRTGSFromEvents([...events, viaDelegation], registry);
+      expect(payment.approvals[0]).toMatchObject({ approverId: 'user_bob', delegationId: 'del_leave' });
+      expect(findApproverEntitlement(registry, 'user_bob', RTGSApprovalRole.SECOND_APPROVER, 150000000n, day(12))).toEqual({
+        source: 'DELEGATED',
+        delegationId: 'del_leave',
+        delegatorId: 'user_cfo',
+        entitlementId: 'ent_cfo',
+      });
+    });
+
+    it('should require the approval to name the delegation it relies on', () => {
+      expect(() => rebuildRTGSFromEvents([...events, { ...viaDelegation, delegationId: undefined }], registry)).toThrow(
+        'only under delegation del_leave, which the approval must name',
+      );
+      expect(() => rebuildRTGSFromEvents([...events, { ...viaDelegation, delegationId: 'del_other' }], registry)).toThrow(
+        'does not hold SECOND_APPROVER under delegation del_other',
+      );
+    });
+
+    it('should cap a delegate below the delegator\'s own limit', () => {
+      expect(() => rebuildRTGSFromEvents([...paymentEvents(300000000n), viaDelegation], registry)).toThrow(InvariantError);
+    });
+
+    it('should refuse a delegate once the delegation period has ended', () => {
+      const [lateIntent, lateRequest] = paymentEvents(150000000n).map((e) => ({ ...e, occurredAt: day(20) }));
+      const lateEvents = [lateIntent, { ...lateRequest, expiresAt: day(20, 4) } as RTGSPaymentEvent];
+      expect(() => rebuildRTGSFromEvents([...lateEvents, { ...viaDelegation, occurredAt: day(20, 1) }], registry)).toThrow(
+        'user_bob is not entitled',
+      );
+    });
+
+    it('should refuse a delegate once the delegator\'s entitlement is revoked', () => {
+      const revoked = applyApproverRegistryEvent(registry, {
+        ...base,
+        type: 'ApproverEntitlementRevoked',
+        occurredAt: day(11),
+        entitlementId: 'ent_cfo',
+        reason: 'Left the organisation',
+      });
+      expect(() => rebuildRTGSFromEvents([...events, viaDelegation], revoked)).toThrow('user_bob is not entitled');
+    });
+  });
+
+  describe('registry changes', () => {
+    const [grant, , delegation] = registryEvents;
+    const empty = createApproverRegistry('turing-cu');
+
+    it('should refuse duplicate and repeated changes', () => {
+      expect(() => applyApproverRegistryEvent(registry, grant)).toThrow('Entitlement ent_alice already exists');
+      expect(() => applyApproverRegistryEvent(registry, registryEvents[3])).toThrow('Entitlement ent_alice is already revoked');
+      expect(() =>
+        applyApproverRegistryEvent(empty, { ...base, type: 'ApprovalDelegationRevoked', occurredAt: day(1), delegationId: 'del_x', reason: 'x' }),
+      ).toThrow('Delegation del_x is unknown');
+    });
+
+    it('should refuse an event for another registry', () => {
+      expect(() => applyApproverRegistryEvent(empty, { ...grant, registryId: 'other' })).toThrow('applied to registry turing-cu');
+    });
+
+    it('should refuse grants that cannot approve anything', () => {
+      expect(() => applyApproverRegistryEvent(empty, { ...grant, role: RTGSApprovalRole.INITIATOR })).toThrow(
+        'INITIATOR is not an approval role',
+      );
+      expect(() => applyApproverRegistryEvent(empty, { ...grant, maxAmount: 0n })).toThrow('amount limit must be positive');
+    });
+
+    it('should refuse self-delegation and inverted periods', () => {
+      expect(() => applyApproverRegistryEvent(empty, { ...delegation, delegateId: 'user_cfo' })).toThrow(
+        'cannot delegate to themselves',
+      );
+      expect(() => applyApproverRegistryEvent(empty, { ...delegation, validTo: day(10) })).toThrow('before it starts');
+    });
+  });
+
+  describe('registry files', () => {
+    const config = {
+      registryId: 'turing-cu',
+      events: [
+        {
+          type: 'ApproverEntitlementGranted',
+          occurredAt: '2024-12-01T00:00:00Z',
+          actorId: 'user_admin',
+          entitlementId: 'ent_alice',
+          approverId: 'user_alice',
+          role: 'FIRST_APPROVER',
+          maxAmount: '500000000',
+          validFrom: '2024-12-01T00:00:00Z',
+        },
+        {
+          type: 'ApproverEntitlementRevoked',
+          occurredAt: '2024-12-15T00:00:00Z',
+          actorId: 'user_admin',
+          entitlementId: 'ent_alice',
+          reason: 'Role change',
+        },
+      ],
+    };
+
+    it('should replay the events in a registry config', () => {
+      expect(parseApproverRegistry(config)).toEqual(rebuildApproverRegistryFromEvents('turing-cu', [registryEvents[0], registryEvents[3]]));
+    });
+
+    it('should refuse malformed configs', () => {
+      expect(() => parseApproverRegistry({ ...config, events: [{ ...config.events[0], maxAmount: 5 }] })).toThrow(
+        'events[0].maxAmount must be a decimal string of cents, got 5',
+      );
+      expect(() => parseApproverRegistry({ ...config, events: [{ ...config.events[0], role: 'CFO' }] })).toThrow(
+        RTGSApproverRegistryError,
+      );
+      expect(() => parseApproverRegistry({ ...config, events: [{ ...config.events[0], validFrom: 'soon' }] })).toThrow(
+        'events[0].validFrom must be an ISO 8601 timestamp',
+      );
+      expect(() => parseApproverRegistry({ ...config, events: [{ type: 'ApproverPromoted' }] })).toThrow(
+        'events[0].type ApproverPromoted is not a registry event',
+      );
+    });
+
+    it('should refuse configs whose events cannot be applied', () => {
+      expect(() => parseApproverRegistry({ ...config, events: [config.events[1]] })).toThrow('Entitlement ent_alice is unknown');
+    });
+
+    it('should load a registry file', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'approvers-'));
+      try {
+        const file = path.join(dir, 'rtgs_approvers.json');
+        fs.writeFileSync(file, JSON.stringify(config));
+        expect(loadApproverRegistry(file).entitlements).toHaveLength(1);
+        expect(() => loadApproverRegistry(path.join(dir, 'missing.json'))).toThrow(RTGSApproverRegistryError);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Domain event → envelope mapper tests.
+ *
+ * Tests:
+ * - Every rail's happy path maps to schema-valid envelopes
+ * - ledger_posting derived for settlement and reversal
+ * - Reversals link to the settlement envelope
+ * - Internal events produce no envelope
+ * - Missing context fails loudly
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mapDomainEvent,
+  mapEventStream,
+  EnvelopeMappingError,
+  ENVELOPE_MAPPERS,
+} from '../../src/emit/envelopeMapper';
+import { PaymentsRails, RailEventMap } from '../../src/rails';
+import { BECSReturnCode } from '../../src/domain/becs';
+import { CardsChargebackReason } from '../../src/domain/cards';
+import { RTGSApprovalRole } from '../../src/domain/rtgs';
+
+const tracing = {
+  correlation_id: '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b',
+  causation_id: '7a2b3c4d-5e6f-4a70-9b8c-0d1e2f3a4b5c',
+};
+const at = (s: number) => new Date(Date.UTC(2024, 11, 17, 10, 0, s));
+
+const nppStream: RailEventMap['NPP'][] = [
+  {
+    type: 'PaymentIntentCreated',
+    paymentIntentId: 'pay_npp',
+    occurredAt: at(0),
+    amount: 12550n,
+    currency: 'AUD',
+    idempotencyKey: 'idem_npp',
+    fromAccountId: 'acc_from',
+    toAccountId: 'acc_to',
+  },
+  { type: 'PaymentAuthorised', paymentIntentId: 'pay_npp', occurredAt: at(1), policyChecksPassed: true, fundsEarmarked: 12550n },
+  { type: 'PaymentAttemptCreated', paymentIntentId: 'pay_npp', occurredAt: at(2), attemptId: 'att_1', rail: 'NPP' },
+  { type: 'PaymentSentToRail', paymentIntentId: 'pay_npp', occurredAt: at(3), attemptId: 'att_1', externalRef: 'npp_ref', fundsHeld: 12550n },
+  { type: 'PaymentAcknowledged', paymentIntentId: 'pay_npp', occurredAt: at(4), attemptId: 'att_1', schemeRef: 'scheme_1', fundsProvisional: 12550n },
+  { type: 'PaymentSettled', paymentIntentId: 'pay_npp', occurredAt: at(5), attemptId: 'att_1', settlementRef: 'settle_1', fundsMoved: 12550n },
+];
+
+const becsIntent: RailEventMap['BECS'] = {
+  type: 'PaymentIntentCreated',
+  paymentIntentId: 'pay_becs',
+  occurredAt: at(0),
+  amount: 50000n,
+  currency: 'AUD',
+  idempotencyKey: 'idem_becs',
+  fromAccountId: 'acc_payroll',
+  toAccountId: 'acc_employee',
+};
+
+const becsToCleared: RailEventMap['BECS'][] = [
+  becsIntent,
+  { type: 'PaymentAuthorised', paymentIntentId: 'pay_becs', occurredAt: at(1), policyChecksPassed: true, fundsEarmarked: 50000n },
+  { type: 'PaymentBatched', paymentIntentId: 'pay_becs', occurredAt: at(2), batchId: 'batch_1', batchDate: '2024-12-17', sequenceNumber: 1, fundsHeld: 50000n },
+  { type: 'BatchSubmitted', paymentIntentId: 'pay_becs', occurredAt: at(3), batchId: 'batch_1', fileReference: 'file_1', declaredTotal: 50000n, itemCount: 1 },
+  { type: 'PaymentCleared', paymentIntentId: 'pay_becs', occurredAt: at(4), batchId: 'batch_1', clearingDate: '2024-12-18', fundsProvisional: 50000n },
+];
+
+const becsSettled: RailEventMap['BECS'] = {
+  type: 'PaymentSettled',
+  paymentIntentId: 'pay_becs',
+  occurredAt: at(5),
+  batchId: 'batch_1',
+  settlementRef: 'rba_1',
+  settlementDate: '2024-12-18',
+  fundsTransferred: 50000n,
+};
+
+const becsReturn: RailEventMap['BECS'] = {
+  type: 'PaymentReturned',
+  paymentIntentId: 'pay_becs',
+  occurredAt: at(6),
+  batchId: 'batch_1',
+  returnCode: BECSReturnCode.INSUFFICIENT_FUNDS,
+  returnDate: '2024-12-20',
+  returnReason: 'Insufficient funds',
+  fundsReversed: 50000n,
+};
+
+describe('envelope mapper', () => {
+  it('should map an NPP happy path to lifecycle and settlement envelopes', () => {
+    const envelopes = mapEventStream('NPP', nppStream, tracing);
+
+    expect(envelopes.map((e) => e.event_type)).toEqual([
+      'PaymentInitiated',
+      'PaymentAttemptCreated',
+      'PaymentSent',
+      'PaymentAcknowledged',
+      'PaymentSettled',
+    ]);
+    expect(envelopes.every((e) => e.correlation_id === tracing.correlation_id)).toBe(true);
+    expect(envelopes[4].payload).toMatchObject({
+      external_ref: 'settle_1',
+      ledger_posting: { debit_account_id: 'acc_from', credit_account_id: 'acc_to', amount: 125.5 },
+    });
+  });
+
+  it('should map a BECS return after settlement to a reversal of that settlement', () => {
+    const rails = new PaymentsRails();
+    const cleared = rails.rebuild('BECS', becsToCleared);
+    const [settlement] = mapDomainEvent('BECS', becsSettled, { ...tracing, payment: cleared });
+    const settled = rails.apply('BECS', cleared, becsSettled);
+
+    const [reversed] = mapDomainEvent('BECS', becsReturn, {
+      ...tracing,
+      payment: settled,
+      settlement_event_id: settlement.event_id,
+    });
+
+    expect(reversed).toMatchObject({
+      event_type: 'PaymentReversed',
+      payload: {
+        original_settlement_event_id: settlement.event_id,
+        ledger_posting: { debit_account_id: 'acc_employee', credit_account_id: 'acc_payroll', amount: 500 },
+      },
+    });
+  });
+
+  it('should map a BECS return before settlement to a failure', () => {
+    const envelopes = mapEventStream('BECS', [...becsToCleared, becsReturn], tracing);
+
+    expect(envelopes.at(-1)).toMatchObject({
+      event_type: 'PaymentFailed',
+      payload: { failure_code: 'RETURN_02' },
+    });
+  });
+
+  it('should map a card chargeback to a chargeback and a reversal', () => {
+    const envelopes = mapEventStream(
+      'CARDS',
+      [
+        { type: 'PaymentIntentCreated', paymentIntentId: 'pay_card', occurredAt: at(0), amount: 8000n, currency: 'AUD', cardToken: 'tok_1', merchantId: 'merch_1', idempotencyKey: 'idem_card' },
+        { type: 'PaymentAuthorised', paymentIntentId: 'pay_card', occurredAt: at(1), authCode: 'AUTH1', authorisedAmount: 8000n, expiresAt: at(100), holdPlaced: 8000n },
+        { type: 'PaymentCaptured', paymentIntentId: 'pay_card', occurredAt: at(2), captureAmount: 8000n, captureSequence: 1, totalCaptured: 8000n },
+        { type: 'PaymentCleared', paymentIntentId: 'pay_card', occurredAt: at(3), clearedAt: at(3), schemeTransactionId: 'scheme_1', clearedAmount: 8000n },
+        { type: 'PaymentSettled', paymentIntentId: 'pay_card', occurredAt: at(4), settledAt: at(4), settledAmount: 8000n, provisional: true, fundsTransferred: 8000n },
+        { type: 'PaymentChargeback', paymentIntentId: 'pay_card', occurredAt: at(5), chargebackReason: CardsChargebackReason.FRAUD, chargebackAmount: 8000n, receivedAt: at(5), responseDeadline: at(500), fundsReversed: 8000n },
+      ],
+      tracing,
+    );
+
+    expect(envelopes.map((e) => e.event_type)).toEqual([
+      'PaymentInitiated',
+      'CardAuthorised',
+      'CardCaptured',
+      'PaymentSettled',
+      'CardChargebackReceived',
+      'PaymentReversed',
+    ]);
+    expect(envelopes[5].payload).toMatchObject({
+      original_settlement_event_id: envelopes[3].event_id,
+      ledger_posting: { debit_account_id: 'merch_1', credit_account_id: 'tok_1', amount: 80 },
+    });
+  });
+
+  it('should produce no envelope for internal RTGS approval events', () => {
+    const envelopes = mapDomainEvent(
+      'RTGS',
+      { type: 'ApprovalGranted', paymentIntentId: 'pay_rtgs', occurredAt: at(1), approverId: 'u1', approverRole: RTGSApprovalRole.FIRST_APPROVER, approvalSequence: 1 },
+      { ...tracing, payment: null },
+    );
+
+    expect(envelopes).toEqual([]);
+  });
+
+  it('should refuse to map a reversal without the settlement event id', () => {
+    const rails = new PaymentsRails();
+    const settled = rails.apply('BECS', rails.rebuild('BECS', becsToCleared), becsSettled);
+
+    expect(() => mapDomainEvent('BECS', becsReturn, { ...tracing, payment: settled })).toThrow(
+      /settlement_event_id is required/,
+    );
+    expect(() => mapDomainEvent('NPP', nppStream[5], { ...tracing, payment: null })).toThrow(
+      EnvelopeMappingError,
+    );
+  });
+
+  it('should have a mapper for every domain event type', () => {
+    expect(Object.keys(ENVELOPE_MAPPERS.NPP)).toHaveLength(11);
+    expect(Object.keys(ENVELOPE_MAPPERS.BECS)).toHaveLength(10);
+    expect(Object.keys(ENVELOPE_MAPPERS.RTGS)).toHaveLength(13);
+    expect(Object.keys(ENVELOPE_MAPPERS.CARDS)).toHaveLength(11);
+  });
+});
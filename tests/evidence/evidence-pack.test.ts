@@ -0,0 +1,243 @@
+/**
+ * Evidence pack tests.
+ *
+ * Tests:
+ * - Packs for every rail, with decisions and operator actions sectioned
+ * - Canonical JSON export is stable and round-trips through verify
+ * - Replay proof matches the rail state hash
+ * - Tampered events, sections and hashes fail verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildEvidencePack,
+  buildEvidencePackFromRecords,
+  serializeEvidencePack,
+  verifyEvidencePack,
+  EvidencePack,
+  EvidencePackError,
+  EVIDENCE_CATEGORIES,
+} from '../../src/evidence';
+import { canonicalJson, LEGACY_HASH_ALGORITHM } from '../../src/domain/shared';
+import { PaymentsRails, RailEventMap, createRailAdapters } from '../../src/rails';
+import { NPPPaymentState } from '../../src/domain/npp';
+import { RTGSApprovalRole, rebuildApproverRegistryFromEvents } from '../../src/domain/rtgs';
+import { CardsDeclineReason } from '../../src/domain/cards';
+
+const at = (s: number) => new Date(Date.UTC(2024, 11, 17, 10, 0, s));
+const generatedAt = new Date('2024-12-18T00:00:00Z');
+const approvers = rebuildApproverRegistryFromEvents('turing-cu', [
+  { type: 'ApproverEntitlementGranted', registryId: 'turing-cu', occurredAt: new Date(0), actorId: 'user_admin', entitlementId: 'ent_a', approverId: 'user_a', role: RTGSApprovalRole.FIRST_APPROVER, validFrom: new Date(0) },
+  { type: 'ApproverEntitlementGranted', registryId: 'turing-cu', occurredAt: new Date(0), actorId: 'user_admin', entitlementId: 'ent_b', approverId: 'user_b', role: RTGSApprovalRole.SECOND_APPROVER, validFrom: new Date(0) },
+]);
+const rails = new PaymentsRails(createRailAdapters(approvers));
+
+const nppCancelled: RailEventMap['NPP'][] = [
+  {
+    type: 'PaymentIntentCreated',
+    paymentIntentId: 'pay_npp',
+    occurredAt: at(0),
+    amount: 12550n,
+    currency: 'AUD',
+    idempotencyKey: 'idem_npp',
+    fromAccountId: 'acc_from',
+    toAccountId: 'acc_to',
+  },
+  { type: 'PaymentAuthorised', paymentIntentId: 'pay_npp', occurredAt: at(1), policyChecksPassed: true, fundsEarmarked: 12550n },
+  {
+    type: 'OpsOverrideApplied',
+    paymentIntentId: 'pay_npp',
+    occurredAt: at(2),
+    operatorId: 'ops_1',
+    action: 'CANCEL',
+    reason: 'Customer request',
+    fromState: NPPPaymentState.AUTHORISED,
+    toState: NPPPaymentState.FAILED,
+    policyGate: 'ops:cancel',
+  },
+];
+
+const becsAuthorised: RailEventMap['BECS'][] = [
+  {
+    type: 'PaymentIntentCreated',
+    paymentIntentId: 'pay_becs',
+    occurredAt: at(0),
+    amount: 50000n,
+    currency: 'AUD',
+    idempotencyKey: 'idem_becs',
+    fromAccountId: 'acc_payroll',
+    toAccountId: 'acc_employee',
+  },
+  { type: 'PaymentAuthorised', paymentIntentId: 'pay_becs', occurredAt: at(1), policyChecksPassed: true, fundsEarmarked: 50000n },
+];
+
+const rtgsSettled: RailEventMap['RTGS'][] = [
+  {
+    type: 'PaymentIntentCreated',
+    paymentIntentId: 'pay_rtgs',
+    occurredAt: at(0),
+    amount: 150_000_000n,
+    currency: 'AUD',
+    idempotencyKey: 'idem_rtgs',
+    fromAccountId: 'acc_treasury',
+    toAccountId: 'acc_supplier',
+    bsb: '062-000',
+    accountNumber: '12345678',
+    initiatorId: 'user_init',
+    initiatorRole: RTGSApprovalRole.INITIATOR,
+  },
+  {
+    type: 'ApprovalRequested',
+    paymentIntentId: 'pay_rtgs',
+    occurredAt: at(1),
+    requiredApprovers: 2,
+    requiredRoles: [RTGSApprovalRole.FIRST_APPROVER, RTGSApprovalRole.SECOND_APPROVER],
+    approvalThreshold: 100_000_000n,
+    expiresAt: at(3600),
+  },
+  { type: 'ApprovalGranted', paymentIntentId: 'pay_rtgs', occurredAt: at(2), approverId: 'user_a', approverRole: RTGSApprovalRole.FIRST_APPROVER, approvalSequence: 1 },
+  { type: 'ApprovalGranted', paymentIntentId: 'pay_rtgs', occurredAt: at(3), approverId: 'user_b', approverRole: RTGSApprovalRole.SECOND_APPROVER, approvalSequence: 2 },
+  { type: 'PaymentAuthorised', paymentIntentId: 'pay_rtgs', occurredAt: at(4), policyChecksPassed: true, fundsEarmarked: 150_000_000n },
+  { type: 'PaymentSent', paymentIntentId: 'pay_rtgs', occurredAt: at(6), railTransactionId: 'rits_1', sentAt: at(6), fundsDebited: 150_000_000n },
+  { type: 'PaymentSettled', paymentIntentId: 'pay_rtgs', occurredAt: at(7), settledAt: at(7), railConfirmationId: 'rba_1', fundsTransferred: 150_000_000n },
+];
+
+const cardsDeclined: RailEventMap['CARDS'][] = [
+  { type: 'PaymentIntentCreated', paymentIntentId: 'pay_card', occurredAt: at(0), amount: 8000n, currency: 'AUD', cardToken: 'tok_1', merchantId: 'merch_1', idempotencyKey: 'idem_card' },
+  { type: 'PaymentDeclined', paymentIntentId: 'pay_card', occurredAt: at(1), declineReason: CardsDeclineReason.INSUFFICIENT_FUNDS, declinedAt: at(1) },
+];
+
+const reparse = (pack: EvidencePack): EvidencePack => JSON.parse(serializeEvidencePack(pack));
+
+describe('evidence pack', () => {
+  it('should section an NPP pack into intent, decisions and operator actions', () => {
+    const pack = buildEvidencePack('NPP', nppCancelled, { generatedAt });
+
+    expect(pack).toMatchObject({
+      packVersion: 2,
+      rail: 'NPP',
+      paymentIntentId: 'pay_npp',
+      generatedAt: '2024-12-18T00:00:00.000Z',
+      intent: { type: 'PaymentIntentCreated', amount: { $bigint: '12550' } },
+      finalState: { state: NPPPaymentState.FAILED, terminal: true },
+    });
+    expect(pack.lifecycleEvents.map((e) => e.sequence)).toEqual([1, 2, 3]);
+    expect(pack.railDecisions.map((e) => e.type)).toEqual(['PaymentAuthorised']);
+    expect(pack.operatorActions).toMatchObject([
+      { sequence: 3, type: 'OpsOverrideApplied', event: { operatorId: 'ops_1', action: 'CANCEL' } },
+    ]);
+  });
+
+  it('should record the rail state hash as the replay proof', () => {
+    const pack = buildEvidencePack('RTGS', rtgsSettled, { generatedAt }, rails);
+
+    expect(pack.replayProof).toMatchObject({
+      algorithm: 'SHA-256',
+      eventCount: 7,
+      stateHash: rails.hash('RTGS', rails.rebuild('RTGS', rtgsSettled)),
+    });
+    expect(pack.replayProof.eventsHash).toMatch(/^cjson-sha256-v1:[0-9a-f]{64}$/);
+    expect(pack.railDecisions.map((e) => e.type)).toEqual([
+      'ApprovalRequested',
+      'PaymentAuthorised',
+    ]);
+    expect(pack.operatorActions.map((e) => e.event)).toMatchObject([
+      { approverId: 'user_a' },
+      { approverId: 'user_b' },
+    ]);
+  });
+
+  it('should build packs for BECS and Cards streams from rail-tagged records', () => {
+    const becs = buildEvidencePackFromRecords(
+      becsAuthorised.map((event) => ({ rail: 'BECS' as const, event })),
+      { generatedAt },
+    );
+    const cards = buildEvidencePack('CARDS', cardsDeclined, { generatedAt });
+
+    expect(becs.railDecisions).toHaveLength(1);
+    expect(cards.railDecisions.map((e) => e.type)).toEqual(['PaymentDeclined']);
+    expect(cards.finalState).toMatchObject({ state: 'DECLINED', terminal: true });
+    expect(verifyEvidencePack(becs).verified).toBe(true);
+    expect(verifyEvidencePack(cards).verified).toBe(true);
+  });
+
+  it('should export canonical JSON that is stable and verifies after parsing', () => {
+    const pack = buildEvidencePack('RTGS', rtgsSettled, { generatedAt }, rails);
+    const json = serializeEvidencePack(pack);
+
+    expect(json).toBe(serializeEvidencePack(buildEvidencePack('RTGS', rtgsSettled, { generatedAt }, rails)));
+    expect(json.startsWith('{"finalState":')).toBe(true);
+    expect(canonicalJson({ b: 1, a: [2n, undefined], c: undefined })).toBe(
+      '{"a":[{"$bigint":"2"},null],"b":1}',
+    );
+
+    const result = verifyEvidencePack(JSON.parse(json), rails);
+    expect(result).toEqual({
+      verified: true,
+      hash: pack.replayProof.stateHash,
+      expectedHash: pack.replayProof.stateHash,
+      mismatches: [],
+    });
+  });
+
+  it('should fail verification when a lifecycle event is edited', () => {
+    const pack = reparse(buildEvidencePack('NPP', nppCancelled, { generatedAt }));
+    (pack.lifecycleEvents[0].event as any).toAccountId = 'acc_attacker';
+
+    const result = verifyEvidencePack(pack);
+
+    expect(result.verified).toBe(false);
+    expect(result.hash).not.toBe(result.expectedHash);
+    expect(result.mismatches).toEqual(['intent', 'replayProof']);
+  });
+
+  it('should fail verification when an operator action is hidden or the hash forged', () => {
+    const hidden = reparse(buildEvidencePack('NPP', nppCancelled, { generatedAt }));
+    hidden.operatorActions = [];
+    expect(verifyEvidencePack(hidden)).toMatchObject({ verified: false, mismatches: ['operatorActions'] });
+
+    const forged = reparse(buildEvidencePack('NPP', nppCancelled, { generatedAt }));
+    forged.replayProof.stateHash = `cjson-sha256-v1:${'0'.repeat(64)}`;
+    expect(verifyEvidencePack(forged)).toMatchObject({ verified: false, mismatches: ['replayProof'] });
+  });
+
+  it('should still verify packs hashed before algorithm versioning', () => {
+    const legacy = reparse(
+      buildEvidencePack('RTGS', rtgsSettled, { generatedAt, hashAlgorithm: LEGACY_HASH_ALGORITHM }, rails),
+    );
+
+    expect(legacy.packVersion).toBe(1);
+    expect(legacy.replayProof.stateHash).not.toContain(':');
+    expect(verifyEvidencePack(legacy, rails)).toMatchObject({ verified: true, mismatches: [] });
+
+    legacy.replayProof.stateHash = `sha1-v9:${'0'.repeat(40)}`;
+    expect(verifyEvidencePack(legacy, rails)).toMatchObject({
+      verified: false,
+      error: expect.stringMatching(/UNSUPPORTED_HASH_ALGORITHM: sha1-v9/),
+    });
+  });
+
+  it('should fail verification when the events no longer replay', () => {
+    const pack = reparse(buildEvidencePack('NPP', nppCancelled, { generatedAt }));
+    pack.lifecycleEvents.splice(1, 1);
+
+    const result = verifyEvidencePack(pack);
+
+    expect(result).toMatchObject({ verified: false, hash: null });
+    expect(result.error).toBeDefined();
+  });
+
+  it('should refuse empty or mixed streams', () => {
+    expect(() => buildEvidencePack('NPP', [])).toThrow(EvidencePackError);
+    expect(() =>
+      buildEvidencePack('NPP', [nppCancelled[0], { ...nppCancelled[1], paymentIntentId: 'pay_other' }]),
+    ).toThrow(/contains event for pay_other/);
+  });
+
+  it('should categorise every domain event type', () => {
+    expect(Object.keys(EVIDENCE_CATEGORIES.NPP)).toHaveLength(11);
+    expect(Object.keys(EVIDENCE_CATEGORIES.BECS)).toHaveLength(10);
+    expect(Object.keys(EVIDENCE_CATEGORIES.RTGS)).toHaveLength(13);
+    expect(Object.keys(EVIDENCE_CATEGORIES.CARDS)).toHaveLength(11);
+  });
+});
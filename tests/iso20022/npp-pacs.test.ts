@@ -0,0 +1,290 @@
+/**
+ * ISO 20022 NPP message tests.
+ *
+ * Tests:
+ * - pacs.008 is built from an authorised attempt (Osko service level, 280-char remittance)
+ * - pacs.002 status reports become PaymentAcknowledged / PaymentFailed
+ * - pacs.004 returns become PaymentReturned on settled payments
+ * - Returns leave the payment SETTLED and cannot exceed the funds moved
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  InvariantViolationError,
+  NPPFailureReason,
+  NPPPaymentEvent,
+  NPPPaymentReturned,
+  NPPPaymentState,
+  applyEvent,
+  rebuildFromEvents,
+} from '../../src/domain/npp';
+import {
+  Iso20022Error,
+  NPP_MAX_REMITTANCE_LENGTH,
+  NPP_OSKO_SERVICE_LEVEL,
+  PACS_002_NAMESPACE,
+  PACS_004_NAMESPACE,
+  buildPacs008,
+  pacs002ToNPPEvents,
+  pacs004ToNPPEvents,
+  parsePacs002,
+  parsePacs004,
+  parseXml,
+  textAt,
+  validatePacs008,
+} from '../../src/iso20022';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 11, 17, 1, minutes));
+const AMOUNT = 125050n;
+
+function authorisedEvents(paymentIntentId: string): NPPPaymentEvent[] {
+  return [
+    {
+      type: 'PaymentIntentCreated',
+      paymentIntentId,
+      occurredAt: at(0),
+      amount: AMOUNT,
+      currency: 'AUD',
+      idempotencyKey: `idem_${paymentIntentId}`,
+      fromAccountId: 'acc_payer',
+      toAccountId: 'acc_payee',
+    } as NPPPaymentEvent,
+    { type: 'PaymentAuthorised', paymentIntentId, occurredAt: at(1), policyChecksPassed: true, fundsEarmarked: AMOUNT } as NPPPaymentEvent,
+    { type: 'PaymentAttemptCreated', paymentIntentId, occurredAt: at(2), attemptId: `att_${paymentIntentId}`, rail: 'NPP' } as NPPPaymentEvent,
+  ];
+}
+
+function sentEvents(paymentIntentId: string): NPPPaymentEvent[] {
+  return [
+    ...authorisedEvents(paymentIntentId),
+    {
+      type: 'PaymentSentToRail',
+      paymentIntentId,
+      occurredAt: at(3),
+      attemptId: `att_${paymentIntentId}`,
+      externalRef: `TX_${paymentIntentId}`,
+      fundsHeld: AMOUNT,
+    } as NPPPaymentEvent,
+  ];
+}
+
+function settledEvents(paymentIntentId: string): NPPPaymentEvent[] {
+  return [
+    ...sentEvents(paymentIntentId),
+    { type: 'PaymentAcknowledged', paymentIntentId, occurredAt: at(4), attemptId: `att_${paymentIntentId}`, schemeRef: 'ack', fundsProvisional: AMOUNT } as NPPPaymentEvent,
+    { type: 'PaymentSettled', paymentIntentId, occurredAt: at(5), attemptId: `att_${paymentIntentId}`, settlementRef: 'stl', fundsMoved: AMOUNT } as NPPPaymentEvent,
+  ];
+}
+
+const options = {
+  messageId: 'TURIAU2S20241217000001',
+  createdAt: at(3),
+  transactionId: 'TX_pay_1',
+  debtorName: 'Jane Citizen',
+  debtorAgentBIC: 'TURIAU2SXXX',
+  creditorName: 'Acme Pty Ltd',
+  creditorAgentBIC: 'CTBAAU2SXXX',
+  remittanceInformation: 'Invoice 1042',
+};
+
+function statusReport(transactions: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="${PACS_002_NAMESPACE}">
+  <FIToFIPmtStsRpt>
+    <GrpHdr><MsgId>NPP20241217000042</MsgId><CreDtTm>2024-12-17T01:04:00Z</CreDtTm></GrpHdr>
+    <OrgnlGrpInfAndSts><OrgnlMsgId>TURIAU2S20241217000001</OrgnlMsgId><OrgnlMsgNmId>pacs.008.001.08</OrgnlMsgNmId></OrgnlGrpInfAndSts>
+    ${transactions}
+  </FIToFIPmtStsRpt>
+</Document>`;
+}
+
+function paymentReturn(transactions: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="${PACS_004_NAMESPACE}">
+  <PmtRtr>
+    <GrpHdr><MsgId>CTBA20241218000007</MsgId><CreDtTm>2024-12-18T02:00:00Z</CreDtTm><NbOfTxs>1</NbOfTxs><SttlmInf><SttlmMtd>CLRG</SttlmMtd></SttlmInf></GrpHdr>
+    ${transactions}
+  </PmtRtr>
+</Document>`;
+}
+
+const returnTransactions = `
+    <TxInf>
+      <RtrId>RTN-0001</RtrId>
+      <OrgnlGrpInf><OrgnlMsgId>TURIAU2S20241217000001</OrgnlMsgId><OrgnlMsgNmId>pacs.008.001.08</OrgnlMsgNmId></OrgnlGrpInf>
+      <OrgnlEndToEndId>pay_1</OrgnlEndToEndId><OrgnlTxId>TX_pay_1</OrgnlTxId>
+      <RtrdIntrBkSttlmAmt Ccy="AUD">1250.50</RtrdIntrBkSttlmAmt>
+      <RtrRsnInf><Rsn><Cd>AC04</Cd></Rsn><AddtlInf>Account closed</AddtlInf></RtrRsnInf>
+    </TxInf>
+    <TxInf><RtrId>RTN-0002</RtrId><OrgnlTxId>TX_pay_2</OrgnlTxId><RtrdIntrBkSttlmAmt Ccy="AUD">10.00</RtrdIntrBkSttlmAmt></TxInf>
+    <TxInf><RtrId>RTN-0003</RtrId><OrgnlEndToEndId>pay_9</OrgnlEndToEndId><RtrdIntrBkSttlmAmt Ccy="AUD">10.00</RtrdIntrBkSttlmAmt></TxInf>`;
+
+function returned(overrides: Partial<NPPPaymentReturned> = {}): NPPPaymentReturned {
+  return {
+    type: 'PaymentReturned',
+    paymentIntentId: 'pay_1',
+    occurredAt: at(30),
+    returnId: 'RTN-0001',
+    returnReasonCode: 'AC04',
+    fundsReturned: 50000n,
+    ...overrides,
+  };
+}
+
+describe('ISO 20022 NPP messages', () => {
+  describe('pacs.008', () => {
+    const payment = rebuildFromEvents(authorisedEvents('pay_1'));
+
+    it('should build a valid pacs.008 for an authorised attempt', () => {
+      const message = buildPacs008(payment, options);
+
+      expect(message).toMatchObject({ messageId: options.messageId, endToEndId: 'pay_1', transactionId: 'TX_pay_1' });
+      expect(validatePacs008(message.xml)).toEqual([]);
+    });
+
+    it('should carry the attempt, Osko service level, amount and remittance', () => {
+      const transaction = parseXml(buildPacs008(payment, options).xml).children[0].children[1];
+      expect(textAt(transaction, 'PmtId', 'InstrId')).toBe('att_pay_1');
+      expect(textAt(transaction, 'PmtTpInf', 'SvcLvl', 'Prtry')).toBe(NPP_OSKO_SERVICE_LEVEL);
+      expect(textAt(transaction, 'IntrBkSttlmAmt')).toBe('1250.50');
+      expect(textAt(transaction, 'RmtInf', 'Ustrd')).toBe('Invoice 1042');
+    });
+
+    it('should allow 280 characters of remittance information, not 140', () => {
+      const longest = 'x'.repeat(NPP_MAX_REMITTANCE_LENGTH);
+      const xml = buildPacs008(payment, { ...options, remittanceInformation: longest }).xml;
+      expect(textAt(parseXml(xml), 'FIToFICstmrCdtTrf', 'CdtTrfTxInf', 'RmtInf', 'Ustrd')).toBe(longest);
+      expect(() => buildPacs008(payment, { ...options, remittanceInformation: `${longest}x` })).toThrow(
+        'CdtTrfTxInf/RmtInf/Ustrd',
+      );
+    });
+
+    it('should refuse a malformed BIC', () => {
+      expect(() => buildPacs008(payment, { ...options, creditorAgentBIC: 'ctba' })).toThrow(Iso20022Error);
+    });
+
+    it('should refuse a payment that is not AUTHORISED', () => {
+      expect(() => buildPacs008(rebuildFromEvents(sentEvents('pay_1')), options)).toThrow(
+        'is SENT; only AUTHORISED payments',
+      );
+    });
+  });
+
+  describe('pacs.002', () => {
+    function statusResult() {
+      const payments = [rebuildFromEvents(sentEvents('pay_1')), rebuildFromEvents(sentEvents('pay_2')), rebuildFromEvents(sentEvents('pay_3'))];
+      const report = parsePacs002(
+        statusReport(`
+    <TxInfAndSts><OrgnlTxId>TX_pay_1</OrgnlTxId><TxSts>ACSP</TxSts><ClrSysRef>NPP-0001</ClrSysRef></TxInfAndSts>
+    <TxInfAndSts><OrgnlEndToEndId>pay_2</OrgnlEndToEndId><TxSts>RJCT</TxSts><StsRsnInf><Rsn><Cd>AC04</Cd></Rsn><AddtlInf>Account closed</AddtlInf></StsRsnInf></TxInfAndSts>
+    <TxInfAndSts><OrgnlTxId>TX_pay_3</OrgnlTxId><TxSts>PDNG</TxSts></TxInfAndSts>
+    <TxInfAndSts><OrgnlTxId>TX_pay_1</OrgnlTxId><TxSts>ACSP</TxSts></TxInfAndSts>
+    <TxInfAndSts><OrgnlTxId>TX_unknown</OrgnlTxId><TxSts>ACSP</TxSts></TxInfAndSts>`),
+      );
+      return pacs002ToNPPEvents(report, payments);
+    }
+
+    it('should turn ACSP into PaymentAcknowledged', () => {
+      expect(statusResult().events[0]).toEqual({
+        type: 'PaymentAcknowledged',
+        paymentIntentId: 'pay_1',
+        occurredAt: new Date('2024-12-17T01:04:00Z'),
+        attemptId: 'att_pay_1',
+        schemeRef: 'NPP-0001',
+        fundsProvisional: AMOUNT,
+      });
+    });
+
+    it('should turn RJCT into PaymentFailed, matching on end-to-end ID', () => {
+      const { events } = statusResult();
+      expect(events[1]).toEqual({
+        type: 'PaymentFailed',
+        paymentIntentId: 'pay_2',
+        occurredAt: new Date('2024-12-17T01:04:00Z'),
+        reason: NPPFailureReason.RAIL,
+        attemptId: 'att_pay_2',
+        fundsReleased: AMOUNT,
+        errorMessage: 'pacs.002 RJCT AC04: Account closed',
+      });
+      expect(rebuildFromEvents([...sentEvents('pay_2'), events[1]]).state).toBe(NPPPaymentState.FAILED);
+    });
+
+    it('should leave pending transactions for a later report', () => {
+      expect(statusResult().pending.map((t) => t.originalTransactionId)).toEqual(['TX_pay_3']);
+    });
+
+    it('should report duplicate and unmatched statuses as exceptions', () => {
+      // A second ACK for pay_1 is refused by the aggregate
+      expect(statusResult().exceptions.map((e) => [e.reason, e.transaction.originalTransactionId])).toEqual([
+        ['REJECTED', 'TX_pay_1'],
+        ['UNMATCHED', 'TX_unknown'],
+      ]);
+    });
+  });
+
+  describe('pacs.004', () => {
+    const message = parsePacs004(paymentReturn(returnTransactions));
+    const payments = [rebuildFromEvents(settledEvents('pay_1')), rebuildFromEvents(sentEvents('pay_2'))];
+
+    it('should parse returned transactions', () => {
+      expect(message.returns[0]).toEqual({
+        returnId: 'RTN-0001',
+        originalEndToEndId: 'pay_1',
+        originalTransactionId: 'TX_pay_1',
+        originalUETR: undefined,
+        returnedAmount: AMOUNT,
+        currency: 'AUD',
+        reasonCode: 'AC04',
+        additionalInformation: 'Account closed',
+      });
+    });
+
+    it('should turn a return for a settled payment into PaymentReturned', () => {
+      expect(pacs004ToNPPEvents(message, payments).events).toEqual([
+        returned({ occurredAt: new Date('2024-12-18T02:00:00Z'), returnReason: 'Account closed', fundsReturned: AMOUNT }),
+      ]);
+    });
+
+    it('should report returns for unsettled or unknown payments as exceptions', () => {
+      // pay_2 has not settled, pay_9 is unknown
+      expect(pacs004ToNPPEvents(message, payments).exceptions.map((e) => [e.reason, e.transaction.returnId])).toEqual([
+        ['REJECTED', 'RTN-0002'],
+        ['UNMATCHED', 'RTN-0003'],
+      ]);
+    });
+
+    it('should refuse a return that names no original transaction', () => {
+      expect(() => parsePacs004(paymentReturn('<TxInf><RtrId>RTN-0004</RtrId><RtrdIntrBkSttlmAmt Ccy="AUD">1.00</RtrdIntrBkSttlmAmt></TxInf>'))).toThrow(
+        'has neither OrgnlTxId nor OrgnlEndToEndId',
+      );
+    });
+
+    it('should refuse a return without an amount', () => {
+      expect(() => parsePacs004(paymentReturn('<TxInf><RtrId>RTN-0005</RtrId><OrgnlTxId>TX_pay_1</OrgnlTxId></TxInf>'))).toThrow(
+        'RtrdIntrBkSttlmAmt',
+      );
+    });
+  });
+
+  describe('returns on the aggregate', () => {
+    const settled = rebuildFromEvents(settledEvents('pay_1'));
+
+    it('should record a return without leaving SETTLED', () => {
+      const payment = applyEvent(settled, returned());
+      expect(payment.state).toBe(NPPPaymentState.SETTLED);
+      expect(payment).toMatchObject({ returnId: 'RTN-0001', fundsReturned: 50000n, fundsMoved: AMOUNT });
+    });
+
+    it('should refuse a second return', () => {
+      const again = returned({ occurredAt: at(31), returnId: 'RTN-0002', fundsReturned: 1n });
+      expect(() => applyEvent(applyEvent(settled, returned()), again)).toThrow('already returned (RTN-0001)');
+    });
+
+    it('should refuse a return of more than was settled, or of nothing', () => {
+      expect(() => applyEvent(settled, returned({ fundsReturned: AMOUNT + 1n }))).toThrow(
+        'must be positive and at most the 125050 settled',
+      );
+      expect(() => applyEvent(settled, returned({ fundsReturned: 0n }))).toThrow(InvariantViolationError);
+    });
+  });
+});
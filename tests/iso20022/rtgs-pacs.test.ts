@@ -0,0 +1,286 @@
+/**
+ * ISO 20022 RTGS message tests.
+ *
+ * Tests:
+ * - pacs.009 is built from an approved payment and validated offline
+ * - pacs.002 status reports are parsed after schema validation
+ * - Status reports become PaymentSettled / PaymentFailed, with exceptions
+ * - XML parsing refuses DTDs, malformed documents and illegal character references
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PaymentSent,
+  RTGSApprovalRole,
+  RTGSFailureReason,
+  RTGSPaymentEvent,
+  RTGSPaymentState,
+  applyRTGSEvent,
+  rebuildApproverRegistryFromEvents,
+  rebuildRTGSFromEvents,
+} from '../../src/domain/rtgs';
+import {
+  Iso20022Error,
+  PACS_002_NAMESPACE,
+  buildPacs009,
+  pacs002ToRTGSEvents,
+  parsePacs002,
+  parseXml,
+  textAt,
+  validatePacs009,
+} from '../../src/iso20022';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 11, 16, 23, minutes));
+const UETR_1 = '8a562c67-ca16-48ba-b074-65581be6f011';
+const UETR_2 = '0f3d4a1e-2b7c-4e58-9a6d-3c1b2e4f5a60';
+const approvers = rebuildApproverRegistryFromEvents('turing-cu', [
+  { type: 'ApproverEntitlementGranted', registryId: 'turing-cu', occurredAt: new Date(0), actorId: 'user_admin', entitlementId: 'ent_a', approverId: 'user_a', role: RTGSApprovalRole.FIRST_APPROVER, validFrom: new Date(0) },
+]);
+
+function approvedEvents(paymentIntentId: string): RTGSPaymentEvent[] {
+  return [
+    {
+      type: 'PaymentIntentCreated',
+      paymentIntentId,
+      occurredAt: at(0),
+      amount: 150000075n,
+      currency: 'AUD',
+      idempotencyKey: `idem_${paymentIntentId}`,
+      fromAccountId: 'acc_operating',
+      toAccountId: '062-000 12345678',
+      bsb: '062-000',
+      accountNumber: '12345678',
+      initiatorId: 'user_init',
+      initiatorRole: RTGSApprovalRole.INITIATOR,
+    },
+    {
+      type: 'ApprovalRequested',
+      paymentIntentId,
+      occurredAt: at(1),
+      requiredApprovers: 1,
+      requiredRoles: [RTGSApprovalRole.FIRST_APPROVER],
+      approvalThreshold: 0n,
+      expiresAt: at(60),
+    },
+    { type: 'ApprovalGranted', paymentIntentId, occurredAt: at(2), approverId: 'user_a', approverRole: RTGSApprovalRole.FIRST_APPROVER, approvalSequence: 1 },
+    { type: 'PaymentAuthorised', paymentIntentId, occurredAt: at(3), policyChecksPassed: true, fundsEarmarked: 150000075n },
+  ];
+}
+
+function sent(paymentIntentId: string, uetr: string) {
+  const event: PaymentSent = {
+    type: 'PaymentSent',
+    paymentIntentId,
+    occurredAt: at(5),
+    railTransactionId: uetr,
+    sentAt: at(5),
+    fundsDebited: 150000075n,
+  };
+  return applyRTGSEvent(rebuildRTGSFromEvents(approvedEvents(paymentIntentId), approvers), event);
+}
+
+const options = {
+  messageId: 'TCU20241217000001',
+  createdAt: at(4),
+  uetr: UETR_1,
+  settlementDate: '2024-12-17',
+  senderBIC: 'TURIAU2SXXX',
+  receiverBIC: 'CTBAAU2SXXX',
+};
+
+function statusReport(transactions: string, groupStatus = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="${PACS_002_NAMESPACE}">
+  <FIToFIPmtStsRpt>
+    <GrpHdr><MsgId>RITS20241217000042</MsgId><CreDtTm>2024-12-16T23:10:00Z</CreDtTm></GrpHdr>
+    <OrgnlGrpInfAndSts><OrgnlMsgId>TCU20241217000001</OrgnlMsgId><OrgnlMsgNmId>pacs.009.001.08</OrgnlMsgNmId>${groupStatus}</OrgnlGrpInfAndSts>
+    ${transactions}
+  </FIToFIPmtStsRpt>
+</Document>`;
+}
+
+function rejectionOf(build: () => unknown): Iso20022Error | undefined {
+  try {
+    build();
+  } catch (e) {
+    return e as Iso20022Error;
+  }
+}
+
+describe('ISO 20022 RTGS messages', () => {
+  describe('pacs.009', () => {
+    const payment = rebuildRTGSFromEvents(approvedEvents('pay_1'), approvers);
+
+    it('should build a valid pacs.009 from an approved payment', () => {
+      const message = buildPacs009(payment, options);
+
+      expect(message).toMatchObject({ messageId: 'TCU20241217000001', endToEndId: 'pay_1', uetr: UETR_1 });
+      expect(validatePacs009(message.xml)).toEqual([]);
+    });
+
+    it('should carry the amount, creditor BSB and account', () => {
+      const transaction = parseXml(buildPacs009(payment, options).xml).children[0].children[1];
+
+      expect(textAt(transaction, 'IntrBkSttlmAmt')).toBe('1500000.75');
+      expect(transaction.children.find((c) => c.name === 'IntrBkSttlmAmt')?.attributes).toEqual({ Ccy: 'AUD' });
+      expect(textAt(transaction, 'Cdtr', 'FinInstnId', 'ClrSysMmbId', 'MmbId')).toBe('062000');
+      expect(textAt(transaction, 'CdtrAcct', 'Id', 'Othr', 'Id')).toBe('12345678');
+    });
+
+    it('should refuse invalid field values before anything is sent', () => {
+      const error = rejectionOf(() => buildPacs009(payment, { ...options, senderBIC: 'turing', uetr: 'not-a-uuid' }));
+
+      expect(error).toBeInstanceOf(Iso20022Error);
+      expect(error?.issues.map((issue) => issue.path)).toEqual([
+        'Document/FICdtTrf/CdtTrfTxInf/PmtId/UETR',
+        'Document/FICdtTrf/CdtTrfTxInf/InstgAgt/FinInstnId/BICFI',
+        'Document/FICdtTrf/CdtTrfTxInf/Dbtr/FinInstnId/BICFI',
+      ]);
+    });
+
+    it('should refuse a payment that has already been sent', () => {
+      expect(() => buildPacs009(sent('pay_1', UETR_1), options)).toThrow('is SENT; only APPROVED or QUEUED');
+    });
+  });
+
+  describe('pacs.002 parsing', () => {
+    it('should parse a status report after schema validation', () => {
+      const report = parsePacs002(
+        statusReport(`
+    <TxInfAndSts>
+      <OrgnlEndToEndId>pay_1</OrgnlEndToEndId><OrgnlUETR>${UETR_1}</OrgnlUETR>
+      <StsRsnInf><Rsn><Cd>AM04</Cd></Rsn><AddtlInf>ESA balance &amp; limit exceeded</AddtlInf></StsRsnInf>
+    </TxInfAndSts>`,
+        '<GrpSts>RJCT</GrpSts>'),
+      );
+
+      expect(report).toMatchObject({
+        messageId: 'RITS20241217000042',
+        createdAt: new Date('2024-12-16T23:10:00Z'),
+        originalMessageDefinition: 'pacs.009.001.08',
+        groupStatus: 'RJCT',
+      });
+      expect(report.transactions).toEqual([
+        expect.objectContaining({
+          originalUETR: UETR_1,
+          status: 'RJCT',
+          reasonCode: 'AM04',
+          additionalInformation: 'ESA balance & limit exceeded',
+        }),
+      ]);
+    });
+
+    it('should refuse an unknown status code', () => {
+      expect(() => parsePacs002(statusReport('<TxInfAndSts><TxSts>DONE</TxSts></TxInfAndSts>'))).toThrow(
+        '"DONE" is not one of',
+      );
+    });
+
+    it('should refuse elements out of schema order', () => {
+      expect(() => parsePacs002(statusReport('<TxInfAndSts><TxSts>ACSC</TxSts><OrgnlEndToEndId>pay_1</OrgnlEndToEndId></TxInfAndSts>'))).toThrow(
+        'TxInfAndSts/OrgnlEndToEndId: Unexpected element',
+      );
+    });
+
+    it('should refuse a transaction with no status at either level', () => {
+      expect(() => parsePacs002(statusReport('<TxInfAndSts><OrgnlEndToEndId>pay_1</OrgnlEndToEndId></TxInfAndSts>'))).toThrow(
+        'has no TxSts and no GrpSts',
+      );
+    });
+
+    it('should refuse another namespace', () => {
+      expect(() => parsePacs002(statusReport('').replace(PACS_002_NAMESPACE, 'urn:other'))).toThrow('Namespace urn:other');
+    });
+  });
+
+  describe('pacs.002 to events', () => {
+    const payments = [sent('pay_1', UETR_1), sent('pay_2', UETR_2), sent('pay_3', '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d')];
+    const report = parsePacs002(
+      statusReport(`
+    <TxInfAndSts><OrgnlUETR>${UETR_1}</OrgnlUETR><TxSts>ACSC</TxSts><AccptncDtTm>2024-12-16T23:08:00Z</AccptncDtTm><ClrSysRef>RITS-778812</ClrSysRef></TxInfAndSts>
+    <TxInfAndSts><OrgnlEndToEndId>pay_2</OrgnlEndToEndId><TxSts>RJCT</TxSts><StsRsnInf><Rsn><Cd>AM04</Cd></Rsn></StsRsnInf></TxInfAndSts>
+    <TxInfAndSts><OrgnlEndToEndId>pay_3</OrgnlEndToEndId><TxSts>ACSP</TxSts></TxInfAndSts>
+    <TxInfAndSts><OrgnlUETR>${UETR_1}</OrgnlUETR><TxSts>RJCT</TxSts><StsRsnInf><Rsn><Cd>AC04</Cd></Rsn></StsRsnInf></TxInfAndSts>
+    <TxInfAndSts><OrgnlEndToEndId>pay_unknown</OrgnlEndToEndId><TxSts>ACSC</TxSts></TxInfAndSts>`),
+    );
+    const result = pacs002ToRTGSEvents(report, payments);
+
+    it('should turn accepted and rejected transactions into settled and failed events', () => {
+      expect(result.events).toEqual([
+        {
+          type: 'PaymentSettled',
+          paymentIntentId: 'pay_1',
+          occurredAt: new Date('2024-12-16T23:08:00Z'),
+          settledAt: new Date('2024-12-16T23:08:00Z'),
+          railConfirmationId: 'RITS-778812',
+          fundsTransferred: 150000075n,
+        },
+        {
+          type: 'PaymentFailed',
+          paymentIntentId: 'pay_2',
+          occurredAt: new Date('2024-12-16T23:10:00Z'),
+          reason: RTGSFailureReason.INSUFFICIENT_FUNDS,
+          failureMessage: 'pacs.002 RJCT AM04',
+          fundsReleased: 0n,
+        },
+      ]);
+    });
+
+    it('should leave pending transactions for a later report', () => {
+      expect(result.pending.map((t) => t.originalEndToEndId)).toEqual(['pay_3']);
+    });
+
+    it('should report a second final status and unknown payments as exceptions', () => {
+      expect(result.exceptions.map((e) => [e.reason, e.transaction.originalUETR ?? e.transaction.originalEndToEndId])).toEqual([
+        ['REJECTED', UETR_1],
+        ['UNMATCHED', 'pay_unknown'],
+      ]);
+    });
+
+    it('should produce events the aggregate accepts', () => {
+      const settled = rebuildRTGSFromEvents([...payments[0].events, result.events[0]], approvers);
+      expect(settled.state).toBe(RTGSPaymentState.SETTLED);
+    });
+  });
+
+  describe('XML parsing', () => {
+    it('should strip prefixes and decode CDATA and character references', () => {
+      const parsed = parseXml('<doc:Document xmlns:doc="urn:x"><doc:A><![CDATA[<raw>]]></doc:A><B>&#65;&#x42;&#x1F600;</B><C/></doc:Document>');
+
+      expect(parsed.name).toBe('Document');
+      expect(parsed.children.map((c) => [c.name, c.text])).toEqual([
+        ['A', '<raw>'],
+        ['B', 'AB😀'],
+        ['C', undefined],
+      ]);
+    });
+
+    it('should refuse DTDs', () => {
+      expect(() => parseXml('<!DOCTYPE Document [<!ENTITY x "boom">]><Document>&x;</Document>')).toThrow(
+        'DOCTYPE declarations are not accepted',
+      );
+    });
+
+    it('should refuse mismatched tags, bare ampersands and mixed content', () => {
+      expect(() => parseXml('<Document><A>1</B></Document>')).toThrow('</B> closes <A>');
+      expect(() => parseXml('<Document>a & b</Document>')).toThrow(Iso20022Error);
+      expect(() => parseXml('<Document><A>1</A>text</Document>')).toThrow('mixes text and elements');
+    });
+
+    it.each([
+      ['&#0;', 'NUL'],
+      ['&#x1;', 'a control character'],
+      ['&#xD800;', 'a lone surrogate'],
+      ['&#xFFFE;', 'a non-character'],
+      ['&#x110000;', 'beyond Unicode'],
+      ['&#99999999999;', 'far beyond Unicode'],
+      ['&#x;', 'no digits'],
+      ['&#12ab;', 'trailing garbage'],
+    ])('should refuse the character reference %s (%s)', (reference) => {
+      const error = rejectionOf(() => parseXml(`<Document>${reference}</Document>`));
+
+      expect(error).toBeInstanceOf(Iso20022Error);
+      expect(error?.message).toContain(`character reference ${reference} is not a legal XML character`);
+    });
+  });
+});
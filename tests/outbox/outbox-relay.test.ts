@@ -0,0 +1,222 @@
+/**
+ * Transactional outbox tests.
+ *
+ * Tests (against every outbox-capable backend):
+ * - Envelopes are committed atomically with their events, across streams too
+ * - Relay delivers in sequence order, at least once
+ * - Retries with exponential backoff, per-stream ordering
+ * - A stream backing off with more than a batch of messages does not starve others
+ * - Dead-lettering, redrive and replay from the outbox table
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  InMemoryEventStore,
+  FileEventStore,
+  SqliteEventStore,
+  VersionConflictError,
+  NO_STREAM,
+} from '../../src/store';
+import { OutboxEventStore, OutboxRelay, isOutboxEventStore } from '../../src/outbox';
+import { EventEnvelope, createEnvelope } from '../../src/emit/envelope';
+
+// Relay clock runs ahead of the store's enqueue time so new messages are due
+let start: Date;
+
+function envelope(paymentId: string, n: number): EventEnvelope {
+  return createEnvelope({
+    event_type: 'PaymentSettled',
+    entity_id: paymentId,
+    occurred_at: start,
+    payload: { payment_id: paymentId, n },
+  });
+}
+
+class FlakyPublisher {
+  published: EventEnvelope[] = [];
+  failuresLeft = new Map<string, number>();
+
+  async publish(event: EventEnvelope): Promise<void> {
+    const failures = this.failuresLeft.get(event.event_id) ?? 0;
+    if (failures > 0) {
+      this.failuresLeft.set(event.event_id, failures - 1);
+      throw new Error('broker unavailable');
+    }
+    this.published.push(event);
+  }
+}
+
+const backends: Array<[string, (dir: string) => OutboxEventStore<string>]> = [
+  ['InMemoryEventStore', () => new InMemoryEventStore<string>()],
+  ['SqliteEventStore', (dir) => new SqliteEventStore<string>({ filename: path.join(dir, 'events.db') })],
+];
+
+describe.each(backends)('Outbox on %s', (_name, createStore) => {
+  let dir: string;
+  let store: OutboxEventStore<string>;
+  let publisher: FlakyPublisher;
+  let clock: Date;
+  let relay: OutboxRelay;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+    store = createStore(dir);
+    publisher = new FlakyPublisher();
+    start = new Date(Date.now() + 60_000);
+    clock = start;
+    relay = new OutboxRelay(store, publisher, { maxAttempts: 3, baseDelayMs: 1000, now: () => clock });
+  });
+
+  afterEach(() => {
+    (store as { close?: () => void }).close?.();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should enqueue envelopes with their events', async () => {
+    const env = envelope('pay_1', 1);
+    await store.appendWithOutbox('pay_1', NO_STREAM, ['e1'], [env]);
+
+    expect(await store.streamVersion('pay_1')).toBe(1);
+    const [message] = await store.pendingMessages(10, clock);
+    expect(message).toMatchObject({ sequence: 1, stream_id: 'pay_1', status: 'PENDING', attempts: 0 });
+    expect(message.envelope).toEqual(env);
+  });
+
+  it('should enqueue nothing when the append conflicts', async () => {
+    await store.append('pay_1', NO_STREAM, ['e1']);
+
+    await expect(
+      store.appendWithOutbox('pay_1', NO_STREAM, ['e1'], [envelope('pay_1', 1)]),
+    ).rejects.toThrow(VersionConflictError);
+    expect(await store.listMessages()).toHaveLength(0);
+  });
+
+  it('should enqueue nothing for any stream when a multi-stream append conflicts', async () => {
+    await store.append('pay_2', NO_STREAM, ['e1']);
+
+    await expect(
+      store.appendAllWithOutbox([
+        { streamId: 'pay_1', expectedVersion: NO_STREAM, events: ['e1'], envelopes: [envelope('pay_1', 1)] },
+        { streamId: 'pay_2', expectedVersion: NO_STREAM, events: ['e1'], envelopes: [envelope('pay_2', 1)] },
+      ]),
+    ).rejects.toThrow(VersionConflictError);
+    expect(await store.streamVersion('pay_1')).toBe(NO_STREAM);
+    expect(await store.listMessages()).toHaveLength(0);
+
+    expect(
+      await store.appendAllWithOutbox([
+        { streamId: 'pay_1', expectedVersion: NO_STREAM, events: ['e1'], envelopes: [envelope('pay_1', 1)] },
+        { streamId: 'pay_2', expectedVersion: 1, events: ['e2'], envelopes: [envelope('pay_2', 2)] },
+      ]),
+    ).toEqual([1, 2]);
+    expect((await store.listMessages()).map((message) => message.stream_id)).toEqual(['pay_1', 'pay_2']);
+  });
+
+  it('should deliver pending messages in sequence order', async () => {
+    await store.appendWithOutbox('pay_1', NO_STREAM, ['e1'], [envelope('pay_1', 1)]);
+    await store.appendWithOutbox('pay_2', NO_STREAM, ['e1'], [envelope('pay_2', 1)]);
+
+    const result = await relay.drain();
+
+    expect(result).toEqual({ delivered: 2, retried: 0, deadLettered: 0, deferred: 0 });
+    expect(publisher.published.map((e) => e.entity_id)).toEqual(['pay_1', 'pay_2']);
+    expect(await relay.inspect()).toMatchObject({ pending: 0, delivered: 2, oldestPendingAt: null });
+  });
+
+  it('should back off and hold later messages of the same stream', async () => {
+    const first = envelope('pay_1', 1);
+    const second = envelope('pay_1', 2);
+    await store.appendWithOutbox('pay_1', NO_STREAM, ['e1'], [first]);
+    await store.appendWithOutbox('pay_1', 1, ['e2'], [second]);
+    await store.appendWithOutbox('pay_2', NO_STREAM, ['e1'], [envelope('pay_2', 1)]);
+    publisher.failuresLeft.set(first.event_id, 1);
+
+    expect(await relay.drain()).toEqual({ delivered: 1, retried: 1, deadLettered: 0, deferred: 1 });
+    const [retrying] = await store.listMessages({ status: 'PENDING' });
+    expect(retrying).toMatchObject({ attempts: 1, last_error: 'broker unavailable' });
+    expect(retrying.next_attempt_at).toEqual(new Date(start.getTime() + 1000));
+
+    // Not due yet, so neither is read
+    expect(await store.pendingMessages(10, clock)).toEqual([]);
+    expect(await relay.drain()).toEqual({ delivered: 0, retried: 0, deadLettered: 0, deferred: 0 });
+
+    clock = new Date(start.getTime() + 1000);
+    await relay.drain();
+    expect(publisher.published.map((e) => e.event_id).slice(1)).toEqual([first.event_id, second.event_id]);
+  });
+
+  it('should deliver other streams while a stream with more than a batch of messages backs off', async () => {
+    const blocked = [1, 2, 3].map((n) => envelope('pay_1', n));
+    for (const [i, env] of blocked.entries()) {
+      await store.appendWithOutbox('pay_1', i, [`e${i + 1}`], [env]);
+    }
+    await store.appendWithOutbox('pay_2', NO_STREAM, ['e1'], [envelope('pay_2', 1)]);
+    publisher.failuresLeft.set(blocked[0].event_id, 2);
+    const batched = new OutboxRelay(store, publisher, { maxAttempts: 3, baseDelayMs: 1000, batchSize: 2, now: () => clock });
+
+    expect(await batched.drain()).toEqual({ delivered: 0, retried: 1, deadLettered: 0, deferred: 1 });
+    expect(await batched.drain()).toEqual({ delivered: 1, retried: 0, deadLettered: 0, deferred: 0 });
+    expect(publisher.published.map((e) => e.entity_id)).toEqual(['pay_2']);
+
+    clock = new Date(start.getTime() + 1000);
+    await batched.drain();
+    clock = new Date(start.getTime() + 3000);
+    await batched.drain();
+    await batched.drain();
+    expect(publisher.published.map((e) => e.event_id).slice(1)).toEqual(blocked.map((e) => e.event_id));
+  });
+
+  it('should dead-letter after maxAttempts and allow redrive', async () => {
+    const env = envelope('pay_1', 1);
+    await store.appendWithOutbox('pay_1', NO_STREAM, ['e1'], [env]);
+    publisher.failuresLeft.set(env.event_id, 3);
+
+    for (let i = 0; i < 3; i++) {
+      await relay.drain();
+      clock = new Date(clock.getTime() + relay.backoffDelayMs(i + 1));
+    }
+
+    const [dead] = await relay.deadLetters();
+    expect(dead).toMatchObject({ event_id: env.event_id, attempts: 3, status: 'DEAD_LETTER' });
+    expect(await relay.inspect()).toMatchObject({ pending: 0, deadLettered: 1 });
+
+    await relay.redrive(dead.sequence);
+    await relay.drain();
+    expect(publisher.published).toEqual([env]);
+    await expect(relay.redrive(dead.sequence)).rejects.toThrow(/not dead-lettered/);
+  });
+
+  it('should replay delivered messages from the outbox table', async () => {
+    await store.appendWithOutbox('pay_1', NO_STREAM, ['e1'], [envelope('pay_1', 1)]);
+    await store.appendWithOutbox('pay_2', NO_STREAM, ['e1'], [envelope('pay_2', 1)]);
+    await relay.drain();
+
+    expect(await relay.replay({ streamId: 'pay_2' })).toBe(1);
+    expect(await relay.replay({ fromSequence: 1 })).toBe(2);
+    expect(publisher.published).toHaveLength(5);
+  });
+});
+
+describe('OutboxRelay', () => {
+  it('should cap exponential backoff at maxDelayMs', () => {
+    const relay = new OutboxRelay(new InMemoryEventStore(), new FlakyPublisher(), {
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+    });
+
+    expect([1, 2, 3, 4, 5].map((n) => relay.backoffDelayMs(n))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('should only treat transactional backends as outbox stores', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-file-'));
+    try {
+      expect(isOutboxEventStore(new InMemoryEventStore())).toBe(true);
+      expect(isOutboxEventStore(new FileEventStore({ directory: dir }))).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
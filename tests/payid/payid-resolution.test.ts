@@ -0,0 +1,213 @@
+/**
+ * PayID resolution and Confirmation of Payee tests.
+ *
+ * Tests:
+ * - PayIDs are normalised and their type detected (email, mobile, ABN, org ID)
+ * - The local directory resolves registered PayIDs and explains failures
+ * - Name matching scores MATCH / CLOSE_MATCH / NO_MATCH
+ * - PayID payments must record PayeeConfirmed before authorisation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  NPPPayIDType,
+  NPPPayeeMatchResult,
+  NPPPaymentEvent,
+  NPPPaymentState,
+  applyEvent,
+  createNPPPayment,
+} from '../../src/domain/npp';
+import {
+  LocalPayIDDirectory,
+  PayIDError,
+  PayIDRegistration,
+  PayIDResolutionFailure,
+  confirmPayee,
+  matchPayeeName,
+  parsePayID,
+  scorePayeeName,
+} from '../../src/payid';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 11, 17, 1, minutes));
+
+const ALICE: PayIDRegistration = {
+  payId: 'Alice@Example.com',
+  payIdType: NPPPayIDType.EMAIL,
+  bsb: '062000',
+  accountNumber: '12345678',
+  displayName: 'Alice Citizen',
+};
+
+const directory = new LocalPayIDDirectory([
+  ALICE,
+  { payId: '0412 345 678', payIdType: NPPPayIDType.PHONE, bsb: '083-004', accountNumber: '87654321', displayName: 'Bob Jones' },
+  { payId: '51 824 753 556', payIdType: NPPPayIDType.ABN, bsb: '033-001', accountNumber: '11112222', displayName: 'Acme Pty Ltd', disabled: true },
+]);
+
+function payIdPayment(payId = 'alice@example.com') {
+  return createNPPPayment({
+    type: 'PaymentIntentCreated',
+    paymentIntentId: 'pay_1',
+    occurredAt: at(0),
+    amount: 5000n,
+    currency: 'AUD',
+    idempotencyKey: 'idem_1',
+    fromAccountId: 'acc_payer',
+    toAccountId: payId,
+    payId,
+    payIdType: NPPPayIDType.EMAIL,
+  });
+}
+
+const authorised: NPPPaymentEvent = {
+  type: 'PaymentAuthorised',
+  paymentIntentId: 'pay_1',
+  occurredAt: at(2),
+  policyChecksPassed: true,
+  fundsEarmarked: 5000n,
+} as NPPPaymentEvent;
+
+describe('PayID resolution and Confirmation of Payee', () => {
+  describe('parsing', () => {
+    it('should normalise email PayIDs', () => {
+      expect(parsePayID(' Alice@Example.COM ')).toEqual({ payIdType: NPPPayIDType.EMAIL, payId: 'alice@example.com' });
+    });
+
+    it('should normalise mobile PayIDs to the +61 form', () => {
+      expect(parsePayID('0412 345 678')).toEqual({ payIdType: NPPPayIDType.PHONE, payId: '+61-412345678' });
+      expect(parsePayID('+61 412-345-678')).toEqual({ payIdType: NPPPayIDType.PHONE, payId: '+61-412345678' });
+    });
+
+    it('should normalise ABN and organisation ID PayIDs', () => {
+      expect(parsePayID('51 824 753 556')).toEqual({ payIdType: NPPPayIDType.ABN, payId: '51824753556' });
+      expect(parsePayID('acme-payroll')).toEqual({ payIdType: NPPPayIDType.ORG_ID, payId: 'ACME-PAYROLL' });
+    });
+
+    it('should reject an ABN with a bad checksum', () => {
+      expect(parsePayID('51 824 753 557')).toBeUndefined();
+    });
+
+    it('should reject a landline number', () => {
+      expect(parsePayID('02 9999 0000')).toBeUndefined();
+    });
+
+    it('should reject a value that does not fit the stated type', () => {
+      expect(parsePayID('alice@example', NPPPayIDType.EMAIL)).toBeUndefined();
+      expect(parsePayID('0412345678', NPPPayIDType.ABN)).toBeUndefined();
+    });
+  });
+
+  describe('local directory', () => {
+    it('should resolve registered PayIDs in any input format', async () => {
+      expect(directory.size).toBe(3);
+      expect(await directory.resolve('ALICE@example.com')).toEqual({
+        resolved: true,
+        payee: { ...ALICE, payId: 'alice@example.com', bsb: '062-000' },
+      });
+      expect(await directory.resolve('+61412345678')).toMatchObject({
+        resolved: true,
+        payee: { bsb: '083-004', accountNumber: '87654321', displayName: 'Bob Jones' },
+      });
+    });
+
+    it('should report an unregistered PayID', async () => {
+      expect(await directory.resolve('carol@example.com')).toMatchObject({
+        resolved: false,
+        failure: PayIDResolutionFailure.NOT_REGISTERED,
+      });
+    });
+
+    it('should report a disabled PayID', async () => {
+      expect(await directory.resolve('51824753556')).toMatchObject({
+        resolved: false,
+        failure: PayIDResolutionFailure.DISABLED,
+        message: 'ABN PayID 51824753556 is disabled',
+      });
+    });
+
+    it('should report an invalid PayID without looking it up', async () => {
+      expect(await directory.resolve('not a payid')).toMatchObject({
+        resolved: false,
+        failure: PayIDResolutionFailure.INVALID_PAYID,
+      });
+    });
+
+    it('should refuse a registration with a malformed BSB', () => {
+      expect(() => new LocalPayIDDirectory([{ ...ALICE, bsb: '62-000' }])).toThrow(PayIDError);
+    });
+  });
+
+  describe('name matching', () => {
+    it('should score equivalent names as a MATCH', () => {
+      expect(scorePayeeName('Alice Citizen', 'ALICE CITIZEN')).toBe(100);
+      expect(matchPayeeName('Citizen, Alice', 'Ms Alice Citizen')).toEqual({ result: NPPPayeeMatchResult.MATCH, score: 100 });
+      expect(matchPayeeName('ACME PTY. LIMITED', 'Acme Pty Ltd').result).toBe(NPPPayeeMatchResult.MATCH);
+      expect(matchPayeeName('Zoë Smith', 'Zoe Smith').result).toBe(NPPPayeeMatchResult.MATCH);
+    });
+
+    it('should score an initial, a middle name or a typo as a CLOSE_MATCH', () => {
+      expect(matchPayeeName('A Citizen', 'Alice Citizen')).toEqual({ result: NPPPayeeMatchResult.CLOSE_MATCH, score: 88 });
+      expect(matchPayeeName('Alice Citizen', 'Alice Mary Citizen').result).toBe(NPPPayeeMatchResult.CLOSE_MATCH);
+      expect(matchPayeeName('Alice Citizan', 'Alice Citizen').result).toBe(NPPPayeeMatchResult.CLOSE_MATCH);
+    });
+
+    it('should score a different person as NO_MATCH', () => {
+      expect(matchPayeeName('Bob Jones', 'Alice Citizen').result).toBe(NPPPayeeMatchResult.NO_MATCH);
+      expect(matchPayeeName('Alice Jones', 'Alice Citizen').result).toBe(NPPPayeeMatchResult.NO_MATCH);
+    });
+  });
+
+  describe('payee confirmation', () => {
+    async function confirmAlice(payment: ReturnType<typeof payIdPayment>) {
+      const resolution = await directory.resolve(payment.payId!, payment.payIdType);
+      if (!resolution.resolved) throw new Error(resolution.message);
+      return confirmPayee(payment, resolution.payee, {
+        expectedPayeeName: 'Alice Citizen',
+        confirmedBy: 'cust_1',
+        occurredAt: at(1),
+      });
+    }
+
+    it('should refuse to authorise a PayID payment before the payee is confirmed', () => {
+      expect(() => applyEvent(payIdPayment(), authorised)).toThrow(
+        'PayID alice@example.com must be resolved and the payee confirmed before authorisation',
+      );
+    });
+
+    it('should record the resolved payee and then allow authorisation', async () => {
+      const payment = payIdPayment();
+      const confirmed = await confirmAlice(payment);
+      expect(confirmed).toMatchObject({ type: 'PayeeConfirmed', bsb: '062-000', matchResult: NPPPayeeMatchResult.MATCH, matchScore: 100 });
+
+      const withPayee = applyEvent(payment, confirmed);
+      expect(withPayee).toMatchObject({
+        state: NPPPaymentState.CREATED,
+        payeeBsb: '062-000',
+        payeeAccountNumber: '12345678',
+        payeeName: 'Alice Citizen',
+        payeeConfirmedAt: at(1),
+      });
+      expect(applyEvent(withPayee, authorised).state).toBe(NPPPaymentState.AUTHORISED);
+    });
+
+    it('should refuse a second confirmation', async () => {
+      const payment = payIdPayment();
+      const confirmed = await confirmAlice(payment);
+
+      expect(() => applyEvent(applyEvent(payment, confirmed), confirmed)).toThrow('Payee already confirmed');
+    });
+
+    it('should refuse a confirmation for another PayID', async () => {
+      const confirmed = await confirmAlice(payIdPayment());
+
+      expect(() => applyEvent(payIdPayment('carol@example.com'), confirmed)).toThrow(
+        'Confirmation for PayID alice@example.com does not match payment PayID carol@example.com',
+      );
+    });
+
+    it('should not require confirmation for account payments', () => {
+      const { payId, payIdType, ...accountPayment } = payIdPayment();
+      expect(applyEvent(accountPayment, authorised).state).toBe(NPPPaymentState.AUTHORISED);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * PaymentsRails facade tests.
+ *
+ * Tests:
+ * - Dispatch to each rail's aggregate by `rail`
+ * - Normalized PaymentSummary
+ * - Deterministic hashing through the facade
+ * - Versioned hash algorithms (current and legacy)
+ * - Legacy RTGS hashes are pinned to the fields approvals had when frozen
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PaymentsRails, isRail, RAILS } from '../../src/rails';
+import { NPPPaymentState } from '../../src/domain/npp';
+import { BECSPaymentState } from '../../src/domain/becs';
+import { RTGSApprovalRole } from '../../src/domain/rtgs';
+import { CardsPaymentState, CardsDeclineReason } from '../../src/domain/cards';
+import { LEGACY_HASH_ALGORITHM, canonicalHash } from '../../src/domain/shared';
+
+const rails = new PaymentsRails();
+const createdAt = new Date('2024-12-17T10:00:00Z');
+
+describe('PaymentsRails', () => {
+  it('should recognise the openapi rail enum', () => {
+    expect(RAILS).toEqual(['NPP', 'BECS', 'RTGS', 'CARDS']);
+    expect(isRail('BECS')).toBe(true);
+    expect(isRail('SWIFT')).toBe(false);
+  });
+
+  it('should reject unsupported rails', () => {
+    expect(() => rails.adapter('SWIFT' as any)).toThrow(/UNSUPPORTED_RAIL/);
+  });
+
+  it('should initiate and apply NPP events', () => {
+    const payment = rails.initiate('NPP', {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: 'pay_npp',
+      occurredAt: createdAt,
+      amount: 5000n,
+      currency: 'AUD',
+      idempotencyKey: 'idem_npp',
+      fromAccountId: 'acc_from',
+      toAccountId: 'acc_to',
+    });
+
+    const authorised = rails.apply('NPP', payment, {
+      type: 'PaymentAuthorised',
+      paymentIntentId: 'pay_npp',
+      occurredAt: createdAt,
+      policyChecksPassed: true,
+      fundsEarmarked: 5000n,
+    });
+
+    expect(authorised.state).toBe(NPPPaymentState.AUTHORISED);
+    expect(rails.allowedNextStates('NPP', authorised.state)).toContain(NPPPaymentState.SENT);
+  });
+
+  it('should rebuild and summarize a BECS payment', () => {
+    const payment = rails.rebuild('BECS', [
+      {
+        type: 'PaymentIntentCreated',
+        paymentIntentId: 'pay_becs',
+        occurredAt: createdAt,
+        amount: 7500n,
+        currency: 'AUD',
+        idempotencyKey: 'idem_becs',
+        fromAccountId: 'acc_from',
+        toAccountId: 'acc_to',
+      },
+    ]);
+
+    const summary = rails.summarize('BECS', payment);
+
+    expect(summary).toMatchObject({
+      rail: 'BECS',
+      paymentIntentId: 'pay_becs',
+      state: BECSPaymentState.CREATED,
+      amount: 7500n,
+      terminal: false,
+    });
+    expect(summary.allowedNextStates).toContain(BECSPaymentState.AUTHORISED);
+  });
+
+  it('should summarize a declined card payment as terminal', () => {
+    const payment = rails.rebuild('CARDS', [
+      {
+        type: 'PaymentIntentCreated',
+        paymentIntentId: 'pay_card',
+        occurredAt: createdAt,
+        amount: 1200n,
+        currency: 'AUD',
+        cardToken: 'tok_123',
+        merchantId: 'merch_1',
+        idempotencyKey: 'idem_card',
+      },
+      {
+        type: 'PaymentDeclined',
+        paymentIntentId: 'pay_card',
+        occurredAt: createdAt,
+        declineReason: CardsDeclineReason.INSUFFICIENT_FUNDS,
+        declinedAt: createdAt,
+      },
+    ]);
+
+    const summary = rails.summarize('CARDS', payment);
+
+    expect(summary.state).toBe(CardsPaymentState.DECLINED);
+    expect(summary.terminal).toBe(true);
+    expect(summary.failedAt).toEqual(createdAt);
+  });
+
+  it('should produce stable hashes for every rail', () => {
+    const npp = rails.initiate('NPP', {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: 'pay_hash',
+      occurredAt: createdAt,
+      amount: 100n,
+      currency: 'AUD',
+      idempotencyKey: 'idem_hash',
+      fromAccountId: 'a',
+      toAccountId: 'b',
+    });
+
+    expect(rails.hash('NPP', npp)).toBe(rails.hash('NPP', { ...npp }));
+    expect(rails.hash('NPP', npp)).toMatch(/^cjson-sha256-v1:[0-9a-f]{64}$/);
+  });
+
+  it('should hash the full aggregate canonically, independent of key order', () => {
+    const payment = rails.rebuild('CARDS', [
+      {
+        type: 'PaymentIntentCreated',
+        paymentIntentId: 'pay_card_hash',
+        occurredAt: createdAt,
+        amount: 1200n,
+        currency: 'AUD',
+        cardToken: 'tok_123',
+        merchantId: 'merch_1',
+        idempotencyKey: 'idem_card_hash',
+      },
+    ]);
+    const reordered = Object.fromEntries(Object.entries(payment).reverse()) as typeof payment;
+
+    expect(rails.hash('CARDS', reordered)).toBe(rails.hash('CARDS', payment));
+    expect(rails.hash('CARDS', payment)).toBe(canonicalHash(payment));
+    expect(rails.hash('CARDS', { ...payment, cardToken: 'tok_other' })).not.toBe(
+      rails.hash('CARDS', payment),
+    );
+  });
+
+  it('should verify hashes recorded with the legacy algorithm', () => {
+    const payment = rails.initiate('RTGS', {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: 'pay_rtgs_hash',
+      occurredAt: createdAt,
+      amount: 150_000_000n,
+      currency: 'AUD',
+      idempotencyKey: 'idem_rtgs_hash',
+      fromAccountId: 'a',
+      toAccountId: 'b',
+      bsb: '062-000',
+      accountNumber: '12345678',
+      initiatorId: 'user_init',
+      initiatorRole: RTGSApprovalRole.INITIATOR,
+    });
+    const legacy = rails.hash('RTGS', payment, LEGACY_HASH_ALGORITHM);
+
+    expect(legacy).not.toContain(':');
+    expect(rails.verifyHash('RTGS', payment, legacy)).toBe(true);
+    expect(rails.verifyHash('RTGS', payment, rails.hash('RTGS', payment))).toBe(true);
+    expect(() => rails.verifyHash('RTGS', payment, 'md5-v0:abc')).toThrow(
+      /UNSUPPORTED_HASH_ALGORITHM/,
+    );
+  });
+
+  it('should keep the legacy RTGS hash of an approved payment byte for byte', () => {
+    const payment = rails.initiate('RTGS', {
+      type: 'PaymentIntentCreated',
+      paymentIntentId: 'pay_rtgs_hash',
+      occurredAt: createdAt,
+      amount: 150_000_000n,
+      currency: 'AUD',
+      idempotencyKey: 'idem_rtgs_hash',
+      fromAccountId: 'a',
+      toAccountId: 'b',
+      bsb: '062-000',
+      accountNumber: '12345678',
+      initiatorId: 'user_init',
+      initiatorRole: RTGSApprovalRole.INITIATOR,
+    });
+    const approval = {
+      approverId: 'user_alice',
+      approverRole: RTGSApprovalRole.FIRST_APPROVER,
+      approvedAt: new Date('2024-12-17T10:05:00Z'),
+    };
+    // Recorded before approvals carried a delegationId
+    const recorded =
+      'eyJwYXltZW50SW50ZW50SWQiOiJwYXlfcnRnc19oYXNoIiwic3RhdGUiOiJDUkVBVEVEIiwiYW1vdW50IjoiMTUwMDAwMDAwIiwiZnVuZHNFYXJtYXJrZWQiOiIwIiwiZnVuZHNEZWJpdGVkIjoiMCIsImZ1bmRzUmVsZWFzZWQiOiIwIiwiYXBwcm92YWxzIjpbeyJhcHByb3ZlcklkIjoidXNlcl9hbGljZSIsImFwcHJvdmVyUm9sZSI6IkZJUlNUX0FQUFJPVkVSIiwiYXBwcm92ZWRBdCI6IjIwMjQtMTItMTdUMTA6MDU6MDAuMDAwWiJ9XSwidmVyc2lvbiI6MX0=';
+
+    expect(rails.hash('RTGS', { ...payment, approvals: [approval] }, LEGACY_HASH_ALGORITHM)).toBe(recorded);
+    expect(
+      rails.hash('RTGS', { ...payment, approvals: [{ ...approval, delegationId: 'dlg_001' }] }, LEGACY_HASH_ALGORITHM),
+    ).toBe(recorded);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * RTGS approval expiry tests.
+ *
+ * Tests:
+ * - Approvals cannot be granted, verified or sent after expiry (replay-safe)
+ * - Only ApprovalExpired returns a payment to CREATED; a duplicate intent is refused
+ * - Re-request discards stale approvals into the history and starts a fresh round
+ * - Re-request is refused once every approval round has been used
+ * - Sweeper expires lapsed approvals and leaves live ones alone
+ * - Sweeper only re-reads streams that are new, due or changed
+ * - Sweeper fails the payment with APPROVAL_EXPIRED after the last round
+ * - A stream that cannot be swept is counted and does not stop the sweep
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RTGSApprovalRole,
+  RTGSFailureReason,
+  RTGSPayment,
+  RTGSPaymentEvent,
+  RTGSPaymentState,
+  applyRTGSEvent,
+  expireRTGSApproval,
+  reRequestRTGSApproval,
+  rebuildApproverRegistryFromEvents,
+  rebuildRTGSFromEvents,
+} from '../../src/domain/rtgs';
+import { InvariantError } from '../../src/domain/shared';
+import { InMemoryEventStore, NO_STREAM } from '../../src/store';
+import { RailEventRecord } from '../../src/rails';
+import { RTGSApprovalExpirySweeper } from '../../src/scheduler';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 11, 17, 0, minutes));
+const approvers = rebuildApproverRegistryFromEvents('turing-cu', [
+  { type: 'ApproverEntitlementGranted', registryId: 'turing-cu', occurredAt: new Date(0), actorId: 'user_admin', entitlementId: 'ent_a', approverId: 'user_a', role: RTGSApprovalRole.FIRST_APPROVER, validFrom: new Date(0) },
+  { type: 'ApproverEntitlementGranted', registryId: 'turing-cu', occurredAt: new Date(0), actorId: 'user_admin', entitlementId: 'ent_b', approverId: 'user_b', role: RTGSApprovalRole.SECOND_APPROVER, validFrom: new Date(0) },
+]);
+
+function pendingEvents(paymentIntentId: string, expiresAt: Date): RTGSPaymentEvent[] {
+  return [
+    {
+      type: 'PaymentIntentCreated',
+      paymentIntentId,
+      occurredAt: at(0),
+      amount: 150000000n,
+      currency: 'AUD',
+      idempotencyKey: `idem_${paymentIntentId}`,
+      fromAccountId: 'acc_operating',
+      toAccountId: '062-000 12345678',
+      bsb: '062-000',
+      accountNumber: '12345678',
+      initiatorId: 'user_init',
+      initiatorRole: RTGSApprovalRole.INITIATOR,
+    },
+    {
+      type: 'ApprovalRequested',
+      paymentIntentId,
+      occurredAt: at(1),
+      requiredApprovers: 2,
+      requiredRoles: [RTGSApprovalRole.FIRST_APPROVER, RTGSApprovalRole.SECOND_APPROVER],
+      approvalThreshold: 100000000n,
+      expiresAt,
+    },
+    {
+      type: 'ApprovalGranted',
+      paymentIntentId,
+      occurredAt: at(2),
+      approverId: 'user_a',
+      approverRole: RTGSApprovalRole.FIRST_APPROVER,
+      approvalSequence: 1,
+    },
+  ];
+}
+
+async function storeWith(streams: RTGSPaymentEvent[][]): Promise<InMemoryEventStore<RailEventRecord>> {
+  const store = new InMemoryEventStore<RailEventRecord>();
+  for (const events of streams) {
+    await store.append(events[0].paymentIntentId, NO_STREAM, events.map((event) => ({ rail: 'RTGS' as const, event })));
+  }
+  return store;
+}
+
+const late: RTGSPaymentEvent = {
+  type: 'ApprovalGranted',
+  paymentIntentId: 'pay_1',
+  occurredAt: at(61),
+  approverId: 'user_b',
+  approverRole: RTGSApprovalRole.SECOND_APPROVER,
+  approvalSequence: 2,
+};
+
+function pending(): RTGSPayment {
+  return rebuildRTGSFromEvents(pendingEvents('pay_1', at(60)), approvers);
+}
+
+async function sweepStream(store: InMemoryEventStore<RailEventRecord>, streamId: string): Promise<RTGSPayment> {
+  return rebuildRTGSFromEvents((await store.readStream(streamId)).map((s) => s.event.event as RTGSPaymentEvent), approvers);
+}
+
+function nppIntent(paymentIntentId: string): RailEventRecord {
+  return {
+    rail: 'NPP',
+    event: {
+      type: 'PaymentIntentCreated',
+      paymentIntentId,
+      occurredAt: at(0),
+      amount: 100n,
+      currency: 'AUD',
+      idempotencyKey: `idem_${paymentIntentId}`,
+      fromAccountId: 'acc_a',
+      toAccountId: 'acc_b',
+    },
+  };
+}
+
+describe('RTGS approval expiry', () => {
+  describe('on the aggregate', () => {
+    it('should refuse an approval granted after expiry', () => {
+      expect(() => applyRTGSEvent(pending(), late, approvers)).toThrow(InvariantError);
+    });
+
+    it('should refuse an expired approval on replay too', () => {
+      expect(() => rebuildRTGSFromEvents([...pendingEvents('pay_1', at(60)), late], approvers)).toThrow(
+        'Approval expired at 2024-12-17T01:00:00.000Z',
+      );
+    });
+
+    it('should accept an approval granted at the deadline', () => {
+      const onTime = rebuildRTGSFromEvents([...pendingEvents('pay_1', at(60)), { ...late, occurredAt: at(60) }], approvers);
+      expect(onTime.approvals).toHaveLength(2);
+    });
+
+    it('should refuse to record an expiry before the deadline', () => {
+      expect(() => expireRTGSApproval(pending(), at(60))).toThrow('cannot expire at 2024-12-17T01:00:00.000Z');
+    });
+
+    it('should refuse an expiry against a different deadline', () => {
+      expect(() =>
+        applyRTGSEvent(pending(), { type: 'ApprovalExpired', paymentIntentId: 'pay_1', occurredAt: at(90), expiresAt: at(30), approvalsDiscarded: 1 }),
+      ).toThrow('does not match');
+    });
+
+    it('should refuse a duplicate intent on an in-flight payment', () => {
+      const [intent] = pendingEvents('pay_1', at(60));
+
+      expect(() => applyRTGSEvent(pending(), { ...intent, occurredAt: at(5) }, approvers)).toThrow(
+        'Duplicate PaymentIntentCreated for pay_1',
+      );
+      expect(() => rebuildRTGSFromEvents([...pendingEvents('pay_1', at(60)), { ...intent, occurredAt: at(5) }], approvers)).toThrow(
+        InvariantError,
+      );
+    });
+  });
+
+  describe('re-requesting approval', () => {
+    it('should refuse while the current approval is still valid', () => {
+      expect(() => reRequestRTGSApproval(pending(), at(30))).toThrow(InvariantError);
+    });
+
+    it('should expire the stale round and request a fresh one', () => {
+      const [expired, requested] = reRequestRTGSApproval(pending(), at(90));
+      expect(expired).toMatchObject({ type: 'ApprovalExpired', expiresAt: at(60), approvalsDiscarded: 1 });
+      expect(requested).toMatchObject({ type: 'ApprovalRequested', expiresAt: at(90 + 240), requiredApprovers: 2 });
+    });
+
+    it('should discard stale approvals into the history', () => {
+      const events = [...pendingEvents('pay_1', at(60)), ...reRequestRTGSApproval(pending(), at(90))];
+      const fresh = rebuildRTGSFromEvents(events, approvers);
+      expect(fresh.state).toBe(RTGSPaymentState.PENDING_APPROVAL);
+      expect(fresh.approvals).toEqual([]);
+      expect(fresh.approvalHistory).toEqual([
+        {
+          approvals: [{ approverId: 'user_a', approverRole: RTGSApprovalRole.FIRST_APPROVER, approvedAt: at(2) }],
+          approvalExpiresAt: at(60),
+          expiredAt: at(90),
+        },
+      ]);
+      // The discarded approval stays in the stream for audit
+      expect(events.filter((event) => event.type === 'ApprovalGranted')).toHaveLength(1);
+    });
+
+    it('should refuse a new round once every round has been used', () => {
+      expect(() => reRequestRTGSApproval(pending(), at(90), undefined, 1)).toThrow(
+        'Payment pay_1 has used all 1 approval rounds',
+      );
+
+      const secondRound = rebuildRTGSFromEvents([...pendingEvents('pay_1', at(60)), ...reRequestRTGSApproval(pending(), at(90))], approvers);
+      expect(reRequestRTGSApproval(secondRound, at(400), undefined, 3)).toHaveLength(2);
+      expect(() => reRequestRTGSApproval(secondRound, at(400), undefined, 2)).toThrow(InvariantError);
+    });
+
+    it('should count rounds already expired by the sweeper', () => {
+      const expired = expireRTGSApproval(pending(), at(90), 2);
+      const created = applyRTGSEvent(pending(), expired);
+      expect(created.state).toBe(RTGSPaymentState.CREATED);
+      expect(reRequestRTGSApproval(created, at(91), undefined, 2)).toHaveLength(1);
+      expect(() => reRequestRTGSApproval(created, at(91), undefined, 1)).toThrow('has used all 1 approval rounds');
+    });
+  });
+
+  describe('sweeper', () => {
+    it('should expire lapsed approvals and leave live ones alone', async () => {
+      const store = await storeWith([pendingEvents('pay_lapsed', at(60)), pendingEvents('pay_live', at(120))]);
+      await store.append('pay_npp', NO_STREAM, [nppIntent('pay_npp')]);
+      const sweeper = new RTGSApprovalExpirySweeper(store, { approvers, now: () => at(90) });
+
+      expect(await sweeper.sweep()).toEqual({ scanned: 2, expired: 1, failed: 0, conflicts: 0, errors: 0 });
+      const [last] = (await store.readStream('pay_lapsed')).slice(-1);
+      expect(last.event).toMatchObject({ rail: 'RTGS', event: { type: 'ApprovalExpired', occurredAt: at(90) } });
+      expect(await store.streamVersion('pay_live')).toBe(3);
+      // No envelope for a round that can be re-requested
+      expect(await store.listMessages()).toEqual([]);
+    });
+
+    it('should only read streams again once they are due or have changed', async () => {
+      let now = at(90);
+      const store = await storeWith([pendingEvents('pay_lapsed', at(60)), pendingEvents('pay_live', at(120))]);
+      await store.append('pay_npp', NO_STREAM, [nppIntent('pay_npp')]);
+      const sweeper = new RTGSApprovalExpirySweeper(store, { approvers, now: () => now });
+      await sweeper.sweep();
+
+      expect(await sweeper.sweep()).toMatchObject({ scanned: 0, expired: 0 });
+
+      // A new stream and a re-requested payment are read; the live one is not due yet
+      await store.append('pay_new', NO_STREAM, pendingEvents('pay_new', at(200)).map((event) => ({ rail: 'RTGS' as const, event })));
+      const created = await sweepStream(store, 'pay_lapsed');
+      await store.append('pay_lapsed', 4, reRequestRTGSApproval(created, at(95)).map((event) => ({ rail: 'RTGS' as const, event })));
+      expect(await sweeper.sweep()).toMatchObject({ scanned: 2, expired: 0 });
+
+      now = at(121);
+      expect(await sweeper.sweep()).toEqual({ scanned: 1, expired: 1, failed: 0, conflicts: 0, errors: 0 });
+    });
+
+    it('should fail the payment with APPROVAL_EXPIRED after the last round', async () => {
+      const store = await storeWith([pendingEvents('pay_1', at(60))]);
+      const sweeper = new RTGSApprovalExpirySweeper(store, { approvers, maxApprovalRounds: 1, now: () => at(90) });
+
+      expect(await sweeper.sweep()).toMatchObject({ expired: 0, failed: 1 });
+
+      const payment = await sweepStream(store, 'pay_1');
+      expect(payment.state).toBe(RTGSPaymentState.FAILED);
+      expect(payment.events.at(-1)).toMatchObject({ reason: RTGSFailureReason.APPROVAL_EXPIRED, fundsReleased: 0n });
+
+      const [message] = await store.listMessages();
+      expect(message.envelope).toMatchObject({
+        event_type: 'PaymentFailed',
+        payload: { payment_id: 'pay_1', failure_code: 'APPROVAL_EXPIRED' },
+      });
+
+      // Failed payments are never read again
+      expect(await sweeper.sweep()).toMatchObject({ scanned: 0 });
+    });
+
+    it('should count a stream that cannot be replayed and sweep the rest', async () => {
+      const poisoned = pendingEvents('pay_poison', at(60)).map((event) =>
+        event.type === 'ApprovalGranted' ? { ...event, approverId: 'user_mallory' } : event,
+      );
+      const store = await storeWith([poisoned, pendingEvents('pay_lapsed', at(60))]);
+      const sweeper = new RTGSApprovalExpirySweeper(store, { approvers, now: () => at(90) });
+
+      expect(await sweeper.sweep()).toEqual({ scanned: 2, expired: 1, failed: 0, conflicts: 0, errors: 1 });
+      expect(await store.streamVersion('pay_poison')).toBe(3);
+
+      // Not retried until the stream changes
+      expect(await sweeper.sweep()).toMatchObject({ scanned: 0, errors: 0 });
+      await store.append('pay_poison', 3, [
+        { rail: 'RTGS', event: { type: 'PaymentFailed', paymentIntentId: 'pay_poison', occurredAt: at(91), reason: RTGSFailureReason.CANCELLED, fundsReleased: 0n } },
+      ]);
+      expect(await sweeper.sweep()).toMatchObject({ scanned: 1, errors: 1 });
+    });
+  });
+});
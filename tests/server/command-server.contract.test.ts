@@ -0,0 +1,155 @@
+/**
+ * Command server contract tests.
+ * 
+ * Replays every request example in openapi.yaml against a live
+ * CommandServer and checks:
+ * - Status code matches the example's x-expected-status
+ * - Response body matches the documented response schema
+ * - Oversized bodies get 413 + ErrorResponse
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { CommandServer, MAX_BODY_BYTES } from '../../src/server/CommandServer';
+import { InMemoryCommandIdempotencyStore } from '../../src/command/CommandIdempotencyStore';
+import { CommandRejectedEmitter } from '../../src/command/CommandRejectedEmitter';
+import { setPublisher } from '../../src/emit/emit_event';
+import { InMemoryEventStore } from '../../src/store/InMemoryEventStore';
+import { RailEventRecord } from '../../src/rails/Rail';
+import { createApproverRegistry } from '../../src/domain/rtgs';
+import { OutboxRelay } from '../../src/outbox';
+import { parseBSBDirectory } from '../../src/bsb';
+
+const spec = parse(fs.readFileSync(path.resolve(__dirname, '../../openapi.yaml'), 'utf-8'));
+
+const ajv = new Ajv2020({ strict: false });
+addFormats(ajv);
+for (const [name, schema] of Object.entries(spec.components.schemas)) {
+  ajv.addSchema(schema as object, `#/components/schemas/${name}`);
+}
+
+interface ContractCase {
+  path: string;
+  name: string;
+  expectedStatus: number;
+  body: unknown;
+  responseSchema: object;
+}
+
+const cases: ContractCase[] = [];
+for (const [routePath, item] of Object.entries<any>(spec.paths)) {
+  const operation = item.post;
+  if (!operation) continue;
+
+  const examples = operation.requestBody.content['application/json'].examples ?? {};
+  for (const [name, example] of Object.entries<any>(examples)) {
+    const expectedStatus = example['x-expected-status'];
+    cases.push({
+      path: routePath,
+      name,
+      expectedStatus,
+      body: example.value,
+      responseSchema: operation.responses[String(expectedStatus)].content['application/json'].schema,
+    });
+  }
+}
+
+function compileResponseSchema(schema: any) {
+  // Component $refs were registered under their JSON pointer
+  return schema.$ref ? ajv.getSchema(schema.$ref)! : ajv.compile(schema);
+}
+
+describe('CommandServer contract (openapi.yaml examples)', () => {
+  let server: CommandServer;
+  let baseUrl: string;
+  let relay: OutboxRelay;
+  const published: any[] = [];
+
+  beforeAll(async () => {
+    const publisher = { publish: async (event: any) => { published.push(event); } };
+    const eventStore = new InMemoryEventStore<RailEventRecord>();
+    setPublisher(publisher);
+    relay = new OutboxRelay(eventStore, publisher);
+    server = new CommandServer({
+      eventStore,
+      approvers: createApproverRegistry('turing-cu'),
+      bsbDirectory: parseBSBDirectory('"062-000","CBA","Sydney","","Sydney","NSW","2000","PEH"'),
+      idempotencyStore: new InMemoryCommandIdempotencyStore(),
+      rejectedEmitter: new CommandRejectedEmitter(publisher),
+    });
+    const port = await server.listen(0);
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should cover every command path with accepted and rejected examples', () => {
+    const paths = new Set(cases.map((c) => c.path));
+    expect(paths.size).toBe(3);
+    for (const routePath of paths) {
+      const statuses = cases.filter((c) => c.path === routePath).map((c) => c.expectedStatus);
+      expect(statuses).toContain(202);
+      expect(statuses).toContain(400);
+    }
+  });
+
+  it.each(cases.map((c) => [`${c.path} ${c.name}`, c] as const))('%s', async (_, contractCase) => {
+    const response = await fetch(`${baseUrl}${contractCase.path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(contractCase.body),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(contractCase.expectedStatus);
+
+    const validate = compileResponseSchema(contractCase.responseSchema);
+    expect(validate(body), JSON.stringify(validate.errors)).toBe(true);
+
+    if (response.status === 202) {
+      expect(body.command_id).toBe((contractCase.body as any).command_id);
+    }
+  });
+
+  it('should emit exactly one event per accepted command', async () => {
+    await relay.drain();
+    const accepted = cases.filter((c) => c.expectedStatus === 202).length;
+    expect(published).toHaveLength(accepted);
+  });
+
+  it('should answer the health endpoint', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    const schema = spec.paths['/health'].get.responses['200'].content['application/json'].schema;
+
+    expect(response.status).toBe(200);
+    expect(ajv.validate(schema, await response.json())).toBe(true);
+  });
+
+  it('should return 400 for malformed JSON and 404 for unknown paths', async () => {
+    const malformed = await fetch(`${baseUrl}/commands/payments/initiate`, {
+      method: 'POST',
+      body: '{not json',
+    });
+    expect(malformed.status).toBe(400);
+
+    const unknown = await fetch(`${baseUrl}/commands/payments/refund`, { method: 'POST', body: '{}' });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should return 413 with an ErrorResponse for an oversized body', async () => {
+    const response = await fetch(`${baseUrl}/commands/payments/initiate`, {
+      method: 'POST',
+      body: JSON.stringify({ padding: 'x'.repeat(MAX_BODY_BYTES) }),
+    });
+    const schema = spec.paths['/commands/payments/initiate'].post.responses['413'].content['application/json'].schema;
+
+    expect(response.status).toBe(413);
+    expect(compileResponseSchema(schema)(await response.json())).toBe(true);
+  });
+});
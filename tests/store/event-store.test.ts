@@ -0,0 +1,312 @@
+/**
+ * Event store tests.
+ *
+ * Tests (against every backend):
+ * - Append and read back in order
+ * - bigint / Date round-trip
+ * - Optimistic concurrency (VersionConflictError)
+ * - Multi-stream appends land in every stream or none
+ * - Replay through a rail aggregate
+ *
+ * Tests (FileEventStore):
+ * - A multi-stream append interrupted by a crash is finished from its journal,
+ *   breaking the locks the dead writer left behind
+ * - Locks whose owner died or that are older than the timeout are broken;
+ *   live locks are waited for
+ * - A failed recovery is retried
+ *
+ * Tests (SqliteEventStore):
+ * - A writer waits for another connection's lock, then fails with the
+ *   retryable StoreBusyError
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import { spawnSync } from 'child_process';
+import os from 'os';
+import path from 'path';
+import {
+  EventStore,
+  InMemoryEventStore,
+  FileEventStore,
+  SqliteEventStore,
+  StoreBusyError,
+  VersionConflictError,
+  openSqliteDatabase,
+  NO_STREAM,
+  encodeEvent,
+} from '../../src/store';
+import { NPPPaymentEventUnion, NPPPaymentState, rebuildFromEvents } from '../../src/domain/npp';
+
+const ID = 'pay_store_001';
+
+const intent: NPPPaymentEventUnion = {
+  type: 'PaymentIntentCreated',
+  paymentIntentId: ID,
+  occurredAt: new Date('2024-12-17T10:00:00Z'),
+  amount: 10000n,
+  currency: 'AUD',
+  idempotencyKey: 'idem_store_001',
+  fromAccountId: 'acc_from',
+  toAccountId: 'acc_to',
+};
+
+const authorised: NPPPaymentEventUnion = {
+  type: 'PaymentAuthorised',
+  paymentIntentId: ID,
+  occurredAt: new Date('2024-12-17T10:00:01Z'),
+  policyChecksPassed: true,
+  fundsEarmarked: 10000n,
+};
+
+const backends: Array<[string, (dir: string) => EventStore<NPPPaymentEventUnion>]> = [
+  ['InMemoryEventStore', () => new InMemoryEventStore<NPPPaymentEventUnion>()],
+  ['FileEventStore', (dir) => new FileEventStore<NPPPaymentEventUnion>({ directory: dir })],
+  [
+    'SqliteEventStore',
+    (dir) => new SqliteEventStore<NPPPaymentEventUnion>({ filename: path.join(dir, 'events.db') }),
+  ],
+];
+
+describe.each(backends)('%s', (_name, createStore) => {
+  let dir: string;
+  let store: EventStore<NPPPaymentEventUnion>;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-store-'));
+    store = createStore(dir);
+  });
+
+  afterEach(() => {
+    if (store instanceof SqliteEventStore) {
+      store.close();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return an empty stream for unknown streams', async () => {
+    expect(await store.readStream('missing')).toEqual([]);
+    expect(await store.streamVersion('missing')).toBe(NO_STREAM);
+    expect(await store.listStreams()).toEqual([]);
+  });
+
+  it('should append and read events in order', async () => {
+    expect(await store.append(ID, NO_STREAM, [intent])).toBe(1);
+    expect(await store.append(ID, 1, [authorised])).toBe(2);
+
+    const stored = await store.readStream(ID);
+
+    expect(stored.map((s) => s.version)).toEqual([1, 2]);
+    expect(stored.map((s) => s.event.type)).toEqual(['PaymentIntentCreated', 'PaymentAuthorised']);
+    expect(await store.streamVersion(ID)).toBe(2);
+    expect(await store.listStreams()).toEqual([ID]);
+  });
+
+  it('should round-trip bigint and Date fields', async () => {
+    await store.append(ID, NO_STREAM, [intent]);
+
+    const [stored] = await store.readStream(ID);
+
+    expect(stored.event).toEqual(intent);
+    expect(stored.recorded_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject an append against a stale version', async () => {
+    await store.append(ID, NO_STREAM, [intent]);
+
+    await expect(store.append(ID, NO_STREAM, [intent])).rejects.toBeInstanceOf(
+      VersionConflictError,
+    );
+    expect(await store.streamVersion(ID)).toBe(1);
+  });
+
+  it('should let exactly one of two concurrent writers win', async () => {
+    await store.append(ID, NO_STREAM, [intent]);
+
+    const results = await Promise.allSettled([
+      store.append(ID, 1, [authorised]),
+      store.append(ID, 1, [authorised]),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find((r) => r.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(VersionConflictError);
+    expect(await store.streamVersion(ID)).toBe(2);
+  });
+
+  it('should append to several streams at once', async () => {
+    await store.append(ID, NO_STREAM, [intent]);
+
+    expect(
+      await store.appendAll([
+        { streamId: ID, expectedVersion: 1, events: [authorised] },
+        { streamId: 'pay_store_002', expectedVersion: NO_STREAM, events: [{ ...intent, paymentIntentId: 'pay_store_002' }] },
+      ]),
+    ).toEqual([2, 1]);
+    expect(await store.listStreams()).toEqual([ID, 'pay_store_002']);
+  });
+
+  it('should append to no stream if any is stale', async () => {
+    await store.append(ID, NO_STREAM, [intent]);
+
+    await expect(
+      store.appendAll([
+        { streamId: 'pay_store_002', expectedVersion: NO_STREAM, events: [{ ...intent, paymentIntentId: 'pay_store_002' }] },
+        { streamId: ID, expectedVersion: NO_STREAM, events: [intent] },
+      ]),
+    ).rejects.toBeInstanceOf(VersionConflictError);
+    expect(await store.listStreams()).toEqual([ID]);
+    expect(await store.streamVersion(ID)).toBe(1);
+  });
+
+  it('should refuse the same stream twice in one append', async () => {
+    await expect(
+      store.appendAll([
+        { streamId: ID, expectedVersion: NO_STREAM, events: [intent] },
+        { streamId: ID, expectedVersion: 1, events: [authorised] },
+      ]),
+    ).rejects.toThrow(`Stream ${ID} appears more than once in one append`);
+    expect(await store.streamVersion(ID)).toBe(NO_STREAM);
+  });
+
+  it('should rebuild the aggregate from the stored stream', async () => {
+    await store.append(ID, NO_STREAM, [intent, authorised]);
+
+    const payment = rebuildFromEvents((await store.readStream(ID)).map((s) => s.event));
+
+    expect(payment.state).toBe(NPPPaymentState.AUTHORISED);
+    expect(payment.amount).toBe(10000n);
+  });
+});
+
+/** A pid that has exited, for locks left by a writer that died */
+const DEAD_PID = spawnSync(process.execPath, ['-e', '']).pid;
+
+describe('FileEventStore journal', () => {
+  let dir: string;
+
+  const leaveLock = (streamId: string, pid: number, acquiredAt = new Date()) =>
+    fs.writeFileSync(path.join(dir, `${streamId}.jsonl.lock`), JSON.stringify({ pid, acquiredAt: acquiredAt.toISOString() }));
+  const crashedJournal = () => {
+    const recorded_at = new Date();
+    fs.writeFileSync(
+      path.join(dir, 'crashed.journal'),
+      JSON.stringify([
+        { streamId: ID, expectedVersion: 1, lines: [encodeEvent({ stream_id: ID, version: 2, recorded_at, event: authorised })] },
+        { streamId: 'pay_store_002', expectedVersion: 0, lines: [encodeEvent({ stream_id: 'pay_store_002', version: 1, recorded_at, event: other })] },
+      ]),
+    );
+    leaveLock(ID, DEAD_PID);
+    leaveLock('pay_store_002', DEAD_PID);
+  };
+  const other = { ...intent, paymentIntentId: 'pay_store_002' };
+  const leftovers = () => fs.readdirSync(dir).filter((file) => file.endsWith('.journal') || file.endsWith('.lock'));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should finish a multi-stream append interrupted by a crash', async () => {
+    const first = new FileEventStore<NPPPaymentEventUnion>({ directory: dir });
+    await first.append(ID, NO_STREAM, [intent]);
+
+    // The writer died holding both locks, after its journal and the first stream's events were written
+    await first.append(ID, 1, [authorised]);
+    crashedJournal();
+
+    const reopened = new FileEventStore<NPPPaymentEventUnion>({ directory: dir });
+
+    expect(await reopened.streamVersion(ID)).toBe(2);
+    expect((await reopened.readStream('pay_store_002')).map((s) => s.event)).toEqual([other]);
+    expect(leftovers()).toEqual([]);
+    expect(await reopened.append('pay_store_002', 1, [authorised])).toBe(2);
+  });
+
+  it('should finish a journal left by a writer that died while this store was open', async () => {
+    const store = new FileEventStore<NPPPaymentEventUnion>({ directory: dir });
+    await store.append(ID, NO_STREAM, [intent]);
+
+    crashedJournal();
+
+    await expect(store.append(ID, 1, [authorised])).rejects.toThrow(VersionConflictError);
+    expect(await store.streamVersion('pay_store_002')).toBe(1);
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should break a lock left by a writer that died', async () => {
+    const store = new FileEventStore<NPPPaymentEventUnion>({ directory: dir });
+    leaveLock(ID, DEAD_PID);
+
+    expect(await store.append(ID, NO_STREAM, [intent])).toBe(1);
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should break a lock held longer than the timeout', async () => {
+    const store = new FileEventStore<NPPPaymentEventUnion>({ directory: dir, lockTimeoutMs: 50 });
+    leaveLock(ID, process.pid, new Date(Date.now() - 60_000));
+
+    expect(await store.append(ID, NO_STREAM, [intent])).toBe(1);
+  });
+
+  it('should wait for a live lock to be released', async () => {
+    const store = new FileEventStore<NPPPaymentEventUnion>({ directory: dir });
+    leaveLock(ID, process.pid);
+    setTimeout(() => fs.rmSync(path.join(dir, `${ID}.jsonl.lock`)), 30);
+
+    expect(await store.append(ID, NO_STREAM, [intent])).toBe(1);
+  });
+
+  it('should retry a recovery that failed', async () => {
+    const store = new FileEventStore<NPPPaymentEventUnion>({ directory: dir });
+    fs.writeFileSync(path.join(dir, 'torn.journal'), '[{"streamId"');
+
+    await expect(store.readStream(ID)).rejects.toThrow(SyntaxError);
+
+    fs.rmSync(path.join(dir, 'torn.journal'));
+    expect(await store.readStream(ID)).toEqual([]);
+  });
+
+  it('should leave no journal behind after a multi-stream append', async () => {
+    const store = new FileEventStore<NPPPaymentEventUnion>({ directory: dir });
+
+    await store.appendAll([
+      { streamId: ID, expectedVersion: NO_STREAM, events: [intent, authorised] },
+      { streamId: 'pay_store_002', expectedVersion: NO_STREAM, events: [{ ...intent, paymentIntentId: 'pay_store_002' }] },
+    ]);
+
+    expect(fs.readdirSync(dir).sort()).toEqual([`${ID}.jsonl`, 'pay_store_002.jsonl']);
+  });
+});
+
+describe('SqliteEventStore locking', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fail with StoreBusyError while another connection holds the write lock', async () => {
+    const filename = path.join(dir, 'events.db');
+    const store = new SqliteEventStore<NPPPaymentEventUnion>({ filename, busyTimeoutMs: 50 });
+    const other = openSqliteDatabase(filename);
+
+    try {
+      other.exec('BEGIN IMMEDIATE');
+      await expect(store.append(ID, NO_STREAM, [intent])).rejects.toBeInstanceOf(StoreBusyError);
+
+      other.exec('ROLLBACK');
+      await expect(store.append(ID, NO_STREAM, [intent])).resolves.toBe(1);
+    } finally {
+      other.close();
+      store.close();
+    }
+  });
+});